@@ -117,7 +117,7 @@ run_cloudypad_docker() {
     # Local environment variables to pass-through in container
     local env_vars=(
         # CloudyPad
-        "CLOUDYPAD_LOG_LEVEL"
+        "CLOUDYPAD_LOG_LEVEL" "CLOUDYPAD_BUNDLE_PASSPHRASE"
 
         # AWS
         "AWS_PROFILE" "AWS_ACCESS_KEY_ID" "AWS_SECRET_ACCESS_KEY" "AWS_SESSION_TOKEN" 
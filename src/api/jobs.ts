@@ -0,0 +1,98 @@
+import { randomUUID } from "crypto"
+import { getLogger } from "../log/utils"
+import { Job, JobAction, JOB_STATUS_FAILED, JOB_STATUS_PENDING, JOB_STATUS_RUNNING, JOB_STATUS_SUCCEEDED } from "./schemas"
+
+/**
+ * Thrown when a job is submitted for an instance which already has an unfinished job.
+ */
+export class JobConflictError extends Error {
+    constructor(public readonly instanceName: string, public readonly runningJobId: string) {
+        super(`Instance ${instanceName} already has an unfinished job ${runningJobId}`)
+    }
+}
+
+export interface JobManagerArgs {
+    /**
+     * Maximum number of finished jobs kept in memory. Oldest finished jobs are removed first. Default: 100
+     */
+    maxFinishedJobs?: number
+}
+
+/**
+ * Run long instance actions in background and keep track of their status in memory.
+ * A single unfinished job is allowed per instance at a time.
+ */
+export class JobManager {
+
+    private readonly logger = getLogger(JobManager.name)
+    private readonly jobs = new Map<string, Job>()
+    private readonly maxFinishedJobs: number
+
+    constructor(args?: JobManagerArgs) {
+        this.maxFinishedJobs = args?.maxFinishedJobs ?? 100
+    }
+
+    /**
+     * Submit a job running given function in background. Returns immediately with pending job.
+     */
+    submit(instanceName: string, action: JobAction, fn: () => Promise<unknown>): Job {
+        const unfinished = this.list().find(j => j.instanceName === instanceName &&
+            (j.status === JOB_STATUS_PENDING || j.status === JOB_STATUS_RUNNING))
+        if(unfinished){
+            throw new JobConflictError(instanceName, unfinished.id)
+        }
+
+        const job: Job = {
+            id: randomUUID(),
+            instanceName: instanceName,
+            action: action,
+            status: JOB_STATUS_PENDING,
+            createdAt: Date.now(),
+        }
+        this.jobs.set(job.id, job)
+
+        this.logger.debug(`Submitted job ${job.id}: ${action} on instance ${instanceName}`)
+
+        // Run on next tick so that caller gets pending job before anything happens
+        setImmediate(() => { void this.run(job, fn) })
+
+        return { ...job }
+    }
+
+    get(jobId: string): Job | undefined {
+        const job = this.jobs.get(jobId)
+        return job ? { ...job } : undefined
+    }
+
+    list(): Job[] {
+        return Array.from(this.jobs.values()).map(j => ({ ...j }))
+    }
+
+    private async run(job: Job, fn: () => Promise<unknown>): Promise<void> {
+        job.status = JOB_STATUS_RUNNING
+        job.startedAt = Date.now()
+
+        try {
+            await fn()
+            job.status = JOB_STATUS_SUCCEEDED
+            this.logger.debug(`Job ${job.id} succeeded`)
+        } catch (error) {
+            job.status = JOB_STATUS_FAILED
+            job.error = error instanceof Error ? error.message : String(error)
+            this.logger.error(`Job ${job.id} (${job.action} on instance ${job.instanceName}) failed`, error)
+        } finally {
+            job.finishedAt = Date.now()
+            this.pruneFinishedJobs()
+        }
+    }
+
+    private pruneFinishedJobs() {
+        const finished = Array.from(this.jobs.values())
+            .filter(j => j.status === JOB_STATUS_SUCCEEDED || j.status === JOB_STATUS_FAILED)
+            .sort((a, b) => (a.finishedAt ?? 0) - (b.finishedAt ?? 0))
+
+        for(const job of finished.slice(0, Math.max(0, finished.length - this.maxFinishedJobs))){
+            this.jobs.delete(job.id)
+        }
+    }
+}
@@ -0,0 +1,220 @@
+import { z } from "zod"
+import lodash from "lodash"
+import { CLOUDYPAD_VERSION } from "../core/const"
+import { InstanceStateV1Schema } from "../core/state/state"
+import { INSTANCE_STATE_SECRET_PATHS } from "./redact"
+import { ActionRequestSchema, ErrorResponseSchema, InstanceStatusSchema, JobSchema, PairSendPinRequestSchema, StartStopRequestSchema } from "./schemas"
+
+type JsonSchema = Record<string, unknown>
+
+/**
+ * Convert a Zod schema into an OpenAPI 3.0 compatible JSON schema.
+ * Only Zod types used by Cloudy Pad schemas are supported, other types are converted to an empty schema (any value).
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+    const result = convertZodType(schema)
+    if(schema.description && result.description === undefined){
+        result.description = schema.description
+    }
+    return result
+}
+
+function convertZodType(schema: z.ZodTypeAny): JsonSchema {
+    if(schema instanceof z.ZodObject){
+        const properties: Record<string, JsonSchema> = {}
+        const required: string[] = []
+        for(const [key, value] of Object.entries(schema.shape as z.ZodRawShape)){
+            properties[key] = zodToJsonSchema(value)
+            if(!value.isOptional()){
+                required.push(key)
+            }
+        }
+        return {
+            type: "object",
+            properties: properties,
+            ...(required.length > 0 ? { required: required } : {}),
+            ...(schema._def.unknownKeys === "passthrough" ? { additionalProperties: true } : {}),
+        }
+    }
+    if(schema instanceof z.ZodString){
+        return { type: "string" }
+    }
+    if(schema instanceof z.ZodNumber){
+        return { type: schema.isInt ? "integer" : "number" }
+    }
+    if(schema instanceof z.ZodBoolean){
+        return { type: "boolean" }
+    }
+    if(schema instanceof z.ZodLiteral){
+        return { type: typeof schema.value, enum: [ schema.value ] }
+    }
+    if(schema instanceof z.ZodEnum){
+        return { type: "string", enum: [ ...schema.options ] }
+    }
+    if(schema instanceof z.ZodNativeEnum){
+        return { type: "string", enum: Object.values(schema.enum) }
+    }
+    if(schema instanceof z.ZodArray){
+        return { type: "array", items: zodToJsonSchema(schema.element) }
+    }
+    if(schema instanceof z.ZodRecord){
+        return { type: "object", additionalProperties: zodToJsonSchema(schema.valueSchema) }
+    }
+    if(schema instanceof z.ZodUnion){
+        return { oneOf: (schema.options as z.ZodTypeAny[]).map(o => zodToJsonSchema(o)) }
+    }
+    if(schema instanceof z.ZodOptional){
+        return zodToJsonSchema(schema.unwrap())
+    }
+    if(schema instanceof z.ZodNullable){
+        return { ...zodToJsonSchema(schema.unwrap()), nullable: true }
+    }
+    if(schema instanceof z.ZodDefault){
+        return { ...zodToJsonSchema(schema.removeDefault()), default: schema._def.defaultValue() }
+    }
+    if(schema instanceof z.ZodEffects){
+        return zodToJsonSchema(schema.innerType())
+    }
+    return {}
+}
+
+/**
+ * Remove properties at given paths (eg. "provision.input.ssh.passwordBase64") from an object JSON schema.
+ * Paths not found in schema are ignored.
+ */
+function omitJsonSchemaProperties(schema: JsonSchema, paths: string[]): JsonSchema {
+    const result = lodash.cloneDeep(schema)
+    for(const propertyPath of paths){
+        const keys = propertyPath.split(".")
+        const parentPath = keys.slice(0, -1).flatMap(k => [ "properties", k ])
+        const parent: JsonSchema | undefined = parentPath.length > 0 ? lodash.get(result, parentPath) : result
+        const property = keys[keys.length - 1]
+
+        const properties = parent?.properties as Record<string, JsonSchema> | undefined
+        if(!parent || !properties || !(property in properties)){
+            continue
+        }
+
+        delete properties[property]
+        if(Array.isArray(parent.required)){
+            parent.required = parent.required.filter(r => r !== property)
+        }
+    }
+    return result
+}
+
+function jsonContent(schema: JsonSchema | { $ref: string }) {
+    return { "application/json": { schema: schema } }
+}
+
+function jobOperation(summary: string, requestSchemaRef?: string) {
+    return {
+        post: {
+            summary: summary,
+            parameters: [ { $ref: "#/components/parameters/InstanceName" } ],
+            ...(requestSchemaRef ? { requestBody: { required: false, content: jsonContent({ $ref: requestSchemaRef }) } } : {}),
+            responses: {
+                "202": { description: "Job accepted", content: jsonContent({ $ref: "#/components/schemas/Job" }) },
+                "400": { $ref: "#/components/responses/Error" },
+                "404": { $ref: "#/components/responses/Error" },
+                "409": { description: "Instance already has an unfinished job", content: jsonContent({ $ref: "#/components/schemas/Error" }) },
+            }
+        }
+    }
+}
+
+/**
+ * Build OpenAPI document describing Cloudy Pad HTTP API. Schemas are generated from Zod schemas
+ * so that the document always matches validation done by server and persisted instance states.
+ */
+export function buildOpenApiDocument(): Record<string, unknown> {
+    return {
+        openapi: "3.0.3",
+        info: {
+            title: "Cloudy Pad API",
+            version: CLOUDYPAD_VERSION,
+            description: "Manage Cloudy Pad instances. Long actions are run as asynchronous jobs which can be polled for status.",
+        },
+        security: [ { bearerAuth: [] } ],
+        paths: {
+            "/instances": {
+                get: {
+                    summary: "List instance names",
+                    responses: {
+                        "200": {
+                            description: "Instance names",
+                            content: jsonContent({ type: "object", properties: { instances: { type: "array", items: { type: "string" } } }, required: [ "instances" ] })
+                        }
+                    }
+                }
+            },
+            "/instances/{name}": {
+                get: {
+                    summary: "Get instance state",
+                    parameters: [ { $ref: "#/components/parameters/InstanceName" } ],
+                    responses: {
+                        "200": { description: "Instance state, without secrets", content: jsonContent({ $ref: "#/components/schemas/InstanceState" }) },
+                        "404": { $ref: "#/components/responses/Error" },
+                    }
+                }
+            },
+            "/instances/{name}/status": {
+                get: {
+                    summary: "Get instance status",
+                    parameters: [ { $ref: "#/components/parameters/InstanceName" } ],
+                    responses: {
+                        "200": { description: "Instance status", content: jsonContent({ $ref: "#/components/schemas/InstanceStatus" }) },
+                        "404": { $ref: "#/components/responses/Error" },
+                    }
+                }
+            },
+            "/instances/{name}/start": jobOperation("Start instance", "#/components/schemas/StartStopRequest"),
+            "/instances/{name}/stop": jobOperation("Stop instance", "#/components/schemas/StartStopRequest"),
+            "/instances/{name}/restart": jobOperation("Restart instance", "#/components/schemas/StartStopRequest"),
+            "/instances/{name}/deploy": jobOperation("Deploy instance: provision and configure", "#/components/schemas/ActionRequest"),
+            "/instances/{name}/destroy": jobOperation("Destroy instance", "#/components/schemas/ActionRequest"),
+            "/instances/{name}/pair-send-pin": jobOperation("Send Moonlight PIN to instance to pair Moonlight", "#/components/schemas/PairSendPinRequest"),
+            "/jobs": {
+                get: {
+                    summary: "List known jobs",
+                    responses: {
+                        "200": {
+                            description: "Jobs",
+                            content: jsonContent({ type: "object", properties: { jobs: { type: "array", items: { $ref: "#/components/schemas/Job" } } }, required: [ "jobs" ] })
+                        }
+                    }
+                }
+            },
+            "/jobs/{id}": {
+                get: {
+                    summary: "Get job status",
+                    parameters: [ { name: "id", in: "path", required: true, schema: { type: "string" } } ],
+                    responses: {
+                        "200": { description: "Job", content: jsonContent({ $ref: "#/components/schemas/Job" }) },
+                        "404": { $ref: "#/components/responses/Error" },
+                    }
+                }
+            },
+        },
+        components: {
+            securitySchemes: {
+                bearerAuth: { type: "http", scheme: "bearer" }
+            },
+            parameters: {
+                InstanceName: { name: "name", in: "path", required: true, schema: { type: "string" }, description: "Instance name" }
+            },
+            responses: {
+                Error: { description: "Error", content: jsonContent({ $ref: "#/components/schemas/Error" }) }
+            },
+            schemas: {
+                InstanceState: omitJsonSchemaProperties(zodToJsonSchema(InstanceStateV1Schema), INSTANCE_STATE_SECRET_PATHS),
+                InstanceStatus: zodToJsonSchema(InstanceStatusSchema),
+                ActionRequest: zodToJsonSchema(ActionRequestSchema),
+                StartStopRequest: zodToJsonSchema(StartStopRequestSchema),
+                PairSendPinRequest: zodToJsonSchema(PairSendPinRequestSchema),
+                Job: zodToJsonSchema(JobSchema),
+                Error: zodToJsonSchema(ErrorResponseSchema),
+            }
+        }
+    }
+}
@@ -0,0 +1,24 @@
+import lodash from "lodash"
+import { InstanceStateV1 } from "../core/state/state"
+
+/**
+ * Paths of secrets in instance states. Secrets are never exposed by API.
+ */
+export const INSTANCE_STATE_SECRET_PATHS = [
+    "provision.input.ssh.privateKeyContentBase64",
+    "provision.input.ssh.passwordBase64",
+    "provision.input.apiKey", // Paperspace
+    "provision.input.apiToken", // Linode
+    "configuration.input.sunshine.passwordBase64",
+]
+
+/**
+ * Copy of instance state without its secrets (SSH key and password, Sunshine password, provider credentials).
+ */
+export function redactInstanceState(state: InstanceStateV1): unknown {
+    const redacted = lodash.cloneDeep(state)
+    for(const secretPath of INSTANCE_STATE_SECRET_PATHS){
+        lodash.unset(redacted, secretPath)
+    }
+    return redacted
+}
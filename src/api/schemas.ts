@@ -0,0 +1,64 @@
+import { z } from "zod"
+import { ServerRunningStatus } from "../core/runner"
+
+const ActionRequestSchema = z.object({
+    retries: z.number().int().min(0).optional().describe("Number of retries for the action. Default: 0 (no retry)"),
+    retryDelaySeconds: z.number().min(0).optional().describe("Delay between retries in seconds."),
+    pulumiCancel: z.boolean().optional().describe("Cancel any stuck Pulumi operations before running the action."),
+}).describe("Options for instance actions")
+
+const StartStopRequestSchema = ActionRequestSchema.extend({
+    wait: z.boolean().optional().describe("Wait for instance to reach desired state before considering job done."),
+    waitTimeoutSeconds: z.number().min(0).optional().describe("Timeout when waiting for instance to reach desired state."),
+}).describe("Options for start, stop and restart actions")
+
+const PairSendPinRequestSchema = z.object({
+    pin: z.string().regex(/^\d{4}$/, "PIN must be 4 digits").describe("Moonlight PIN shown on client"),
+    retries: z.number().int().min(1).optional().describe("Number of attempts to send PIN."),
+    retryDelayMs: z.number().min(0).optional().describe("Delay between attempts in milliseconds."),
+}).describe("Send Moonlight PIN to instance streaming server")
+
+const InstanceStatusSchema = z.object({
+    serverStatus: z.nativeEnum(ServerRunningStatus).describe("Instance server running status"),
+    provisioned: z.boolean().describe("True if instance has been provisioned at least once"),
+    configured: z.boolean().describe("True if instance has been configured at least once"),
+    ready: z.boolean().describe("True if instance is ready to use and accept user connections"),
+})
+
+export const JOB_STATUS_PENDING = "pending"
+export const JOB_STATUS_RUNNING = "running"
+export const JOB_STATUS_SUCCEEDED = "succeeded"
+export const JOB_STATUS_FAILED = "failed"
+
+export const JOB_ACTION_LIST = ["start", "stop", "restart", "deploy", "destroy", "pair-send-pin"] as const
+
+const JobSchema = z.object({
+    id: z.string().describe("Unique job ID"),
+    instanceName: z.string().describe("Instance the job acts on"),
+    action: z.enum(JOB_ACTION_LIST).describe("Action run by job"),
+    status: z.enum([JOB_STATUS_PENDING, JOB_STATUS_RUNNING, JOB_STATUS_SUCCEEDED, JOB_STATUS_FAILED]).describe("Current job status"),
+    createdAt: z.number().describe("Job creation date (Linux timestamp)"),
+    startedAt: z.number().optional().describe("Job start date (Linux timestamp)"),
+    finishedAt: z.number().optional().describe("Job end date (Linux timestamp)"),
+    error: z.string().optional().describe("Error message if job failed"),
+})
+
+const ErrorResponseSchema = z.object({
+    error: z.string().describe("Error message"),
+})
+
+export {
+    ActionRequestSchema,
+    StartStopRequestSchema,
+    PairSendPinRequestSchema,
+    InstanceStatusSchema,
+    JobSchema,
+    ErrorResponseSchema,
+}
+
+export type ActionRequest = z.infer<typeof ActionRequestSchema>
+export type StartStopRequest = z.infer<typeof StartStopRequestSchema>
+export type PairSendPinRequest = z.infer<typeof PairSendPinRequestSchema>
+export type Job = z.infer<typeof JobSchema>
+export type JobAction = Job["action"]
+export type JobStatus = Job["status"]
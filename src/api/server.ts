@@ -0,0 +1,283 @@
+import * as http from "http"
+import { AddressInfo } from "net"
+import { timingSafeEqual } from "crypto"
+import { z } from "zod"
+import { getLogger } from "../log/utils"
+import { CloudypadClient } from "../core/client"
+import { CoreConfig } from "../core/config/interface"
+import { InstanceManager } from "../core/manager"
+import { isValidInstanceName } from "../core/state/state"
+import { JobConflictError, JobManager } from "./jobs"
+import { buildOpenApiDocument } from "./openapi"
+import { redactInstanceState } from "./redact"
+import { ActionRequestSchema, JobAction, PairSendPinRequestSchema, StartStopRequestSchema } from "./schemas"
+
+const MAX_BODY_SIZE_BYTES = 1024 * 1024
+
+export interface CloudypadApiServerArgs {
+    config: CoreConfig
+
+    /**
+     * Token clients must provide as Bearer token in Authorization header
+     */
+    token: string
+
+    /**
+     * Host to listen on. Default: 127.0.0.1
+     */
+    host?: string
+
+    /**
+     * Port to listen on. Use 0 for a random available port. Default: 8080
+     */
+    port?: number
+}
+
+interface ApiResponse {
+    status: number
+    body: unknown
+}
+
+class HttpError extends Error {
+    constructor(public readonly status: number, message: string) {
+        super(message)
+    }
+}
+
+/**
+ * HTTP JSON API exposing CloudypadClient and InstanceManager operations.
+ *
+ * Read operations (list, state, status) respond synchronously. Actions on instances
+ * (start, stop, deploy, etc.) are run as background jobs whose status can be polled via /jobs/{id}.
+ * All endpoints except /openapi.json require Bearer token authentication.
+ */
+export class CloudypadApiServer {
+
+    private readonly logger = getLogger(CloudypadApiServer.name)
+    private readonly args: CloudypadApiServerArgs
+    private readonly coreClient: CloudypadClient
+    private readonly jobManager: JobManager
+    private readonly server: http.Server
+
+    constructor(args: CloudypadApiServerArgs) {
+        if(!args.token){
+            throw new Error("API token must not be empty")
+        }
+
+        this.args = args
+        this.coreClient = new CloudypadClient({ config: args.config })
+        this.jobManager = new JobManager()
+        this.server = http.createServer((req, res) => { void this.handle(req, res) })
+    }
+
+    /**
+     * Start listening. Returns the address server is listening on.
+     */
+    async listen(): Promise<AddressInfo> {
+        const host = this.args.host ?? "127.0.0.1"
+        const port = this.args.port ?? 8080
+
+        await new Promise<void>((resolve, reject) => {
+            this.server.once("error", reject)
+            this.server.listen(port, host, () => {
+                this.server.off("error", reject)
+                resolve()
+            })
+        })
+
+        const address = this.server.address() as AddressInfo
+        this.logger.debug(`Cloudy Pad API listening on http://${address.address}:${address.port}`)
+        return address
+    }
+
+    /**
+     * Stop accepting new connections. Running jobs are not interrupted.
+     */
+    async close(): Promise<void> {
+        await new Promise<void>((resolve, reject) => {
+            this.server.close(err => err ? reject(err) : resolve())
+            this.server.closeAllConnections()
+        })
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        let response: ApiResponse
+        try {
+            response = await this.route(req)
+        } catch (error) {
+            if(error instanceof HttpError){
+                response = { status: error.status, body: { error: error.message } }
+            } else if(error instanceof JobConflictError){
+                response = { status: 409, body: { error: error.message } }
+            } else {
+                this.logger.error(`Error handling ${req.method} ${req.url}`, error)
+                response = { status: 500, body: { error: error instanceof Error ? error.message : String(error) } }
+            }
+        }
+
+        this.logger.debug(`${req.method} ${req.url} -> ${response.status}`)
+
+        res.writeHead(response.status, { "Content-Type": "application/json" })
+        res.end(JSON.stringify(response.body))
+    }
+
+    private async route(req: http.IncomingMessage): Promise<ApiResponse> {
+        const method = req.method ?? "GET"
+        const url = new URL(req.url ?? "/", "http://localhost")
+        const segments = url.pathname.split("/").filter(s => s.length > 0).map(s => decodeURIComponent(s))
+
+        if(method === "GET" && url.pathname === "/openapi.json"){
+            return { status: 200, body: buildOpenApiDocument() }
+        }
+
+        this.authenticate(req)
+
+        // /instances
+        if(segments[0] === "instances"){
+            if(segments.length === 1 && method === "GET"){
+                return { status: 200, body: { instances: await this.coreClient.getAllInstances() } }
+            }
+
+            const instanceName = segments[1]
+            if(!isValidInstanceName(instanceName)){
+                throw new HttpError(400, `Invalid instance name '${instanceName}': instance name must be kebab case`)
+            }
+
+            if(segments.length === 2 && method === "GET"){
+                const manager = await this.getInstanceManager(instanceName)
+                return { status: 200, body: redactInstanceState(await manager.getState()) }
+            }
+
+            if(segments.length === 3 && method === "GET" && segments[2] === "status"){
+                const manager = await this.getInstanceManager(instanceName)
+                return { status: 200, body: await manager.getInstanceStatus() }
+            }
+
+            if(segments.length === 3 && method === "POST"){
+                return this.submitInstanceAction(instanceName, segments[2], await this.readBody(req))
+            }
+        }
+
+        // /jobs
+        if(segments[0] === "jobs" && method === "GET"){
+            if(segments.length === 1){
+                return { status: 200, body: { jobs: this.jobManager.list() } }
+            }
+            if(segments.length === 2){
+                const job = this.jobManager.get(segments[1])
+                if(!job){
+                    throw new HttpError(404, `Job ${segments[1]} not found`)
+                }
+                return { status: 200, body: job }
+            }
+        }
+
+        throw new HttpError(404, `No route for ${method} ${url.pathname}`)
+    }
+
+    private async submitInstanceAction(instanceName: string, action: string, body: unknown): Promise<ApiResponse> {
+        const manager = await this.getInstanceManager(instanceName)
+
+        let jobAction: JobAction
+        let jobFn: () => Promise<unknown>
+        switch(action){
+            case "start": {
+                const opts = this.parseBody(StartStopRequestSchema, body)
+                jobAction = "start"
+                jobFn = () => manager.start(opts)
+                break
+            }
+            case "stop": {
+                const opts = this.parseBody(StartStopRequestSchema, body)
+                jobAction = "stop"
+                jobFn = () => manager.stop(opts)
+                break
+            }
+            case "restart": {
+                const opts = this.parseBody(StartStopRequestSchema, body)
+                jobAction = "restart"
+                jobFn = () => manager.restart(opts)
+                break
+            }
+            case "deploy": {
+                const opts = this.parseBody(ActionRequestSchema, body)
+                jobAction = "deploy"
+                jobFn = () => manager.deploy(opts)
+                break
+            }
+            case "destroy": {
+                const opts = this.parseBody(ActionRequestSchema, body)
+                jobAction = "destroy"
+                jobFn = () => manager.destroy(opts)
+                break
+            }
+            case "pair-send-pin": {
+                const pairRequest = this.parseBody(PairSendPinRequestSchema, body)
+                jobAction = "pair-send-pin"
+                jobFn = async () => {
+                    const paired = await manager.pairSendPin(pairRequest.pin, pairRequest.retries, pairRequest.retryDelayMs)
+                    if(!paired){
+                        throw new Error(`Failed to pair instance ${instanceName} with provided PIN`)
+                    }
+                }
+                break
+            }
+            default:
+                throw new HttpError(404, `Unknown instance action '${action}'`)
+        }
+
+        const job = this.jobManager.submit(instanceName, jobAction, jobFn)
+        return { status: 202, body: job }
+    }
+
+    private authenticate(req: http.IncomingMessage) {
+        const header = req.headers.authorization ?? ""
+        const match = header.match(/^Bearer (.+)$/)
+
+        const expected = Buffer.from(this.args.token)
+        const provided = Buffer.from(match ? match[1] : "")
+
+        if(provided.length !== expected.length || !timingSafeEqual(provided, expected)){
+            throw new HttpError(401, "Missing or invalid API token")
+        }
+    }
+
+    private async getInstanceManager(instanceName: string): Promise<InstanceManager> {
+        const exists = await this.coreClient.instanceExists(instanceName)
+        if(!exists){
+            throw new HttpError(404, `Instance ${instanceName} not found`)
+        }
+        return this.coreClient.buildInstanceManager(instanceName)
+    }
+
+    private parseBody<T extends z.ZodTypeAny>(schema: T, body: unknown): z.infer<T> {
+        const result = schema.safeParse(body)
+        if(!result.success){
+            throw new HttpError(400, `Invalid request body: ${JSON.stringify(result.error.format())}`)
+        }
+        return result.data
+    }
+
+    private async readBody(req: http.IncomingMessage): Promise<unknown> {
+        const chunks: Buffer[] = []
+        let size = 0
+        for await (const chunk of req){
+            size += chunk.length
+            if(size > MAX_BODY_SIZE_BYTES){
+                throw new HttpError(413, "Request body too large")
+            }
+            chunks.push(chunk)
+        }
+
+        const raw = Buffer.concat(chunks).toString("utf-8").trim()
+        if(raw.length === 0){
+            return {}
+        }
+
+        try {
+            return JSON.parse(raw)
+        } catch (error) {
+            throw new HttpError(400, `Request body is not valid JSON: ${error instanceof Error ? error.message : String(error)}`)
+        }
+    }
+}
@@ -3,6 +3,8 @@ import { PUBLIC_IP_TYPE, PUBLIC_IP_TYPE_DYNAMIC, PUBLIC_IP_TYPE_STATIC } from ".
 import { AnalyticsManager } from "../tools/analytics/manager";
 import { CoreConfig } from "../core/config/interface";
 import { z } from "zod";
+import { PROVIDER_CAPABILITY_LIST, ProviderCapabilities, ProviderCapability } from "../core/provider-capabilities";
+import { DEFAULT_BULK_CONCURRENCY } from "../core/bulk";
 
 //
 // Common CLI Option each providers can re-use
@@ -35,6 +37,7 @@ export const CreateCliArgsSchema = z.object({
     retries: z.number().optional(),
     retryDelay: z.number().optional(),
     ratelimitMaxMbps: z.number().optional(),
+    label: z.array(z.string()).optional(),
 })
 
 /**
@@ -55,7 +58,8 @@ export const UpdateCliArgsSchema = CreateCliArgsSchema.omit({
     sshPrivateKey: true, 
     streamingServer: true })
 .extend({
-    name: z.string()
+    name: z.string(),
+    plan: z.boolean().optional(),
 })
 
 /**
@@ -130,6 +134,19 @@ export const CLI_OPTION_RETRIES = new Option('--retries <number>', 'Number of re
 export const CLI_OPTION_RETRY_DELAY = new Option('--retry-delay <seconds>', 'Retry delay in seconds when deploying, configuring, starting, stopping or destroying instance')
     .argParser(parseInt)
 
+export const CLI_OPTION_PLAN = new Option('--plan', 'Preview changes on Cloud resources (created, updated, replaced or deleted) and show them before asking for approval. ' + 
+    'Only used for providers relying on Pulumi for infrastructure management, ignored otherwise.')
+
+export const CLI_OPTION_LABELS = new Option('--label <key=value...>', 'Instance labels used to select instances for bulk actions (eg. "team=ops env=lan-party"). ' +
+    'On update, "key-" removes a label.')
+
+export const CLI_OPTION_SELECTOR = new Option('--selector <selector>', 'Run on all instances matching label selector instead of a single instance. ' +
+    'Comma-separated requirements which must all match: "key=value", "key!=value", "key" or "!key" (eg. "team=ops,env!=prod")')
+export const CLI_OPTION_ALL = new Option('--all', 'Run on all instances instead of a single instance')
+export const CLI_OPTION_CONCURRENCY = new Option('--concurrency <number>', 'Maximum number of instances processed at the same time with --selector or --all')
+    .default(DEFAULT_BULK_CONCURRENCY)
+    .argParser(parsePositiveInt)
+
 export const CLI_OPTION_RATE_LIMIT_MAX_MBPS = new Option('--ratelimit-max-mbps <mbps>', 'Rate limit egress bandwidth in Mbps. Can be used to limit egress cost. 0 to disable rate limiting.')
     .argParser(parseInt)
 
@@ -159,6 +176,50 @@ export const CLI_OPTION_KEEP_BASE_IMAGE_ON_DELETION = new Option('--base-image-k
     'Only applies when base-image-snapshot-enable is also enabled. ')
     .argParser(parseFalseOrDisable)
 
+/**
+ * Options shown on 'create' command for providers supporting related capability
+ */
+export const CLI_OPTIONS_BY_CAPABILITY: Record<ProviderCapability, Option[]> = {
+    spot: [ CLI_OPTION_SPOT ],
+    staticIp: [ CLI_OPTION_PUBLIC_IP_TYPE ],
+    costAlert: [ CLI_OPTION_COST_ALERT, CLI_OPTION_COST_LIMIT, CLI_OPTION_COST_NOTIFICATION_EMAIL ],
+    dataDisk: [ CLI_OPTION_DATA_DISK_SIZE ],
+    dataDiskSnapshot: [ CLI_OPTION_DATA_DISK_SNAPSHOT_ENABLE ],
+    baseImageSnapshot: [ CLI_OPTION_BASE_IMAGE_SNAPSHOT_ENABLE, CLI_OPTION_KEEP_BASE_IMAGE_ON_DELETION ],
+    deleteInstanceServerOnStop: [ CLI_OPTION_DELETE_INSTANCE_SERVER_ON_STOP ],
+}
+
+/**
+ * Get options to show on 'create' command for given provider capabilities
+ */
+export function getCapabilityCliOptions(capabilities: ProviderCapabilities): Option[] {
+    return PROVIDER_CAPABILITY_LIST
+        .filter(capability => capabilities[capability])
+        .flatMap(capability => CLI_OPTIONS_BY_CAPABILITY[capability])
+}
+
+/**
+ * Check option combinations which can't be satisfied together. Options set with their default value
+ * are not considered as explicitly set by user and are not checked.
+ * 
+ * @param cliArgs parsed CLI args
+ * @param isExplicit whether an option was explicitly set by user
+ * @throws Error if an unsupported combination is found
+ */
+export function validateCliArgsCombinations(cliArgs: Record<string, unknown>, isExplicit: (key: string) => boolean): void {
+    if(cliArgs.costAlert === false && (cliArgs.costLimit !== undefined || cliArgs.costNotificationEmail !== undefined)){
+        throw new Error("--cost-limit and --cost-notification-email can't be used with cost alert disabled (--cost-alert disable)")
+    }
+
+    if(cliArgs.baseImageKeepOnDeletion === true && cliArgs.baseImageSnapshot === false && isExplicit("baseImageSnapshot")){
+        throw new Error("--base-image-keep-on-deletion requires base image snapshot, it can't be used with --base-image-snapshot disable")
+    }
+
+    if(cliArgs.dataDiskSize === 0 && cliArgs.dataDiskSnapshot === true && isExplicit("dataDiskSnapshot")){
+        throw new Error("--data-disk-snapshot requires a data disk, it can't be used with --data-disk-size 0")
+    }
+}
+
 function parseFalseOrDisable(value: string){
     return value === "disable" || value === "no" || value === "false" || value === "0" ? false : true
 }
@@ -180,9 +241,10 @@ export abstract class CliCommandGenerator {
 
     /**
      * Create a base 'create' command for a given provider name with possibilities to chain with additional options.
+     * Options related to provider capabilities are added only if provider supports them.
      */
-    protected getBaseCreateCommand(provider: string){
-        return new Command(provider)
+    protected getBaseCreateCommand(provider: string, capabilities: ProviderCapabilities){
+        const command = new Command(provider)
             .description(`Create a new Cloudy Pad instance using ${provider} provider.`)
             .addOption(CLI_OPTION_INSTANCE_NAME)
             .addOption(CLI_OPTION_PRIVATE_SSH_KEY_OLD)
@@ -190,24 +252,45 @@ export abstract class CliCommandGenerator {
             .addOption(CLI_OPTION_AUTO_APPROVE)
             .addOption(CLI_OPTION_OVERWRITE_EXISTING)
             .addOption(CLI_OPTION_SKIP_PAIRING)
+            .addOption(CLI_OPTION_LABELS)
             .addOption(CLI_OPTION_ANSIBLE_ADDITIONAL_ARGS)
             .addOption(CLI_OPTION_RETRIES)
             .addOption(CLI_OPTION_RETRY_DELAY)
             .addOption(CLI_OPTION_FORCE_PULUMI_CANCEL)
+
+        for(const option of getCapabilityCliOptions(capabilities)){
+            command.addOption(option)
+        }
+
+        return this.addCliArgsValidation(command)
     }
 
     /**
      * Create a base 'update' command for a given provider name with possibilities to chain with additional options.
      */
     protected getBaseUpdateCommand(provider: string){
-        return new Command(provider)
+        const command = new Command(provider)
             .description(`Update an existing Cloudy Pad instance using ${provider} provider.`)
             .requiredOption('--name <name>', 'Instance name')
             .addOption(CLI_OPTION_AUTO_APPROVE)
+            .addOption(CLI_OPTION_PLAN)
+            .addOption(CLI_OPTION_LABELS)
             .addOption(CLI_OPTION_ANSIBLE_ADDITIONAL_ARGS)
             .addOption(CLI_OPTION_RETRIES)
             .addOption(CLI_OPTION_RETRY_DELAY)
             .addOption(CLI_OPTION_FORCE_PULUMI_CANCEL)
+
+        return this.addCliArgsValidation(command)
+    }
+
+    /**
+     * Reject unsupported option combinations before running command action
+     */
+    private addCliArgsValidation<C extends Command<[]>>(command: C): C {
+        command.hook('preAction', (_, actionCommand) => {
+            validateCliArgsCombinations(actionCommand.opts(), (key) => actionCommand.getOptionValueSource(key) === 'cli')
+        })
+        return command
     }
 
     /**
@@ -228,3 +311,11 @@ export function parsePublicIpType(value: string): PUBLIC_IP_TYPE {
     }
     return value
 }
+
+export function parsePositiveInt(value: string): number {
+    const parsed = /^\d+$/.test(value.trim()) ? parseInt(value, 10) : NaN
+    if (isNaN(parsed) || parsed <= 0) {
+        throw new Error(`Invalid value '${value}', expected a positive integer`)
+    }
+    return parsed
+}
@@ -6,8 +6,10 @@ import { AnalyticsManager } from "../tools/analytics/manager"
 import { InstanceInputs } from "../core/state/state"
 import { InstanceInitializer } from "../core/initializer"
 import { getLogger } from "../log/utils"
-import { InstanceStateV1 } from "../core/state/state"
+import { InstanceLabels, InstanceStateV1 } from "../core/state/state"
 import { AbstractProviderClient } from "../core/provider"
+import { CliProgressRenderer } from "./progress"
+import { parseLabelArgs } from "../core/labels"
 
 export interface InteractiveInstancerInitializerArgs<ST extends InstanceStateV1, A extends CreateCliArgs> {
     providerClient: AbstractProviderClient<ST>
@@ -53,9 +55,10 @@ export class InteractiveInstanceInitializer<
 
             this.logger.debug(`Initializing instance from CLI args ${JSON.stringify(this.args.initArgs)} and options ${JSON.stringify(options)}`)
             
+            const labels = parseLabelArgs(this.args.initArgs.label ?? []).set
             const input = await this.cliArgsToInput(this.args.initArgs)
 
-            await this.doInitializeState(input.instanceName, input.provision, input.configuration)
+            await this.doInitializeState(input.instanceName, input.provision, input.configuration, labels)
 
             await this.doDeploy(input.instanceName)
 
@@ -84,15 +87,16 @@ export class InteractiveInstanceInitializer<
         return input
     }
 
-    private async doInitializeState(instanceName: string, provisionInput: ST["provision"]["input"], configurationInput: ST["configuration"]["input"]) {
+    private async doInitializeState(instanceName: string, provisionInput: ST["provision"]["input"], configurationInput: ST["configuration"]["input"], labels: InstanceLabels) {
         this.analyticsEvent("create_instance_start_state_init")
-        await this.instanceInitializer.initializeStateOnly(instanceName, provisionInput, configurationInput)
+        await this.instanceInitializer.initializeStateOnly(instanceName, provisionInput, configurationInput, labels)
         this.analyticsEvent("create_instance_finish_state_init")
     }
 
     private async doDeploy(instanceName: string) {
         this.analyticsEvent("create_instance_start_deploy")
         const manager = await this.args.providerClient.getInstanceManager(instanceName)
+        new CliProgressRenderer().attach(manager)
         await manager.deploy()
         this.analyticsEvent("create_instance_finish_deploy")
     }
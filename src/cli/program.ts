@@ -5,19 +5,57 @@ import { AzureCliCommandGenerator } from '../providers/azure/cli';
 import { AwsCliCommandGenerator } from '../providers/aws/cli';
 import { PaperspaceCliCommandGenerator } from '../providers/paperspace/cli';
 import { AnalyticsManager } from '../tools/analytics/manager';
-import { RUN_COMMAND_CONFIGURE, RUN_COMMAND_DEPLOY, RUN_COMMAND_DESTROY, RUN_COMMAND_GET, RUN_COMMAND_LIST, RUN_COMMAND_PAIR, RUN_COMMAND_PROVISION, RUN_COMMAND_RESTART, RUN_COMMAND_START, RUN_COMMAND_STOP } from '../tools/analytics/events';
-import { CLOUDYPAD_VERSION } from '../core/const';
-import { confirm } from '@inquirer/prompts';
+import { RUN_COMMAND_APPLY, RUN_COMMAND_CONFIGURE, RUN_COMMAND_COST_ESTIMATE, RUN_COMMAND_DEPLOY, RUN_COMMAND_DESTROY, RUN_COMMAND_DRIFT, RUN_COMMAND_EVENTS, RUN_COMMAND_GET, RUN_COMMAND_LIST, RUN_COMMAND_ORPHANS, RUN_COMMAND_PAIR, RUN_COMMAND_PLAN, RUN_COMMAND_PROVIDERS, RUN_COMMAND_PROVISION, RUN_COMMAND_RESTART, RUN_COMMAND_SERVE, RUN_COMMAND_START, RUN_COMMAND_STATE_HISTORY, RUN_COMMAND_STATE_MIGRATE, RUN_COMMAND_STATE_ROLLBACK, RUN_COMMAND_STOP, RUN_COMMAND_UNLOCK, RUN_COMMAND_USAGE, RUN_COMMAND_BUDGET_SET, RUN_COMMAND_BUDGET_REMOVE, RUN_COMMAND_WATCH, RUN_COMMAND_SCHEDULE_SET, RUN_COMMAND_SCHEDULE_LIST, RUN_COMMAND_SCHEDULE_REMOVE, RUN_COMMAND_SCHEDULER_RUN, RUN_COMMAND_CLONE, RUN_COMMAND_RENAME, RUN_COMMAND_EXPORT, RUN_COMMAND_IMPORT } from '../tools/analytics/events';
+import { CLOUDYPAD_VERSION,
+    CLOUDYPAD_PROVIDER_AWS,
+    CLOUDYPAD_PROVIDER_AZURE,
+    CLOUDYPAD_PROVIDER_DUMMY,
+    CLOUDYPAD_PROVIDER_GCP,
+    CLOUDYPAD_PROVIDER_LINODE,
+    CLOUDYPAD_PROVIDER_PAPERSPACE,
+    CLOUDYPAD_PROVIDER_SCALEWAY,
+    CLOUDYPAD_PROVIDER_SSH
+} from '../core/const';
+import { confirm, password } from '@inquirer/prompts';
 import { ConfirmationPrompter } from './prompter';
 import { ScalewayCliCommandGenerator } from '../providers/scaleway/cli';
 import { DummyCliCommandGenerator } from '../providers/dummy/cli';
 import { SshCliCommandGenerator } from '../providers/ssh/cli';
+import { LinodeCliCommandGenerator } from '../providers/linode/cli';
 import { ConfigLoader } from '../core/config/default';
 import { CloudypadClient } from '../core/client';
 import { CoreConfig } from '../core/config/interface';
 import { InstanceManagerBuilder } from '../core/manager-builder';
 import { InstanceManager } from '../core/manager';
-import { CLI_OPTION_RETRIES, CLI_OPTION_RETRY_DELAY, CLI_OPTION_FORCE_PULUMI_CANCEL } from './command';
+import { CLI_OPTION_RETRIES, CLI_OPTION_RETRY_DELAY, CLI_OPTION_FORCE_PULUMI_CANCEL, CLI_OPTION_PLAN, CLI_OPTION_SELECTOR, CLI_OPTION_ALL, CLI_OPTION_CONCURRENCY, CLI_OPTION_LABELS, parsePositiveInt } from './command';
+import { InstanceApplier, loadInstanceSpecFile, APPLY_ACTION_UNCHANGED } from '../core/apply';
+import { CloudypadApiServer } from '../api/server';
+import { CliProgressRenderer } from './progress';
+import { filterInstanceEvents } from '../core/events';
+import { InstanceEventEnum } from '../core/state/state';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import { describeLockHolder, isLockExpired } from '../core/state/lock';
+import { StateManagerBuilder } from '../core/state/builders';
+import { StateSideEffect } from '../core/state/side-effects/abstract';
+import { StateMigrator, STATE_MIGRATION_STATUS_FAILED, STATE_MIGRATION_STATUS_MIGRATED } from '../core/state/migrator';
+import { PulumiStackMigrator } from '../tools/pulumi/migrate';
+import { getProviderRegistry, ProviderRegistry } from '../core/provider-registry';
+import { getProviderCapabilityDescription, PROVIDER_CAPABILITY_LIST } from '../core/provider-capabilities';
+import { formatProvisionPlan } from '../core/plan';
+import { formatDriftReport, getMissingResources } from '../core/drift';
+import { checkOrphansDeletable, formatOrphanScanResult, OrphanScanner } from '../core/orphans';
+import { CostEstimator, formatCostEstimate } from '../core/cost';
+import { formatUsageReport, formatUsageReportCsv, UsageReporter } from '../core/usage';
+import { BUDGET_ACTION_NONE, BudgetGuard } from '../core/budget';
+import { IdleWatcher } from '../core/idle';
+import { getNextScheduledRun, InstanceScheduler, SCHEDULE_DEFAULT_TIMEZONE, toCronExpression, validateTimezone } from '../core/schedule';
+import { parseLabelArgs, selectInstances } from '../core/labels';
+import { InstanceCloner, parseCloneOverrides } from '../core/clone';
+import { InstanceRenamer } from '../core/rename';
+import { InstanceBundler } from '../core/bundle';
+import { formatBulkActionResults, runBulkAction } from '../core/bulk';
+import { DEFAULT_LIST_STATUS_TIMEOUT_SECONDS, formatInstanceList, InstanceLister } from '../core/list';
 
 const logger = getLogger("program")
 
@@ -64,11 +102,124 @@ function getCoreConfig(): CoreConfig {
     return config
 }
 
-async function getInstanceManager(name: string): Promise<InstanceManager> {
+/**
+ * Build a state side effect for given backend type, using CLI options over environment defaults
+ */
+function buildStateBackendSideEffect(backend: string, opts: { localDataDir?: string, s3Bucket?: string, s3Region?: string, s3Endpoint?: string }): StateSideEffect {
+    switch(backend){
+        case "local":
+            return new StateManagerBuilder({
+                stateBackend: { local: { dataRootDir: opts.localDataDir ?? new ConfigLoader().loadLocalDataRootDir() } }
+            }).buildSideEffect()
+        case "s3": {
+            const bucketName = opts.s3Bucket ?? process.env.CLOUDYPAD_STATE_BACKEND_S3_BUCKET_NAME
+            if(!bucketName){
+                throw new Error("S3 bucket name is required for S3 state backend. Use --s3-bucket or CLOUDYPAD_STATE_BACKEND_S3_BUCKET_NAME environment variable.")
+            }
+            return new StateManagerBuilder({
+                stateBackend: { s3: { bucketName: bucketName, region: opts.s3Region, endpoint: opts.s3Endpoint } }
+            }).buildSideEffect()
+        }
+        default:
+            throw new Error(`Unknown state backend '${backend}', expected one of [local|s3]`)
+    }
+}
+
+/**
+ * Get provider registry with CLI command generators attached to Core providers
+ * and additional providers loaded from config.
+ */
+function buildProviderRegistry(coreConfig: CoreConfig): ProviderRegistry {
+    const registry = getProviderRegistry()
+    registry.setCliCommandGenerator(CLOUDYPAD_PROVIDER_AWS, () => new AwsCliCommandGenerator())
+    registry.setCliCommandGenerator(CLOUDYPAD_PROVIDER_AZURE, () => new AzureCliCommandGenerator())
+    registry.setCliCommandGenerator(CLOUDYPAD_PROVIDER_GCP, () => new GcpCliCommandGenerator())
+    registry.setCliCommandGenerator(CLOUDYPAD_PROVIDER_PAPERSPACE, () => new PaperspaceCliCommandGenerator())
+    registry.setCliCommandGenerator(CLOUDYPAD_PROVIDER_SCALEWAY, () => new ScalewayCliCommandGenerator())
+    registry.setCliCommandGenerator(CLOUDYPAD_PROVIDER_LINODE, () => new LinodeCliCommandGenerator())
+    registry.setCliCommandGenerator(CLOUDYPAD_PROVIDER_SSH, () => new SshCliCommandGenerator())
+    registry.setCliCommandGenerator(CLOUDYPAD_PROVIDER_DUMMY, () => new DummyCliCommandGenerator())
+    registry.loadProviderModules(coreConfig.providers?.modules ?? [])
+    return registry
+}
+
+async function getInstanceManager(name: string, output?: (line: string) => void): Promise<InstanceManager> {
     const instanceManagerBuilder = new InstanceManagerBuilder({
         config: getCoreConfig(),
     })
-    return instanceManagerBuilder.buildInstanceManager(name)
+    const manager = await instanceManagerBuilder.buildInstanceManager(name)
+    new CliProgressRenderer(output).attach(manager)
+    return manager
+}
+
+interface TargetInstancesCliArgs {
+    selector?: string
+    all?: true
+    concurrency: number
+}
+
+/**
+ * Instances targeted by a command: a single instance given by name,
+ * or instances selected with --selector or --all (bulk)
+ */
+interface TargetInstances {
+    instanceNames: string[]
+    bulk: boolean
+}
+
+/**
+ * Resolve instances targeted by a command from instance name argument and --selector / --all options.
+ * Exactly one of them must be provided.
+ */
+async function selectTargetInstances(config: CoreConfig, name: string | undefined, opts: TargetInstancesCliArgs): Promise<TargetInstances> {
+    if(opts.selector !== undefined && opts.all){
+        throw new Error("--selector and --all can't be used together")
+    }
+    if(name !== undefined && (opts.selector !== undefined || opts.all)){
+        throw new Error("Instance name can't be used with --selector or --all")
+    }
+    if(name !== undefined){
+        return { instanceNames: [ name ], bulk: false }
+    }
+    if(opts.selector === undefined && !opts.all){
+        throw new Error("Instance name is required unless --selector or --all is set")
+    }
+    return { instanceNames: await selectInstances(config, opts.selector), bulk: true }
+}
+
+/**
+ * Run a command action on target instances. A single instance action runs as-is.
+ * Bulk actions run with at most `concurrency` instances at the same time, prefix output lines with instance name
+ * and print aggregated results. Throws if action failed on any instance.
+ */
+async function runOnTargetInstances(
+    actionName: string,
+    target: TargetInstances,
+    concurrency: number,
+    action: (instanceName: string, output: (line: string) => void) => Promise<void>
+): Promise<void> {
+    if(!target.bulk){
+        await action(target.instanceNames[0], console.info)
+        return
+    }
+
+    if(target.instanceNames.length === 0){
+        console.info("No instances selected.")
+        return
+    }
+
+    console.info(`${actionName}: running on ${target.instanceNames.length} instance(s) with concurrency ${concurrency}: ${target.instanceNames.join(", ")}`)
+    const results = await runBulkAction(target.instanceNames, concurrency, instanceName => 
+        action(instanceName, line => console.info(`[${instanceName}] ${line}`))
+    )
+
+    console.info("")
+    console.info(formatBulkActionResults(actionName, results))
+
+    const failed = results.filter(r => !r.success).map(r => r.instanceName)
+    if(failed.length > 0){
+        throw new Error(`${actionName} failed on ${failed.length} instance(s): ${failed.join(", ")}`)
+    }
 }
 
 export function buildProgram(){
@@ -86,150 +237,328 @@ export function buildProgram(){
         .configureHelp({ showGlobalOptions: true})
         .version(CLOUDYPAD_VERSION)
     
+    const providerRegistry = buildProviderRegistry(coreConfig)
+    const costEstimator = new CostEstimator({ config: coreConfig, registry: providerRegistry })
+
     const createCmd = program
         .command('create')
         .description('Create a new instance. See subcommands for each provider options.')
     
-    createCmd.addCommand(new AwsCliCommandGenerator().buildCreateCommand({ coreConfig: coreConfig }))
-    createCmd.addCommand(new AzureCliCommandGenerator().buildCreateCommand({ coreConfig: coreConfig }))
-    createCmd.addCommand(new GcpCliCommandGenerator().buildCreateCommand({ coreConfig: coreConfig }))
-    createCmd.addCommand(new PaperspaceCliCommandGenerator().buildCreateCommand({ coreConfig: coreConfig }))
-    createCmd.addCommand(new ScalewayCliCommandGenerator().buildCreateCommand({ coreConfig: coreConfig }))
-    createCmd.addCommand(new SshCliCommandGenerator().buildCreateCommand({ coreConfig: coreConfig }))
-    createCmd.addCommand(new DummyCliCommandGenerator().buildCreateCommand({ coreConfig: coreConfig }), { hidden: true })
-    
     const updateCmd = program
         .command('update')
         .description('Update an existing instance. See subcommands for each provider options.')
     
-    updateCmd.addCommand(new AwsCliCommandGenerator().buildUpdateCommand({ coreConfig: coreConfig }))
-    updateCmd.addCommand(new AzureCliCommandGenerator().buildUpdateCommand({ coreConfig: coreConfig }))
-    updateCmd.addCommand(new GcpCliCommandGenerator().buildUpdateCommand({ coreConfig: coreConfig }))
-    updateCmd.addCommand(new PaperspaceCliCommandGenerator().buildUpdateCommand({ coreConfig: coreConfig }))
-    updateCmd.addCommand(new ScalewayCliCommandGenerator().buildUpdateCommand({ coreConfig: coreConfig }))
-    updateCmd.addCommand(new SshCliCommandGenerator().buildUpdateCommand({ coreConfig: coreConfig }))
-    updateCmd.addCommand(new DummyCliCommandGenerator().buildUpdateCommand({ coreConfig: coreConfig }), { hidden: true })
+    for(const provider of providerRegistry.getProviders()){
+        if(!provider.buildCliCommandGenerator){
+            continue
+        }
+        const generator = provider.buildCliCommandGenerator()
+        createCmd.addCommand(generator.buildCreateCommand({ coreConfig: coreConfig }), { hidden: provider.hidden })
+        updateCmd.addCommand(generator.buildUpdateCommand({ coreConfig: coreConfig }), { hidden: provider.hidden })
+    }
+
+    program
+        .command('clone <source> <name>')
+        .description('Create a new instance with the same provider, provision and configuration inputs as an existing instance. ' +
+            'A new SSH key is generated and no Cloud resource is shared. New instance must be deployed afterward.')
+        .option('--set <path=value...>', 'Override an input copied from source instance, eg. "provision.instanceType=g5.xlarge" or "configuration.locale=fr_FR.UTF-8". ' +
+            'Values are parsed as JSON if possible.')
+        .addOption(CLI_OPTION_LABELS)
+        .option('--from-base-image', 'Create new instance server from source instance base image (requires base image snapshot enabled on source instance)')
+        .action(async (source, name, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_CLONE)
+
+                const state = await new InstanceCloner({ config: coreConfig }).clone(source, name, {
+                    overrides: parseCloneOverrides(opts.set ?? []),
+                    labelChanges: opts.label ? parseLabelArgs(opts.label, true) : undefined,
+                    fromBaseImage: opts.fromBaseImage,
+                })
+
+                console.info(`Cloned instance ${source} into ${name} (provider ${state.provision.provider}).`)
+                console.info(`Run 'cloudypad deploy ${name}' to create its Cloud resources.`)
+            } catch (error) {
+                throw new Error(`Failed to clone instance ${source} into ${name}`, { cause: error })
+            }
+        })
+
+    program
+        .command('rename <old> <new>')
+        .description('Rename an instance. Its Cloud resources and Pulumi stacks are kept as-is: they still use instance original name.')
+        .option('--skip-validation', 'Do not check with a provision plan that no Cloud resource would be created, replaced or deleted after rename')
+        .action(async (oldName, newName, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_RENAME)
+
+                const state = await new InstanceRenamer({ config: coreConfig }).rename(oldName, newName, { skipValidation: opts.skipValidation })
+
+                console.info(`Renamed instance ${oldName} to ${newName}.` +
+                    (state.resourceName ? ` Its Cloud resources keep name ${state.resourceName}.` : ""))
+            } catch (error) {
+                throw new Error(`Failed to rename instance ${oldName} to ${newName}`, { cause: error })
+            }
+        })
+
+    program
+        .command('export <name>')
+        .description('Export an instance as a portable bundle holding its state with embedded SSH key, event journal and Pulumi stacks, ' +
+            'eg. to hand it over to a teammate or move it to another machine')
+        .requiredOption('-o, --output <file>', 'Bundle file to write, eg. bundle.tgz')
+        .option('--passphrase [passphrase]', 'Encrypt bundle with a passphrase. Passphrase is prompted if not given. ' +
+            'Alternatively, use CLOUDYPAD_BUNDLE_PASSPHRASE environment variable.')
+        .option('--no-pulumi-stacks', 'Do not export Pulumi stacks, eg. for providers not managing Cloud resources with Pulumi')
+        .action(async (name, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_EXPORT)
+
+                let passphrase = typeof opts.passphrase === "string" ? opts.passphrase : process.env.CLOUDYPAD_BUNDLE_PASSPHRASE
+                if(opts.passphrase === true && !passphrase){
+                    passphrase = await password({ message: "Bundle passphrase:", mask: true })
+                    const confirmation = await password({ message: "Confirm bundle passphrase:", mask: true })
+                    if(passphrase !== confirmation){
+                        throw new Error("Passphrases do not match.")
+                    }
+                }
+                if(passphrase !== undefined && passphrase.length === 0){
+                    throw new Error("Passphrase must not be empty.")
+                }
+
+                const bundle = await new InstanceBundler({ config: coreConfig }).exportInstance(name, {
+                    passphrase: passphrase,
+                    pulumiStacks: opts.pulumiStacks,
+                })
+
+                // Bundle holds SSH private key, only make it readable by current user
+                fs.writeFileSync(opts.output, bundle, { mode: 0o600 })
+
+                console.info(`Exported instance ${name} to ${opts.output}${passphrase ? " (encrypted)" : ""}.`)
+                if(!passphrase){
+                    console.info(`Bundle is not encrypted and holds instance SSH private key: keep it safe.`)
+                }
+            } catch (error) {
+                throw new Error(`Failed to export instance ${name}`, { cause: error })
+            }
+        })
+
+    program
+        .command('import <bundle>')
+        .description('Import an instance from a bundle created with export command. Its Pulumi stacks are imported in current Pulumi backend.')
+        .option('--passphrase <passphrase>', 'Passphrase of encrypted bundle. Passphrase is prompted if not given. ' +
+            'Alternatively, use CLOUDYPAD_BUNDLE_PASSPHRASE environment variable.')
+        .option('--no-pulumi-stacks', 'Do not import Pulumi stacks held in bundle')
+        .action(async (bundleFile, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_IMPORT)
+
+                const bundle = fs.readFileSync(bundleFile)
+                const bundler = new InstanceBundler({ config: coreConfig })
+                const manifest = bundler.readManifest(bundle)
+
+                let passphrase = opts.passphrase ?? process.env.CLOUDYPAD_BUNDLE_PASSPHRASE
+                if(manifest.encryption && passphrase === undefined){
+                    passphrase = await password({ message: "Bundle passphrase:", mask: true })
+                }
+
+                const state = await bundler.importInstance(bundle, {
+                    passphrase: passphrase,
+                    pulumiStacks: opts.pulumiStacks,
+                })
+
+                console.info(`Imported instance ${state.name} (provider ${state.provision.provider}, ` +
+                    `exported with Cloudy Pad ${manifest.cloudypadVersion} on ${new Date(manifest.createdAt).toISOString()}).`)
+            } catch (error) {
+                throw new Error(`Failed to import instance from ${bundleFile}`, { cause: error })
+            }
+        })
 
     program
         .command('list')
-        .description('List all instances')
-        .option('--format <format>', 'Output format, one of [plain|json] ', 'plain')
+        .description('List instances with their provider, location, type, status, readiness, last event, version and estimated hourly cost')
+        .option('--format <format>', 'Output format, one of [table|wide|json|plain]. plain only prints instance names.', 'table')
+        .option('--no-status', 'Do not fetch instance status from providers: only read instance states, faster and works offline')
+        .option('--status-timeout <seconds>', 'Timeout to fetch status of each instance', parsePositiveInt, DEFAULT_LIST_STATUS_TIMEOUT_SECONDS)
+        .option('--selector <selector>', 'Only list instances matching label selector, eg. "team=ops,env!=prod"')
         .action(async (options) => {
             try {
                 analyticsClient.sendEvent(RUN_COMMAND_LIST)
 
-                const coreClient = buildCoreClient()
-                const instanceNames = await coreClient.getAllInstances();
-                if (instanceNames.length === 0) {
+                if(![ 'table', 'wide', 'json', 'plain' ].includes(options.format)){
+                    throw new Error(`Invalid format '${options.format}', expected one of table, wide, json or plain`)
+                }
+
+                if(options.format == 'plain'){
+                    const instanceNames = options.selector !== undefined ? 
+                        await selectInstances(coreConfig, options.selector) :
+                        await buildCoreClient().getAllInstances();
+                    console.info(instanceNames.length === 0 ? 'No instances found.' : instanceNames.join("\n"))
+                    return
+                }
+
+                const entries = await new InstanceLister({ config: coreConfig, registry: providerRegistry }).list({
+                    status: options.status,
+                    statusTimeoutSeconds: options.statusTimeout,
+                    selector: options.selector,
+                })
+
+                if(options.format == 'json'){
+                    console.info(JSON.stringify(entries, null, 2))
+                    return
+                }
+
+                if (entries.length === 0) {
                     console.info('No instances found.');
                     return;
                 }
     
-                const outputFormat = options.format
-    
-                if(outputFormat == 'json'){
-                    console.info(JSON.stringify(instanceNames))
-                } else if (outputFormat == 'plain') {
-                    console.info(instanceNames.join("\n"))
-                }
+                console.info(formatInstanceList(entries, { wide: options.format == 'wide' }))
                 
             } catch (error) {
                 throw new Error('Failed to list instances', { cause: error })
             }
         })
+
+    program
+        .command('providers')
+        .description('List available providers and their capabilities')
+        .option('--format <format>', 'Output format, one of [plain|json] ', 'plain')
+        .action(async (options) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_PROVIDERS)
+
+                const providers = providerRegistry.getProviders()
+                    .filter(p => !p.hidden)
+                    .map(p => ({ name: p.name, capabilities: p.capabilities }))
+
+                if(options.format == 'json'){
+                    console.info(JSON.stringify(providers, null, 2))
+                    return
+                }
+
+                const nameWidth = Math.max(...providers.map(p => p.name.length), "PROVIDER".length) + 2
+                console.info("PROVIDER".padEnd(nameWidth) + PROVIDER_CAPABILITY_LIST.join("  "))
+                for(const provider of providers){
+                    const cells = PROVIDER_CAPABILITY_LIST.map(c => (provider.capabilities[c] ? "yes" : "-").padEnd(c.length))
+                    console.info((provider.name.padEnd(nameWidth) + cells.join("  ")).trimEnd())
+                }
+                console.info("")
+                for(const capability of PROVIDER_CAPABILITY_LIST){
+                    console.info(`${capability}: ${getProviderCapabilityDescription(capability)}`)
+                }
+            } catch (error) {
+                throw new Error('Failed to list providers', { cause: error })
+            }
+        })
     
     program
-        .command('start <name>')
+        .command('start [name]')
         .description('Start an instance')
         .option('--wait', 'Wait for instance to be fully started.')
         .option('--timeout <seconds>', 'Timeout when waiting for instance to be fully started. Ignored if --wait not set.', parseInt)
         .addOption(CLI_OPTION_RETRIES)
         .addOption(CLI_OPTION_RETRY_DELAY)
         .addOption(CLI_OPTION_FORCE_PULUMI_CANCEL)
+        .addOption(CLI_OPTION_SELECTOR)
+        .addOption(CLI_OPTION_ALL)
+        .addOption(CLI_OPTION_CONCURRENCY)
         .action(async (name, opts) => {
             try {
                 analyticsClient.sendEvent(RUN_COMMAND_START)
 
-                console.info(`Starting instance ${name}...`)
-                const m = await getInstanceManager(name)
-                await m.start({ 
-                    wait: opts.wait, 
-                    waitTimeoutSeconds: opts.timeout, 
-                    retries: opts.retries, 
-                    retryDelaySeconds: opts.retryDelay,
-                    pulumiCancel: opts.forcePulumiCancel
+                const target = await selectTargetInstances(coreConfig, name, opts)
+                await runOnTargetInstances("Start", target, opts.concurrency, async (instanceName, output) => {
+                    output(`Starting instance ${instanceName}...`)
+                    const m = await getInstanceManager(instanceName, output)
+                    await m.start({ 
+                        wait: opts.wait, 
+                        waitTimeoutSeconds: opts.timeout, 
+                        retries: opts.retries, 
+                        retryDelaySeconds: opts.retryDelay,
+                        pulumiCancel: opts.forcePulumiCancel
+                    })
+        
+                    if(opts.wait){
+                        output(`Started instance ${instanceName}`)
+                    } else {
+                        output(`Instance ${instanceName} start triggered. Use --wait flag to wait for completion.`)
+                    }
                 })
     
-                if(opts.wait){
-                    console.info(`Started instance ${name}`)
-                } else {
-                    console.info(`Instance ${name} start triggered. Use --wait flag to wait for completion.`)
-                }
-    
             } catch (error) {
-                throw new Error(`Failed to start instance ${name}`, { cause: error })
+                throw new Error(`Failed to start ${name ? `instance ${name}` : "instances"}`, { cause: error })
             }
         })
     
     program
-        .command('stop <name>')
+        .command('stop [name]')
         .description('Stop an instance')
         .option('--wait', 'Wait for instance to be fully stopped.')
         .option('--timeout <seconds>', 'Timeout when waiting for instance to be fully stopped. Ignored if --wait not set.', parseInt)
         .addOption(CLI_OPTION_RETRIES)
         .addOption(CLI_OPTION_RETRY_DELAY)
         .addOption(CLI_OPTION_FORCE_PULUMI_CANCEL)
+        .addOption(CLI_OPTION_SELECTOR)
+        .addOption(CLI_OPTION_ALL)
+        .addOption(CLI_OPTION_CONCURRENCY)
         .action(async (name, opts) => {
             try {
                 analyticsClient.sendEvent(RUN_COMMAND_STOP)
 
-                console.info(`Stopping instance ${name}...`)
+                const target = await selectTargetInstances(coreConfig, name, opts)
                 console.info(`ℹ️ Stopping may take some time to complete while your instance's data is put to sleep for better cost efficiency (data disk snapshot may be long).`)
 
-                const m = await getInstanceManager(name)
-                await m.stop({ 
-                    wait: opts.wait, 
-                    waitTimeoutSeconds: opts.timeout, 
-                    retries: opts.retries, 
-                    retryDelaySeconds: opts.retryDelay,
-                    pulumiCancel: opts.forcePulumiCancel
+                await runOnTargetInstances("Stop", target, opts.concurrency, async (instanceName, output) => {
+                    output(`Stopping instance ${instanceName}...`)
+                    const m = await getInstanceManager(instanceName, output)
+                    await m.stop({ 
+                        wait: opts.wait, 
+                        waitTimeoutSeconds: opts.timeout, 
+                        retries: opts.retries, 
+                        retryDelaySeconds: opts.retryDelay,
+                        pulumiCancel: opts.forcePulumiCancel
+                    })
+                    
+                    if(opts.wait){
+                        output(`Stopped instance ${instanceName}`)
+                    } else {
+                        output(`Instance ${instanceName} stop triggered. Use --wait flag to wait for completion.`)
+                    }
                 })
-                
-                if(opts.wait){
-                    console.info(`Stopped instance ${name}`)
-                } else {
-                    console.info(`Instance ${name} stop triggered. Use --wait flag to wait for completion.`)
-                }
     
             } catch (error) {
-                throw new Error(`Failed to stop instance ${name}`, { cause: error })
+                throw new Error(`Failed to stop ${name ? `instance ${name}` : "instances"}`, { cause: error })
             }
         })
     
     program
-        .command('restart <name>')
+        .command('restart [name]')
         .description('Restart an instance. Depending on provider this operation may be synchronous.')
         .option('--wait', 'Wait for instance to be fully restarted.')
         .option('--timeout <seconds>', 'Timeout when waiting for instance to be fully restarted. Ignored if --wait not set.', parseInt)
         .addOption(CLI_OPTION_RETRIES)
         .addOption(CLI_OPTION_RETRY_DELAY)
         .addOption(CLI_OPTION_FORCE_PULUMI_CANCEL)
+        .addOption(CLI_OPTION_SELECTOR)
+        .addOption(CLI_OPTION_ALL)
+        .addOption(CLI_OPTION_CONCURRENCY)
         .action(async (name, opts) => {
             try {
                 analyticsClient.sendEvent(RUN_COMMAND_RESTART)
 
-                console.info(`Restarting instance ${name}...`)
-                const m = await getInstanceManager(name)
-                await m.restart({ 
-                    wait: opts.wait, 
-                    waitTimeoutSeconds: opts.timeout, 
-                    retries: opts.retries,
-                    retryDelaySeconds: opts.retryDelay,
-                    pulumiCancel: opts.forcePulumiCancel
+                const target = await selectTargetInstances(coreConfig, name, opts)
+                await runOnTargetInstances("Restart", target, opts.concurrency, async (instanceName, output) => {
+                    output(`Restarting instance ${instanceName}...`)
+                    const m = await getInstanceManager(instanceName, output)
+                    await m.restart({ 
+                        wait: opts.wait, 
+                        waitTimeoutSeconds: opts.timeout, 
+                        retries: opts.retries,
+                        retryDelaySeconds: opts.retryDelay,
+                        pulumiCancel: opts.forcePulumiCancel
+                    })
                 })
                 
             } catch (error) {
-                throw new Error(`Failed to restart instance ${name}`, { cause: error })
+                throw new Error(`Failed to restart ${name ? `instance ${name}` : "instances"}`, { cause: error })
             }
         })
     
@@ -246,7 +575,8 @@ export function buildProgram(){
 
                 const result = {
                     ...state,
-                    status: status
+                    status: status,
+                    costEstimate: costEstimator.estimateInstanceCost(state.provision.provider, state.provision.input)
                 }
     
                 console.info(JSON.stringify(result, null, 2))
@@ -259,6 +589,7 @@ export function buildProgram(){
         .command('provision <name>')
         .description('Provision an instance (deploy or update Cloud resources)')
         .option('--yes', 'Do not prompt for approval, automatically approve and continue')
+        .addOption(CLI_OPTION_PLAN)
         .addOption(CLI_OPTION_RETRIES)
         .addOption(CLI_OPTION_RETRY_DELAY)
         .addOption(CLI_OPTION_FORCE_PULUMI_CANCEL)
@@ -270,7 +601,10 @@ export function buildProgram(){
                 const inputs = await manager.getInputs()
                 const prompter = new ConfirmationPrompter()
 
-                const confirmation = await prompter.confirmDeploy(name, inputs, opts.yes)
+                const plan = opts.plan ? await manager.plan({ pulumiCancel: opts.forcePulumiCancel }) : undefined
+                const state = await manager.getState()
+                const costEstimate = costEstimator.estimateInstanceCost(state.provision.provider, state.provision.input)
+                const confirmation = await prompter.confirmDeploy(name, inputs, opts.yes, plan, costEstimate)
                 if(!confirmation){
                     throw new Error('Provision aborted.')
                 }
@@ -288,94 +622,838 @@ export function buildProgram(){
         })
     
     program
-        .command('configure <name>')
+        .command('plan <name>')
+        .description('Preview changes on Cloud resources deploying instance would perform: resources created, updated, replaced or deleted. No resource is changed.')
+        .option('--format <format>', 'Output format, one of [plain|json] ', 'plain')
+        .addOption(CLI_OPTION_FORCE_PULUMI_CANCEL)
+        .action(async (name, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_PLAN)
+
+                const manager = await getInstanceManager(name)
+                const plan = await manager.plan({ deploy: true, pulumiCancel: opts.forcePulumiCancel })
+
+                if(opts.format == 'json'){
+                    console.info(JSON.stringify(plan, null, 2))
+                    return
+                }
+
+                console.info(formatProvisionPlan(plan))
+            } catch (error) {
+                throw new Error(`Failed to compute plan for instance ${name}`, { cause: error })
+            }
+        })
+
+    program
+        .command('drift <name>')
+        .description('Detect drift between instance state and actual Cloud resources, eg. disks or snapshots deleted outside of Cloudy Pad. Cloud resources are never changed.')
+        .option('--fix', 'Fix instance state: remove references to missing resources and update instance runtime state accordingly', false)
+        .option('--format <format>', 'Output format, one of [plain|json] ', 'plain')
+        .addOption(CLI_OPTION_FORCE_PULUMI_CANCEL)
+        .action(async (name, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_DRIFT)
+
+                const manager = await getInstanceManager(name)
+                const report = await manager.detectDrift({ fix: opts.fix, pulumiCancel: opts.forcePulumiCancel })
+
+                if(opts.format == 'json'){
+                    console.info(JSON.stringify(report, null, 2))
+                    return
+                }
+
+                console.info(formatDriftReport(report))
+
+                if(getMissingResources(report).length > 0){
+                    console.info("")
+                    if(opts.fix){
+                        console.info(`Fixed state of instance ${name}. Run 'cloudypad deploy ${name}' to re-create missing resources.`)
+                    } else {
+                        console.info(`Run 'cloudypad drift ${name} --fix' to fix instance state.`)
+                    }
+                }
+            } catch (error) {
+                throw new Error(`Failed to detect drift for instance ${name}`, { cause: error })
+            }
+        })
+
+    program
+        .command('orphans')
+        .description('List Cloud resources created by Cloudy Pad which do not belong to any instance (eg. left behind by a failed destroy) with their estimated cost. ' +
+            'By default, only providers with at least one instance are scanned.')
+        .option('--provider <providers...>', 'Providers to scan, eg. "aws gcp"')
+        .option('--scope <scopes...>', 'Additional scopes to scan: AWS regions, GCP projects, Azure subscriptions or Scaleway zones')
+        .option('--delete', 'Delete orphaned resources', false)
+        .option('--yes', 'Do not prompt for approval, automatically approve and continue')
+        .option('--format <format>', 'Output format, one of [plain|json] ', 'plain')
+        .action(async (opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_ORPHANS)
+
+                const scanner = new OrphanScanner({ config: coreConfig, registry: providerRegistry })
+                const result = await scanner.scan({ providers: opts.provider, scopes: opts.scope })
+
+                if(opts.format == 'json' && !opts.delete){
+                    console.info(JSON.stringify(result, null, 2))
+                    return
+                }
+
+                if(opts.format != 'json'){
+                    console.info(formatOrphanScanResult(result))
+                }
+
+                if(!opts.delete || result.orphans.length === 0){
+                    return
+                }
+
+                checkOrphansDeletable(result)
+
+                let approveDelete: boolean | undefined = opts.yes
+                if(approveDelete === undefined){
+                    approveDelete = await confirm({
+                        message: `You are about to delete ${result.orphans.length} orphaned resource(s). Please confirm:`,
+                        default: false,
+                    })
+                }
+
+                if (!approveDelete) {
+                    throw new Error('Orphaned resources deletion aborted.')
+                }
+
+                const deletions = await scanner.deleteOrphans(result)
+
+                if(opts.format == 'json'){
+                    console.info(JSON.stringify({ ...result, deletions: deletions }, null, 2))
+                } else {
+                    console.info("")
+                    for(const deletion of deletions){
+                        const r = deletion.resource
+                        console.info(deletion.deleted ?
+                            `Deleted ${r.kind} ${r.id} (${r.provider})` :
+                            `Failed to delete ${r.kind} ${r.id} (${r.provider}): ${deletion.error}`
+                        )
+                    }
+                }
+
+                const failedCount = deletions.filter(d => !d.deleted).length
+                if(failedCount > 0){
+                    throw new Error(`${failedCount} orphaned resource(s) could not be deleted`)
+                }
+            } catch (error) {
+                throw new Error('Failed to find orphaned resources', { cause: error })
+            }
+        })
+
+    const costCmd = program
+        .command('cost')
+        .description('Estimate instance costs using bundled pricing catalogs.')
+
+    costCmd
+        .command('estimate <name>')
+        .description('Estimate hourly and monthly cost of an instance from its inputs (instance type, disk sizes, public IP type, spot, snapshot settings). ' +
+            'Prices are approximate and may differ from actual billing.')
+        .option('--hours <hours>', 'Hours instance is running per month. Default: always running (730 hours)', parseFloat)
+        .option('--egress-gb <gb>', 'Internet egress (eg. streaming) per month in GB. Default: 0', parseFloat)
+        .option('--format <format>', 'Output format, one of [plain|json] ', 'plain')
+        .action(async (name, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_COST_ESTIMATE)
+
+                const state = await (await getInstanceManager(name)).getState()
+                const estimate = costEstimator.estimateInstanceCost(state.provision.provider, state.provision.input, {
+                    usageHoursPerMonth: opts.hours,
+                    egressGbPerMonth: opts.egressGb
+                })
+
+                if(!estimate){
+                    throw new Error(`Cost estimation is not available for provider ${state.provision.provider}`)
+                }
+
+                if(opts.format == 'json'){
+                    console.info(JSON.stringify(estimate, null, 2))
+                    return
+                }
+
+                console.info(formatCostEstimate(estimate))
+            } catch (error) {
+                throw new Error(`Failed to estimate cost of instance ${name}`, { cause: error })
+            }
+        })
+
+    program
+        .command('usage')
+        .description('Report instances running hours and estimated compute cost from their start, stop and destroy events.')
+        .option('--since <date>', 'Report usage since this date (ISO 8601 date, eg. 2025-01-31 or 2025-01-31T12:00:00Z). Default: first day of current month')
+        .option('--instance <names...>', 'Only report usage of these instances. Default: all instances')
+        .option('--format <format>', 'Output format, one of [table|json|csv] ', 'table')
+        .action(async (opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_USAGE)
+
+                const since = opts.since ? Date.parse(opts.since) : undefined
+                if(since !== undefined && Number.isNaN(since)){
+                    throw new Error(`Invalid date for --since: '${opts.since}'`)
+                }
+
+                const reporter = new UsageReporter({ config: coreConfig, registry: providerRegistry })
+                const report = await reporter.report({ since: since, instanceNames: opts.instance })
+
+                if(opts.format == 'json'){
+                    console.info(JSON.stringify(report, null, 2))
+                } else if(opts.format == 'csv'){
+                    console.info(formatUsageReportCsv(report))
+                } else {
+                    console.info(formatUsageReport(report))
+                }
+            } catch (error) {
+                throw new Error('Failed to report instances usage', { cause: error })
+            }
+        })
+
+    const budgetCmd = program
+        .command('budget')
+        .description('Manage instance budgets enforced by watch command: instances are stopped when their estimated monthly spend exceeds budget.')
+
+    budgetCmd
+        .command('set <name>')
+        .description('Set instance monthly budget')
+        .requiredOption('--limit <amount>', 'Maximum estimated spend per calendar month, in instance provider pricing currency (eg. USD)', parseFloat)
+        .option('--warn-at <percents...>', 'Spend thresholds in percent of limit at which a warning is emitted, eg. "50 80". Default: 80')
+        .action(async (name, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_BUDGET_SET)
+
+                const warnThresholds = opts.warnAt?.map(t => parseFloat(t))
+                if(Number.isNaN(opts.limit) || opts.limit <= 0 || warnThresholds?.some(t => Number.isNaN(t) || t <= 0)){
+                    throw new Error(`Budget limit and warning thresholds must be positive numbers`)
+                }
+
+                const m = await getInstanceManager(name)
+                await m.setBudget({ monthlyLimit: opts.limit, warnThresholds: warnThresholds })
+
+                console.info(`Budget of instance ${name} set to ${opts.limit} per month. Run 'cloudypad watch' to enforce it.`)
+            } catch (error) {
+                throw new Error(`Failed to set budget of instance ${name}`, { cause: error })
+            }
+        })
+
+    budgetCmd
+        .command('remove <name>')
+        .description('Remove instance budget')
+        .action(async (name) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_BUDGET_REMOVE)
+
+                const m = await getInstanceManager(name)
+                await m.setBudget(undefined)
+
+                console.info(`Budget of instance ${name} removed.`)
+            } catch (error) {
+                throw new Error(`Failed to remove budget of instance ${name}`, { cause: error })
+            }
+        })
+
+    program
+        .command('watch')
+        .description('Watch instances and act on them. In budget mode, warn when spend thresholds are reached and stop instances exceeding their budget ' +
+            '(decisions are recorded in instance event history). In idle mode, run a full stop on instances whose server was stopped outside of Cloudy Pad ' +
+            '(eg. by auto-stop) so data disk snapshot and instance server deletion are applied.')
+        .option('--instance <names...>', 'Only watch these instances. Default: all instances')
+        .option('--mode <modes...>', 'Watch modes, any of [budget|idle]', [ 'budget', 'idle' ])
+        .option('--interval <seconds>', 'Interval between checks in seconds', parsePositiveInt, 300)
+        .option('--once', 'Check instances once and exit')
+        .action(async (opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_WATCH)
+
+                const invalidModes = opts.mode.filter(m => m !== 'budget' && m !== 'idle')
+                if(invalidModes.length > 0){
+                    throw new Error(`Unknown watch mode(s): ${invalidModes.join(", ")}. Valid modes: budget, idle`)
+                }
+
+                const guard = opts.mode.includes('budget') ? new BudgetGuard({ config: coreConfig, registry: providerRegistry }) : undefined
+                const idleWatcher = opts.mode.includes('idle') ? new IdleWatcher({ config: coreConfig }) : undefined
+
+                let stopping = false
+                let wakeUp = () => {}
+                const onSignal = () => {
+                    stopping = true
+                    wakeUp()
+                }
+                process.once('SIGINT', onSignal)
+                process.once('SIGTERM', onSignal)
+
+                if(!opts.once){
+                    console.info(`Watching instances every ${opts.interval} seconds (${opts.mode.join(", ")}). Press Ctrl+C to stop.`)
+                }
+
+                while(!stopping){
+                    // Budget is checked first so an instance over budget is stopped by budget guard rather than seen as idle
+                    for(const result of await guard?.check({ instanceNames: opts.instance }) ?? []){
+                        if(result.action !== BUDGET_ACTION_NONE || result.error){
+                            const error = result.error ? ` (failed: ${result.error})` : ""
+                            console.info(`${new Date().toISOString()}  ${result.instanceName}: ${result.message}${error}`)
+                        }
+                    }
+
+                    for(const result of await idleWatcher?.check({ instanceNames: opts.instance }) ?? []){
+                        if(result.stopped){
+                            console.info(`${new Date().toISOString()}  ${result.instanceName}: server stopped outside of Cloudy Pad, instance stopped`)
+                        } else if(result.error){
+                            console.info(`${new Date().toISOString()}  ${result.instanceName}: idle check failed: ${result.error}`)
+                        }
+                    }
+
+                    if(opts.once){
+                        break
+                    }
+
+                    await new Promise<void>((resolve) => {
+                        const timeout = setTimeout(resolve, opts.interval * 1000)
+                        wakeUp = () => {
+                            clearTimeout(timeout)
+                            resolve()
+                        }
+                    })
+                }
+
+                process.removeListener('SIGINT', onSignal)
+                process.removeListener('SIGTERM', onSignal)
+            } catch (error) {
+                throw new Error('Failed to watch instances', { cause: error })
+            }
+        })
+
+    const scheduleCmd = program
+        .command('schedule')
+        .description('Manage instance start/stop schedules run by scheduler (see scheduler command).')
+
+    scheduleCmd
+        .command('set <name>')
+        .description('Set instance start/stop schedule. Times are either a daily time "HH:MM" or a cron expression "minute hour day-of-month month day-of-week".')
+        .option('--start <time>', 'Time at which instance is started, eg. "19:00" or "0 19 * * fri,sat"')
+        .option('--stop <time>', 'Time at which instance is stopped, eg. "01:00" or "0 1 * * sat,sun"')
+        .option('--timezone <timezone>', `IANA timezone of schedule times, eg. "Europe/Paris". Default: ${SCHEDULE_DEFAULT_TIMEZONE}`)
+        .action(async (name, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_SCHEDULE_SET)
+
+                if(!opts.start && !opts.stop){
+                    throw new Error(`At least one of --start or --stop is required`)
+                }
+                if(opts.timezone){
+                    validateTimezone(opts.timezone)
+                }
+
+                const schedule = {
+                    start: opts.start ? toCronExpression(opts.start) : undefined,
+                    stop: opts.stop ? toCronExpression(opts.stop) : undefined,
+                    timezone: opts.timezone,
+                }
+
+                const m = await getInstanceManager(name)
+                await m.setSchedule(schedule)
+
+                console.info(`Schedule of instance ${name} set. Run 'cloudypad scheduler run' to start and stop instances on schedule.`)
+            } catch (error) {
+                throw new Error(`Failed to set schedule of instance ${name}`, { cause: error })
+            }
+        })
+
+    scheduleCmd
+        .command('list')
+        .description('List instance schedules with their next start and stop')
+        .option('--format <format>', 'Output format, one of [plain|json] ', 'plain')
+        .action(async (opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_SCHEDULE_LIST)
+
+                const coreClient = buildCoreClient()
+                const now = Date.now()
+                const schedules = []
+                for(const instanceName of await coreClient.getAllInstances()){
+                    const state = await (await getInstanceManager(instanceName)).getState()
+                    if(!state.schedule){
+                        continue
+                    }
+
+                    const timezone = state.schedule.timezone ?? SCHEDULE_DEFAULT_TIMEZONE
+                    schedules.push({
+                        instanceName: instanceName,
+                        ...state.schedule,
+                        timezone: timezone,
+                        nextStart: state.schedule.start ? getNextScheduledRun(state.schedule.start, timezone, now) : undefined,
+                        nextStop: state.schedule.stop ? getNextScheduledRun(state.schedule.stop, timezone, now) : undefined,
+                    })
+                }
+
+                if(opts.format == 'json'){
+                    console.info(JSON.stringify(schedules, null, 2))
+                    return
+                }
+
+                if(schedules.length === 0){
+                    console.info('No instance schedules found.')
+                    return
+                }
+
+                const formatDate = (date?: number) => date !== undefined ? new Date(date).toISOString() : "-"
+                for(const schedule of schedules){
+                    console.info(`${schedule.instanceName}: start "${schedule.start ?? "-"}", stop "${schedule.stop ?? "-"}" (${schedule.timezone}). ` +
+                        `Next start: ${formatDate(schedule.nextStart)}, next stop: ${formatDate(schedule.nextStop)}`)
+                }
+            } catch (error) {
+                throw new Error('Failed to list instance schedules', { cause: error })
+            }
+        })
+
+    scheduleCmd
+        .command('remove <name>')
+        .description('Remove instance schedule')
+        .action(async (name) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_SCHEDULE_REMOVE)
+
+                const m = await getInstanceManager(name)
+                await m.setSchedule(undefined)
+
+                console.info(`Schedule of instance ${name} removed.`)
+            } catch (error) {
+                throw new Error(`Failed to remove schedule of instance ${name}`, { cause: error })
+            }
+        })
+
+    const schedulerCmd = program
+        .command('scheduler')
+        .description('Run instance schedules.')
+
+    schedulerCmd
+        .command('run')
+        .description('Long-running scheduler starting and stopping instances according to their schedule. ' +
+            'Runs missed while scheduler was not running are caught up if within missed run window: only the latest scheduled action is run.')
+        .option('--instance <names...>', 'Only run schedules of these instances. Default: all instances')
+        .option('--interval <seconds>', 'Interval between schedule checks in seconds', parsePositiveInt, 60)
+        .option('--missed-run-window <minutes>', 'On scheduler start, run actions scheduled up to this many minutes ago', parsePositiveInt, 60)
+        .addOption(CLI_OPTION_RETRIES)
+        .addOption(CLI_OPTION_RETRY_DELAY)
+        .action(async (opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_SCHEDULER_RUN)
+
+                const scheduler = new InstanceScheduler({ config: coreConfig })
+
+                let stopping = false
+                let wakeUp = () => {}
+                const onSignal = () => {
+                    stopping = true
+                    wakeUp()
+                }
+                process.once('SIGINT', onSignal)
+                process.once('SIGTERM', onSignal)
+
+                console.info(`Scheduler running, checking schedules every ${opts.interval} seconds. Press Ctrl+C to stop.`)
+
+                let since = Date.now() - opts.missedRunWindow * 60 * 1000
+                while(!stopping){
+                    const until = Date.now()
+                    const results = await scheduler.runScheduledActions(since, until, {
+                        instanceNames: opts.instance,
+                        retries: opts.retries,
+                        retryDelaySeconds: opts.retryDelay,
+                    })
+                    since = until
+
+                    for(const result of results){
+                        const status = result.error ? `failed: ${result.error}` : "done"
+                        console.info(`${new Date().toISOString()}  ${result.instanceName}: scheduled ${result.action} ` +
+                            `(scheduled at ${new Date(result.scheduledAt).toISOString()}) ${status}`)
+                    }
+
+                    await new Promise<void>((resolve) => {
+                        const timeout = setTimeout(resolve, opts.interval * 1000)
+                        wakeUp = () => {
+                            clearTimeout(timeout)
+                            resolve()
+                        }
+                    })
+                }
+
+                process.removeListener('SIGINT', onSignal)
+                process.removeListener('SIGTERM', onSignal)
+            } catch (error) {
+                throw new Error('Failed to run scheduler', { cause: error })
+            }
+        })
+
+    program
+        .command('configure [name]')
         .description('Configure an instance (connect to instance and install drivers, packages, etc.)')
         .addOption(CLI_OPTION_RETRIES)
         .addOption(CLI_OPTION_RETRY_DELAY)
         .addOption(CLI_OPTION_FORCE_PULUMI_CANCEL)
+        .addOption(CLI_OPTION_SELECTOR)
+        .addOption(CLI_OPTION_ALL)
+        .addOption(CLI_OPTION_CONCURRENCY)
         .action(async (name, opts) => {
             try {
                 analyticsClient.sendEvent(RUN_COMMAND_CONFIGURE)
 
-                const m = await getInstanceManager(name)
-                await m.configure({ 
-                    retries: opts.retries, 
-                    retryDelaySeconds: opts.retryDelay,
-                    pulumiCancel: opts.forcePulumiCancel
+                const target = await selectTargetInstances(coreConfig, name, opts)
+                await runOnTargetInstances("Configure", target, opts.concurrency, async (instanceName, output) => {
+                    const m = await getInstanceManager(instanceName, output)
+                    await m.configure({ 
+                        retries: opts.retries, 
+                        retryDelaySeconds: opts.retryDelay,
+                        pulumiCancel: opts.forcePulumiCancel
+                    })
+        
+                    output("")
+                    output(`Configured instance ${instanceName}`)
                 })
-    
-                console.info("")
-                console.info(`Configured instance ${name}`)
             } catch (error) {
-                throw new Error(`Failed to configure instance ${name}`, { cause: error })
+                throw new Error(`Failed to configure ${name ? `instance ${name}` : "instances"}`, { cause: error })
             }
         })
     
     program
-        .command('deploy <name>')
+        .command('deploy [name]')
         .option('--yes', 'Do not prompt for approval, automatically approve and continue')
         .description('Deploy an instance: provision and configure it. Equivalent to running provision and configure commands sequentially.')
+        .addOption(CLI_OPTION_PLAN)
         .addOption(CLI_OPTION_RETRIES)
         .addOption(CLI_OPTION_RETRY_DELAY)
         .addOption(CLI_OPTION_FORCE_PULUMI_CANCEL)
+        .addOption(CLI_OPTION_SELECTOR)
+        .addOption(CLI_OPTION_ALL)
+        .addOption(CLI_OPTION_CONCURRENCY)
         .action(async (name, opts) => {
 
-            const manager = await getInstanceManager(name)
-            const inputs = await manager.getInputs()
-            const prompter = new ConfirmationPrompter()
+            const target = await selectTargetInstances(coreConfig, name, opts)
+
+            if(target.bulk){
+                if(opts.plan){
+                    throw new Error("--plan can't be used with --selector or --all")
+                }
+
+                if(!opts.yes && target.instanceNames.length > 0){
+                    const confirmation = await confirm({
+                        message: `You are about to deploy ${target.instanceNames.length} instance(s): ${target.instanceNames.join(", ")}. Please confirm:`,
+                        default: false,
+                    })
+                    if(!confirmation){
+                        throw new Error('Deploy aborted.')
+                    }
+                }
+            } else {
+                const manager = await getInstanceManager(target.instanceNames[0])
+                const inputs = await manager.getInputs()
+                const prompter = new ConfirmationPrompter()
 
-            const confirmation = await prompter.confirmDeploy(name, inputs, opts.yes)
-            if(!confirmation){
-                throw new Error('Deploy aborted.')
+                const plan = opts.plan ? await manager.plan({ deploy: true, pulumiCancel: opts.forcePulumiCancel }) : undefined
+                const state = await manager.getState()
+                const costEstimate = costEstimator.estimateInstanceCost(state.provision.provider, state.provision.input)
+                const confirmation = await prompter.confirmDeploy(target.instanceNames[0], inputs, opts.yes, plan, costEstimate)
+                if(!confirmation){
+                    throw new Error('Deploy aborted.')
+                }
             }
 
             analyticsClient.sendEvent(RUN_COMMAND_DEPLOY)
 
-            await manager.deploy({ 
-                retries: opts.retries, 
-                retryDelaySeconds: opts.retryDelay,
-                pulumiCancel: opts.forcePulumiCancel
+            await runOnTargetInstances("Deploy", target, opts.concurrency, async (instanceName, output) => {
+                const manager = await getInstanceManager(instanceName, output)
+                await manager.deploy({ 
+                    retries: opts.retries, 
+                    retryDelaySeconds: opts.retryDelay,
+                    pulumiCancel: opts.forcePulumiCancel
+                })
             })
         })
 
     program
-        .command('destroy <name>')
+        .command('destroy [name]')
         .description('Destroy an instance')
         .option('--yes', 'Do not prompt for approval, automatically approve and continue')
         .addOption(CLI_OPTION_RETRIES)
         .addOption(CLI_OPTION_RETRY_DELAY)
         .addOption(CLI_OPTION_FORCE_PULUMI_CANCEL)
+        .addOption(CLI_OPTION_SELECTOR)
+        .addOption(CLI_OPTION_ALL)
+        .addOption(CLI_OPTION_CONCURRENCY)
         .action(async (name, opts) => {
             try {
                 analyticsClient.sendEvent(RUN_COMMAND_DESTROY)
 
+                const target = await selectTargetInstances(coreConfig, name, opts)
+
                 let approveDestroy: boolean | undefined = opts?.yes
-                if(approveDestroy === undefined){
+                if(approveDestroy === undefined && target.instanceNames.length > 0){
                     approveDestroy = await confirm({
-                        message: `You are about to destroy instance '${name}'. Please confirm:`,
+                        message: target.bulk ?
+                            `You are about to destroy ${target.instanceNames.length} instance(s): ${target.instanceNames.join(", ")}. Please confirm:` :
+                            `You are about to destroy instance '${name}'. Please confirm:`,
                         default: false,
                     })
                 }
         
-                if (!approveDestroy) {
+                if (approveDestroy === false) {
                     throw new Error('Destroy aborted.')
                 }
 
-                const m = await getInstanceManager(name)
-                await m.destroy({ 
-                    retries: opts.retries, 
-                    retryDelaySeconds: opts.retryDelay,
-                    pulumiCancel: opts.forcePulumiCancel
+                await runOnTargetInstances("Destroy", target, opts.concurrency, async (instanceName, output) => {
+                    const m = await getInstanceManager(instanceName, output)
+                    await m.destroy({ 
+                        retries: opts.retries, 
+                        retryDelaySeconds: opts.retryDelay,
+                        pulumiCancel: opts.forcePulumiCancel
+                    })
+        
+                    output("")
+                    output(`Destroyed instance ${instanceName}`)
                 })
     
-                console.info("")
-                console.info(`Destroyed instance ${name}`)
-    
             } catch (error) {
-                throw new Error(`Failed to destroy instance ${name}`, { cause: error })
+                throw new Error(`Failed to destroy ${name ? `instance ${name}` : "instances"}`, { cause: error })
             }
         })
     
+    program
+        .command('events <name>')
+        .description('Show instance event history (provision, configuration, start, stop, failures...)')
+        .option('--type <types>', 'Comma-separated list of event types to show, eg. "stop-begin,stop-failed"')
+        .option('--failed', 'Only show failure events')
+        .option('--since <date>', 'Only show events at or after this date (ISO 8601 date, eg. 2025-01-31 or 2025-01-31T12:00:00Z)')
+        .option('--limit <number>', 'Only show given number of most recent events', parseInt)
+        .option('--format <format>', 'Output format, one of [plain|json] ', 'plain')
+        .action(async (name, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_EVENTS)
+
+                const validTypes = Object.values(InstanceEventEnum) as string[]
+                const types = opts.type?.split(",").map(t => t.trim()).filter(t => t.length > 0)
+                const invalidTypes = types?.filter(t => !validTypes.includes(t)) ?? []
+                if(invalidTypes.length > 0){
+                    throw new Error(`Unknown event type(s): ${invalidTypes.join(", ")}. Valid types: ${validTypes.join(", ")}`)
+                }
+
+                const since = opts.since ? Date.parse(opts.since) : undefined
+                if(since !== undefined && Number.isNaN(since)){
+                    throw new Error(`Invalid date for --since: '${opts.since}'`)
+                }
+
+                const m = await getInstanceManager(name)
+                const events = filterInstanceEvents(await m.getEventJournal(), {
+                    types: types as InstanceEventEnum[] | undefined,
+                    failedOnly: opts.failed,
+                    since: since,
+                    limit: opts.limit,
+                })
+
+                if(opts.format == 'json'){
+                    console.info(JSON.stringify(events, null, 2))
+                    return
+                }
+
+                if(events.length === 0){
+                    console.info('No events found.')
+                    return
+                }
+
+                for(const event of events){
+                    const duration = event.durationMs !== undefined ? ` (${(event.durationMs / 1000).toFixed(1)}s)` : ""
+                    const error = event.error ? ` - ${event.error}` : ""
+                    const message = event.message ? ` - ${event.message}` : ""
+                    console.info(`${new Date(event.timestamp).toISOString()}  ${event.type}${duration}${error}${message}`)
+                }
+            } catch (error) {
+                throw new Error(`Failed to get events of instance ${name}`, { cause: error })
+            }
+        })
+
+    program
+        .command('unlock <name>')
+        .description('Force removal of instance lock. Only use it if lock holder is not running anymore (eg. process killed or machine crashed).')
+        .option('--yes', 'Do not prompt for approval, automatically approve and continue')
+        .action(async (name, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_UNLOCK)
+
+                const coreClient = buildCoreClient()
+                const lock = await coreClient.getInstanceLock(name)
+                if(!lock){
+                    console.info(`Instance ${name} is not locked.`)
+                    return
+                }
+
+                console.info(`Instance ${name} is locked by ${describeLockHolder(lock)}${isLockExpired(lock) ? " (expired)" : ""}`)
+
+                let approveUnlock: boolean | undefined = opts.yes
+                if(approveUnlock === undefined){
+                    approveUnlock = await confirm({
+                        message: `Removing a lock held by a running operation may corrupt instance state. Remove lock anyway?`,
+                        default: false,
+                    })
+                }
+
+                if (!approveUnlock) {
+                    throw new Error('Unlock aborted.')
+                }
+
+                await coreClient.forceUnlockInstance(name)
+                console.info(`Instance ${name} unlocked.`)
+            } catch (error) {
+                throw new Error(`Failed to unlock instance ${name}`, { cause: error })
+            }
+        })
+
+    const stateCmd = program
+        .command('state')
+        .description('Manage instance state: show state revision history, rollback state to a previous revision.')
+
+    stateCmd
+        .command('history <name>')
+        .description('Show instance state revision history')
+        .option('--format <format>', 'Output format, one of [plain|json] ', 'plain')
+        .action(async (name, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_STATE_HISTORY)
+
+                const coreClient = buildCoreClient()
+                const revisions = await coreClient.getInstanceStateRevisions(name)
+
+                if(opts.format == 'json'){
+                    console.info(JSON.stringify(revisions, null, 2))
+                    return
+                }
+
+                if(revisions.length === 0){
+                    console.info(`No state revision found for instance ${name}.`)
+                    return
+                }
+
+                for(const revision of revisions){
+                    console.info(`${String(revision.revision).padStart(4)}  ${new Date(revision.timestamp).toISOString()}  v${revision.cloudypadVersion}  ${revision.action}`)
+                }
+            } catch (error) {
+                throw new Error(`Failed to get state history of instance ${name}`, { cause: error })
+            }
+        })
+
+    stateCmd
+        .command('rollback <name>')
+        .description('Restore instance state as it was at given revision. Revision is validated before being restored.')
+        .requiredOption('--to <revision>', 'Revision to restore, see "cloudypad state history <name>"', (v) => parseInt(v))
+        .option('--yes', 'Do not prompt for approval, automatically approve and continue')
+        .action(async (name, opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_STATE_ROLLBACK)
+
+                if(Number.isNaN(opts.to)){
+                    throw new Error(`Invalid revision for --to, expected a revision number`)
+                }
+
+                let approveRollback: boolean | undefined = opts.yes
+                if(approveRollback === undefined){
+                    approveRollback = await confirm({
+                        message: `You are about to restore state of instance '${name}' as it was at revision ${opts.to}. Please confirm:`,
+                        default: false,
+                    })
+                }
+
+                if (!approveRollback) {
+                    throw new Error('Rollback aborted.')
+                }
+
+                const coreClient = buildCoreClient()
+                await coreClient.rollbackInstanceState(name, opts.to)
+
+                console.info(`State of instance ${name} restored to revision ${opts.to}. Run 'cloudypad deploy ${name}' to apply it to your instance.`)
+            } catch (error) {
+                throw new Error(`Failed to rollback state of instance ${name}`, { cause: error })
+            }
+        })
+
+    stateCmd
+        .command('migrate')
+        .description('Copy instance states from a state backend to another. Source states are left untouched.')
+        .requiredOption('--from <backend>', 'State backend to migrate from, one of [local|s3]')
+        .requiredOption('--to <backend>', 'State backend to migrate to, one of [local|s3]')
+        .option('--instance <names...>', 'Instances to migrate. Default: all instances')
+        .option('--local-data-dir <path>', 'Cloudy Pad data directory for local state backend. Default: $CLOUDYPAD_HOME or ~/.cloudypad')
+        .option('--s3-bucket <name>', 'Bucket for S3 state backend. Default: $CLOUDYPAD_STATE_BACKEND_S3_BUCKET_NAME')
+        .option('--s3-region <region>', 'Region of S3 state backend bucket')
+        .option('--s3-endpoint <url>', 'Custom S3 endpoint, eg. for S3-compatible storage')
+        .option('--overwrite', 'Overwrite instances already existing in target state backend. By default they are skipped.')
+        .option('--pulumi-backend-to <url>', 'Also copy Pulumi stacks of migrated instances from current Pulumi backend ($PULUMI_BACKEND_URL) to given Pulumi backend URL, eg. s3://my-bucket/pulumi')
+        .option('--yes', 'Do not prompt for approval, automatically approve and continue')
+        .action(async (opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_STATE_MIGRATE)
+
+                if(opts.from === opts.to){
+                    throw new Error(`Source and target state backends must be different, got '${opts.from}' for both.`)
+                }
+
+                const source = buildStateBackendSideEffect(opts.from, opts)
+                const target = buildStateBackendSideEffect(opts.to, opts)
+
+                const instanceNames = opts.instance ?? await source.listInstances()
+                if(instanceNames.length === 0){
+                    console.info(`No instance to migrate.`)
+                    return
+                }
+
+                let approveMigration: boolean | undefined = opts.yes
+                if(approveMigration === undefined){
+                    approveMigration = await confirm({
+                        message: `You are about to copy ${instanceNames.length} instance(s) from ${opts.from} to ${opts.to} state backend: ${instanceNames.join(", ")}. Please confirm:`,
+                        default: false,
+                    })
+                }
+
+                if (!approveMigration) {
+                    throw new Error('Migration aborted.')
+                }
+
+                const migrator = new StateMigrator({ source: source, target: target })
+                const results = await migrator.migrate({ instanceNames: instanceNames, overwrite: opts.overwrite })
+
+                const pulumiMigrator = opts.pulumiBackendTo ? new PulumiStackMigrator({
+                    sourceWorkspaceOptions: coreConfig.pulumi?.workspaceOptions,
+                    targetWorkspaceOptions: {
+                        envVars: {
+                            ...coreConfig.pulumi?.workspaceOptions?.envVars,
+                            PULUMI_BACKEND_URL: opts.pulumiBackendTo
+                        }
+                    }
+                }) : undefined
+
+                for(const result of results){
+                    console.info(`${result.instanceName}: ${result.status}${result.message ? ` - ${result.message}` : ""}`)
+
+                    if(pulumiMigrator && result.status === STATE_MIGRATION_STATUS_MIGRATED){
+                        try {
+                            const stacks = await pulumiMigrator.migrateInstanceStacks(result.resourceName ?? result.instanceName)
+                            console.info(`${result.instanceName}: migrated Pulumi stacks ${stacks.map(s => `${s.projectName}/${s.stackName}`).join(", ") || "(none)"}`)
+                        } catch (error) {
+                            result.status = STATE_MIGRATION_STATUS_FAILED
+                            console.info(`${result.instanceName}: failed to migrate Pulumi stacks: ${error instanceof Error ? error.message : String(error)}`)
+                        }
+                    }
+                }
+
+                const failed = results.filter(r => r.status === STATE_MIGRATION_STATUS_FAILED)
+                if(failed.length > 0){
+                    throw new Error(`Migration failed for instance(s): ${failed.map(r => r.instanceName).join(", ")}`)
+                }
+
+                console.info("")
+                console.info(`Migration done. Source states are left untouched, remove them once you've checked migrated instances.`)
+            } catch (error) {
+                throw new Error(`Failed to migrate instance states from ${opts.from} to ${opts.to}`, { cause: error })
+            }
+        })
+
     program.command('pair <name>')
         .description('Pair an instance with Moonlight')
         .action(async (name: string) => {
@@ -387,7 +1465,102 @@ export function buildProgram(){
                 throw new Error('Failed to pair instance', { cause: error })
             }
         })
-    
+
+    program.command('apply')
+        .description('Declaratively create or update instances from a spec file. Every instance in spec is validated before any change is applied.')
+        .requiredOption('-f, --file <path>', 'Path to instance spec file (YAML)')
+        .option('--prune', 'Destroy existing instances not listed in spec file')
+        .option('--dry-run', 'Only show planned changes without applying them')
+        .option('--yes', 'Do not prompt for approval, automatically approve and continue')
+        .addOption(CLI_OPTION_RETRIES)
+        .addOption(CLI_OPTION_RETRY_DELAY)
+        .addOption(CLI_OPTION_FORCE_PULUMI_CANCEL)
+        .action(async (opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_APPLY)
+
+                const spec = loadInstanceSpecFile(opts.file)
+                const applier = new InstanceApplier({ config: coreConfig })
+                const plan = await applier.plan(spec, { prune: opts.prune })
+
+                console.info("Planned changes:")
+                for(const item of plan.items){
+                    console.info(`  ${item.instanceName} (${item.provider}): ${item.action}`)
+                }
+
+                if(plan.items.every(i => i.action === APPLY_ACTION_UNCHANGED)){
+                    console.info("")
+                    console.info("No change to apply.")
+                    return
+                }
+
+                if(opts.dryRun){
+                    return
+                }
+
+                let approveApply: boolean | undefined = opts.yes
+                if(approveApply === undefined){
+                    approveApply = await confirm({
+                        message: `You are about to apply changes listed above. Please confirm:`,
+                        default: false,
+                    })
+                }
+
+                if(!approveApply){
+                    throw new Error('Apply aborted.')
+                }
+
+                await applier.apply(plan, {
+                    retries: opts.retries,
+                    retryDelaySeconds: opts.retryDelay,
+                    pulumiCancel: opts.forcePulumiCancel
+                })
+
+                console.info("")
+                console.info(`Applied instance spec ${opts.file}`)
+
+            } catch (error) {
+                throw new Error(`Failed to apply instance spec`, { cause: error })
+            }
+        })
+
+    program.command('serve')
+        .description('Run a local HTTP API to manage instances. Instance actions are run as asynchronous jobs. OpenAPI document is served at /openapi.json')
+        .option('--host <host>', 'Host to listen on', '127.0.0.1')
+        .option('--port <port>', 'Port to listen on', (v) => parseInt(v), 8080)
+        .option('--token <token>', 'API token clients must provide as Bearer token. Alternatively, use CLOUDYPAD_API_TOKEN environment variable. A random token is generated if not set.')
+        .action(async (opts) => {
+            try {
+                analyticsClient.sendEvent(RUN_COMMAND_SERVE)
+
+                let token = opts.token ?? process.env.CLOUDYPAD_API_TOKEN
+                if(!token){
+                    token = randomBytes(24).toString('hex')
+                    console.info(`No API token provided, generated token: ${token}`)
+                }
+
+                const server = new CloudypadApiServer({
+                    config: coreConfig,
+                    token: token,
+                    host: opts.host,
+                    port: opts.port,
+                })
+                const address = await server.listen()
+
+                console.info(`Cloudy Pad API listening on http://${address.address}:${address.port} (OpenAPI document: /openapi.json)`)
+                console.info("Press Ctrl+C to stop.")
+
+                await new Promise<void>((resolve) => {
+                    process.once('SIGINT', () => resolve())
+                    process.once('SIGTERM', () => resolve())
+                })
+
+                await server.close()
+            } catch (error) {
+                throw new Error('Failed to run API server', { cause: error })
+            }
+        })
+
     return program
 }
 
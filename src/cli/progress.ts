@@ -0,0 +1,65 @@
+import { InstanceManager } from "../core/manager"
+import { ProgressEvent, ProgressPhase, ProgressUnsubscribe, PROGRESS_EVENT_PHASE_BEGIN, PROGRESS_EVENT_PHASE_END, PROGRESS_EVENT_PHASE_FAILURE, PROGRESS_EVENT_SERVER_STATUS } from "../core/progress"
+
+const PHASE_LABELS: Record<ProgressPhase, string> = {
+    [ProgressPhase.Deploy]: "Deploy",
+    [ProgressPhase.Provision]: "Provisioning",
+    [ProgressPhase.Configure]: "Configuration",
+    [ProgressPhase.Start]: "Start",
+    [ProgressPhase.Stop]: "Stop",
+    [ProgressPhase.Restart]: "Restart",
+    [ProgressPhase.Destroy]: "Destroy",
+    [ProgressPhase.DataSnapshotProvision]: "Data disk snapshot",
+    [ProgressPhase.MainProvision]: "Infrastructure provisioning",
+    [ProgressPhase.BaseImageSnapshot]: "Base image snapshot",
+    [ProgressPhase.RunConfiguration]: "Instance configuration (Ansible)",
+}
+
+/**
+ * Render InstanceManager progress events as an indented list of phases on console.
+ */
+export class CliProgressRenderer {
+
+    private depth = 0
+
+    constructor(private readonly output: (line: string) => void = console.info) {}
+
+    /**
+     * Render progress events of given manager until returned function is called.
+     */
+    attach(manager: InstanceManager): ProgressUnsubscribe {
+        return manager.onProgress(event => this.render(event))
+    }
+
+    render(event: ProgressEvent): void {
+        switch(event.type){
+            case PROGRESS_EVENT_PHASE_BEGIN:
+                this.print(`▶ ${PHASE_LABELS[event.phase]}...`)
+                this.depth++
+                break
+            case PROGRESS_EVENT_PHASE_END:
+                this.depth = Math.max(0, this.depth - 1)
+                this.print(`✔ ${PHASE_LABELS[event.phase]} done (${formatDuration(event.durationMs)})`)
+                break
+            case PROGRESS_EVENT_PHASE_FAILURE:
+                this.depth = Math.max(0, this.depth - 1)
+                this.print(`✖ ${PHASE_LABELS[event.phase]} failed after ${formatDuration(event.durationMs)}: ${event.error}`)
+                break
+            case PROGRESS_EVENT_SERVER_STATUS:
+                this.print(`• Server status: ${event.previousStatus ? `${event.previousStatus} → ` : ""}${event.status}`)
+                break
+        }
+    }
+
+    private print(line: string) {
+        this.output(`${"  ".repeat(this.depth)}${line}`)
+    }
+}
+
+function formatDuration(durationMs: number): string {
+    const seconds = Math.round(durationMs / 1000)
+    if(seconds < 60){
+        return `${seconds}s`
+    }
+    return `${Math.floor(seconds / 60)}m${seconds % 60}s`
+}
@@ -8,6 +8,8 @@ import { getLogger } from "../log/utils";
 import { PUBLIC_IP_TYPE, PUBLIC_IP_TYPE_DYNAMIC, PUBLIC_IP_TYPE_STATIC } from '../core/const';
 import { CreateCliArgs } from './command';
 import { CostAlertOptions } from '../core/provisioner';
+import { formatProvisionPlan, getPlanReplacements, ProvisionPlan } from '../core/plan';
+import { CostEstimate, formatCostEstimate } from '../core/cost';
 import { CoreConfig } from '../core/config/interface';
 import { StateManagerBuilder } from '../core/state/builders';
 
@@ -97,6 +99,7 @@ export abstract class AbstractInputPrompter<
                 throw new Error(`Won't overwrite existing instance ${instanceName}. Initialization aborted.`)
             }
         }
+        await stateLoader.checkResourceNameAvailable(instanceName, [ instanceName ])
 
         const sshUser = "ubuntu" // Harcoded default for now since we only support Ubuntu
 
@@ -517,7 +520,22 @@ export class ConfirmationPrompter {
 
     private readonly logger = getLogger(ConfirmationPrompter.name)
 
-    async confirmDeploy(instanceName: string, inputs?: PartialDeep<CommonInstanceInput>, autoApprove?: boolean): Promise<boolean> {
+    /**
+     * Ask for deployment approval. If a plan is given, changes on Cloud resources are shown before approval
+     * (even if auto-approved) and approval defaults to false if some resources would be replaced.
+     */
+    async confirmDeploy(instanceName: string, inputs?: PartialDeep<CommonInstanceInput>, autoApprove?: boolean, plan?: ProvisionPlan, costEstimate?: CostEstimate): Promise<boolean> {
+        if(plan){
+            console.info(formatProvisionPlan(plan))
+            console.info("")
+        }
+
+        if(costEstimate){
+            console.info(`Estimated cost of instance ${instanceName}:`)
+            console.info(formatCostEstimate(costEstimate))
+            console.info("")
+        }
+
         if(autoApprove){
             return true
         }
@@ -526,7 +544,7 @@ export class ConfirmationPrompter {
             message: `You are about to provision instance ${instanceName} with the following details:\n` + 
             `    ${inputToHumanReadableString(inputs)}` +
             `\nDo you want to proceed?`,
-            default: true,
+            default: plan ? getPlanReplacements(plan).length === 0 : true,
         })
 
         return confirmation
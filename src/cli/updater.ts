@@ -3,6 +3,11 @@ import { getLogger, Logger } from "../log/utils"
 import { UpdateCliArgs } from "./command"
 import { AbstractInputPrompter, ConfirmationPrompter } from "./prompter"
 import { AbstractProviderClient } from "../core/provider"
+import { CliProgressRenderer } from "./progress"
+import { ProvisionPlan } from "../core/plan"
+import { CostEstimator } from "../core/cost"
+import lodash from "lodash"
+import { applyLabelChanges, parseLabelArgs } from "../core/labels"
 
 export interface InteractiveInstanceUpdaterArgs<ST extends InstanceStateV1, A extends UpdateCliArgs> {
     inputPrompter: AbstractInputPrompter<A, ST["provision"]["input"], ST["configuration"]["input"]>  
@@ -31,27 +36,65 @@ export class InteractiveInstanceUpdater<ST extends InstanceStateV1, A extends Up
 
         const instanceName = cliArgs.name
         const cliInput = this.inputPrompter.cliArgsIntoPartialInput(cliArgs)
+        const labelChanges = cliArgs.label ? parseLabelArgs(cliArgs.label, true) : undefined
 
         this.logger.debug(`Updating instance ${instanceName} with inputs: ${JSON.stringify(cliInput)}`)
 
-        const prompter = new ConfirmationPrompter()
-        const confirmation = await prompter.confirmDeploy(instanceName, {
+        const instanceUpdater = this.providerClient.getInstanceUpdater()
+        const updateState = async () => {
+            await instanceUpdater.updateStateOnly({
+                instanceName: instanceName,
+                configurationInputs: cliInput.configuration,
+                provisionInputs: cliInput.provision
+            })
+            if(labelChanges){
+                const state = await this.providerClient.getInstanceState(instanceName)
+                await this.providerClient.getStateWriter().setLabels(instanceName, applyLabelChanges(state.labels, labelChanges))
+            }
+        }
+        const estimateUpdatedCost = async () => {
+            const state = await this.providerClient.getInstanceState(instanceName)
+            const updatedInput = lodash.merge({}, state.provision.input, cliInput.provision)
+            return new CostEstimator({ config: this.providerClient.getCoreConfig() }).estimateInstanceCost(state.provision.provider, updatedInput)
+        }
+        const confirmUpdate = async (plan?: ProvisionPlan) => new ConfirmationPrompter().confirmDeploy(instanceName, {
             instanceName: instanceName,
             provision: cliInput.provision,
             configuration: cliInput.configuration
-        }, cliArgs.yes)
+        }, cliArgs.yes, plan, await estimateUpdatedCost())
+
+        if(cliArgs.plan){
+            // Plan is computed from updated inputs: update state before approval
+            // and restore previous inputs if plan fails or update is not approved
+            const previousState = await this.providerClient.getInstanceState(instanceName)
+            await updateState()
 
-        if(!confirmation){
-            throw new Error('Update aborted.')
+            let confirmation = false
+            try {
+                const plan = await (await this.providerClient.getInstanceManager(instanceName)).plan({ deploy: true })
+                confirmation = await confirmUpdate(plan)
+            } finally {
+                if(!confirmation){
+                    const stateWriter = this.providerClient.getStateWriter()
+                    await stateWriter.setProvisionInput(instanceName, previousState.provision.input)
+                    await stateWriter.setConfigurationInput(instanceName, previousState.configuration.input)
+                    await stateWriter.setLabels(instanceName, previousState.labels)
+                }
+            }
+
+            if(!confirmation){
+                throw new Error('Update aborted.')
+            }
+        } else {
+            const confirmation = await confirmUpdate()
+            if(!confirmation){
+                throw new Error('Update aborted.')
+            }
+            await updateState()
         }
-        const instanceUpdater = this.providerClient.getInstanceUpdater()
-        await instanceUpdater.updateStateOnly({
-            instanceName: instanceName,
-            configurationInputs: cliInput.configuration,
-            provisionInputs: cliInput.provision
-        })
 
         const manager = await this.providerClient.getInstanceManager(instanceName)
+        new CliProgressRenderer().attach(manager)
         
         await manager.deploy()
     }
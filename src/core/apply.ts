@@ -0,0 +1,282 @@
+import * as fs from 'fs'
+import * as yaml from 'yaml'
+import lodash from 'lodash'
+import { z } from "zod"
+import { getLogger } from "../log/utils"
+import { CoreConfig } from "./config/interface"
+import { CLOUDYPAD_CONFIGURATOR_ANSIBLE } from "./const"
+import { InstanceManagerBuilder } from "./manager-builder"
+import { ActionOptions } from "./manager"
+import { InstanceStateV1, isValidInstanceName } from "./state/state"
+import { StateLoader } from "./state/loader"
+import { StateManagerBuilder } from "./state/builders"
+import { generatePrivateSshKey } from "../tools/ssh"
+import { toBase64 } from "../tools/base64"
+
+const InstanceSpecSchema = z.object({
+    name: z.string().describe("Unique instance name (kebab case)")
+        .refine(isValidInstanceName, { message: "Instance name must be kebab case" }),
+    provider: z.string().describe("Provider name. Must be a registered provider."),
+    provision: z.object({}).passthrough().describe("Provision inputs for provider. Validated against provider's state schema."),
+    configuration: z.object({}).passthrough().describe("Configuration inputs. Validated against provider's state schema."),
+})
+
+const InstanceSpecFileSchema = z.object({
+    instances: z.array(InstanceSpecSchema).describe("Desired instances")
+}).refine(data => new Set(data.instances.map(i => i.name)).size === data.instances.length, {
+    message: "Instance names must be unique in spec file",
+})
+
+export { InstanceSpecSchema, InstanceSpecFileSchema }
+
+/**
+ * Desired instance as written in a spec file. Provision and configuration inputs
+ * map to provider's InstanceInputs and are validated against provider's Zod schema.
+ */
+export type InstanceSpec = z.infer<typeof InstanceSpecSchema>
+
+export type InstanceSpecFile = z.infer<typeof InstanceSpecFileSchema>
+
+export const APPLY_ACTION_CREATE = "create"
+export const APPLY_ACTION_UPDATE = "update"
+export const APPLY_ACTION_UNCHANGED = "unchanged"
+export const APPLY_ACTION_PRUNE = "prune"
+
+export type APPLY_ACTION = typeof APPLY_ACTION_CREATE |
+    typeof APPLY_ACTION_UPDATE |
+    typeof APPLY_ACTION_UNCHANGED |
+    typeof APPLY_ACTION_PRUNE
+
+export interface ApplyPlanItem {
+    instanceName: string
+    provider: string
+    action: APPLY_ACTION
+
+    /**
+     * Validated desired state for create and update actions. Undefined for prune.
+     */
+    desiredState?: InstanceStateV1
+}
+
+export interface ApplyPlan {
+    items: ApplyPlanItem[]
+}
+
+export interface ApplyPlanOptions {
+    /**
+     * Plan destruction of existing instances not listed in spec. Default: false
+     */
+    prune?: boolean
+}
+
+export interface InstanceApplierArgs {
+    config: CoreConfig
+}
+
+/**
+ * Load and parse an instance spec file (YAML). Only the spec file structure is validated,
+ * instance inputs are validated per provider when planning.
+ */
+export function loadInstanceSpecFile(filePath: string): InstanceSpecFile {
+    const rawSpec = yaml.parse(fs.readFileSync(filePath, 'utf-8'))
+    const result = InstanceSpecFileSchema.safeParse(rawSpec)
+    if(!result.success){
+        throw new Error(`Invalid instance spec file ${filePath}: ${JSON.stringify(result.error.format())}`)
+    }
+    return result.data
+}
+
+/**
+ * Declaratively manage instances from a spec: create missing instances,
+ * update instances whose inputs changed and optionally prune instances not listed in spec.
+ *
+ * Applying is done in two steps:
+ * - plan() validates every spec entry with related provider's parser and computes actions to run without any side effect
+ * - apply() runs planned actions one by one
+ */
+export class InstanceApplier {
+
+    private readonly logger = getLogger(InstanceApplier.name)
+    private readonly managerBuilder: InstanceManagerBuilder
+    private readonly stateLoader: StateLoader
+
+    constructor(args: InstanceApplierArgs) {
+        this.managerBuilder = new InstanceManagerBuilder({ config: args.config })
+        this.stateLoader = new StateManagerBuilder({
+            stateBackend: {
+                local: args.config.stateBackend.local,
+                s3: args.config.stateBackend.s3
+            }
+        }).buildStateLoader()
+    }
+
+    /**
+     * Compute actions required to match given spec. Every spec entry is validated before returning.
+     * Throws an error listing all invalid entries if any.
+     */
+    async plan(spec: InstanceSpecFile, opts?: ApplyPlanOptions): Promise<ApplyPlan> {
+        const items: ApplyPlanItem[] = []
+        const errors: string[] = []
+
+        for(const instanceSpec of spec.instances){
+            try {
+                items.push(await this.planInstance(instanceSpec))
+            } catch (error) {
+                const errMsg = error instanceof Error ? error.message : String(error)
+                errors.push(`${instanceSpec.name}: ${errMsg}`)
+            }
+        }
+
+        if(errors.length > 0){
+            throw new Error(`Invalid instance spec, no change applied:\n${errors.join("\n")}`)
+        }
+
+        if(opts?.prune){
+            const specNames = spec.instances.map(i => i.name)
+            const existingNames = await this.stateLoader.listInstances()
+            for(const name of existingNames.filter(n => !specNames.includes(n))){
+                const state = await this.stateLoader.loadInstanceState(name)
+                items.push({
+                    instanceName: name,
+                    provider: state.provision.provider,
+                    action: APPLY_ACTION_PRUNE,
+                })
+            }
+        }
+
+        this.logger.debug(`Apply plan: ${JSON.stringify(items.map(i => ({ name: i.instanceName, action: i.action })))}`)
+
+        return { items: items }
+    }
+
+    /**
+     * Run planned actions sequentially. Created and updated instances are deployed, pruned instances are destroyed.
+     */
+    async apply(plan: ApplyPlan, opts?: ActionOptions): Promise<void> {
+        for(const item of plan.items){
+            this.logger.debug(`Applying ${item.action} on instance ${item.instanceName}`)
+
+            const providerClient = this.managerBuilder.buildProviderClient(item.provider)
+
+            switch(item.action){
+                case APPLY_ACTION_CREATE: {
+                    const desiredState = this.requireDesiredState(item)
+                    await providerClient.getInstanceInitializer().initializeStateOnly(
+                        item.instanceName,
+                        desiredState.provision.input,
+                        desiredState.configuration.input
+                    )
+                    const manager = await providerClient.getInstanceManager(item.instanceName)
+                    await manager.deploy(opts)
+                    break
+                }
+                case APPLY_ACTION_UPDATE: {
+                    // Replace inputs rather than merging them with updater as spec is declarative
+                    const desiredState = this.requireDesiredState(item)
+                    const stateWriter = providerClient.getStateWriter()
+                    await stateWriter.setProvisionInput(item.instanceName, desiredState.provision.input)
+                    await stateWriter.setConfigurationInput(item.instanceName, desiredState.configuration.input)
+                    const manager = await providerClient.getInstanceManager(item.instanceName)
+                    await manager.deploy(opts)
+                    break
+                }
+                case APPLY_ACTION_PRUNE: {
+                    const manager = await providerClient.getInstanceManager(item.instanceName)
+                    await manager.destroy(opts)
+                    break
+                }
+                case APPLY_ACTION_UNCHANGED:
+                    this.logger.debug(`Instance ${item.instanceName} unchanged, skipping.`)
+                    break
+            }
+        }
+    }
+
+    private async planInstance(instanceSpec: InstanceSpec): Promise<ApplyPlanItem> {
+        const providerClient = this.managerBuilder.buildProviderClient(instanceSpec.provider)
+        const parser = providerClient.getStateParser()
+
+        const exists = await this.stateLoader.instanceExists(instanceSpec.name)
+        if(!exists){
+            await this.stateLoader.checkResourceNameAvailable(instanceSpec.name)
+
+            const provisionInput = lodash.cloneDeep(instanceSpec.provision)
+
+            // Generate SSH key now if no auth method is provided as it's required for validation
+            // It would be generated by initializer otherwise
+            if(isMissingSshAuth(provisionInput)){
+                lodash.set(provisionInput, "ssh.privateKeyContentBase64", toBase64(generatePrivateSshKey()))
+            }
+
+            const desiredState = parser.parse({
+                version: "1",
+                name: instanceSpec.name,
+                provision: {
+                    provider: instanceSpec.provider,
+                    input: provisionInput,
+                },
+                configuration: {
+                    configurator: CLOUDYPAD_CONFIGURATOR_ANSIBLE,
+                    input: instanceSpec.configuration,
+                }
+            })
+
+            return {
+                instanceName: instanceSpec.name,
+                provider: instanceSpec.provider,
+                action: APPLY_ACTION_CREATE,
+                desiredState: desiredState,
+            }
+        }
+
+        const currentState = await providerClient.getInstanceState(instanceSpec.name)
+        if(currentState.provision.provider !== instanceSpec.provider){
+            throw new Error(`Instance already exists with provider '${currentState.provision.provider}', ` +
+                `can't change it to '${instanceSpec.provider}'. Destroy instance first or use another name.`)
+        }
+
+        // Spec is declarative: its inputs replace current inputs so that a field removed from spec is removed from state.
+        // Runtime flags are managed by Cloudy Pad on start/stop and SSH auth may have been generated on creation,
+        // keep them from current state.
+        const provisionInput = lodash.cloneDeep(instanceSpec.provision)
+        lodash.set(provisionInput, "runtime", currentState.provision.input.runtime)
+        if(isMissingSshAuth(provisionInput)){
+            lodash.set(provisionInput, "ssh", { ...currentState.provision.input.ssh, ...(lodash.get(provisionInput, "ssh") as object) })
+        }
+
+        const desiredState = parser.parse({
+            ...currentState,
+            provision: { ...currentState.provision, input: provisionInput },
+            configuration: { ...currentState.configuration, input: instanceSpec.configuration },
+        })
+
+        // Compare as persisted: undefined values are not written to state
+        const unchanged = lodash.isEqual(
+            JSON.parse(JSON.stringify([ currentState.provision.input, currentState.configuration.input ])),
+            JSON.parse(JSON.stringify([ desiredState.provision.input, desiredState.configuration.input ]))
+        )
+
+        return {
+            instanceName: instanceSpec.name,
+            provider: instanceSpec.provider,
+            action: unchanged ? APPLY_ACTION_UNCHANGED : APPLY_ACTION_UPDATE,
+            desiredState: desiredState,
+        }
+    }
+
+    private requireDesiredState(item: ApplyPlanItem): InstanceStateV1 {
+        if(!item.desiredState){
+            throw new Error(`No desired state for ${item.action} action on instance ${item.instanceName}. This is probably an internal bug.`)
+        }
+        return item.desiredState
+    }
+}
+
+/**
+ * Whether given provision inputs have an SSH config without any auth method
+ */
+function isMissingSshAuth(provisionInput: Record<string, unknown>): boolean {
+    const ssh = lodash.get(provisionInput, "ssh")
+    return typeof ssh === "object" && ssh !== null &&
+        !("privateKeyPath" in ssh) && !("privateKeyContentBase64" in ssh) && !("passwordBase64" in ssh)
+}
@@ -0,0 +1,186 @@
+import { getLogger } from "../log/utils"
+import { CoreConfig } from "./config/interface"
+import { InstanceManagerBuilder } from "./manager-builder"
+import { formatPrice } from "./pricing"
+import { ProviderRegistry } from "./provider-registry"
+import { StateManagerBuilder } from "./state/builders"
+import { InstanceBudget, InstanceEvent, InstanceEventEnum, InstanceStateV1 } from "./state/state"
+import { filterInstanceEvents } from "./events"
+import { getMonthStart, InstanceUsage, UsageReporter } from "./usage"
+
+export const DEFAULT_BUDGET_WARN_THRESHOLDS = [ 80 ]
+
+export const BUDGET_ACTION_NONE = "none"
+export const BUDGET_ACTION_WARN = "warn"
+export const BUDGET_ACTION_STOP = "stop"
+
+export type BUDGET_ACTION = typeof BUDGET_ACTION_NONE |
+    typeof BUDGET_ACTION_WARN |
+    typeof BUDGET_ACTION_STOP
+
+export interface BudgetDecision {
+    action: BUDGET_ACTION
+
+    /**
+     * Estimated spend in percent of budget limit. Undefined if price is unknown.
+     */
+    spendPercent?: number
+
+    /**
+     * Human readable decision, recorded in instance event history for warn and stop actions
+     */
+    message?: string
+}
+
+/**
+ * Decide budget guard action from instance usage over current budget period:
+ * - stop instance if it's running and estimated spend reached budget limit
+ * - warn once per threshold and period when estimated spend reached a threshold
+ * Warnings already emitted are counted from budget warning events of the period, so a restarted guard does not warn again.
+ * No more warnings are emitted once budget has been exceeded during the period.
+ */
+export function evaluateBudget(budget: InstanceBudget, usage: InstanceUsage, periodEvents: InstanceEvent[]): BudgetDecision {
+    if(usage.estimatedCost === undefined || !usage.currency){
+        return { action: BUDGET_ACTION_NONE, message: `Price of instance ${usage.instanceName} is unknown, budget can't be enforced` }
+    }
+
+    const spend = formatPrice(usage.estimatedCost, usage.currency)
+    const limit = formatPrice(budget.monthlyLimit, usage.currency)
+    const spendPercent = usage.estimatedCost / budget.monthlyLimit * 100
+    const running = usage.intervals.some(i => i.ongoing)
+
+    if(running && spendPercent >= 100){
+        return {
+            action: BUDGET_ACTION_STOP,
+            spendPercent: spendPercent,
+            message: `Estimated spend ${spend} exceeded monthly budget ${limit}, stopping instance`
+        }
+    }
+
+    const thresholds = [ ...(budget.warnThresholds ?? DEFAULT_BUDGET_WARN_THRESHOLDS) ].sort((a, b) => a - b)
+    const reachedThresholds = thresholds.filter(t => spendPercent >= t)
+    const warnedCount = periodEvents.filter(e => e.type === InstanceEventEnum.BudgetWarning).length
+    const exceeded = periodEvents.some(e => e.type === InstanceEventEnum.BudgetExceeded)
+
+    if(!exceeded && reachedThresholds.length > warnedCount){
+        const threshold = reachedThresholds[reachedThresholds.length - 1]
+        return {
+            action: BUDGET_ACTION_WARN,
+            spendPercent: spendPercent,
+            message: `Estimated spend ${spend} reached ${threshold}% of monthly budget ${limit}`
+        }
+    }
+
+    return { action: BUDGET_ACTION_NONE, spendPercent: spendPercent }
+}
+
+export interface BudgetCheckResult extends BudgetDecision {
+    instanceName: string
+    budget: InstanceBudget
+    usage: InstanceUsage
+
+    /**
+     * Error while applying decision (eg. instance failed to stop)
+     */
+    error?: string
+}
+
+export interface BudgetCheckOptions {
+
+    /**
+     * Only check these instances. Default: all instances with a budget.
+     */
+    instanceNames?: string[]
+
+    /**
+     * Check date (Unix timestamp in milliseconds). Default: now.
+     */
+    now?: number
+}
+
+export interface BudgetGuardArgs {
+    config: CoreConfig
+    registry?: ProviderRegistry
+}
+
+/**
+ * Enforce instance budgets: track estimated monthly spend from instance running time and pricing catalog,
+ * warn when thresholds are reached and stop instances exceeding their budget.
+ * Decisions are recorded in instance event history.
+ */
+export class BudgetGuard {
+
+    private readonly logger = getLogger(BudgetGuard.name)
+    private readonly args: BudgetGuardArgs
+    private readonly usageReporter: UsageReporter
+    private readonly managerBuilder: InstanceManagerBuilder
+
+    constructor(args: BudgetGuardArgs) {
+        this.args = args
+        this.usageReporter = new UsageReporter({ config: args.config, registry: args.registry })
+        this.managerBuilder = new InstanceManagerBuilder({ config: args.config })
+    }
+
+    /**
+     * Check budget of instances and apply decisions. Instances without budget are ignored.
+     * Failures on an instance are reported in its result and don't prevent checking other instances.
+     */
+    async check(opts?: BudgetCheckOptions): Promise<BudgetCheckResult[]> {
+        const now = opts?.now ?? Date.now()
+        const periodStart = getMonthStart(new Date(now))
+
+        const loader = new StateManagerBuilder({ stateBackend: this.args.config.stateBackend }).buildStateLoader()
+        const instanceNames = opts?.instanceNames ?? await loader.listInstances()
+
+        const results: BudgetCheckResult[] = []
+        for(const instanceName of instanceNames){
+            let state: InstanceStateV1
+            try {
+                state = await loader.loadInstanceState(instanceName)
+            } catch (error) {
+                this.logger.warn(`Couldn't load state of instance ${instanceName}, its budget won't be checked`, error)
+                continue
+            }
+
+            if(!state.budget){
+                continue
+            }
+
+            const events = await loader.sideEffect.loadEventJournal(instanceName) ?? state.events ?? []
+            const usage = this.usageReporter.getInstanceUsage(state, events, periodStart, now)
+            const decision = evaluateBudget(state.budget, usage, filterInstanceEvents(events, { since: periodStart }))
+            const result: BudgetCheckResult = { instanceName: instanceName, budget: state.budget, usage: usage, ...decision }
+
+            this.logger.debug(`Budget check of instance ${instanceName}: ${JSON.stringify(decision)}`)
+
+            try {
+                await this.applyDecision(instanceName, decision)
+            } catch (error) {
+                this.logger.warn(`Failed to apply budget decision '${decision.action}' on instance ${instanceName}`, error)
+                result.error = error instanceof Error ? error.message : String(error)
+            }
+
+            results.push(result)
+        }
+
+        return results
+    }
+
+    private async applyDecision(instanceName: string, decision: BudgetDecision): Promise<void> {
+        if(decision.action === BUDGET_ACTION_NONE){
+            return
+        }
+
+        const manager = await this.managerBuilder.buildInstanceManager(instanceName)
+
+        if(decision.action === BUDGET_ACTION_WARN){
+            this.logger.warn(`Instance ${instanceName}: ${decision.message}`)
+            await manager.recordEvent(InstanceEventEnum.BudgetWarning, decision.message)
+            return
+        }
+
+        this.logger.warn(`Instance ${instanceName}: ${decision.message}`)
+        await manager.recordEvent(InstanceEventEnum.BudgetExceeded, decision.message)
+        await manager.stop({ wait: true })
+    }
+}
@@ -0,0 +1,79 @@
+import { getLogger } from "../log/utils"
+
+const logger = getLogger("bulk")
+
+export const DEFAULT_BULK_CONCURRENCY = 3
+
+export interface BulkActionResult {
+    instanceName: string
+    success: boolean
+
+    /**
+     * Error if action failed on instance
+     */
+    error?: string
+
+    durationMs: number
+}
+
+/**
+ * Run an action on several instances with at most `concurrency` actions running at the same time.
+ * Failure on an instance is reported in its result and doesn't prevent running action on other instances.
+ * Results are returned in the same order as instance names.
+ */
+export async function runBulkAction(
+    instanceNames: string[],
+    concurrency: number,
+    action: (instanceName: string) => Promise<void>
+): Promise<BulkActionResult[]> {
+    if(!Number.isInteger(concurrency) || concurrency < 1){
+        throw new Error(`Invalid concurrency '${concurrency}', expected a positive integer`)
+    }
+
+    const results: BulkActionResult[] = new Array(instanceNames.length)
+    let nextIndex = 0
+
+    const worker = async () => {
+        while(nextIndex < instanceNames.length){
+            const index = nextIndex++
+            const instanceName = instanceNames[index]
+            const startedAt = Date.now()
+            try {
+                await action(instanceName)
+                results[index] = { instanceName: instanceName, success: true, durationMs: Date.now() - startedAt }
+            } catch (error) {
+                logger.debug(`Bulk action failed on instance ${instanceName}`, error)
+                results[index] = {
+                    instanceName: instanceName,
+                    success: false,
+                    error: error instanceof Error ? error.message : String(error),
+                    durationMs: Date.now() - startedAt
+                }
+            }
+        }
+    }
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, instanceNames.length) }, () => worker()))
+    return results
+}
+
+/**
+ * Format bulk action results as a table followed by a summary line
+ */
+export function formatBulkActionResults(action: string, results: BulkActionResult[]): string {
+    const headers = [ "INSTANCE", "RESULT", "DURATION", "ERROR" ]
+    const rows = results.map(r => [
+        r.instanceName,
+        r.success ? "ok" : "failed",
+        `${Math.round(r.durationMs / 1000)}s`,
+        r.error ?? "",
+    ])
+
+    const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)))
+    const lines = [ headers, ...rows ].map(row => row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd())
+
+    const failed = results.filter(r => !r.success).length
+    lines.push("")
+    lines.push(`${action}: ${results.length - failed} succeeded, ${failed} failed.`)
+    return lines.join("\n")
+}
@@ -0,0 +1,332 @@
+import * as crypto from 'crypto'
+import * as fs from 'fs'
+import lodash from "lodash"
+import { z } from "zod"
+import { getLogger } from "../log/utils"
+import { PulumiStackExporter } from "../tools/pulumi/export"
+import { createTarGz, extractTarGz } from "../tools/tar"
+import { toBase64 } from "../tools/base64"
+import { CoreConfig } from "./config/interface"
+import { CLOUDYPAD_VERSION } from "./const"
+import { InstanceManagerBuilder } from "./manager-builder"
+import { StateManagerBuilder } from "./state/builders"
+import { DEFAULT_LOCK_TTL_SECONDS, InstanceLockHandle } from "./state/lock"
+import { AnonymousStateParser } from "./state/parser"
+import { getInstanceResourceName, InstanceEventSchema, InstanceStateV1 } from "./state/state"
+
+/**
+ * Version of bundle format. Bundles with another format version can't be imported.
+ */
+export const BUNDLE_FORMAT_VERSION = 1
+
+const BUNDLE_MANIFEST_FILE = "manifest.json"
+const BUNDLE_CONTENT_FILE = "content.json"
+const BUNDLE_ENCRYPTED_CONTENT_FILE = "content.json.enc"
+
+const BUNDLE_CIPHER = "aes-256-gcm"
+const BUNDLE_KDF = "scrypt"
+
+const BundleEncryptionSchema = z.object({
+    algorithm: z.literal(BUNDLE_CIPHER),
+    kdf: z.literal(BUNDLE_KDF),
+    salt: z.string().describe("Key derivation salt (base64 encoded)"),
+    iv: z.string().describe("Cipher initialization vector (base64 encoded)"),
+    authTag: z.string().describe("Cipher authentication tag (base64 encoded)"),
+})
+
+export const BundleManifestSchema = z.object({
+    bundleVersion: z.number().describe("Bundle format version"),
+    cloudypadVersion: z.string().describe("Cloudy Pad version which exported the bundle"),
+    instanceName: z.string(),
+    provider: z.string(),
+    createdAt: z.number().describe("Export date (Unix timestamp in milliseconds)"),
+    encryption: BundleEncryptionSchema.optional().describe("Content encryption parameters. Content is not encrypted if not set."),
+})
+
+const BundleContentSchema = z.object({
+    state: z.unknown().describe("Instance state, parsed with instance provider's state parser on import"),
+    events: z.array(InstanceEventSchema).optional().describe("Instance event journal"),
+    pulumiStacks: z.array(z.object({
+        projectName: z.string(),
+        stackName: z.string(),
+        deployment: z.object({
+            version: z.number(),
+            deployment: z.record(z.string(), z.unknown()),
+        }),
+    })).describe("Exported Pulumi stack checkpoints"),
+})
+
+export type BundleManifest = z.infer<typeof BundleManifestSchema>
+type BundleContent = z.infer<typeof BundleContentSchema>
+
+export interface InstanceExportOptions {
+
+    /**
+     * Encrypt bundle content with a key derived from passphrase. Manifest is never encrypted.
+     */
+    passphrase?: string
+
+    /**
+     * Export instance Pulumi stacks. Default: true.
+     */
+    pulumiStacks?: boolean
+}
+
+export interface InstanceImportOptions {
+
+    /**
+     * Passphrase used on export. Required for encrypted bundles.
+     */
+    passphrase?: string
+
+    /**
+     * Import Pulumi stacks held in bundle. Default: true.
+     */
+    pulumiStacks?: boolean
+}
+
+export interface InstanceBundlerArgs {
+    config: CoreConfig
+}
+
+/**
+ * Export instances as portable bundles and import them, eg. to hand an instance over to a teammate
+ * or move it between machines. A bundle is a gzipped tar archive holding:
+ * - a manifest with bundle format version, Cloudy Pad version and encryption parameters
+ * - instance state with SSH key embedded (base64 encoded), event journal and Pulumi stack checkpoints,
+ *   optionally encrypted with a passphrase
+ */
+export class InstanceBundler {
+
+    private readonly logger = getLogger(InstanceBundler.name)
+    private readonly args: InstanceBundlerArgs
+    private readonly managerBuilder: InstanceManagerBuilder
+
+    constructor(args: InstanceBundlerArgs) {
+        this.args = args
+        this.managerBuilder = new InstanceManagerBuilder({ config: args.config })
+    }
+
+    /**
+     * Export an instance as a bundle. Instance is locked during export so that its state and stacks are consistent.
+     */
+    async exportInstance(instanceName: string, opts?: InstanceExportOptions): Promise<Buffer> {
+        const sideEffect = new StateManagerBuilder({ stateBackend: this.args.config.stateBackend }).buildSideEffect()
+        if(!(await sideEffect.instanceExists(instanceName))){
+            throw new Error(`Instance ${instanceName} not found`)
+        }
+
+        const lock = new InstanceLockHandle(sideEffect, await sideEffect.acquireLock(instanceName, DEFAULT_LOCK_TTL_SECONDS), DEFAULT_LOCK_TTL_SECONDS)
+        try {
+            const state = new AnonymousStateParser().parse(await sideEffect.loadRawInstanceState(instanceName))
+
+            const content: BundleContent = {
+                state: this.embedSshKey(state),
+                events: await sideEffect.loadEventJournal(instanceName),
+                pulumiStacks: (opts?.pulumiStacks ?? true) ?
+                    await this.buildStackExporter().exportInstanceStacks(getInstanceResourceName(state)) : [],
+            }
+
+            this.logger.debug(`Exporting instance ${instanceName} with Pulumi stacks ` +
+                `${JSON.stringify(content.pulumiStacks.map(s => `${s.projectName}/${s.stackName}`))}`)
+
+            const manifest: BundleManifest = {
+                bundleVersion: BUNDLE_FORMAT_VERSION,
+                cloudypadVersion: CLOUDYPAD_VERSION,
+                instanceName: instanceName,
+                provider: state.provision.provider,
+                createdAt: Date.now(),
+            }
+
+            const rawContent = Buffer.from(JSON.stringify(content), "utf-8")
+            if(opts?.passphrase === undefined){
+                return createTarGz([
+                    { name: BUNDLE_MANIFEST_FILE, content: Buffer.from(JSON.stringify(manifest, null, 2), "utf-8") },
+                    { name: BUNDLE_CONTENT_FILE, content: rawContent },
+                ])
+            }
+
+            const encrypted = encryptBundleContent(rawContent, opts.passphrase)
+            manifest.encryption = encrypted.encryption
+            return createTarGz([
+                { name: BUNDLE_MANIFEST_FILE, content: Buffer.from(JSON.stringify(manifest, null, 2), "utf-8") },
+                { name: BUNDLE_ENCRYPTED_CONTENT_FILE, content: encrypted.data },
+            ])
+        } finally {
+            await lock.release()
+        }
+    }
+
+    /**
+     * Read bundle manifest without importing bundle, eg. to check whether bundle is encrypted.
+     */
+    readManifest(bundle: Buffer): BundleManifest {
+        return this.readBundle(bundle).manifest
+    }
+
+    /**
+     * Import an instance from a bundle: Pulumi stacks are imported in current Pulumi backend,
+     * then instance state and event journal are written in current state backend.
+     * Throws before writing anything if bundle is not compatible with current Cloudy Pad version, if instance already exists,
+     * if its name is used by Cloud resources of another instance or if one of its Pulumi stacks already exists.
+     */
+    async importInstance(bundle: Buffer, opts?: InstanceImportOptions): Promise<InstanceStateV1> {
+        const { manifest, files } = this.readBundle(bundle)
+        checkBundleCompatibility(manifest)
+
+        let rawContent: Buffer
+        if(manifest.encryption){
+            const encryptedContent = files.get(BUNDLE_ENCRYPTED_CONTENT_FILE)
+            if(!encryptedContent){
+                throw new Error(`Malformed bundle: missing ${BUNDLE_ENCRYPTED_CONTENT_FILE}`)
+            }
+            if(opts?.passphrase === undefined){
+                throw new Error(`Bundle is encrypted, a passphrase is required to import it`)
+            }
+            rawContent = decryptBundleContent(encryptedContent, manifest.encryption, opts.passphrase)
+        } else {
+            const plainContent = files.get(BUNDLE_CONTENT_FILE)
+            if(!plainContent){
+                throw new Error(`Malformed bundle: missing ${BUNDLE_CONTENT_FILE}`)
+            }
+            rawContent = plainContent
+        }
+
+        const content = BundleContentSchema.parse(JSON.parse(rawContent.toString("utf-8")))
+        const state = this.managerBuilder.buildProviderClient(manifest.provider).getStateParser().parse(content.state)
+        if(state.name !== manifest.instanceName){
+            throw new Error(`Malformed bundle: bundle is for instance ${manifest.instanceName} but holds state of instance ${state.name}`)
+        }
+
+        const stateManagerBuilder = new StateManagerBuilder({ stateBackend: this.args.config.stateBackend })
+        const sideEffect = stateManagerBuilder.buildSideEffect()
+        if(await sideEffect.instanceExists(state.name)){
+            throw new Error(`Instance ${state.name} already exists`)
+        }
+
+        // Imported instance may have been renamed: both its name and resource name must be free
+        const stateLoader = stateManagerBuilder.buildStateLoader()
+        for(const name of lodash.uniq([ state.name, getInstanceResourceName(state) ])){
+            await stateLoader.checkResourceNameAvailable(name)
+        }
+
+        if((opts?.pulumiStacks ?? true) && content.pulumiStacks.length > 0){
+            const stackExporter = this.buildStackExporter()
+
+            // Check all stacks before importing any so that nothing is written if a stack already exists
+            const existingStacks = await stackExporter.listStacks()
+            for(const stack of content.pulumiStacks){
+                if(existingStacks.some(s => s.projectName === stack.projectName && s.stackName === stack.stackName)){
+                    throw new Error(`Pulumi stack ${stack.projectName}/${stack.stackName} already exists. ` +
+                        `Import without Pulumi stacks to keep existing stack.`)
+                }
+            }
+
+            for(const stack of content.pulumiStacks){
+                await stackExporter.importStack(stack)
+            }
+        }
+
+        this.logger.debug(`Importing instance ${state.name} exported with Cloudy Pad ${manifest.cloudypadVersion}`)
+
+        await sideEffect.persistState(state, `import from bundle exported with Cloudy Pad ${manifest.cloudypadVersion}`)
+        for(const event of content.events ?? []){
+            await sideEffect.appendEventJournal(state.name, event)
+        }
+
+        return state
+    }
+
+    /**
+     * Return a copy of state with SSH private key file content embedded as base64
+     * so that bundle can be used on another machine
+     */
+    private embedSshKey(state: InstanceStateV1): InstanceStateV1 {
+        const result = lodash.cloneDeep(state)
+        const keyPath = result.provision.input.ssh.privateKeyPath
+        if(keyPath){
+            if(!fs.existsSync(keyPath)){
+                throw new Error(`SSH private key ${keyPath} of instance ${state.name} not found`)
+            }
+            result.provision.input.ssh.privateKeyContentBase64 = toBase64(fs.readFileSync(keyPath, "utf-8"))
+            result.provision.input.ssh.privateKeyPath = undefined
+        }
+        return result
+    }
+
+    private readBundle(bundle: Buffer): { manifest: BundleManifest, files: Map<string, Buffer> } {
+        let files: Map<string, Buffer>
+        try {
+            files = new Map(extractTarGz(bundle).map(e => [ e.name, e.content ]))
+        } catch (error) {
+            throw new Error(`Not a Cloudy Pad bundle`, { cause: error })
+        }
+
+        const rawManifest = files.get(BUNDLE_MANIFEST_FILE)
+        if(!rawManifest){
+            throw new Error(`Not a Cloudy Pad bundle: missing ${BUNDLE_MANIFEST_FILE}`)
+        }
+
+        return { manifest: BundleManifestSchema.parse(JSON.parse(rawManifest.toString("utf-8"))), files: files }
+    }
+
+    private buildStackExporter(): PulumiStackExporter {
+        return new PulumiStackExporter({ workspaceOptions: this.args.config.pulumi?.workspaceOptions })
+    }
+}
+
+/**
+ * Check a bundle can be imported with current Cloudy Pad version: bundle format version must be supported
+ * and bundle must not have been exported by a newer major or minor Cloudy Pad version, whose state may not be readable.
+ */
+export function checkBundleCompatibility(manifest: BundleManifest, currentVersion: string = CLOUDYPAD_VERSION): void {
+    if(manifest.bundleVersion !== BUNDLE_FORMAT_VERSION){
+        throw new Error(`Unsupported bundle format version ${manifest.bundleVersion} (bundle exported with Cloudy Pad ${manifest.cloudypadVersion}), ` +
+            `this Cloudy Pad version supports bundle format version ${BUNDLE_FORMAT_VERSION}`)
+    }
+
+    const bundleVersion = parseMajorMinor(manifest.cloudypadVersion)
+    const current = parseMajorMinor(currentVersion)
+    if(bundleVersion && current && (bundleVersion[0] > current[0] || bundleVersion[0] === current[0] && bundleVersion[1] > current[1])){
+        throw new Error(`Bundle was exported with Cloudy Pad ${manifest.cloudypadVersion}, newer than current version ${currentVersion}. ` +
+            `Upgrade Cloudy Pad to import it.`)
+    }
+}
+
+function parseMajorMinor(version: string): [ number, number ] | undefined {
+    const match = version.match(/^v?(\d+)\.(\d+)/)
+    return match ? [ parseInt(match[1]), parseInt(match[2]) ] : undefined
+}
+
+function deriveBundleKey(passphrase: string, salt: Buffer): Buffer {
+    return crypto.scryptSync(passphrase, salt, 32)
+}
+
+function encryptBundleContent(data: Buffer, passphrase: string): { data: Buffer, encryption: z.infer<typeof BundleEncryptionSchema> } {
+    const salt = crypto.randomBytes(16)
+    const iv = crypto.randomBytes(12)
+    const cipher = crypto.createCipheriv(BUNDLE_CIPHER, deriveBundleKey(passphrase, salt), iv)
+    const encrypted = Buffer.concat([ cipher.update(data), cipher.final() ])
+
+    return {
+        data: encrypted,
+        encryption: {
+            algorithm: BUNDLE_CIPHER,
+            kdf: BUNDLE_KDF,
+            salt: salt.toString("base64"),
+            iv: iv.toString("base64"),
+            authTag: cipher.getAuthTag().toString("base64"),
+        }
+    }
+}
+
+function decryptBundleContent(data: Buffer, encryption: z.infer<typeof BundleEncryptionSchema>, passphrase: string): Buffer {
+    const key = deriveBundleKey(passphrase, Buffer.from(encryption.salt, "base64"))
+    const decipher = crypto.createDecipheriv(BUNDLE_CIPHER, key, Buffer.from(encryption.iv, "base64"))
+    decipher.setAuthTag(Buffer.from(encryption.authTag, "base64"))
+    try {
+        return Buffer.concat([ decipher.update(data), decipher.final() ])
+    } catch (error) {
+        throw new Error(`Failed to decrypt bundle: wrong passphrase or corrupted bundle`, { cause: error })
+    }
+}
@@ -4,6 +4,11 @@ import { StateLoader } from './state/loader';
 import { StateManagerBuilder } from './state/builders';
 import { CoreConfig } from './config/interface';
 import { InstanceManagerBuilder } from './manager-builder';
+import { InstanceLockInfo } from './state/lock';
+import { StateRevisionMetadata } from './state/revisions';
+import { StateWriter } from './state/writer';
+import { InstanceStateV1 } from './state/state';
+import { AnonymousStateParser } from './state/parser';
 
 // This is the global config !
 export interface CloudypadClientArgs {
@@ -55,6 +60,49 @@ export class CloudypadClient {
         return loader.instanceExists(instanceName)
     }
 
+    /**
+     * Get current lock on instance, if any.
+     */
+    async getInstanceLock(instanceName: string): Promise<InstanceLockInfo | undefined> {
+        return this.getStateLoader().sideEffect.getLock(instanceName)
+    }
+
+    /**
+     * Remove instance lock regardless of its holder. Only use it if lock holder is known to be dead
+     * as it may cause concurrent operations on instance. Returns removed lock, if any.
+     */
+    async forceUnlockInstance(instanceName: string): Promise<InstanceLockInfo | undefined> {
+        this.logger.debug(`Force unlocking instance ${instanceName}`)
+        return this.getStateLoader().sideEffect.forceUnlock(instanceName)
+    }
+
+    /**
+     * List instance state revisions, oldest first.
+     */
+    async getInstanceStateRevisions(instanceName: string): Promise<StateRevisionMetadata[]> {
+        return this.getStateLoader().sideEffect.listStateRevisions(instanceName)
+    }
+
+    /**
+     * Restore instance state as it was at given revision. Revision is validated with instance provider's
+     * state parser before being restored. Instance is locked during rollback.
+     */
+    async rollbackInstanceState(instanceName: string, revision: number): Promise<InstanceStateV1> {
+        // Provider is read from revision rather than current state as current state may be the broken one
+        const stateRevision = await this.getStateLoader().sideEffect.loadStateRevision(instanceName, revision)
+        const revisionState = new AnonymousStateParser().parse(stateRevision.state)
+
+        const mb = new InstanceManagerBuilder({ config: this.args.config })
+        const writer: StateWriter<InstanceStateV1> = mb.buildProviderClient(revisionState.provision.provider).getStateWriter()
+
+        const lock = await writer.lock(instanceName)
+        try {
+            return await writer.rollbackToRevision(instanceName, revision)
+        } finally {
+            await lock.release()
+        }
+    }
+
     async buildInstanceManager(instanceName: string): Promise<InstanceManager> {
         const mb = new InstanceManagerBuilder({ config: this.args.config })
         return mb.buildInstanceManager(instanceName)
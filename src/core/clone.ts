@@ -0,0 +1,131 @@
+import lodash from "lodash"
+import { getLogger } from "../log/utils"
+import { CoreConfig } from "./config/interface"
+import { InstanceManagerBuilder } from "./manager-builder"
+import { StateManagerBuilder } from "./state/builders"
+import { applyLabelChanges, LabelChanges } from "./labels"
+import { InstanceStateV1 } from "./state/state"
+
+const CLONE_OVERRIDE_ROOTS = [ "provision", "configuration" ]
+
+/**
+ * Override of a clone input, eg. { path: "provision.region", value: "eu-west-1" }
+ */
+export interface CloneOverride {
+    path: string
+    value: unknown
+}
+
+/**
+ * Parse clone overrides from "path=value" arguments. Path is a dotted path in provision or configuration input,
+ * eg. "provision.instanceType=g5.xlarge". Value is parsed as JSON if possible (numbers, booleans, objects), as string otherwise.
+ */
+export function parseCloneOverrides(args: string[]): CloneOverride[] {
+    return args.map(arg => {
+        const separatorIndex = arg.indexOf("=")
+        const path = separatorIndex > 0 ? arg.slice(0, separatorIndex) : ""
+        const root = path.split(".")[0]
+        if(!CLONE_OVERRIDE_ROOTS.includes(root) || path === root){
+            throw new Error(`Invalid override '${arg}', expected provision.<key>=<value> or configuration.<key>=<value>`)
+        }
+
+        const rawValue = arg.slice(separatorIndex + 1)
+        let value: unknown
+        try {
+            value = JSON.parse(rawValue)
+        } catch {
+            value = rawValue
+        }
+        return { path: path, value: value }
+    })
+}
+
+export interface CloneOptions {
+
+    /**
+     * Overrides applied to inputs copied from source instance
+     */
+    overrides?: CloneOverride[]
+
+    /**
+     * Changes applied to source instance labels for new instance. Default: source instance labels are copied as-is.
+     */
+    labelChanges?: LabelChanges
+
+    /**
+     * Create new instance server from source instance base image. Source instance must have a base image.
+     */
+    fromBaseImage?: boolean
+}
+
+export interface InstanceClonerArgs {
+    config: CoreConfig
+}
+
+/**
+ * Initialize a new instance from an existing instance inputs. Only the state of new instance is initialized,
+ * it must be deployed afterward.
+ */
+export class InstanceCloner {
+
+    private readonly logger = getLogger(InstanceCloner.name)
+    private readonly args: InstanceClonerArgs
+    private readonly managerBuilder: InstanceManagerBuilder
+
+    constructor(args: InstanceClonerArgs) {
+        this.args = args
+        this.managerBuilder = new InstanceManagerBuilder({ config: args.config })
+    }
+
+    /**
+     * Clone source instance provision and configuration inputs into a new instance:
+     * - a new SSH key is generated, unless source uses an SSH password or an SSH key is set by overrides
+     * - outputs and runtime flags are not copied: new instance has no Cloud resource yet
+     * - budget and schedule are not copied
+     * - data disk snapshot is not restored: new instance data disk starts empty
+     */
+    async clone(sourceName: string, instanceName: string, opts?: CloneOptions): Promise<InstanceStateV1> {
+        const loader = new StateManagerBuilder({ stateBackend: this.args.config.stateBackend }).buildStateLoader()
+
+        if(await loader.instanceExists(instanceName)){
+            throw new Error(`Instance ${instanceName} already exists`)
+        }
+        await loader.checkResourceNameAvailable(instanceName)
+
+        const source = await loader.loadInstanceState(sourceName)
+
+        const provisionInput = lodash.cloneDeep(source.provision.input)
+        delete provisionInput.runtime
+        // Clear source SSH key so a new one is generated on initialization, unless overridden
+        provisionInput.ssh.privateKeyContentBase64 = undefined
+        provisionInput.ssh.privateKeyPath = undefined
+
+        if(opts?.fromBaseImage){
+            const baseImageId = source.provision.output?.baseImageId
+            if(!baseImageId){
+                throw new Error(`Instance ${sourceName} has no base image. Base image is created on deploy if base image snapshot is enabled.`)
+            }
+            provisionInput.imageId = baseImageId
+        }
+
+        const inputs = {
+            provision: provisionInput,
+            configuration: lodash.cloneDeep(source.configuration.input),
+        }
+        for(const override of opts?.overrides ?? []){
+            lodash.set(inputs, override.path, override.value)
+        }
+
+        this.logger.debug(`Cloning instance ${sourceName} into ${instanceName} with inputs ${JSON.stringify(inputs)}`)
+
+        const providerClient = this.managerBuilder.buildProviderClient(source.provision.provider)
+        await providerClient.getInstanceInitializer().initializeStateOnly(
+            instanceName,
+            inputs.provision,
+            inputs.configuration,
+            opts?.labelChanges ? applyLabelChanges(source.labels, opts.labelChanges) : source.labels
+        )
+
+        return loader.loadInstanceState(instanceName)
+    }
+}
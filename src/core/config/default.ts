@@ -32,7 +32,9 @@ export class ConfigLoader {
 
         const config = {
             stateBackend: this.loadStateBackendConfig(),
-            pulumi: this.loadPulumiConfig()
+            pulumi: this.loadPulumiConfig(),
+            providers: this.loadProvidersConfig(),
+            pricing: this.loadPricingConfig()
         }
 
         this.logger.debug("Loaded Cloudypad Core config: " + JSON.stringify(config))
@@ -68,6 +70,27 @@ export class ConfigLoader {
             }
         }
     }
+
+    loadPricingConfig(): CoreConfig["pricing"] {
+        return {
+            cacheDir: path.join(this.loadLocalDataRootDir(), "cache", "pricing")
+        }
+    }
+
+    /**
+     * Load additional provider modules from $CLOUDYPAD_PROVIDER_MODULES environment variable,
+     * a comma-separated list of module paths.
+     */
+    loadProvidersConfig(): CoreConfig["providers"] {
+        const modules = (process.env.CLOUDYPAD_PROVIDER_MODULES ?? "")
+            .split(",")
+            .map(m => m.trim())
+            .filter(m => m.length > 0)
+
+        return {
+            modules: modules
+        }
+    }
     
 }
 
@@ -18,7 +18,13 @@ export const CoreConfigSchema = z.object({
         workspaceOptions: z.object({
             envVars: z.record(z.string(), z.string()).optional(),
         }).optional(),
-    }).optional().describe("Pulumi configuration for providers using Pulumi. By default Pulumi use local backend under Cloudy Pad data home directory.")
+    }).optional().describe("Pulumi configuration for providers using Pulumi. By default Pulumi use local backend under Cloudy Pad data home directory."),
+    providers: z.object({
+        modules: z.array(z.string()).optional().describe("Paths of modules registering additional providers. Each module must export a register(registry) function."),
+    }).optional().describe("Additional providers to register on top of Cloudy Pad Core providers."),
+    pricing: z.object({
+        cacheDir: z.string().optional().describe("Directory holding refreshed pricing catalogs as <provider>.json files, used over bundled catalogs when more recent."),
+    }).optional().describe("Pricing catalogs used for cost estimates. Bundled catalogs are used by default."),
 })
 
 export type CoreConfig = z.infer<typeof CoreConfigSchema>
\ No newline at end of file
@@ -0,0 +1,196 @@
+import { CoreConfig } from "./config/interface"
+import { getProviderRegistry, ProviderRegistry } from "./provider-registry"
+import { formatPrice, getInstanceHourlyPrice, HOURS_PER_MONTH, PricingCatalog, PricingCatalogLoader } from "./pricing"
+import { CommonProvisionInputV1 } from "./state/state"
+
+/**
+ * Billed resources of an instance, as derived from its provider-specific provision input
+ */
+export interface BilledResources {
+    instanceType: string
+    acceleratorType?: string
+    spot?: boolean
+
+    /**
+     * Billed root disk size. 0 if root disk is included in instance type price.
+     */
+    rootDiskSizeGb: number
+
+    dataDiskSizeGb?: number
+    staticIp?: boolean
+}
+
+export type CostComponent = "compute" | "disks" | "snapshots" | "images" | "static-ip" | "egress"
+
+export interface CostEstimateItem {
+    component: CostComponent
+
+    /**
+     * Cost per running hour. Undefined if price is unknown or component is not billed per hour (egress).
+     */
+    hourly?: number
+
+    /**
+     * Cost per month. Undefined if price is unknown.
+     */
+    monthly?: number
+}
+
+export interface CostEstimate {
+    provider: string
+    currency: string
+    pricingVersion: string
+    usageHoursPerMonth: number
+    egressGbPerMonth: number
+    items: CostEstimateItem[]
+
+    /**
+     * Cost of a running hour (compute, storage and static IP), without egress
+     */
+    totalHourly: number
+
+    totalMonthly: number
+
+    /**
+     * False if some prices are unknown (eg. instance type not in pricing catalog): totals are underestimated
+     */
+    complete: boolean
+}
+
+export interface CostEstimateOptions {
+
+    /**
+     * Hours instance is running per month. Default: always running.
+     */
+    usageHoursPerMonth?: number
+
+    /**
+     * Internet egress (eg. streaming) per month in GB. Default: 0.
+     */
+    egressGbPerMonth?: number
+}
+
+/**
+ * Estimate instance cost from pricing catalog:
+ * - compute is billed while instance is running
+ * - root disk is billed while running only if instance server is deleted on stop
+ * - data disk is billed while running only if it's snapshotted on stop, snapshot is billed the rest of the month
+ * - base image and static IP are billed all month
+ */
+export function estimateCost(provider: string, catalog: PricingCatalog, input: CommonProvisionInputV1, resources: BilledResources, opts?: CostEstimateOptions): CostEstimate {
+    const usageHours = Math.min(opts?.usageHoursPerMonth ?? HOURS_PER_MONTH, HOURS_PER_MONTH)
+    const egressGb = opts?.egressGbPerMonth ?? 0
+    const runningRatio = usageHours / HOURS_PER_MONTH
+
+    const instanceHourly = getInstanceHourlyPrice(catalog, resources.instanceType, resources.acceleratorType)
+    const computeHourly = instanceHourly === undefined ? undefined :
+        resources.spot && catalog.spotPriceRatio !== undefined ? instanceHourly * catalog.spotPriceRatio : instanceHourly
+
+    const dataDiskSizeGb = resources.dataDiskSizeGb ?? 0
+    const dataDiskSnapshot = dataDiskSizeGb > 0 && input.dataDiskSnapshot?.enable === true
+    const rootDiskRatio = input.deleteInstanceServerOnStop ? runningRatio : 1
+    const dataDiskRatio = dataDiskSnapshot ? runningRatio : 1
+
+    const disksMonthly = (resources.rootDiskSizeGb * rootDiskRatio + dataDiskSizeGb * dataDiskRatio) * catalog.diskGbMonth
+    const snapshotsMonthly = dataDiskSnapshot ? dataDiskSizeGb * (1 - runningRatio) * catalog.snapshotGbMonth : 0
+    const imagesMonthly = input.baseImageSnapshot?.enable ? resources.rootDiskSizeGb * catalog.imageGbMonth : 0
+    const staticIpHourly = resources.staticIp ? catalog.staticIpHourly : 0
+
+    // Storage running hour cost is its monthly cost spread over the hours it exists
+    const items: CostEstimateItem[] = [
+        {
+            component: "compute",
+            hourly: computeHourly,
+            monthly: computeHourly === undefined ? undefined : computeHourly * usageHours
+        },
+        {
+            component: "disks",
+            hourly: (resources.rootDiskSizeGb + dataDiskSizeGb) * catalog.diskGbMonth / HOURS_PER_MONTH,
+            monthly: disksMonthly
+        },
+        { component: "snapshots", hourly: 0, monthly: snapshotsMonthly },
+        { component: "images", hourly: imagesMonthly / HOURS_PER_MONTH, monthly: imagesMonthly },
+        { component: "static-ip", hourly: staticIpHourly, monthly: staticIpHourly * HOURS_PER_MONTH },
+        { component: "egress", monthly: egressGb * catalog.egressGb },
+    ]
+
+    return {
+        provider: provider,
+        currency: catalog.currency,
+        pricingVersion: catalog.version,
+        usageHoursPerMonth: usageHours,
+        egressGbPerMonth: egressGb,
+        items: items,
+        totalHourly: items.reduce((total, i) => total + (i.hourly ?? 0), 0),
+        totalMonthly: items.reduce((total, i) => total + (i.monthly ?? 0), 0),
+        complete: computeHourly !== undefined,
+    }
+}
+
+export interface CostEstimatorArgs {
+    config: CoreConfig
+    registry?: ProviderRegistry
+}
+
+/**
+ * Estimate instances cost using their provider's pricing catalog
+ */
+export class CostEstimator {
+
+    private readonly registry: ProviderRegistry
+    private readonly catalogLoader: PricingCatalogLoader
+
+    constructor(args: CostEstimatorArgs) {
+        this.registry = args.registry ?? getProviderRegistry()
+        this.catalogLoader = new PricingCatalogLoader({ cacheDir: args.config.pricing?.cacheDir })
+    }
+
+    /**
+     * Estimate cost of an instance from its provision input. Returns undefined if provider has no pricing catalog.
+     */
+    estimateInstanceCost(provider: string, input: CommonProvisionInputV1, opts?: CostEstimateOptions): CostEstimate | undefined {
+        const registration = this.registry.getProvider(provider)
+        if (!registration.pricingCatalog || !registration.getBilledResources) {
+            return undefined
+        }
+
+        const catalog = this.catalogLoader.load(provider, registration.pricingCatalog)
+        return estimateCost(provider, catalog, input, registration.getBilledResources(input), opts)
+    }
+}
+
+const COST_COMPONENT_DISPLAY_NAMES: Record<CostComponent, string> = {
+    "compute": "Compute",
+    "disks": "Disks",
+    "snapshots": "Snapshots",
+    "images": "Images",
+    "static-ip": "Static IP",
+    "egress": "Egress",
+}
+
+/**
+ * Format cost estimate as human readable text: one line per cost component with hourly and monthly cost, and totals
+ */
+export function formatCostEstimate(estimate: CostEstimate): string {
+    const formatCost = (cost: number | undefined, unknown: string) => cost === undefined ? unknown : formatPrice(cost, estimate.currency)
+
+    const headers = [ "COMPONENT", "HOURLY", "MONTHLY" ]
+    const rows = estimate.items.map(i => [
+        COST_COMPONENT_DISPLAY_NAMES[i.component],
+        formatCost(i.hourly, i.component === "egress" ? "-" : "unknown"),
+        formatCost(i.monthly, "unknown"),
+    ])
+    rows.push([ "Total", formatCost(estimate.totalHourly, "unknown"), formatCost(estimate.totalMonthly, "unknown") ])
+
+    const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)))
+    const lines = [ headers, ...rows ].map(row => row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd())
+
+    lines.push("")
+    lines.push(`Estimated for ${estimate.usageHoursPerMonth} running hours and ${estimate.egressGbPerMonth} GB egress per month ` +
+        `(${estimate.provider} pricing version ${estimate.pricingVersion}). Actual cost may vary with region, discounts and taxes.`)
+    if (!estimate.complete) {
+        lines.push("Some prices are unknown (eg. instance type not in pricing catalog): estimate is incomplete.")
+    }
+
+    return lines.join("\n")
+}
@@ -0,0 +1,127 @@
+import { CommonProvisionInputV1, CommonProvisionOutputV1 } from "./state/state"
+import { DATA_DISK_STATE_LIVE, DATA_DISK_STATE_SNAPSHOT, INSTANCE_SERVER_STATE_ABSENT } from "./const"
+
+/**
+ * Cloud resources referenced by provision output which may be deleted outside of Cloudy Pad
+ */
+export type ProvisionedResource = "instance-server" | "root-disk" | "data-disk" | "data-disk-snapshot" | "base-image"
+
+/**
+ * Result of checking a resource referenced by provision output still exists on Cloud provider
+ */
+export interface ProvisionedResourceCheck {
+    resource: ProvisionedResource
+
+    /**
+     * Resource ID as set in provision output
+     */
+    id: string
+
+    /**
+     * Provision output keys referencing this resource, cleared when fixing drift
+     */
+    outputKeys: string[]
+
+    /**
+     * Whether resource still exists on Cloud provider
+     */
+    exists: boolean
+}
+
+/**
+ * Drift between an instance provision output and actual Cloud resources
+ */
+export interface DriftReport {
+    instanceName: string
+
+    /**
+     * False if instance provider can't check its resources, eg. it doesn't manage Cloud resources
+     */
+    supported: boolean
+
+    checks: ProvisionedResourceCheck[]
+}
+
+/**
+ * State changes to reconcile instance state with actual Cloud resources
+ */
+export interface DriftFix {
+    provisionOutput: CommonProvisionOutputV1
+    runtime: CommonProvisionInputV1["runtime"]
+
+    /**
+     * True if instance server is missing and configuration must run again once re-created
+     */
+    resetConfigurationOutput: boolean
+}
+
+const RESOURCE_DISPLAY_NAMES: Record<ProvisionedResource, string> = {
+    "instance-server": "Instance server",
+    "root-disk": "Root disk",
+    "data-disk": "Data disk",
+    "data-disk-snapshot": "Data disk snapshot",
+    "base-image": "Base image",
+}
+
+/**
+ * Return resources referenced by provision output which do not exist anymore
+ */
+export function getMissingResources(report: DriftReport): ProvisionedResourceCheck[] {
+    return report.checks.filter(c => !c.exists)
+}
+
+/**
+ * Compute state changes to reconcile provision output and runtime flags with missing resources:
+ * - output keys referencing missing resources are removed
+ * - missing instance server: runtime instance server state is set absent and configuration output must be reset
+ * - missing data disk: runtime data disk state is set to snapshot if a snapshot exists to restore data from, live otherwise
+ */
+export function computeDriftFix(input: CommonProvisionInputV1, output: CommonProvisionOutputV1, report: DriftReport): DriftFix {
+    const missing = getMissingResources(report)
+    const isMissing = (resource: ProvisionedResource) => missing.some(c => c.resource === resource)
+
+    const provisionOutput: CommonProvisionOutputV1 = { ...output }
+    for (const check of missing) {
+        for (const key of check.outputKeys) {
+            delete provisionOutput[key]
+        }
+    }
+
+    const runtime: CommonProvisionInputV1["runtime"] = { ...input.runtime }
+    if (isMissing("instance-server")) {
+        runtime.instanceServerState = INSTANCE_SERVER_STATE_ABSENT
+    }
+    if (isMissing("data-disk")) {
+        runtime.dataDiskState = provisionOutput.dataDiskSnapshotId ? DATA_DISK_STATE_SNAPSHOT : DATA_DISK_STATE_LIVE
+    }
+
+    return {
+        provisionOutput: provisionOutput,
+        runtime: runtime,
+        resetConfigurationOutput: isMissing("instance-server"),
+    }
+}
+
+/**
+ * Format drift report as human readable text
+ */
+export function formatDriftReport(report: DriftReport): string {
+    if (!report.supported) {
+        return `Drift detection is not available for instance ${report.instanceName}: its provider does not manage Cloud resources.`
+    }
+
+    const lines: string[] = [ `Resources of instance ${report.instanceName}:` ]
+    for (const check of report.checks) {
+        lines.push(`  ${check.exists ? "✔" : "✘"} ${RESOURCE_DISPLAY_NAMES[check.resource]} ${check.id}${check.exists ? "" : " is missing"}`)
+    }
+
+    const missing = getMissingResources(report)
+    lines.push("")
+    if (missing.length === 0) {
+        lines.push("No drift detected: all resources referenced in state exist.")
+    } else {
+        lines.push(`Drift detected: ${missing.length} resource(s) referenced in state do not exist anymore (${missing.map(c => c.outputKeys.join(", ")).join("; ")}).`)
+    }
+
+    return lines.join("\n")
+}
@@ -0,0 +1,59 @@
+import { InstanceEvent, InstanceEventEnum } from "./state/state"
+
+export const FAILURE_EVENT_TYPES: InstanceEventEnum[] = [
+    InstanceEventEnum.ProvisionFailed,
+    InstanceEventEnum.ConfigurationFailed,
+    InstanceEventEnum.StartFailed,
+    InstanceEventEnum.StopFailed,
+    InstanceEventEnum.RestartFailed,
+    InstanceEventEnum.DestroyFailed,
+]
+
+export interface InstanceEventFilter {
+    /**
+     * Only keep events of these types
+     */
+    types?: InstanceEventEnum[]
+
+    /**
+     * Only keep failure events
+     */
+    failedOnly?: boolean
+
+    /**
+     * Only keep events at or after this date (Unix timestamp in milliseconds)
+     */
+    since?: number
+
+    /**
+     * Only keep given number of most recent events after applying other filters
+     */
+    limit?: number
+}
+
+/**
+ * Filter instance events. Returned events are sorted oldest first.
+ */
+export function filterInstanceEvents(events: InstanceEvent[], filter: InstanceEventFilter): InstanceEvent[] {
+    let result = [ ...events ].sort((a, b) => a.timestamp - b.timestamp)
+
+    if(filter.types && filter.types.length > 0){
+        const types = filter.types
+        result = result.filter(e => types.includes(e.type))
+    }
+
+    if(filter.failedOnly){
+        result = result.filter(e => FAILURE_EVENT_TYPES.includes(e.type))
+    }
+
+    if(filter.since !== undefined){
+        const since = filter.since
+        result = result.filter(e => e.timestamp >= since)
+    }
+
+    if(filter.limit !== undefined){
+        result = filter.limit > 0 ? result.slice(-filter.limit) : []
+    }
+
+    return result
+}
@@ -0,0 +1,97 @@
+import { getLogger } from "../log/utils"
+import { CoreConfig } from "./config/interface"
+import { InstanceManagerBuilder } from "./manager-builder"
+import { ServerRunningStatus } from "./runner"
+import { StateManagerBuilder } from "./state/builders"
+import { getRunningIntervals } from "./usage"
+
+export interface IdleCheckResult {
+    instanceName: string
+
+    /**
+     * Server status reported by provider for instances considered running in their event history
+     */
+    serverStatus: ServerRunningStatus
+
+    /**
+     * True if instance server was found stopped and a full stop was run
+     */
+    stopped: boolean
+
+    /**
+     * Error while checking status or stopping instance
+     */
+    error?: string
+}
+
+export interface IdleCheckOptions {
+
+    /**
+     * Only check these instances. Default: all instances.
+     */
+    instanceNames?: string[]
+}
+
+export interface IdleWatcherArgs {
+    config: CoreConfig
+}
+
+/**
+ * Detect instances whose server was stopped outside of Cloudy Pad, typically by auto-stop shutting down
+ * instance OS after an idle streaming period, and run a full stop on them: data disk snapshot and
+ * instance server deletion are only performed by Cloudy Pad stop, not by an OS shutdown.
+ *
+ * Only instances considered running in their event history (started and not stopped since) are checked
+ * so stopped instances don't require any call to provider.
+ */
+export class IdleWatcher {
+
+    private readonly logger = getLogger(IdleWatcher.name)
+    private readonly args: IdleWatcherArgs
+    private readonly managerBuilder: InstanceManagerBuilder
+
+    constructor(args: IdleWatcherArgs) {
+        this.args = args
+        this.managerBuilder = new InstanceManagerBuilder({ config: args.config })
+    }
+
+    /**
+     * Check running instances server status and stop instances found stopped.
+     * Failures on an instance are reported in its result and don't prevent checking other instances.
+     */
+    async check(opts?: IdleCheckOptions): Promise<IdleCheckResult[]> {
+        const loader = new StateManagerBuilder({ stateBackend: this.args.config.stateBackend }).buildStateLoader()
+        const instanceNames = opts?.instanceNames ?? await loader.listInstances()
+
+        const results: IdleCheckResult[] = []
+        for(const instanceName of instanceNames){
+            const result: IdleCheckResult = { instanceName: instanceName, serverStatus: ServerRunningStatus.Unknown, stopped: false }
+
+            try {
+                const manager = await this.managerBuilder.buildInstanceManager(instanceName)
+
+                const now = Date.now()
+                const running = getRunningIntervals(await manager.getEventJournal(), 0, now).some(i => i.ongoing)
+                if(!running){
+                    continue
+                }
+
+                result.serverStatus = (await manager.getInstanceStatus()).serverStatus
+                this.logger.debug(`Instance ${instanceName} is running in event history, server status: ${result.serverStatus}`)
+
+                if(result.serverStatus === ServerRunningStatus.Stopped){
+                    this.logger.info(`Instance ${instanceName} server has been stopped outside of Cloudy Pad (eg. auto-stop), stopping instance`)
+                    await manager.stop({ wait: true })
+                    result.stopped = true
+                }
+            } catch (error) {
+                this.logger.warn(`Failed to check idle status of instance ${instanceName}`, error)
+                result.error = error instanceof Error ? error.message : String(error)
+            }
+
+            results.push(result)
+        }
+
+        return results
+    }
+}
@@ -1,14 +1,13 @@
 import { getLogger } from "../log/utils"
-import { CLOUDYPAD_PROVIDER } from "../core/const"
 import { StateInitializer } from "../core/state/initializer"
-import { InstanceStateV1 } from "./state/state"
+import { InstanceLabels, InstanceStateV1 } from "./state/state"
 import { generatePrivateSshKey } from "../tools/ssh"
 import { toBase64 } from "../tools/base64"
 import { StateWriter } from "./state/writer"
 import { GenericStateParser } from "./state/parser"
 
 export interface InstanceInitializerArgs<ST extends InstanceStateV1> {
-    provider: CLOUDYPAD_PROVIDER
+    provider: string
     stateWriter: StateWriter<ST>
     stateParser: GenericStateParser<ST>
 }
@@ -33,8 +32,9 @@ export class InstanceInitializer<ST extends InstanceStateV1> {
      * @param instanceName 
      * @param provisionInput 
      * @param configurationInput 
+     * @param labels optional user labels
      */
-    async initializeStateOnly(instanceName: string, provisionInput: ST["provision"]["input"], configurationInput: ST["configuration"]["input"]): Promise<void> {
+    async initializeStateOnly(instanceName: string, provisionInput: ST["provision"]["input"], configurationInput: ST["configuration"]["input"], labels?: InstanceLabels): Promise<void> {
         
         this.logger.debug(`Initializing instance with provisionInput ${JSON.stringify(provisionInput)} and configurationInput ${JSON.stringify(configurationInput)}`)
         
@@ -57,6 +57,7 @@ export class InstanceInitializer<ST extends InstanceStateV1> {
                 configuration: configurationInput
             },
             provider: this.args.provider,
+            labels: labels,
         }).initializeState()
     }
 }
@@ -0,0 +1,154 @@
+import { getLogger } from "../log/utils"
+import { CoreConfig } from "./config/interface"
+import { StateManagerBuilder } from "./state/builders"
+import { InstanceLabels } from "./state/state"
+
+const logger = getLogger("labels")
+
+const LABEL_KEY_REGEX = /^[a-zA-Z0-9]([a-zA-Z0-9._/-]*[a-zA-Z0-9])?$/
+const LABEL_VALUE_REGEX = /^[a-zA-Z0-9._/-]*$/
+
+/**
+ * Label changes parsed from "key=value" (set) and "key-" (remove) arguments
+ */
+export interface LabelChanges {
+    set: InstanceLabels
+    remove: string[]
+}
+
+function validateLabelKey(key: string, arg: string): void {
+    if(!LABEL_KEY_REGEX.test(key)){
+        throw new Error(`Invalid label '${arg}': key must start and end with an alphanumeric character and contain only alphanumeric characters, '.', '_', '/' or '-'`)
+    }
+}
+
+function validateLabelValue(value: string, arg: string): void {
+    if(!LABEL_VALUE_REGEX.test(value)){
+        throw new Error(`Invalid label '${arg}': value must contain only alphanumeric characters, '.', '_', '/' or '-'`)
+    }
+}
+
+/**
+ * Parse label arguments. "key=value" sets a label. If allowRemoval is true, "key-" removes a label.
+ * Throws if an argument is not valid.
+ */
+export function parseLabelArgs(args: string[], allowRemoval = false): LabelChanges {
+    const changes: LabelChanges = { set: {}, remove: [] }
+    for(const arg of args){
+        const separatorIndex = arg.indexOf("=")
+        if(separatorIndex < 0){
+            if(allowRemoval && arg.endsWith("-")){
+                const key = arg.slice(0, -1)
+                validateLabelKey(key, arg)
+                changes.remove.push(key)
+                continue
+            }
+            throw new Error(`Invalid label '${arg}', expected key=value${allowRemoval ? " or key- to remove a label" : ""}`)
+        }
+
+        const key = arg.slice(0, separatorIndex)
+        const value = arg.slice(separatorIndex + 1)
+        validateLabelKey(key, arg)
+        validateLabelValue(value, arg)
+        changes.set[key] = value
+    }
+    return changes
+}
+
+/**
+ * Apply label changes to existing labels and return resulting labels. Existing labels are not modified.
+ */
+export function applyLabelChanges(labels: InstanceLabels | undefined, changes: LabelChanges): InstanceLabels {
+    const result: InstanceLabels = { ...labels, ...changes.set }
+    for(const key of changes.remove){
+        delete result[key]
+    }
+    return result
+}
+
+export const LABEL_SELECTOR_OP_EQUALS = "="
+export const LABEL_SELECTOR_OP_NOT_EQUALS = "!="
+export const LABEL_SELECTOR_OP_EXISTS = "exists"
+export const LABEL_SELECTOR_OP_NOT_EXISTS = "!exists"
+
+export type LABEL_SELECTOR_OP = typeof LABEL_SELECTOR_OP_EQUALS | typeof LABEL_SELECTOR_OP_NOT_EQUALS |
+    typeof LABEL_SELECTOR_OP_EXISTS | typeof LABEL_SELECTOR_OP_NOT_EXISTS
+
+export interface LabelSelectorRequirement {
+    key: string
+    op: LABEL_SELECTOR_OP
+    value?: string
+}
+
+/**
+ * Parse a label selector: comma-separated requirements which must all match.
+ * Requirements are "key=value", "key!=value", "key" (label is set) or "!key" (label is not set),
+ * eg. "team=ops,env!=prod".
+ */
+export function parseLabelSelector(selector: string): LabelSelectorRequirement[] {
+    const requirements = selector.split(",").map(s => s.trim()).filter(s => s.length > 0).map((part): LabelSelectorRequirement => {
+        const match = part.match(/^([^!=]+?)\s*(!=|=)\s*(.*)$/)
+        if(match){
+            const [ , key, op, value ] = match
+            validateLabelKey(key, part)
+            validateLabelValue(value, part)
+            return { key: key, op: op === "=" ? LABEL_SELECTOR_OP_EQUALS : LABEL_SELECTOR_OP_NOT_EQUALS, value: value }
+        }
+
+        const negated = part.startsWith("!")
+        const key = negated ? part.slice(1).trim() : part
+        validateLabelKey(key, part)
+        return { key: key, op: negated ? LABEL_SELECTOR_OP_NOT_EXISTS : LABEL_SELECTOR_OP_EXISTS }
+    })
+
+    if(requirements.length === 0){
+        throw new Error(`Invalid label selector '${selector}': expected at least one requirement like key=value`)
+    }
+    return requirements
+}
+
+/**
+ * Check whether labels match all selector requirements
+ */
+export function matchesLabelSelector(labels: InstanceLabels | undefined, requirements: LabelSelectorRequirement[]): boolean {
+    return requirements.every(r => {
+        const value = labels?.[r.key]
+        switch(r.op){
+            case LABEL_SELECTOR_OP_EQUALS:
+                return value === r.value
+            case LABEL_SELECTOR_OP_NOT_EQUALS:
+                return value !== r.value
+            case LABEL_SELECTOR_OP_EXISTS:
+                return value !== undefined
+            case LABEL_SELECTOR_OP_NOT_EXISTS:
+                return value === undefined
+        }
+    })
+}
+
+/**
+ * Return names of instances matching label selector, or all instances if selector is undefined.
+ * Instances whose state can't be loaded are skipped with a warning.
+ */
+export async function selectInstances(config: CoreConfig, selector?: string): Promise<string[]> {
+    const requirements = selector !== undefined ? parseLabelSelector(selector) : undefined
+    const loader = new StateManagerBuilder({ stateBackend: config.stateBackend }).buildStateLoader()
+    const instanceNames = await loader.listInstances()
+
+    if(!requirements){
+        return instanceNames
+    }
+
+    const selected: string[] = []
+    for(const instanceName of instanceNames){
+        try {
+            const state = await loader.loadInstanceState(instanceName)
+            if(matchesLabelSelector(state.labels, requirements)){
+                selected.push(instanceName)
+            }
+        } catch (error) {
+            logger.warn(`Couldn't read labels of instance ${instanceName}, instance is not selected`, error)
+        }
+    }
+    return selected
+}
@@ -0,0 +1,243 @@
+import { getLogger } from "../log/utils"
+import { runBulkAction } from "./bulk"
+import { CoreConfig } from "./config/interface"
+import { CostEstimator } from "./cost"
+import { parseLabelSelector, matchesLabelSelector } from "./labels"
+import { InstanceManagerBuilder } from "./manager-builder"
+import { formatPrice } from "./pricing"
+import { getProviderRegistry, ProviderRegistry } from "./provider-registry"
+import { ServerRunningStatus } from "./runner"
+import { StateManagerBuilder } from "./state/builders"
+import { InstanceEvent, InstanceLabels, InstanceStateV1 } from "./state/state"
+
+export const DEFAULT_LIST_STATUS_TIMEOUT_SECONDS = 10
+export const DEFAULT_LIST_STATUS_CONCURRENCY = 5
+
+/**
+ * Provider-specific details of an instance shown when listing instances
+ */
+export interface InstanceDescription {
+
+    /**
+     * Where instance runs, eg. region or zone
+     */
+    location?: string
+
+    instanceType?: string
+}
+
+export interface InstanceListEntry {
+    name: string
+    provider: string
+    location?: string
+    instanceType?: string
+    labels?: InstanceLabels
+
+    /**
+     * Server status reported by provider. Undefined if status was not fetched or couldn't be fetched.
+     */
+    serverStatus?: ServerRunningStatus
+
+    /**
+     * Whether instance is ready to accept streaming connections. Undefined if status was not fetched or couldn't be fetched.
+     */
+    ready?: boolean
+
+    /**
+     * Error while fetching status, eg. timeout
+     */
+    statusError?: string
+
+    lastEvent?: InstanceEvent
+
+    /**
+     * Cloudy Pad version used for the last successful configuration
+     */
+    version?: string
+
+    /**
+     * Estimated cost of a running hour. Undefined if provider has no pricing catalog.
+     */
+    hourlyCost?: number
+    currency?: string
+
+    /**
+     * Error while loading instance state. Other fields except name are not set.
+     */
+    error?: string
+}
+
+export interface InstanceListOptions {
+
+    /**
+     * Fetch server status and readiness from provider. Default: true.
+     * Without status, listing only reads instance states and doesn't call any provider.
+     */
+    status?: boolean
+
+    /**
+     * Timeout to fetch status of each instance in seconds
+     */
+    statusTimeoutSeconds?: number
+
+    /**
+     * Maximum number of status fetched at the same time
+     */
+    statusConcurrency?: number
+
+    /**
+     * Only list instances matching label selector
+     */
+    selector?: string
+}
+
+export interface InstanceListerArgs {
+    config: CoreConfig
+    registry?: ProviderRegistry
+}
+
+/**
+ * List instances with their details, last event, estimated cost and optionally their status.
+ */
+export class InstanceLister {
+
+    private readonly logger = getLogger(InstanceLister.name)
+    private readonly args: InstanceListerArgs
+    private readonly registry: ProviderRegistry
+    private readonly costEstimator: CostEstimator
+
+    constructor(args: InstanceListerArgs) {
+        this.args = args
+        this.registry = args.registry ?? getProviderRegistry()
+        this.costEstimator = new CostEstimator({ config: args.config, registry: args.registry })
+    }
+
+    async list(opts?: InstanceListOptions): Promise<InstanceListEntry[]> {
+        const requirements = opts?.selector !== undefined ? parseLabelSelector(opts.selector) : undefined
+        const loader = new StateManagerBuilder({ stateBackend: this.args.config.stateBackend }).buildStateLoader()
+
+        const entries: InstanceListEntry[] = []
+        for(const instanceName of await loader.listInstances()){
+            try {
+                const state = await loader.loadInstanceState(instanceName)
+                if(requirements && !matchesLabelSelector(state.labels, requirements)){
+                    continue
+                }
+
+                const events = await loader.sideEffect.loadEventJournal(instanceName) ?? state.events ?? []
+                entries.push(this.getInstanceEntry(state, events))
+            } catch (error) {
+                this.logger.debug(`Failed to load instance ${instanceName}`, error)
+                if(!requirements){
+                    entries.push({ name: instanceName, provider: "", error: error instanceof Error ? error.message : String(error) })
+                }
+            }
+        }
+
+        if(opts?.status ?? true){
+            await this.fetchStatuses(
+                entries.filter(e => !e.error),
+                opts?.statusTimeoutSeconds ?? DEFAULT_LIST_STATUS_TIMEOUT_SECONDS,
+                opts?.statusConcurrency ?? DEFAULT_LIST_STATUS_CONCURRENCY
+            )
+        }
+
+        return entries
+    }
+
+    /**
+     * Build list entry of an instance from its state and events, without status
+     */
+    getInstanceEntry(state: InstanceStateV1, events: InstanceEvent[]): InstanceListEntry {
+        const registration = this.registry.hasProvider(state.provision.provider) ? this.registry.getProvider(state.provision.provider) : undefined
+        const description = registration?.describeInstance?.(state.provision.input)
+        const estimate = registration ? this.costEstimator.estimateInstanceCost(state.provision.provider, state.provision.input) : undefined
+
+        return {
+            name: state.name,
+            provider: state.provision.provider,
+            location: description?.location,
+            instanceType: description?.instanceType,
+            labels: state.labels,
+            lastEvent: events.length > 0 ? events[events.length - 1] : undefined,
+            version: state.metadata?.lastConfigurationCloudypadVersion,
+            hourlyCost: estimate?.totalHourly,
+            currency: estimate?.currency,
+        }
+    }
+
+    /**
+     * Fetch status of entries concurrently. Failures and timeouts are reported in entry statusError.
+     */
+    private async fetchStatuses(entries: InstanceListEntry[], timeoutSeconds: number, concurrency: number): Promise<void> {
+        const managerBuilder = new InstanceManagerBuilder({ config: this.args.config })
+        const entriesByName = new Map(entries.map(e => [ e.name, e ]))
+
+        const results = await runBulkAction(entries.map(e => e.name), concurrency, async (instanceName) => {
+            const manager = await managerBuilder.buildInstanceManager(instanceName)
+            const status = await withTimeout(manager.getInstanceStatus(), timeoutSeconds)
+            const entry = entriesByName.get(instanceName)
+            if(entry){
+                entry.serverStatus = status.serverStatus
+                entry.ready = status.ready
+            }
+        })
+
+        for(const result of results){
+            const entry = entriesByName.get(result.instanceName)
+            if(entry && result.error){
+                this.logger.debug(`Failed to get status of instance ${result.instanceName}: ${result.error}`)
+                entry.statusError = result.error
+            }
+        }
+    }
+}
+
+function withTimeout<T>(promise: Promise<T>, timeoutSeconds: number): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const timeout = setTimeout(() => reject(new Error(`Timed out after ${timeoutSeconds}s`)), timeoutSeconds * 1000)
+        promise.then(
+            (result) => { clearTimeout(timeout); resolve(result) },
+            (error) => { clearTimeout(timeout); reject(error) }
+        )
+    })
+}
+
+/**
+ * Format instance list as a table. Wide format adds labels, last event date and status errors.
+ */
+export function formatInstanceList(entries: InstanceListEntry[], opts?: { wide?: boolean }): string {
+    const formatStatus = (e: InstanceListEntry) => e.error ? "error" : e.statusError ? "unknown" : e.serverStatus ?? "-"
+    const formatReady = (e: InstanceListEntry) => e.ready === undefined ? "-" : e.ready ? "yes" : "no"
+    const formatCost = (e: InstanceListEntry) => e.hourlyCost !== undefined && e.currency ? `${formatPrice(e.hourlyCost, e.currency)}/h` : "-"
+
+    const headers = [ "NAME", "PROVIDER", "LOCATION", "TYPE", "STATUS", "READY", "LAST EVENT", "VERSION", "COST" ]
+    if(opts?.wide){
+        headers.push("LAST EVENT DATE", "LABELS", "ERROR")
+    }
+
+    const rows = entries.map(e => {
+        const row = [
+            e.name,
+            e.provider || "-",
+            e.location ?? "-",
+            e.instanceType ?? "-",
+            formatStatus(e),
+            formatReady(e),
+            e.lastEvent?.type ?? "-",
+            e.version ?? "-",
+            formatCost(e),
+        ]
+        if(opts?.wide){
+            row.push(
+                e.lastEvent ? new Date(e.lastEvent.timestamp).toISOString() : "-",
+                Object.entries(e.labels ?? {}).map(([ k, v ]) => `${k}=${v}`).join(",") || "-",
+                e.error ?? e.statusError ?? "",
+            )
+        }
+        return row
+    })
+
+    const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)))
+    return [ headers, ...rows ].map(row => row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd()).join("\n")
+}
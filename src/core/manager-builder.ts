@@ -2,23 +2,9 @@ import { InstanceManager } from "./manager";
 import { CoreConfig } from "./config/interface";
 import { StateManagerBuilder } from "./state/builders";
 import { StateLoader } from "./state/loader";
-import { CLOUDYPAD_PROVIDER_AWS, 
-    CLOUDYPAD_PROVIDER_DUMMY, 
-    CLOUDYPAD_PROVIDER_GCP, 
-    CLOUDYPAD_PROVIDER_SSH, 
-    CLOUDYPAD_PROVIDER_PAPERSPACE, 
-    CLOUDYPAD_PROVIDER_SCALEWAY, 
-    CLOUDYPAD_PROVIDER_LINODE,
-    CLOUDYPAD_PROVIDER_AZURE
-} from "./const";
-import { ScalewayProviderClient } from "../providers/scaleway/provider";
-import { DummyProviderClient } from "../providers/dummy/provider";
-import { AzureProviderClient } from "../providers/azure/provider";
-import { GcpProviderClient } from "../providers/gcp/provider";
-import { AwsProviderClient } from "../providers/aws/provider";
-import { PaperspaceProviderClient } from "../providers/paperspace/provider";
-import { SshProviderClient } from "../providers/ssh/provider";
-import { LinodeProviderClient } from "../providers/linode/provider";
+import { AbstractProviderClient } from "./provider";
+import { InstanceStateV1 } from "./state/state";
+import { getProviderRegistry, ProviderRegistry } from "./provider-registry";
 
 export interface InstanceManagerBuilderArgs {
     config: CoreConfig
@@ -29,6 +15,7 @@ export class InstanceManagerBuilder {
     private readonly config: CoreConfig
     private readonly stateManagerBuilder: StateManagerBuilder
     private readonly stateLoader: StateLoader
+    private readonly providerRegistry: ProviderRegistry
 
     constructor(args: InstanceManagerBuilderArgs) {
         this.config = args.config
@@ -39,39 +26,21 @@ export class InstanceManagerBuilder {
             }
         })
         this.stateLoader = this.stateManagerBuilder.buildStateLoader()
+        this.providerRegistry = getProviderRegistry()
+        this.providerRegistry.loadProviderModules(this.config.providers?.modules ?? [])
     }
 
     async buildInstanceManager(instanceName: string): Promise<InstanceManager> {
         const state = await this.stateLoader.loadInstanceState(instanceName)
-        const providerClient = state.provision.provider
+        const providerClient = this.buildProviderClient(state.provision.provider)
+        return providerClient.getInstanceManagerFor(state)
+    }
 
-        switch(providerClient){
-            case CLOUDYPAD_PROVIDER_SCALEWAY:
-                const scalewayProviderClient = new ScalewayProviderClient({ config: this.config })
-                return scalewayProviderClient.getInstanceManagerFor(state)
-            case CLOUDYPAD_PROVIDER_DUMMY:
-                const dummyProviderClient = new DummyProviderClient({ config: this.config })
-                return dummyProviderClient.getInstanceManagerFor(state)
-            case CLOUDYPAD_PROVIDER_AZURE:
-                const azureProviderClient = new AzureProviderClient({ config: this.config })
-                return azureProviderClient.getInstanceManagerFor(state)
-            case CLOUDYPAD_PROVIDER_GCP:
-                const gcpProviderClient = new GcpProviderClient({ config: this.config })
-                return gcpProviderClient.getInstanceManagerFor(state)
-            case CLOUDYPAD_PROVIDER_AWS:
-                const awsProviderClient = new AwsProviderClient({ config: this.config })
-                return awsProviderClient.getInstanceManagerFor(state)
-            case CLOUDYPAD_PROVIDER_PAPERSPACE:
-                const paperspaceProviderClient = new PaperspaceProviderClient({ config: this.config })
-                return paperspaceProviderClient.getInstanceManagerFor(state)
-            case CLOUDYPAD_PROVIDER_SSH:
-                const localProviderClient = new SshProviderClient({ config: this.config })
-                return localProviderClient.getInstanceManagerFor(state)
-            case CLOUDYPAD_PROVIDER_LINODE:
-                const linodeProviderClient = new LinodeProviderClient({ config: this.config })
-                return linodeProviderClient.getInstanceManagerFor(state)
-            default:
-                throw new Error(`Provider ${providerClient} not supported`)
-        }
+    /**
+     * Build a provider client for given provider name. Provider must be registered in provider registry.
+     * Returned client is not typed with provider's specific state as provider is only known at runtime.
+     */
+    buildProviderClient(provider: string): AbstractProviderClient<InstanceStateV1> {
+        return this.providerRegistry.getProvider(provider).buildClient({ config: this.config })
     }
 }
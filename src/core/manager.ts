@@ -1,6 +1,9 @@
-import { CommonInstanceInput, CommonProvisionInputV1, InstanceEvent, InstanceEventEnum, InstanceStateV1 } from './state/state';
+import { AsyncLocalStorage } from 'async_hooks';
+import { CommonInstanceInput, CommonProvisionInputV1, InstanceBudget, InstanceEvent, InstanceEventEnum, InstanceLabels, InstanceSchedule, InstanceStateV1 } from './state/state';
 import { DATA_DISK_STATE, DATA_DISK_STATE_LIVE, DATA_DISK_STATE_SNAPSHOT, INSTANCE_SERVER_STATE, INSTANCE_SERVER_STATE_ABSENT, INSTANCE_SERVER_STATE_PRESENT } from './const';
 import { InstanceProvisioner } from './provisioner';
+import { ProvisionPlan } from './plan';
+import { computeDriftFix, DriftReport, getMissingResources } from './drift';
 import { InstanceConfigurator } from './configurator';
 import { getLogger } from '../log/utils';
 import { InstanceRunner, ServerRunningStatus, StartStopOptions } from './runner';
@@ -10,6 +13,8 @@ import { ProvisionerFactory } from './submanager-factory';
 import { RunnerFactory } from './submanager-factory';
 import { AnsibleConfiguratorOptions } from '../configurators/ansible';
 import { ActionRetrier } from '../tools/retrier';
+import { InstanceLockHandle } from './state/lock';
+import { ProgressEvent, ProgressListener, ProgressPhase, ProgressUnsubscribe, PROGRESS_EVENT_PHASE_BEGIN, PROGRESS_EVENT_PHASE_END, PROGRESS_EVENT_PHASE_FAILURE, PROGRESS_EVENT_SERVER_STATUS } from './progress';
 
 const DEFAULT_RETRIES = 1
 const DEFAULT_RETRY_DELAY_SECONDS = 10
@@ -55,6 +60,22 @@ export interface RestartOptions extends StartStopOptions, ActionOptions {
 export interface DestroyOptions extends ActionOptions {
 }
 
+export interface PlanOptions extends ActionOptions {
+    /**
+     * Plan a deployment rather than a provision: instance server and data disk are planned as present and live, 
+     * as deploy would set them before provisioning. Default: false (plan with current instance runtime state)
+     */
+    deploy?: boolean
+}
+
+export interface DriftOptions extends ActionOptions {
+    /**
+     * Reconcile instance state with actual Cloud resources: remove provision output referencing missing resources
+     * and update runtime flags accordingly. Cloud resources are not changed. Default: false (only report drift)
+     */
+    fix?: boolean
+}
+
 /**
  * Instance details suitable for end users, hiding or simplyfing internal details
  */
@@ -119,6 +140,36 @@ export interface InstanceManager {
     stop(opts?: StopOptions): Promise<void>
     restart(opts?: RestartOptions): Promise<void>
 
+    /**
+     * Preview changes on Cloud resources a provision (or deploy) would perform, without changing anything.
+     */
+    plan(opts?: PlanOptions): Promise<ProvisionPlan>
+
+    /**
+     * Detect drift between instance state and actual Cloud resources, optionally fixing state.
+     */
+    detectDrift(opts?: DriftOptions): Promise<DriftReport>
+
+    /**
+     * Set instance budget enforced by budget guard. Budget is removed if undefined.
+     */
+    setBudget(budget?: InstanceBudget): Promise<void>
+
+    /**
+     * Set instance start/stop schedule run by scheduler. Schedule is removed if undefined.
+     */
+    setSchedule(schedule?: InstanceSchedule): Promise<void>
+
+    /**
+     * Set instance labels used to select instances for bulk actions. Labels are removed if undefined or empty.
+     */
+    setLabels(labels?: InstanceLabels): Promise<void>
+
+    /**
+     * Record an event not related to a manager action (eg. a budget guard decision) in instance event history.
+     */
+    recordEvent(event: InstanceEventEnum, message?: string): Promise<void>
+
     doProvision(): Promise<void>
     doConfigure(additionalAnsibleArgs?: string[]): Promise<void>
     doStart(opts?: StartOptions): Promise<void>
@@ -129,11 +180,22 @@ export interface InstanceManager {
     pairInteractive(): Promise<void>
     pairSendPin(pin: string, retries?: number, retryDelay?: number): Promise<boolean>
 
+    /**
+     * Subscribe to progress events emitted while running actions (phase begin/end/failure and server status transitions).
+     * Returns a function to unsubscribe.
+     */
+    onProgress(listener: ProgressListener): ProgressUnsubscribe
+
     /**
      * Returns all events of the instance
      */
     getEvents(): Promise<InstanceEvent[]> 
 
+    /**
+     * Returns full event history of the instance from event journal, oldest first
+     */
+    getEventJournal(): Promise<InstanceEvent[]>
+
     /**
      * Returns the latest event of the instance
      */
@@ -228,6 +290,9 @@ const ALWAYS_ANSIBLE_ADDITIONAL_ARGS = ['-e', '\'ansible_ssh_common_args="-o Str
  * The concrete instance type is not known by this class: a per-provider factory is used 
  * to build each sub-managers.
  * 
+ * Each action function (stop, start, configure, provision, etc.) holds instance lock while running
+ * so that a single action runs at a time on an instance, even across machines when using a shared state backend.
+ * 
  * Each action function (stop, start, configure, provision, etc.) is a wrapper with retry around
  * low-level action functions (doStart, doStop, doConfigure, doProvision, etc.).
  * - a top-level action like deploy() may rely on other top-level actions like configure()
@@ -248,6 +313,15 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
 
     public readonly instanceName: string
 
+    private progressListeners: ProgressListener[] = []
+    private lastKnownServerStatus?: ServerRunningStatus
+
+    /**
+     * Lock held by current call chain, if any. Scoped to async context rather than manager
+     * so that concurrent actions on the same manager don't share lock.
+     */
+    private readonly heldLock = new AsyncLocalStorage<InstanceLockHandle>()
+
     constructor(args: GenericInstanceManagerArgs<ST>){
         this.stateWriter = args.stateWriter
         this.runnerFactory = args.runnerFactory
@@ -263,116 +337,210 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
     }
 
     async configure(opts?: ConfigureOptions): Promise<void> {
+        await this.withLock("configure", async () => {
+            this.logger.debug(`Configuring instance ${this.name()}`)
+
+            const currentState = await this.getState()
+            const configurationAnsibleAdditionalArgs = currentState.configuration.input.ansible?.additionalArgs ? 
+                [currentState.configuration.input.ansible.additionalArgs] : undefined
+
+            await this.withPhase(ProgressPhase.Configure, async () => {
+                await this.withEvents(InstanceEventEnum.ConfigurationBegin, InstanceEventEnum.ConfigurationEnd, InstanceEventEnum.ConfigurationFailed, async () => {
+                    // before configuring, check instance is running as it's possible user would call configure() directly without starting the instance first
+                    // start it if needed
+                    const currentStatus = await this.getInstanceStatus()
+                    if(currentStatus.serverStatus !== ServerRunningStatus.Running){
+
+                        this.logger.debug(`About to run configuration for instance ${this.name()} but it's not running, starting it first...`)
+
+                        await this.doWithRetry(async () => {
+                            await this.doStart({ wait: true })
+                        }, 'Pre-configure start', opts)
+                    }
+
+                    await this.doWithRetry(async () => {
+                        await this.doConfigure(configurationAnsibleAdditionalArgs)
+                    }, 'Configuration', opts)
+                })
+            })
+        })
+    }
 
-        this.logger.debug(`Configuring instance ${this.name()}`)
+    async provision(opts?: ProvisionOptions): Promise<void> {
+        await this.withLock("provision", async () => {
+            this.logger.debug(`Provisioning instance ${this.name()}`)
+
+            await this.withPhase(ProgressPhase.Provision, async () => {
+                await this.withEvents(InstanceEventEnum.ProvisionBegin, InstanceEventEnum.ProvisionEnd, InstanceEventEnum.ProvisionFailed, async () => {
+                    await this.doWithRetry(async () => {
+                        await this.doProvision(opts)
+                    }, 'Provision', opts)
+                })
+            })
+        })
+    }
 
-        const currentState = await this.getState()
-        const configurationAnsibleAdditionalArgs = currentState.configuration.input.ansible?.additionalArgs ? 
-            [currentState.configuration.input.ansible.additionalArgs] : undefined
+    async plan(opts?: PlanOptions): Promise<ProvisionPlan> {
+        // Plan writes Pulumi stack config and may cancel stuck Pulumi operations
+        return this.withLock("plan", async () => {
+            this.logger.debug(`Computing provision plan for instance ${this.name()} with options: ${JSON.stringify(opts)}`)
 
-        await this.addEvent(InstanceEventEnum.ConfigurationBegin)
+            // State is only used to build provisioner, runtime changes below are never persisted
+            const state = await this.getState()
+            if (opts?.deploy) {
+                state.provision.input.runtime = {
+                    ...state.provision.input.runtime,
+                    instanceServerState: INSTANCE_SERVER_STATE_PRESENT,
+                    dataDiskState: DATA_DISK_STATE_LIVE
+                }
+            }
 
-        // before configuring, check instance is running as it's possible user would call configure() directly without starting the instance first
-        // start it if needed
-        const currentStatus = await this.getInstanceStatus()
-        if(currentStatus.serverStatus !== ServerRunningStatus.Running){
+            const provisioner = await this.provisionerFactory.buildProvisioner(state)
+            return provisioner.plan({ pulumiCancel: opts?.pulumiCancel })
+        })
+    }
 
-            this.logger.debug(`About to run configuration for instance ${this.name()} but it's not running, starting it first...`)
+    async detectDrift(opts?: DriftOptions): Promise<DriftReport> {
+        return this.withLock("drift", async () => {
+            this.logger.debug(`Detecting drift for instance ${this.name()} with options: ${JSON.stringify(opts)}`)
 
-            await this.doWithRetry(async () => {
-                await this.doStart({ wait: true })
-            }, 'Pre-configure start', opts)
-        }
+            const state = await this.getState()
+            const provisioner = await this.provisionerFactory.buildProvisioner(state)
+            const report = await provisioner.detectDrift({ pulumiCancel: opts?.pulumiCancel })
 
-        await this.doWithRetry(async () => {
-            await this.doConfigure(configurationAnsibleAdditionalArgs)
-        }, 'Configuration', opts)
-        
-        await this.addEvent(InstanceEventEnum.ConfigurationEnd)
-    }
+            if (!opts?.fix || !state.provision.output || getMissingResources(report).length === 0) {
+                return report
+            }
 
-    async provision(opts?: ProvisionOptions): Promise<void> {
-        this.logger.debug(`Provisioning instance ${this.name()}`)
+            this.logger.info(`Fixing drift for instance ${this.name()}`)
 
-        await this.addEvent(InstanceEventEnum.ProvisionBegin)
-        await this.doWithRetry(async () => {
-            await this.doProvision(opts)
-        }, 'Provision', opts)
-        await this.addEvent(InstanceEventEnum.ProvisionEnd)
-    }
+            const fix = computeDriftFix(state.provision.input, state.provision.output, report)
+            await this.stateWriter.setProvisionOutput(this.instanceName, fix.provisionOutput)
+            await this.stateWriter.setProvisionInput(this.instanceName, {
+                ...state.provision.input,
+                runtime: fix.runtime,
+            })
 
-    async deploy(opts?: DeployOptions): Promise<void> {
-        // We'll perform a full provision and configuration to ensure instance is fully provisioned and configured
-        // we need instance server and data disk to be present
-        await this.updateProvisionInputRuntime({
-            instanceServerState: INSTANCE_SERVER_STATE_PRESENT,
-            dataDiskState: DATA_DISK_STATE_LIVE
-        })
-        
-        await this.provision(opts)
-        await this.configure(opts)
+            // Instance server must be configured again once re-created
+            if (fix.resetConfigurationOutput) {
+                await this.stateWriter.setConfigurationOutput(this.instanceName, undefined)
+            }
 
-        // After provision and configure, create base image snapshot if enabled
-        const currentState = await this.getState()
-        if (currentState.provision.input.baseImageSnapshot?.enable) {
-            await this.doBaseImageSnapshotProvision(opts)
-        }
+            return report
+        })
     }
 
-    async destroy(opts?: DestroyOptions): Promise<void> {
-        this.logger.debug(`Destroying instance ${this.name()}`)
-
-        await this.addEvent(InstanceEventEnum.DestroyBegin)
-        await this.doWithRetry(async () => {
-            await this.doDestroy()
-        }, 'Destroy', opts)
-        await this.addEvent(InstanceEventEnum.DestroyEnd)
-        await this.stateWriter.destroyState(this.instanceName)
+    async setBudget(budget?: InstanceBudget): Promise<void> {
+        await this.withLock("budget", async () => {
+            await this.stateWriter.setBudget(this.instanceName, budget)
+        })
     }
 
-    async start(opts?: StartOptions): Promise<void> {
-
-        this.logger.debug(`Starting instance ${this.name()}`)
+    async setSchedule(schedule?: InstanceSchedule): Promise<void> {
+        await this.withLock("schedule", async () => {
+            await this.stateWriter.setSchedule(this.instanceName, schedule)
+        })
+    }
 
-        const currentState = await this.getState()
+    async setLabels(labels?: InstanceLabels): Promise<void> {
+        await this.withLock("labels", async () => {
+            await this.stateWriter.setLabels(this.instanceName, labels)
+        })
+    }
 
-        await this.doWithRetry(async () => {
+    async recordEvent(event: InstanceEventEnum, message?: string): Promise<void> {
+        await this.withLock("record-event", async () => {
+            await this.stateWriter.addEvent(this.instanceName, event, undefined, { message: message })
+        })
+    }
 
-            // if deleteInstanceServerOnStop or dataDiskSnapshot is enabled, we need to provision the instance
-            // as instance server may not exist and/or data disk snapshot may need to be restored
-            if(currentState.provision.input.deleteInstanceServerOnStop ||
-                currentState.provision.input.dataDiskSnapshot?.enable
-            ){
-                // Update inputs to restore live data disk from snapshot (if any)
-                // and ensure instance server exists
+    async deploy(opts?: DeployOptions): Promise<void> {
+        await this.withLock("deploy", async () => {
+            await this.withPhase(ProgressPhase.Deploy, async () => {
+                // We'll perform a full provision and configuration to ensure instance is fully provisioned and configured
+                // we need instance server and data disk to be present
                 await this.updateProvisionInputRuntime({
                     instanceServerState: INSTANCE_SERVER_STATE_PRESENT,
                     dataDiskState: DATA_DISK_STATE_LIVE
                 })
-
-                await this.doProvision(opts)
             
-                // always reconfigured instance using limited Ansible run to avoid re-running full configuration on every start
-                await this.doConfigure(['-t', 'ratelimit,data-disk,sunshine'])
-            }
-        }, 'Pre-start reconfiguration', opts)
+                await this.provision(opts)
+                await this.configure(opts)
+
+                // After provision and configure, create base image snapshot if enabled
+                const currentState = await this.getState()
+                if (currentState.provision.input.baseImageSnapshot?.enable) {
+                    await this.doBaseImageSnapshotProvision(opts)
+                }
+            })
+        })
+    }
 
-        await this.addEvent(InstanceEventEnum.StartBegin)
-        await this.doWithRetry(async () => {
-            await this.doStart(opts)
-        }, 'Start', opts)
-        await this.addEvent(InstanceEventEnum.StartEnd)
+    async destroy(opts?: DestroyOptions): Promise<void> {
+        await this.withLock("destroy", async () => {
+            this.logger.debug(`Destroying instance ${this.name()}`)
+
+            await this.withPhase(ProgressPhase.Destroy, async () => {
+                await this.withEvents(InstanceEventEnum.DestroyBegin, InstanceEventEnum.DestroyEnd, InstanceEventEnum.DestroyFailed, async () => {
+                    await this.doWithRetry(async () => {
+                        await this.doDestroy()
+                    }, 'Destroy', opts)
+                })
+                await this.stateWriter.destroyState(this.instanceName)
+            })
+        })
+    }
+
+    async start(opts?: StartOptions): Promise<void> {
+        await this.withLock("start", async () => {
+            this.logger.debug(`Starting instance ${this.name()}`)
+
+            const currentState = await this.getState()
+
+            await this.withPhase(ProgressPhase.Start, async () => {
+                await this.doWithRetry(async () => {
+
+                    // if deleteInstanceServerOnStop or dataDiskSnapshot is enabled, we need to provision the instance
+                    // as instance server may not exist and/or data disk snapshot may need to be restored
+                    if(currentState.provision.input.deleteInstanceServerOnStop ||
+                        currentState.provision.input.dataDiskSnapshot?.enable
+                    ){
+                        // Update inputs to restore live data disk from snapshot (if any)
+                        // and ensure instance server exists
+                        await this.updateProvisionInputRuntime({
+                            instanceServerState: INSTANCE_SERVER_STATE_PRESENT,
+                            dataDiskState: DATA_DISK_STATE_LIVE
+                        })
+
+                        await this.doProvision(opts)
+                
+                        // always reconfigured instance using limited Ansible run to avoid re-running full configuration on every start
+                        await this.doConfigure(['-t', 'ratelimit,data-disk,sunshine'])
+                    }
+                }, 'Pre-start reconfiguration', opts)
+
+                await this.withEvents(InstanceEventEnum.StartBegin, InstanceEventEnum.StartEnd, InstanceEventEnum.StartFailed, async () => {
+                    await this.doWithRetry(async () => {
+                        await this.doStart(opts)
+                    }, 'Start', opts)
+                })
+            })
+        })
     }
 
     async stop(opts?: StopOptions): Promise<void> {
+        await this.withLock("stop", async () => {
         
-        this.logger.debug(`Stopping instance ${this.name()}`)
+            this.logger.debug(`Stopping instance ${this.name()}`)
 
-        await this.addEvent(InstanceEventEnum.StopBegin)
-        await this.doWithRetry(async () => {
-            await this.doStop(opts)
-        }, 'Stop', opts)
-        await this.addEvent(InstanceEventEnum.StopEnd)
+            await this.withPhase(ProgressPhase.Stop, async () => {
+                await this.withEvents(InstanceEventEnum.StopBegin, InstanceEventEnum.StopEnd, InstanceEventEnum.StopFailed, async () => {
+                    await this.doWithRetry(async () => {
+                        await this.doStop(opts)
+                    }, 'Stop', opts)
+                })
+            })
+        })
     }
 
     /**
@@ -383,11 +551,15 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
      * @param opts 
      */
     async restart(opts?: RestartOptions): Promise<void> {
-        await this.addEvent(InstanceEventEnum.RestartBegin)
-        await this.doWithRetry(async () => {
-            await this.doRestart(opts)
-        }, 'Restart', opts)
-        await this.addEvent(InstanceEventEnum.RestartEnd)
+        await this.withLock("restart", async () => {
+            await this.withPhase(ProgressPhase.Restart, async () => {
+                await this.withEvents(InstanceEventEnum.RestartBegin, InstanceEventEnum.RestartEnd, InstanceEventEnum.RestartFailed, async () => {
+                    await this.doWithRetry(async () => {
+                        await this.doRestart(opts)
+                    }, 'Restart', opts)
+                })
+            })
+        })
     }
 
     async pairInteractive(): Promise<void> {
@@ -400,6 +572,13 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
         return runner.pairSendPin(pin, retries, retryDelay)
     }
 
+    onProgress(listener: ProgressListener): ProgressUnsubscribe {
+        this.progressListeners.push(listener)
+        return () => {
+            this.progressListeners = this.progressListeners.filter(l => l !== listener)
+        }
+    }
+
     //
     // Private methods to run provision/configuration and update state
     //
@@ -435,11 +614,13 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
             additionalAnsibleArgs: ALWAYS_ANSIBLE_ADDITIONAL_ARGS.concat(additionalAnsibleArgs ?? [])
         })
 
-        const output = await configurator.configure()
-        
-        this.logger.debug(`Configuration output for instance ${this.name()}: ${JSON.stringify(output)}`)
+        await this.withPhase(ProgressPhase.RunConfiguration, async () => {
+            const output = await configurator.configure()
+            
+            this.logger.debug(`Configuration output for instance ${this.name()}: ${JSON.stringify(output)}`)
 
-        await this.stateWriter.setConfigurationOutput(this.instanceName, output)
+            await this.stateWriter.setConfigurationOutput(this.instanceName, output)
+        })
     }
     
     /**
@@ -465,22 +646,26 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
         // and we have data disk snapshot ID output
         if(currentState.provision.input.dataDiskSnapshot?.enable && currentState.provision.output?.dataDiskId){
             this.logger.debug(`Running data snapshot provision for instance ${this.name()}`)
-            const snapshotOutputs = await provisioner.dataSnapshotProvision({
-                pulumiCancel: opts?.pulumiCancel
+            await this.withPhase(ProgressPhase.DataSnapshotProvision, async () => {
+                const snapshotOutputs = await provisioner.dataSnapshotProvision({
+                    pulumiCancel: opts?.pulumiCancel
+                })
+                this.logger.debug(`Data snapshot provision output for instance ${this.name()}: ${JSON.stringify(snapshotOutputs)}`)
+                await this.stateWriter.setProvisionOutput(this.instanceName, snapshotOutputs)
             })
-            this.logger.debug(`Data snapshot provision output for instance ${this.name()}: ${JSON.stringify(snapshotOutputs)}`)
-            await this.stateWriter.setProvisionOutput(this.instanceName, snapshotOutputs)
         }
 
         // Main provision (manages server, disks, network...)
         // Rebuild provisioner to get updated state with snapshot outputs
         const provisionerForMain = await this.buildProvisioner()
         this.logger.debug(`Running main provision for instance ${this.name()}`)
-        const mainOutputs = await provisionerForMain.mainProvision({
-            pulumiCancel: opts?.pulumiCancel
+        await this.withPhase(ProgressPhase.MainProvision, async () => {
+            const mainOutputs = await provisionerForMain.mainProvision({
+                pulumiCancel: opts?.pulumiCancel
+            })
+            this.logger.debug(`Main provision output for instance ${this.name()}: ${JSON.stringify(mainOutputs)}`)
+            await this.stateWriter.setProvisionOutput(this.instanceName, mainOutputs)
         })
-        this.logger.debug(`Main provision output for instance ${this.name()}: ${JSON.stringify(mainOutputs)}`)
-        await this.stateWriter.setProvisionOutput(this.instanceName, mainOutputs)
     }
 
     /**
@@ -488,6 +673,12 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
      * Will stop instance to ensure data consistency before creating snapshot.
      */
     private async doBaseImageSnapshotProvision(opts?: ActionOptions): Promise<void> {
+        await this.withPhase(ProgressPhase.BaseImageSnapshot, async () => {
+            await this.doBaseImageSnapshotProvisionSteps(opts)
+        })
+    }
+
+    private async doBaseImageSnapshotProvisionSteps(opts?: ActionOptions): Promise<void> {
         this.logger.debug(`Do base image snapshot provision for instance ${this.name()}`)
 
         const currentState = await this.getState()
@@ -545,6 +736,7 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
         // and startOptions logic is ported by runner
         const runner = await this.buildRunner()
         await runner.start(opts)
+        await this.emitServerStatus(runner)
     }
 
     /**
@@ -614,6 +806,8 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
                 await this.stateWriter.setConfigurationOutput(this.instanceName, undefined)
             }
         }
+
+        await this.emitServerStatus(await this.buildRunner())
     }
 
     /**
@@ -622,6 +816,7 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
     async doRestart(opts?: RestartOptions): Promise<void> {
         const runner = await this.buildRunner()
         await runner.restart(opts)
+        await this.emitServerStatus(runner)
     }
 
     async doDestroy(opts?: DestroyOptions): Promise<void> {
@@ -649,6 +844,86 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
         return retrier.run()
     }
     
+    /**
+     * Run given function while holding instance lock. Lock is re-entrant: nested actions
+     * (eg. deploy running provision and configure) reuse the lock already held by their calling action.
+     * Concurrent actions fail to acquire lock, even on the same manager.
+     * State revisions written meanwhile are attributed to given action.
+     */
+    private async withLock<R>(action: string, fn: () => Promise<R>): Promise<R> {
+        if(this.heldLock.getStore()){
+            return fn()
+        }
+
+        const lock = await this.stateWriter.lock(this.instanceName)
+        try {
+            return await this.heldLock.run(lock, () => this.stateWriter.withAction(action, fn))
+        } finally {
+            await lock.release()
+        }
+    }
+
+    /**
+     * Run given function as a progress phase, emitting begin, end or failure events.
+     * Errors are re-thrown as-is after failure event is emitted.
+     */
+    private async withPhase<R>(phase: ProgressPhase, fn: () => Promise<R>): Promise<R> {
+        const beginTime = Date.now()
+        this.emitProgress({ type: PROGRESS_EVENT_PHASE_BEGIN, phase: phase, instanceName: this.instanceName, timestamp: beginTime })
+        try {
+            const result = await fn()
+            const endTime = Date.now()
+            this.emitProgress({ type: PROGRESS_EVENT_PHASE_END, phase: phase, instanceName: this.instanceName, timestamp: endTime, durationMs: endTime - beginTime })
+            return result
+        } catch (error) {
+            const failureTime = Date.now()
+            this.emitProgress({
+                type: PROGRESS_EVENT_PHASE_FAILURE,
+                phase: phase,
+                instanceName: this.instanceName,
+                timestamp: failureTime,
+                durationMs: failureTime - beginTime,
+                error: error instanceof Error ? error.message : String(error)
+            })
+            throw error
+        }
+    }
+
+    /**
+     * Emit current server status if it changed since last known status.
+     * Server status is only fetched if someone is listening as it may require a provider API call.
+     */
+    private async emitServerStatus(runner: InstanceRunner): Promise<void> {
+        if(this.progressListeners.length === 0){
+            return
+        }
+
+        const status = await runner.serverStatus()
+        if(status === this.lastKnownServerStatus){
+            return
+        }
+
+        this.emitProgress({
+            type: PROGRESS_EVENT_SERVER_STATUS,
+            instanceName: this.instanceName,
+            timestamp: Date.now(),
+            status: status,
+            previousStatus: this.lastKnownServerStatus
+        })
+        this.lastKnownServerStatus = status
+    }
+
+    private emitProgress(event: ProgressEvent): void {
+        for(const listener of this.progressListeners){
+            // A faulty listener must never break an action
+            try {
+                listener(event)
+            } catch (error) {
+                this.logger.warn(`Progress listener failed on event ${event.type}`, error)
+            }
+        }
+    }
+
     private async buildRunner(): Promise<InstanceRunner> {
         const state = await this.stateWriter.getCurrentState(this.instanceName)
         return this.runnerFactory.buildRunner(state)
@@ -664,8 +939,27 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
         return this.provisionerFactory.buildProvisioner(state)
     }
 
-    private async addEvent(event: InstanceEventEnum): Promise<void> {
-        await this.stateWriter.addEvent(this.instanceName, event)
+    /**
+     * Run given function between begin and end state events. On failure, a failure event
+     * with error message and action duration is recorded and error is re-thrown as-is.
+     */
+    private async withEvents<R>(beginEvent: InstanceEventEnum, endEvent: InstanceEventEnum, failedEvent: InstanceEventEnum, fn: () => Promise<R>): Promise<R> {
+        const beginTime = Date.now()
+        await this.stateWriter.addEvent(this.instanceName, beginEvent)
+        
+        let result: R
+        try {
+            result = await fn()
+        } catch (error) {
+            await this.stateWriter.addEvent(this.instanceName, failedEvent, undefined, {
+                error: error instanceof Error ? error.message : String(error),
+                durationMs: Date.now() - beginTime
+            })
+            throw error
+        }
+
+        await this.stateWriter.addEvent(this.instanceName, endEvent, undefined, { durationMs: Date.now() - beginTime })
+        return result
     }
 
     //
@@ -677,6 +971,10 @@ export class GenericInstanceManager<ST extends InstanceStateV1> implements Insta
         return state.events ?? []
     }
 
+    public async getEventJournal(): Promise<InstanceEvent[]> {
+        return this.stateWriter.getEventJournal(this.instanceName)
+    }
+
     public async getLatestEvent(): Promise<InstanceEvent | undefined> {
         const events = await this.getEvents()
         events.sort((a, b) => a.timestamp - b.timestamp)
@@ -25,8 +25,55 @@ export class WolfMoonlightPairer extends AbstractMoonlightPairer implements Moon
         this.args = args
     }
 
-    pairSendPin(pin: string): Promise<boolean> {
-        throw new Error("Not implemented")
+    /**
+     * Send PIN to Wolf without user interaction. For each attempt, look for the latest PIN URL in Wolf logs,
+     * send PIN to it and check in logs whether pairing was successful. Since Wolf API always returns 200 and "OK" even
+     * if pairing failed, rely on logs to check if pairing was successful.
+     * 
+     * Moonlight pairing must have been initiated (eg. by running `moonlight pair` with the same PIN) 
+     * for a PIN URL to be available in Wolf logs. 
+     */
+    async pairSendPin(pin: string, retries=3, retryDelayMs=2000): Promise<boolean> {
+
+        this.logger.debug(`Sending PIN to Wolf for instance ${this.instanceName} on host ${this.args.host}`)
+
+        const docker = this.buildDockerClient()
+        const startTime = new Date()
+        let lastError: unknown | undefined = undefined
+
+        for (let attempt = 0; attempt < retries; attempt++) {
+            try {
+
+                this.logger.debug(`Fetching latest PIN URL in logs of Wolf container (attempt ${attempt + 1}/${retries})...`)
+
+                const publicPinUrl = await this.getLatestPinURL(docker, this.args.host)
+
+                if (publicPinUrl) {
+                    this.logger.debug(`Sending PIN to ${publicPinUrl}...`)
+
+                    await this.sendPinData(publicPinUrl, pin)
+
+                    this.logger.debug(`Checking in logs if pairing was successful...`)
+
+                    const pairingSuccess = await this.checkPairingSuccess(docker, startTime)
+                    if (pairingSuccess) {
+                        this.logger.info(`Successfully paired instance ${this.instanceName} with Wolf`)
+                        return true
+                    }
+
+                    this.logger.debug(`Pairing not yet successful, will retry in ${retryDelayMs}ms...`)
+                } else {
+                    this.logger.debug(`No PIN URL found in logs, waiting for pairing to be initiated...`)
+                }
+            } catch (error) {
+                lastError = error
+                this.logger.warn(`Attempt ${attempt + 1} failed to send pin to Wolf API. Retrying...`, error)
+            }
+
+            await new Promise(resolve => setTimeout(resolve, retryDelayMs))
+        }
+
+        throw new Error(`Failed to pair instance ${this.instanceName} with Wolf after ${retries} attempts. Last error:`, { cause: lastError })
     }
 
     private buildDockerClient(): Docker {
@@ -194,57 +241,14 @@ export class WolfMoonlightPairer extends AbstractMoonlightPairer implements Moon
      * - User has not initiated the pairing process yet and generated a PIN through Moonlight. A PIN URL should be available in Wolf logs.
      * - User has not yet initiated the pairing process. A PIN URL is not available in Wolf logs, or the last one available is outdated.
      * 
-     * To accountf for both situation, send the PIN in a loop until success. Since Wolf API always returns 200 and "OK" even
-     * if pairing failed, rely on logs to check if pairing was successful.
+     * To account for both situation, send the PIN in a loop until success.
      */
     protected async doPair(pin: string) {
 
-        this.logger.debug(`Pairing instance ${this.instanceName} with Wolf for host ${this.args.host}`)
-
-        const docker = this.buildDockerClient()
-        const timeout = 60 * 5 * 1000; // 5 minutes
-        const pollInterval = 2000; // 2s
-        const startTime = new Date();
-
         // voluntary console.info to show in user's console
         console.info("Sending PIN to Wolf...")
 
-        while (Date.now() - startTime.getTime() < timeout) {
-            try {
-
-                this.logger.debug(`Fetching latest PIN URL in logs of Wolf container...`)
-
-                const publicPinUrl = await this.getLatestPinURL(docker, this.args.host)
-         
-                if (!publicPinUrl) {
-                    this.logger.debug(`No PIN URL found in logs, waiting for user to initiate pairing...`)
-                    await new Promise(resolve => setTimeout(resolve, pollInterval))
-                    continue;
-                }
-
-                this.logger.debug(`Sending PIN to ${publicPinUrl}...`)
-
-                await this.sendPinData(publicPinUrl, pin)
-
-                this.logger.debug(`Checking in logs if pairing was successful...`)
-
-                const pairingSuccess = await this.checkPairingSuccess(docker, startTime)
-
-                if (pairingSuccess) {
-                    this.logger.info(`Successfully paired instance ${this.instanceName} with Wolf`)
-                    return;
-                }
-
-                this.logger.debug(`Pairing not yet successful, will retry in ${pollInterval}ms...`)
-                await new Promise(resolve => setTimeout(resolve, pollInterval))
-
-            } catch (e) {
-                this.logger.error(`Failed to pair instance ${this.instanceName} with Wolf.`, { cause: e })
-                await new Promise(resolve => setTimeout(resolve, pollInterval))
-            }
-        }
-
-        throw new Error(`Failed to pair instance ${this.instanceName} with Wolf after ${timeout}ms timeout`);
+        await this.pairSendPin(pin, 150, 2000) // up to 150 attempts with 2 sec delay =~ 5 min
     }
         
 }
\ No newline at end of file
@@ -0,0 +1,335 @@
+import { getLogger } from "../log/utils"
+import { CoreConfig } from "./config/interface"
+import { getProviderRegistry, ProviderRegistry } from "./provider-registry"
+import { formatPrice, getInstanceHourlyPrice, HOURS_PER_MONTH, PricingCatalog, PricingCatalogLoader } from "./pricing"
+import { StateManagerBuilder } from "./state/builders"
+import { getInstanceResourceName, InstanceStateV1 } from "./state/state"
+
+/**
+ * Kinds of billed Cloud resources Cloudy Pad creates for instances
+ */
+export type CloudResourceKind = "instance-server" | "disk" | "image" | "snapshot"
+
+/**
+ * Deletion order: instance servers first as their disks can't be deleted while attached,
+ * images before snapshots as snapshots backing an image can't be deleted while image exists
+ */
+const CLOUD_RESOURCE_KINDS: CloudResourceKind[] = [ "instance-server", "disk", "image", "snapshot" ]
+
+/**
+ * A Cloud resource created by Cloudy Pad for an instance, identified by its tags (or name for resources without tags)
+ */
+export interface TaggedCloudResource {
+    provider: string
+    kind: CloudResourceKind
+
+    /**
+     * Provider-specific resource ID, used to delete resource
+     */
+    id: string
+
+    name?: string
+
+    /**
+     * Name of instance resource belongs to, as found in resource tags or name
+     */
+    instanceName: string
+
+    /**
+     * Scope resource was found in, as scanned by provider scanner (eg. AWS region, GCP project, Azure subscription, Scaleway zone)
+     */
+    scope?: string
+
+    /**
+     * Region or zone of resource, if any
+     */
+    location?: string
+
+    instanceType?: string
+    acceleratorType?: string
+
+    /**
+     * Whether instance server is running (only for instance servers)
+     */
+    running?: boolean
+
+    sizeGb?: number
+}
+
+export interface OrphanedResource extends TaggedCloudResource {
+
+    /**
+     * Estimated monthly cost of resource, undefined if it can't be estimated (eg. unknown instance type)
+     */
+    estimatedMonthlyCost?: number
+    currency?: string
+}
+
+export interface CloudResourceScanArgs {
+
+    /**
+     * States of provider's instances, used to find scopes (regions, projects...) to scan
+     */
+    states: InstanceStateV1[]
+
+    /**
+     * Additional scopes to scan, eg. regions where an instance was deployed but has no state anymore
+     */
+    scopes: string[]
+
+    /**
+     * Names of all instances known in state backend
+     */
+    knownInstanceNames: string[]
+}
+
+/**
+ * Lists and deletes Cloud resources created by Cloudy Pad on a provider
+ */
+export interface CloudResourceScanner {
+
+    /**
+     * List all resources tagged (or named) as created by Cloudy Pad in scopes of given states and additional scopes
+     */
+    listTaggedResources(args: CloudResourceScanArgs): Promise<TaggedCloudResource[]>
+
+    /**
+     * Delete a resource previously returned by listTaggedResources
+     */
+    deleteResource(resource: TaggedCloudResource): Promise<void>
+}
+
+export interface OrphanScanOptions {
+
+    /**
+     * Providers to scan. Default: all providers with at least one instance in state
+     */
+    providers?: string[]
+
+    /**
+     * Additional scopes to scan, see CloudResourceScanArgs
+     */
+    scopes?: string[]
+}
+
+export interface OrphanScanResult {
+    orphans: OrphanedResource[]
+    scannedProviders: string[]
+
+    /**
+     * Providers which could not be scanned, eg. missing credentials
+     */
+    failures: { provider: string, error: string }[]
+
+    /**
+     * Instances whose state could not be loaded. Their resources may be named after a previous
+     * instance name (renamed instances) and reported as orphans, so deletion is refused while any remains.
+     */
+    unreadableInstances: { instanceName: string, error: string }[]
+}
+
+export interface OrphanDeletionResult {
+    resource: OrphanedResource
+    deleted: boolean
+    error?: string
+}
+
+export interface OrphanScannerArgs {
+    config: CoreConfig
+    registry?: ProviderRegistry
+}
+
+/**
+ * Estimate monthly cost of a resource from provider's pricing catalog. Stopped instance servers
+ * only cost their disks, which are reported separately.
+ */
+export function estimateResourceMonthlyCost(catalog: PricingCatalog, resource: TaggedCloudResource): number | undefined {
+    switch (resource.kind) {
+        case "instance-server": {
+            if (!resource.running) {
+                return 0
+            }
+            const hourly = resource.instanceType ? getInstanceHourlyPrice(catalog, resource.instanceType, resource.acceleratorType) : undefined
+            return hourly === undefined ? undefined : hourly * HOURS_PER_MONTH
+        }
+        case "disk":
+            return resource.sizeGb === undefined ? undefined : resource.sizeGb * catalog.diskGbMonth
+        case "snapshot":
+            return resource.sizeGb === undefined ? undefined : resource.sizeGb * catalog.snapshotGbMonth
+        case "image":
+            return resource.sizeGb === undefined ? undefined : resource.sizeGb * catalog.imageGbMonth
+    }
+}
+
+/**
+ * Find Cloud resources created by Cloudy Pad which do not belong to any instance in state backend,
+ * eg. left behind by a failed destroy or after a state was removed by hand.
+ */
+export class OrphanScanner {
+
+    private readonly logger = getLogger(OrphanScanner.name)
+    private readonly args: OrphanScannerArgs
+    private readonly registry: ProviderRegistry
+    private readonly catalogLoader: PricingCatalogLoader
+
+    constructor(args: OrphanScannerArgs) {
+        this.args = args
+        this.registry = args.registry ?? getProviderRegistry()
+        this.catalogLoader = new PricingCatalogLoader({ cacheDir: args.config.pricing?.cacheDir })
+    }
+
+    async scan(opts?: OrphanScanOptions): Promise<OrphanScanResult> {
+        const loader = new StateManagerBuilder({ stateBackend: this.args.config.stateBackend }).buildStateLoader()
+        const instanceNames = await loader.listInstances()
+
+        // Unreadable states are still considered as known instances, but resources of a renamed unreadable instance
+        // are named after its previous name and can't be told apart from orphans
+        const states: InstanceStateV1[] = []
+        const unreadableInstances: OrphanScanResult["unreadableInstances"] = []
+        for (const instanceName of instanceNames) {
+            try {
+                states.push(await loader.loadInstanceState(instanceName))
+            } catch (error) {
+                this.logger.warn(`Couldn't load state of instance ${instanceName}, its scopes won't be scanned`, error)
+                unreadableInstances.push({ instanceName: instanceName, error: error instanceof Error ? error.message : String(error) })
+            }
+        }
+
+        // Renamed instances keep their original resource names
+        const knownInstanceNames = [ ...new Set([ ...instanceNames, ...states.map(s => getInstanceResourceName(s)) ]) ]
+
+        const providers = opts?.providers ?? this.getDefaultProviders(states)
+        const result: OrphanScanResult = { orphans: [], scannedProviders: [], failures: [], unreadableInstances: unreadableInstances }
+
+        for (const provider of providers) {
+            const registration = this.registry.getProvider(provider)
+            if (!registration.buildResourceScanner) {
+                throw new Error(`Provider ${provider} does not support scanning Cloud resources`)
+            }
+
+            this.logger.debug(`Scanning Cloud resources of provider ${provider}`)
+
+            let resources: TaggedCloudResource[]
+            try {
+                resources = await registration.buildResourceScanner().listTaggedResources({
+                    states: states.filter(s => s.provision.provider === provider),
+                    scopes: opts?.scopes ?? [],
+                    knownInstanceNames: knownInstanceNames,
+                })
+            } catch (error) {
+                this.logger.debug(`Failed to scan Cloud resources of provider ${provider}`, error)
+                result.failures.push({ provider: provider, error: error instanceof Error ? error.message : String(error) })
+                continue
+            }
+
+            result.scannedProviders.push(provider)
+
+            const catalog = registration.pricingCatalog ? this.catalogLoader.load(provider, registration.pricingCatalog) : undefined
+            const orphans = resources
+                .filter(r => !knownInstanceNames.includes(r.instanceName))
+                .map(r => ({
+                    ...r,
+                    estimatedMonthlyCost: catalog ? estimateResourceMonthlyCost(catalog, r) : undefined,
+                    currency: catalog?.currency,
+                }))
+
+            result.orphans.push(...orphans)
+        }
+
+        return result
+    }
+
+    /**
+     * Delete orphaned resources of a scan result, instance servers first. Deletion continues on failure, failures are reported in result.
+     * Throws without deleting anything if some instance states could not be loaded during scan.
+     */
+    async deleteOrphans(result: OrphanScanResult): Promise<OrphanDeletionResult[]> {
+        checkOrphansDeletable(result)
+
+        const sorted = [ ...result.orphans ].sort((a, b) => CLOUD_RESOURCE_KINDS.indexOf(a.kind) - CLOUD_RESOURCE_KINDS.indexOf(b.kind))
+
+        const results: OrphanDeletionResult[] = []
+        for (const orphan of sorted) {
+            this.logger.info(`Deleting orphaned ${orphan.kind} ${orphan.id} of instance ${orphan.instanceName} (${orphan.provider})`)
+            try {
+                const registration = this.registry.getProvider(orphan.provider)
+                if (!registration.buildResourceScanner) {
+                    throw new Error(`Provider ${orphan.provider} does not support deleting Cloud resources`)
+                }
+                await registration.buildResourceScanner().deleteResource(orphan)
+                results.push({ resource: orphan, deleted: true })
+            } catch (error) {
+                this.logger.debug(`Failed to delete ${orphan.kind} ${orphan.id}`, error)
+                results.push({ resource: orphan, deleted: false, error: error instanceof Error ? error.message : String(error) })
+            }
+        }
+        return results
+    }
+
+    private getDefaultProviders(states: InstanceStateV1[]): string[] {
+        const providers = new Set(states.map(s => s.provision.provider))
+        return this.registry.getProviders()
+            .filter(p => p.buildResourceScanner && providers.has(p.name))
+            .map(p => p.name)
+    }
+}
+
+/**
+ * Throw if orphans of scan result can't be safely deleted, ie. some instance states could not be loaded
+ * and their resources may have been reported as orphans.
+ */
+export function checkOrphansDeletable(result: OrphanScanResult): void {
+    if (result.unreadableInstances.length > 0) {
+        throw new Error(`Refusing to delete orphaned resources: state of instance(s) ${result.unreadableInstances.map(u => u.instanceName).join(", ")} ` +
+            `could not be loaded and their resources may be reported as orphans. Fix or remove these states and try again.`)
+    }
+}
+
+/**
+ * Format scan result as human readable text: one line per orphan with its estimated cost, total per currency and failures
+ */
+export function formatOrphanScanResult(result: OrphanScanResult): string {
+    const lines: string[] = []
+
+    if (result.scannedProviders.length === 0 && result.failures.length === 0) {
+        lines.push("No provider to scan. Use --provider to scan providers without any instance.")
+    } else if (result.orphans.length === 0) {
+        lines.push(`No orphaned resources found (scanned providers: ${result.scannedProviders.join(", ") || "none"}).`)
+    } else {
+        const headers = [ "PROVIDER", "KIND", "ID", "INSTANCE", "LOCATION", "EST. MONTHLY COST" ]
+        const rows = result.orphans.map(o => [
+            o.provider,
+            o.kind,
+            o.id,
+            o.instanceName,
+            o.location ?? "-",
+            o.estimatedMonthlyCost !== undefined && o.currency ? formatPrice(o.estimatedMonthlyCost, o.currency) : "unknown",
+        ])
+
+        const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)))
+        for (const row of [ headers, ...rows ]) {
+            lines.push(row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd())
+        }
+
+        const totals = new Map<string, number>()
+        for (const orphan of result.orphans) {
+            if (orphan.estimatedMonthlyCost !== undefined && orphan.currency) {
+                totals.set(orphan.currency, (totals.get(orphan.currency) ?? 0) + orphan.estimatedMonthlyCost)
+            }
+        }
+
+        lines.push("")
+        lines.push(`Found ${result.orphans.length} orphaned resource(s). Estimated monthly cost: ` +
+            (totals.size > 0 ? Array.from(totals.entries()).map(([currency, total]) => formatPrice(total, currency)).join(" + ") : "unknown"))
+    }
+
+    for (const failure of result.failures) {
+        lines.push(`Couldn't scan provider ${failure.provider}: ${failure.error}`)
+    }
+
+    for (const unreadable of result.unreadableInstances) {
+        lines.push(`Couldn't load state of instance ${unreadable.instanceName}, its resources may be reported as orphans: ${unreadable.error}`)
+    }
+
+    return lines.join("\n")
+}
@@ -0,0 +1,117 @@
+import { PulumiResourceChange } from "../tools/pulumi/client"
+
+/**
+ * Stacks managed by provisioners:
+ * - main: main infrastructure (server, disks, network)
+ * - data-disk-snapshot: data disk snapshot
+ * - base-image: base image created from instance server root disk
+ */
+export type ProvisionStackKind = "main" | "data-disk-snapshot" | "base-image"
+
+/**
+ * Changes Pulumi would perform on a stack
+ */
+export interface ProvisionStackPlan {
+    stack: ProvisionStackKind
+    projectName: string
+    stackName: string
+    changes: PulumiResourceChange[]
+}
+
+/**
+ * Changes to Cloud resources a provision would perform for an instance
+ */
+export interface ProvisionPlan {
+    instanceName: string
+
+    /**
+     * False if instance provider can't compute a plan, eg. when it doesn't manage Cloud resources with Pulumi
+     */
+    supported: boolean
+
+    stacks: ProvisionStackPlan[]
+}
+
+const STACK_DISPLAY_NAMES: Record<ProvisionStackKind, string> = {
+    "main": "Main infrastructure",
+    "data-disk-snapshot": "Data disk snapshot",
+    "base-image": "Base image",
+}
+
+const OPERATION_SYMBOLS: Record<PulumiResourceChange["operation"], string> = {
+    create: "+ ",
+    update: "~ ",
+    delete: "- ",
+    replace: "+-",
+}
+
+/**
+ * Return all resources a plan would replace (deleted and re-created)
+ */
+export function getPlanReplacements(plan: ProvisionPlan): PulumiResourceChange[] {
+    return plan.stacks.flatMap(s => s.changes.filter(c => c.operation === "replace"))
+}
+
+/**
+ * Return all resources a plan would create, replace or delete, ie. all changes except in-place updates
+ */
+export function getPlanRecreations(plan: ProvisionPlan): PulumiResourceChange[] {
+    return plan.stacks.flatMap(s => s.changes.filter(c => c.operation !== "update"))
+}
+
+export function hasPlanChanges(plan: ProvisionPlan): boolean {
+    return plan.stacks.some(s => s.changes.length > 0)
+}
+
+/**
+ * Format plan as human readable text: changes per stack followed by replacement warnings
+ */
+export function formatProvisionPlan(plan: ProvisionPlan): string {
+    if (!plan.supported) {
+        return `Plan is not available for instance ${plan.instanceName}: its provider does not manage Cloud resources with Pulumi.`
+    }
+
+    const lines: string[] = [ `Planned changes for instance ${plan.instanceName}:` ]
+
+    for (const stackPlan of plan.stacks) {
+        lines.push("")
+        lines.push(`  ${STACK_DISPLAY_NAMES[stackPlan.stack]} (stack ${stackPlan.projectName}/${stackPlan.stackName}):`)
+
+        if (stackPlan.changes.length === 0) {
+            lines.push("    No changes")
+            continue
+        }
+
+        for (const change of stackPlan.changes) {
+            const diffs = change.diffs.length > 0 ? ` [${change.diffs.join(", ")}]` : ""
+            lines.push(`    ${OPERATION_SYMBOLS[change.operation]} ${change.operation.padEnd(7)} ${change.type} ${change.name}${diffs}`)
+        }
+    }
+
+    const replacements = getPlanReplacements(plan)
+    if (replacements.length > 0) {
+        lines.push("")
+        lines.push("  Warnings:")
+        for (const change of replacements) {
+            const keys = change.replaceKeys.length > 0 ? ` (replaced because of changes on: ${change.replaceKeys.join(", ")})` : ""
+            lines.push(`    ⚠ ${change.type} ${change.name} will be replaced${keys}: ${describeReplacement(change)}`)
+        }
+    }
+
+    return lines.join("\n")
+}
+
+/**
+ * Describe consequences of a resource replacement based on its type
+ */
+function describeReplacement(change: PulumiResourceChange): string {
+    const type = change.type.toLowerCase()
+    if (/snapshot|image|amifrom/.test(type)) {
+        return "snapshot or image will be re-created"
+    } else if (/virtualmachine|instance:|server/.test(type)) {
+        return "instance server and its root disk will be re-created, data on root disk will be lost"
+    } else if (/disk|volume/.test(type)) {
+        return "disk will be re-created, data on it will be lost"
+    }
+    return "resource will be deleted and re-created"
+}
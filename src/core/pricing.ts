@@ -0,0 +1,153 @@
+import * as fs from "fs"
+import * as path from "path"
+import { z } from "zod"
+import { getLogger } from "../log/utils"
+
+/**
+ * Number of hours used to convert hourly prices to monthly prices
+ */
+export const HOURS_PER_MONTH = 730
+
+/**
+ * Offline pricing catalog of a provider. Prices are approximate on-demand list prices
+ * used for estimates only, they may differ from actual prices depending on region, discounts, taxes, etc.
+ */
+export interface PricingCatalog {
+
+    /**
+     * Catalog version as an ISO date (eg. "2025-06-01"), the most recent catalog is used between bundled and cached catalogs
+     */
+    version: string
+
+    /**
+     * Currency of all prices in catalog, eg. "USD"
+     */
+    currency: string
+
+    /**
+     * Compute price per hour by instance type, when instance server is running
+     */
+    instanceHourly: Record<string, number>
+
+    /**
+     * Price per hour by GPU accelerator type for providers attaching GPUs separately from instance type (eg. GCP)
+     */
+    acceleratorHourly?: Record<string, number>
+
+    /**
+     * Disk storage price per GB per month
+     */
+    diskGbMonth: number
+
+    /**
+     * Snapshot storage price per GB per month
+     */
+    snapshotGbMonth: number
+
+    /**
+     * Image storage price per GB per month
+     */
+    imageGbMonth: number
+
+    /**
+     * Ratio of on-demand compute price paid for spot instances (eg. 0.3 for 70% discount).
+     * Spot instances are estimated at on-demand price if not set.
+     */
+    spotPriceRatio?: number
+
+    /**
+     * Static IP price per hour
+     */
+    staticIpHourly: number
+
+    /**
+     * Internet egress price per GB
+     */
+    egressGb: number
+}
+
+const PricingCatalogSchema = z.object({
+    version: z.string(),
+    currency: z.string(),
+    instanceHourly: z.record(z.string(), z.number()),
+    acceleratorHourly: z.record(z.string(), z.number()).optional(),
+    diskGbMonth: z.number(),
+    snapshotGbMonth: z.number(),
+    imageGbMonth: z.number(),
+    spotPriceRatio: z.number().optional(),
+    staticIpHourly: z.number(),
+    egressGb: z.number(),
+})
+
+/**
+ * Hourly compute price of an instance type (and accelerator, if any). Undefined if instance type is unknown to catalog.
+ */
+export function getInstanceHourlyPrice(catalog: PricingCatalog, instanceType: string, acceleratorType?: string): number | undefined {
+    const instancePrice = catalog.instanceHourly[instanceType]
+    if (instancePrice === undefined) {
+        return undefined
+    }
+
+    if (!acceleratorType) {
+        return instancePrice
+    }
+
+    const acceleratorPrice = catalog.acceleratorHourly?.[acceleratorType]
+    return acceleratorPrice === undefined ? undefined : instancePrice + acceleratorPrice
+}
+
+/**
+ * Format a price with its currency, eg. "12.34 USD"
+ */
+export function formatPrice(price: number, currency: string): string {
+    return `${price.toFixed(2)} ${currency}`
+}
+
+export interface PricingCatalogLoaderArgs {
+
+    /**
+     * Directory holding refreshed pricing catalogs as <provider>.json files. Only bundled catalogs are used if not set.
+     */
+    cacheDir?: string
+}
+
+/**
+ * Load pricing catalogs: provider's bundled catalog, or cached catalog if more recent.
+ * Invalid cached catalogs are ignored.
+ */
+export class PricingCatalogLoader {
+
+    private readonly logger = getLogger(PricingCatalogLoader.name)
+    private readonly args: PricingCatalogLoaderArgs
+
+    constructor(args: PricingCatalogLoaderArgs) {
+        this.args = args
+    }
+
+    load(provider: string, bundled: PricingCatalog): PricingCatalog {
+        const cached = this.loadCached(provider)
+        if (cached && cached.version > bundled.version) {
+            this.logger.debug(`Using cached pricing catalog version ${cached.version} for provider ${provider} (bundled: ${bundled.version})`)
+            return cached
+        }
+        return bundled
+    }
+
+    private loadCached(provider: string): PricingCatalog | undefined {
+        if (!this.args.cacheDir) {
+            return undefined
+        }
+
+        const cachePath = path.join(this.args.cacheDir, `${provider}.json`)
+        if (!fs.existsSync(cachePath)) {
+            return undefined
+        }
+
+        try {
+            return PricingCatalogSchema.parse(JSON.parse(fs.readFileSync(cachePath, "utf-8")))
+        } catch (error) {
+            this.logger.warn(`Ignoring invalid cached pricing catalog ${cachePath}`, error)
+            return undefined
+        }
+    }
+}
@@ -0,0 +1,75 @@
+import { ServerRunningStatus } from "./runner"
+
+/**
+ * Phases of instance lifecycle reported by InstanceManager progress events.
+ * Top-level phases match manager actions, sub-phases are steps run by these actions.
+ */
+export enum ProgressPhase {
+    Deploy = "deploy",
+    Provision = "provision",
+    Configure = "configure",
+    Start = "start",
+    Stop = "stop",
+    Restart = "restart",
+    Destroy = "destroy",
+
+    // Sub-phases
+    DataSnapshotProvision = "data-snapshot-provision",
+    MainProvision = "main-provision",
+    BaseImageSnapshot = "base-image-snapshot",
+    RunConfiguration = "run-configuration",
+}
+
+export const PROGRESS_EVENT_PHASE_BEGIN = "phase-begin"
+export const PROGRESS_EVENT_PHASE_END = "phase-end"
+export const PROGRESS_EVENT_PHASE_FAILURE = "phase-failure"
+export const PROGRESS_EVENT_SERVER_STATUS = "server-status"
+
+interface BaseProgressEvent {
+    instanceName: string
+
+    /**
+     * Event date (Unix timestamp in milliseconds)
+     */
+    timestamp: number
+}
+
+export interface PhaseBeginProgressEvent extends BaseProgressEvent {
+    type: typeof PROGRESS_EVENT_PHASE_BEGIN
+    phase: ProgressPhase
+}
+
+export interface PhaseEndProgressEvent extends BaseProgressEvent {
+    type: typeof PROGRESS_EVENT_PHASE_END
+    phase: ProgressPhase
+    durationMs: number
+}
+
+export interface PhaseFailureProgressEvent extends BaseProgressEvent {
+    type: typeof PROGRESS_EVENT_PHASE_FAILURE
+    phase: ProgressPhase
+    durationMs: number
+    error: string
+}
+
+export interface ServerStatusProgressEvent extends BaseProgressEvent {
+    type: typeof PROGRESS_EVENT_SERVER_STATUS
+    status: ServerRunningStatus
+
+    /**
+     * Last status known by manager, if any
+     */
+    previousStatus?: ServerRunningStatus
+}
+
+export type ProgressEvent = PhaseBeginProgressEvent |
+    PhaseEndProgressEvent |
+    PhaseFailureProgressEvent |
+    ServerStatusProgressEvent
+
+export type ProgressListener = (event: ProgressEvent) => void
+
+/**
+ * Function to call to stop receiving progress events
+ */
+export type ProgressUnsubscribe = () => void
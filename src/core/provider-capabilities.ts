@@ -0,0 +1,38 @@
+import { z } from "zod"
+
+/**
+ * Features a provider supports. Used by CLI to only show options relevant for a provider
+ * and reject unsupported option combinations.
+ */
+export const ProviderCapabilitiesSchema = z.object({
+    spot: z.boolean().describe("Spot instances (cheaper but may be restarted any time)"),
+    staticIp: z.boolean().describe("Choice between static and dynamic public IP"),
+    costAlert: z.boolean().describe("Provider-side cost alert with email notifications"),
+    dataDisk: z.boolean().describe("Dedicated data disk for game data, separated from OS disk"),
+    dataDiskSnapshot: z.boolean().describe("Data disk snapshot on stop, restored on next start"),
+    baseImageSnapshot: z.boolean().describe("Base image snapshot after initial configuration"),
+    deleteInstanceServerOnStop: z.boolean().describe("Optional deletion of instance server on stop, re-created on next start"),
+})
+
+export type ProviderCapabilities = z.infer<typeof ProviderCapabilitiesSchema>
+
+export type ProviderCapability = keyof ProviderCapabilities
+
+export const PROVIDER_CAPABILITY_LIST = Object.keys(ProviderCapabilitiesSchema.shape) as ProviderCapability[]
+
+/**
+ * Capabilities of a provider supporting none of the optional features
+ */
+export const NO_PROVIDER_CAPABILITIES: ProviderCapabilities = {
+    spot: false,
+    staticIp: false,
+    costAlert: false,
+    dataDisk: false,
+    dataDiskSnapshot: false,
+    baseImageSnapshot: false,
+    deleteInstanceServerOnStop: false,
+}
+
+export function getProviderCapabilityDescription(capability: ProviderCapability): string {
+    return ProviderCapabilitiesSchema.shape[capability].description ?? capability
+}
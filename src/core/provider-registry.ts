@@ -0,0 +1,297 @@
+import path from "path"
+import { getLogger } from "../log/utils"
+import { AbstractProviderClient, ProviderClientArgs } from "./provider"
+import { GenericStateParser } from "./state/parser"
+import { CommonProvisionInputV1, InstanceStateV1 } from "./state/state"
+import { ProviderCapabilities } from "./provider-capabilities"
+import { PricingCatalog } from "./pricing"
+import type { CloudResourceScanner } from "./orphans"
+import type { BilledResources } from "./cost"
+import type { InstanceDescription } from "./list"
+import type { CliCommandGenerator } from "../cli/command"
+import { CLOUDYPAD_PROVIDER_AWS,
+    CLOUDYPAD_PROVIDER_DUMMY,
+    CLOUDYPAD_PROVIDER_GCP,
+    CLOUDYPAD_PROVIDER_SSH,
+    CLOUDYPAD_PROVIDER_PAPERSPACE,
+    CLOUDYPAD_PROVIDER_SCALEWAY,
+    CLOUDYPAD_PROVIDER_LINODE,
+    CLOUDYPAD_PROVIDER_AZURE
+} from "./const"
+import { ScalewayProviderClient, SCALEWAY_PROVIDER_CAPABILITIES } from "../providers/scaleway/provider"
+import { DummyProviderClient, DUMMY_PROVIDER_CAPABILITIES } from "../providers/dummy/provider"
+import { AzureProviderClient, AZURE_PROVIDER_CAPABILITIES } from "../providers/azure/provider"
+import { GcpProviderClient, GCP_PROVIDER_CAPABILITIES } from "../providers/gcp/provider"
+import { AwsProviderClient, AWS_PROVIDER_CAPABILITIES } from "../providers/aws/provider"
+import { PaperspaceProviderClient, PAPERSPACE_PROVIDER_CAPABILITIES } from "../providers/paperspace/provider"
+import { SshProviderClient, SSH_PROVIDER_CAPABILITIES } from "../providers/ssh/provider"
+import { LinodeProviderClient, LINODE_PROVIDER_CAPABILITIES } from "../providers/linode/provider"
+import { ScalewayProvisionInputV1, ScalewayStateParser } from "../providers/scaleway/state"
+import { DummyProvisionInputV1, DummyStateParser } from "../providers/dummy/state"
+import { AzureProvisionInputV1, AzureStateParser } from "../providers/azure/state"
+import { GcpProvisionInputV1, GcpStateParser } from "../providers/gcp/state"
+import { AwsProvisionInputV1, AwsStateParser } from "../providers/aws/state"
+import { PaperspaceProvisionInputV1, PaperspaceStateParser } from "../providers/paperspace/state"
+import { SshProvisionInputV1, SshStateParser } from "../providers/ssh/state"
+import { LinodeProvisionInputV1, LinodeStateParser } from "../providers/linode/state"
+import { AWS_PRICING_CATALOG, getAwsBilledResources } from "../providers/aws/pricing"
+import { AZURE_PRICING_CATALOG, getAzureBilledResources } from "../providers/azure/pricing"
+import { GCP_PRICING_CATALOG, getGcpBilledResources } from "../providers/gcp/pricing"
+import { SCALEWAY_PRICING_CATALOG, getScalewayBilledResources } from "../providers/scaleway/pricing"
+import { LINODE_PRICING_CATALOG, getLinodeBilledResources } from "../providers/linode/pricing"
+import { AwsResourceScanner } from "../providers/aws/scanner"
+import { AzureResourceScanner } from "../providers/azure/scanner"
+import { GcpResourceScanner } from "../providers/gcp/scanner"
+import { ScalewayResourceScanner } from "../providers/scaleway/scanner"
+import { LinodeResourceScanner } from "../providers/linode/scanner"
+
+/**
+ * Everything Cloudy Pad needs to manage instances of a provider.
+ * Typed with provider's state on registration, registered providers are managed through generic InstanceStateV1.
+ */
+export interface ProviderRegistration<ST extends InstanceStateV1 = InstanceStateV1> {
+
+    /**
+     * Provider name, as stored in instance states (provision.provider)
+     */
+    name: string
+
+    /**
+     * Build provider client used to initialize, update and manage instances
+     */
+    buildClient(args: ProviderClientArgs): AbstractProviderClient<ST>
+
+    /**
+     * Build parser for provider's instance states
+     */
+    buildStateParser(): GenericStateParser<InstanceStateV1>
+
+    /**
+     * Features supported by provider
+     */
+    capabilities: ProviderCapabilities
+
+    /**
+     * Approximate prices of provider's resources, used for cost estimates. Costs are not estimated if not set.
+     */
+    pricingCatalog?: PricingCatalog
+
+    /**
+     * Resources billed for an instance with given provision input, used with pricing catalog to estimate instance cost.
+     * Instance cost is not estimated if not set.
+     */
+    getBilledResources?(input: CommonProvisionInputV1): BilledResources
+
+    /**
+     * Provider-specific details of an instance with given provision input (location, instance type)
+     * shown when listing instances. Not shown if not set.
+     */
+    describeInstance?(input: CommonProvisionInputV1): InstanceDescription
+
+    /**
+     * Build scanner listing Cloud resources created by Cloudy Pad on provider, used to find orphaned resources.
+     * Provider can't be scanned if not set.
+     */
+    buildResourceScanner?(): CloudResourceScanner
+
+    /**
+     * Build generator for provider's 'create' and 'update' CLI sub-commands.
+     * Provider can't be created or updated from CLI if not set.
+     */
+    buildCliCommandGenerator?(): CliCommandGenerator
+
+    /**
+     * Hide provider from CLI help (eg. providers used for testing)
+     */
+    hidden?: boolean
+}
+
+/**
+ * Module exposing providers to register. Module is loaded from a path declared in config
+ * and must export a register function such as:
+ *
+ * ```
+ * export function register(registry: ProviderRegistry) {
+ *     registry.registerProvider({ name: "my-provider", ... })
+ * }
+ * ```
+ */
+export interface ProviderModule {
+    register(registry: ProviderRegistry): void
+}
+
+/**
+ * Registry of providers known by Cloudy Pad. Core providers are registered by default,
+ * more providers can be registered by external packages using registerProvider().
+ */
+export class ProviderRegistry {
+
+    private readonly logger = getLogger(ProviderRegistry.name)
+    private readonly registrations = new Map<string, ProviderRegistration>()
+    private readonly loadedModules = new Set<string>()
+
+    registerProvider<ST extends InstanceStateV1>(registration: ProviderRegistration<ST>): void {
+        if(this.registrations.has(registration.name)){
+            throw new Error(`Provider ${registration.name} is already registered`)
+        }
+
+        this.logger.debug(`Registering provider ${registration.name}`)
+
+        this.registrations.set(registration.name, registration as ProviderRegistration)
+    }
+
+    /**
+     * Attach a CLI command generator to an already registered provider. Used by CLI
+     * to add Core providers generators as Core doesn't depend on CLI.
+     */
+    setCliCommandGenerator(provider: string, buildCliCommandGenerator: () => CliCommandGenerator): void {
+        const registration = this.getProvider(provider)
+        registration.buildCliCommandGenerator = buildCliCommandGenerator
+    }
+
+    hasProvider(provider: string): boolean {
+        return this.registrations.has(provider)
+    }
+
+    getProvider(provider: string): ProviderRegistration {
+        const registration = this.registrations.get(provider)
+        if(!registration){
+            throw new Error(`Provider ${provider} not supported. Registered providers: ${this.getProviderNames().join(", ")}`)
+        }
+        return registration
+    }
+
+    getProviders(): ProviderRegistration[] {
+        return Array.from(this.registrations.values())
+    }
+
+    getProviderNames(): string[] {
+        return Array.from(this.registrations.keys())
+    }
+
+    /**
+     * Load provider modules from given paths. Relative paths are resolved from current working directory,
+     * other paths are resolved as Node packages. A module is only loaded once.
+     */
+    loadProviderModules(modulePaths: string[]): void {
+        for(const modulePath of modulePaths){
+            const resolvedPath = modulePath.startsWith(".") ? path.resolve(modulePath) : modulePath
+            if(this.loadedModules.has(resolvedPath)){
+                continue
+            }
+
+            this.logger.debug(`Loading provider module ${resolvedPath}`)
+
+            let providerModule: Partial<ProviderModule>
+            try {
+                // Module path is only known at runtime and registration must happen synchronously
+                // eslint-disable-next-line @typescript-eslint/no-require-imports
+                providerModule = require(resolvedPath)
+            } catch (error) {
+                throw new Error(`Failed to load provider module ${modulePath}`, { cause: error })
+            }
+
+            if(typeof providerModule.register !== "function"){
+                throw new Error(`Provider module ${modulePath} must export a register(registry) function`)
+            }
+
+            providerModule.register(this)
+            this.loadedModules.add(resolvedPath)
+        }
+    }
+}
+
+function registerCoreProviders(registry: ProviderRegistry): void {
+    registry.registerProvider({
+        name: CLOUDYPAD_PROVIDER_AWS,
+        buildClient: (args) => new AwsProviderClient(args),
+        buildStateParser: () => new AwsStateParser(),
+        capabilities: AWS_PROVIDER_CAPABILITIES,
+        pricingCatalog: AWS_PRICING_CATALOG,
+        getBilledResources: (input) => getAwsBilledResources(input as AwsProvisionInputV1),
+        describeInstance: (input) => ({ location: (input as AwsProvisionInputV1).region, instanceType: (input as AwsProvisionInputV1).instanceType }),
+        buildResourceScanner: () => new AwsResourceScanner(),
+    })
+    registry.registerProvider({
+        name: CLOUDYPAD_PROVIDER_AZURE,
+        buildClient: (args) => new AzureProviderClient(args),
+        buildStateParser: () => new AzureStateParser(),
+        capabilities: AZURE_PROVIDER_CAPABILITIES,
+        pricingCatalog: AZURE_PRICING_CATALOG,
+        getBilledResources: (input) => getAzureBilledResources(input as AzureProvisionInputV1),
+        describeInstance: (input) => ({ location: (input as AzureProvisionInputV1).location, instanceType: (input as AzureProvisionInputV1).vmSize }),
+        buildResourceScanner: () => new AzureResourceScanner(),
+    })
+    registry.registerProvider({
+        name: CLOUDYPAD_PROVIDER_GCP,
+        buildClient: (args) => new GcpProviderClient(args),
+        buildStateParser: () => new GcpStateParser(),
+        capabilities: GCP_PROVIDER_CAPABILITIES,
+        pricingCatalog: GCP_PRICING_CATALOG,
+        getBilledResources: (input) => getGcpBilledResources(input as GcpProvisionInputV1),
+        describeInstance: (input) => ({ location: (input as GcpProvisionInputV1).zone, instanceType: (input as GcpProvisionInputV1).machineType }),
+        buildResourceScanner: () => new GcpResourceScanner(),
+    })
+    registry.registerProvider({
+        name: CLOUDYPAD_PROVIDER_PAPERSPACE,
+        buildClient: (args) => new PaperspaceProviderClient(args),
+        buildStateParser: () => new PaperspaceStateParser(),
+        capabilities: PAPERSPACE_PROVIDER_CAPABILITIES,
+        describeInstance: (input) => ({ location: (input as PaperspaceProvisionInputV1).region, instanceType: (input as PaperspaceProvisionInputV1).machineType }),
+    })
+    registry.registerProvider({
+        name: CLOUDYPAD_PROVIDER_SCALEWAY,
+        buildClient: (args) => new ScalewayProviderClient(args),
+        buildStateParser: () => new ScalewayStateParser(),
+        capabilities: SCALEWAY_PROVIDER_CAPABILITIES,
+        pricingCatalog: SCALEWAY_PRICING_CATALOG,
+        getBilledResources: (input) => getScalewayBilledResources(input as ScalewayProvisionInputV1),
+        describeInstance: (input) => ({ location: (input as ScalewayProvisionInputV1).zone, instanceType: (input as ScalewayProvisionInputV1).instanceType }),
+        buildResourceScanner: () => new ScalewayResourceScanner(),
+    })
+    registry.registerProvider({
+        name: CLOUDYPAD_PROVIDER_LINODE,
+        buildClient: (args) => new LinodeProviderClient(args),
+        buildStateParser: () => new LinodeStateParser(),
+        capabilities: LINODE_PROVIDER_CAPABILITIES,
+        pricingCatalog: LINODE_PRICING_CATALOG,
+        getBilledResources: (input) => getLinodeBilledResources(input as LinodeProvisionInputV1),
+        describeInstance: (input) => ({ location: (input as LinodeProvisionInputV1).region, instanceType: (input as LinodeProvisionInputV1).instanceType }),
+        buildResourceScanner: () => new LinodeResourceScanner(),
+    })
+    registry.registerProvider({
+        name: CLOUDYPAD_PROVIDER_SSH,
+        buildClient: (args) => new SshProviderClient(args),
+        buildStateParser: () => new SshStateParser(),
+        capabilities: SSH_PROVIDER_CAPABILITIES,
+        describeInstance: (input) => ({ location: (input as SshProvisionInputV1).hostname }),
+    })
+    registry.registerProvider({
+        name: CLOUDYPAD_PROVIDER_DUMMY,
+        buildClient: (args) => new DummyProviderClient(args),
+        buildStateParser: () => new DummyStateParser(),
+        capabilities: DUMMY_PROVIDER_CAPABILITIES,
+        describeInstance: (input) => ({ instanceType: (input as DummyProvisionInputV1).instanceType }),
+        hidden: true,
+    })
+}
+
+let defaultRegistry: ProviderRegistry | undefined
+
+/**
+ * Get global provider registry, with Core providers already registered.
+ */
+export function getProviderRegistry(): ProviderRegistry {
+    if(!defaultRegistry){
+        defaultRegistry = new ProviderRegistry()
+        registerCoreProviders(defaultRegistry)
+    }
+    return defaultRegistry
+}
+
+/**
+ * Register a provider in global provider registry.
+ */
+export function registerProvider(registration: ProviderRegistration): void {
+    getProviderRegistry().registerProvider(registration)
+}
@@ -7,7 +7,6 @@ import { StateWriter } from "./state/writer"
 import { StateManagerBuilder } from "./state/builders"
 import { InstanceManager } from "./manager"
 import { GenericStateParser } from "./state/parser"
-import { CLOUDYPAD_PROVIDER } from "./const"
 import { StateLoader } from "./state/loader"
 
 export type ProviderClientArgs = {
@@ -34,7 +33,11 @@ export abstract class AbstractProviderClient<ST extends InstanceStateV1> {
         })
     }
 
-    abstract getProviderName(): CLOUDYPAD_PROVIDER
+    abstract getProviderName(): string
+
+    getCoreConfig(): CoreConfig {
+        return this.coreConfig
+    }
 
     abstract getInstanceInitializer(): InstanceInitializer<ST>
 
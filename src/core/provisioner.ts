@@ -1,7 +1,10 @@
 import { getLogger, Logger } from "../log/utils"
-import { CLOUDYPAD_SUNSHINE_PORTS, CLOUDYPAD_WOLF_PORTS, SimplePortDefinition } from "./const"
+import { CLOUDYPAD_SUNSHINE_PORTS, CLOUDYPAD_WOLF_PORTS, DATA_DISK_STATE_LIVE, SimplePortDefinition } from "./const"
 import { CommonProvisionInputV1, CommonProvisionOutputV1, CommonConfigurationInputV1 } from "./state/state"
 import { CoreConfig } from "./config/interface"
+import { ProvisionPlan, ProvisionStackKind, ProvisionStackPlan } from "./plan"
+import { InstancePulumiClient } from "../tools/pulumi/client"
+import { DriftReport, ProvisionedResource, ProvisionedResourceCheck } from "./drift"
 
 /**
  * Options for provisioner actions
@@ -19,6 +22,8 @@ export interface ProvisionerActionOptions {
  * - dataSnapshotProvision(): manages data disk snapshot stack (create/delete snapshot)
  * - baseImageSnapshotProvision(): manages base image snapshot stack (create/delete image)
  * - destroy(): destroys all infrastructure and Cloud resources managed for this instance
+ * - plan(): previews changes other functions would perform without changing any Cloud resources
+ * - detectDrift(): checks Cloud resources referenced by provision output still exist
  */
 export interface InstanceProvisioner  {
 
@@ -69,6 +74,34 @@ export interface InstanceProvisioner  {
      * If Pulumi is used, related stacks are destroyed and removed. 
      */
     destroy(opts?: ProvisionerActionOptions): Promise<void>
+
+    /**
+     * Preview changes on Cloud resources a deployment would perform with current inputs:
+     * data disk snapshot stack (if a snapshot would be created), main stack and base image stack (if enabled).
+     * No Cloud resource is changed.
+     * 
+     * Returned plan is flagged as unsupported if provider can't compute a plan.
+     */
+    plan(opts?: ProvisionerActionOptions): Promise<ProvisionPlan>
+
+    /**
+     * Refresh Pulumi stacks (if any) so they match actual Cloud resources and check
+     * resources referenced by provision output (server, disks, snapshot, image) still exist using provider API.
+     * No Cloud resource is changed.
+     * 
+     * Returned report is flagged as unsupported if provider can't check its resources.
+     */
+    detectDrift(opts?: ProvisionerActionOptions): Promise<DriftReport>
+}
+
+/**
+ * A resource referenced by provision output to check for drift. Not checked if ID is undefined.
+ */
+export interface ProvisionedResourceToCheck {
+    resource: ProvisionedResource
+    id?: string
+    outputKeys: string[]
+    exists: (id: string) => Promise<boolean>
 }
 
 export interface InstanceProvisionerArgs<PC extends CommonProvisionInputV1, PO extends CommonProvisionOutputV1> {
@@ -128,6 +161,98 @@ export abstract class AbstractInstanceProvisioner<PC extends CommonProvisionInpu
         this.logger.info(`Destroyed instance ${this.args.instanceName}`)
     }
 
+    async plan(opts?: ProvisionerActionOptions): Promise<ProvisionPlan> {
+        this.logger.info(`Computing provision plan for instance ${this.args.instanceName}`)
+
+        const stacks = this.doPlan ? await this.doPlan(opts) : undefined
+
+        return {
+            instanceName: this.args.instanceName,
+            supported: stacks !== undefined,
+            stacks: stacks ?? [],
+        }
+    }
+
+    /**
+     * Preview stacks changes. Not implemented if provider does not support plan (default).
+     */
+    protected doPlan?(opts?: ProvisionerActionOptions): Promise<ProvisionStackPlan[]>
+
+    async detectDrift(opts?: ProvisionerActionOptions): Promise<DriftReport> {
+        this.logger.info(`Detecting drift for instance ${this.args.instanceName}`)
+
+        const checks = this.doDetectDrift ? await this.doDetectDrift(opts) : undefined
+
+        return {
+            instanceName: this.args.instanceName,
+            supported: checks !== undefined,
+            checks: checks ?? [],
+        }
+    }
+
+    /**
+     * Refresh stacks and check provisioned resources. Not implemented if provider does not support drift detection (default).
+     */
+    protected doDetectDrift?(opts?: ProvisionerActionOptions): Promise<ProvisionedResourceCheck[]>
+
+    /**
+     * Check given resources exist, sequentially to avoid hitting provider API rate limits
+     */
+    protected async checkProvisionedResources(resources: ProvisionedResourceToCheck[]): Promise<ProvisionedResourceCheck[]> {
+        const checks: ProvisionedResourceCheck[] = []
+        for (const resource of resources) {
+            if (!resource.id) {
+                continue
+            }
+
+            this.logger.debug(`Checking ${resource.resource} ${resource.id} exists for instance ${this.args.instanceName}`)
+
+            checks.push({
+                resource: resource.resource,
+                id: resource.id,
+                outputKeys: resource.outputKeys,
+                exists: await resource.exists(resource.id),
+            })
+        }
+        return checks
+    }
+
+    /**
+     * Set Pulumi stack config and preview its changes
+     */
+    protected async previewPulumiStack<C extends object, O>(stack: ProvisionStackKind, client: InstancePulumiClient<C, O>, 
+        config: C, opts?: ProvisionerActionOptions
+    ): Promise<ProvisionStackPlan> {
+        await client.setConfig(config)
+        const changes = await client.previewChanges({ cancel: opts?.pulumiCancel })
+
+        return {
+            stack: stack,
+            projectName: client.projectName,
+            stackName: client.stackName,
+            changes: changes,
+        }
+    }
+
+    /**
+     * Data disk ID a data snapshot provision would snapshot, if any. 
+     * A snapshot is only created if enabled and desired data disk state is not live.
+     */
+    protected getPlannedDataDiskSnapshotDiskId(): string | undefined {
+        if (!this.args.provisionInput.dataDiskSnapshot?.enable || this.args.provisionInput.runtime?.dataDiskState === DATA_DISK_STATE_LIVE) {
+            return undefined
+        }
+        return this.args.provisionOutput?.dataDiskId
+    }
+
+    /**
+     * Whether a base image snapshot provision would create an image from instance server root disk.
+     * No image is created if base image snapshot is disabled or user provided their own image.
+     */
+    protected isBaseImageSnapshotPlanned(): boolean {
+        return this.args.provisionInput.baseImageSnapshot?.enable === true && !this.args.provisionInput.imageId
+    }
+
     /**
      * Data snapshot provision. Depending on State provision inputs:
      * - If dataDiskState is DATA_DISK_STATE_SNAPSHOT: create a snapshot from existing data disk if any.
@@ -0,0 +1,131 @@
+import lodash from "lodash"
+import { getLogger } from "../log/utils"
+import { CoreConfig } from "./config/interface"
+import { InstanceManagerBuilder } from "./manager-builder"
+import { getPlanRecreations } from "./plan"
+import { StateManagerBuilder } from "./state/builders"
+import { DEFAULT_LOCK_TTL_SECONDS, InstanceLockHandle } from "./state/lock"
+import { AnonymousStateParser } from "./state/parser"
+import { getInstanceResourceName, InstanceEventEnum, InstanceStateV1, isValidInstanceName } from "./state/state"
+
+export interface InstanceRenameOptions {
+
+    /**
+     * Skip checking with a provision plan that no Cloud resource would be created, replaced or deleted after rename.
+     * Default: false, plan is computed for provisioned instances.
+     */
+    skipValidation?: boolean
+}
+
+export interface InstanceRenamerArgs {
+    config: CoreConfig
+}
+
+/**
+ * Rename instances. Instance name is only a display name once renamed: Pulumi stacks and Cloud resources
+ * keep using instance original name (state resourceName) so they are left untouched.
+ */
+export class InstanceRenamer {
+
+    private readonly logger = getLogger(InstanceRenamer.name)
+    private readonly args: InstanceRenamerArgs
+    private readonly managerBuilder: InstanceManagerBuilder
+
+    constructor(args: InstanceRenamerArgs) {
+        this.args = args
+        this.managerBuilder = new InstanceManagerBuilder({ config: args.config })
+    }
+
+    /**
+     * Rename an instance:
+     * - state and event journal are copied under new name
+     * - for provisioned instances, a provision plan checks no Cloud resource would be re-created. If any,
+     *   copied state is removed and instance is left as-is.
+     * - old state is removed
+     *
+     * State revisions are not copied: revision history of renamed instance starts fresh.
+     */
+    async rename(oldName: string, newName: string, opts?: InstanceRenameOptions): Promise<InstanceStateV1> {
+        if(!isValidInstanceName(newName)){
+            throw new Error(`Invalid instance name '${newName}': instance name must be kebab case`)
+        }
+        if(oldName === newName){
+            throw new Error(`Instance ${oldName} already has name ${newName}`)
+        }
+
+        const stateManagerBuilder = new StateManagerBuilder({ stateBackend: this.args.config.stateBackend })
+        const sideEffect = stateManagerBuilder.buildSideEffect()
+        if(!(await sideEffect.instanceExists(oldName))){
+            throw new Error(`Instance ${oldName} not found`)
+        }
+        if(await sideEffect.instanceExists(newName)){
+            throw new Error(`Instance ${newName} already exists`)
+        }
+
+        // Renamed instance may use new name as resource name if renamed back to its original name
+        await stateManagerBuilder.buildStateLoader().checkResourceNameAvailable(newName, [ oldName ])
+
+        // Lock instance so it's not modified while being renamed
+        const lock = new InstanceLockHandle(sideEffect, await sideEffect.acquireLock(oldName, DEFAULT_LOCK_TTL_SECONDS), DEFAULT_LOCK_TTL_SECONDS)
+        try {
+            const parser = new AnonymousStateParser()
+            const state = parser.parse(await sideEffect.loadRawInstanceState(oldName))
+
+            const renamedState: InstanceStateV1 = {
+                ...lodash.cloneDeep(state),
+                name: newName,
+                resourceName: getInstanceResourceName(state),
+            }
+
+            // Renaming an instance back to its original name
+            if(renamedState.resourceName === newName){
+                delete renamedState.resourceName
+            }
+
+            this.logger.debug(`Renaming instance ${oldName} to ${newName}, resource name: ${getInstanceResourceName(renamedState)}`)
+
+            await sideEffect.persistState(renamedState, `rename from ${oldName}`)
+
+            try {
+                for(const event of await sideEffect.loadEventJournal(oldName) ?? []){
+                    await sideEffect.appendEventJournal(newName, event)
+                }
+
+                if(!opts?.skipValidation && state.provision.output){
+                    await this.validateRename(oldName, newName)
+                }
+            } catch (error) {
+                this.logger.debug(`Rename of instance ${oldName} to ${newName} failed, removing state copied to ${newName}`, error)
+                await sideEffect.destroyState(newName)
+                throw error
+            }
+
+            await sideEffect.destroyState(oldName)
+        } finally {
+            await lock.release()
+        }
+
+        const manager = await this.managerBuilder.buildInstanceManager(newName)
+        await manager.recordEvent(InstanceEventEnum.Renamed, `Renamed from ${oldName}`)
+
+        return manager.getState()
+    }
+
+    /**
+     * Check renamed instance provision plan has no resource creation, replacement or deletion.
+     */
+    private async validateRename(oldName: string, newName: string): Promise<void> {
+        const manager = await this.managerBuilder.buildInstanceManager(newName)
+        const plan = await manager.plan()
+        if(!plan.supported){
+            this.logger.debug(`Provision plan not supported for instance ${newName}, skipping rename validation`)
+            return
+        }
+
+        const recreations = getPlanRecreations(plan)
+        if(recreations.length > 0){
+            throw new Error(`Renamed instance would ${recreations.map(c => `${c.operation} ${c.type} ${c.name}`).join(", ")}. ` +
+                `Instance ${oldName} was not renamed. Check pending changes with 'cloudypad plan ${oldName}' before renaming.`)
+        }
+    }
+}
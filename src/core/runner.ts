@@ -1,6 +1,5 @@
 import { CommonConfigurationInputV1, CommonProvisionInputV1, CommonProvisionOutputV1 } from './state/state';
 import { getLogger, Logger } from '../log/utils';
-import { CLOUDYPAD_PROVIDER } from './const';
 import { SunshineMoonlightPairer } from './moonlight/pairer/sunshine';
 import { MoonlightPairer } from './moonlight/pairer/abstract';
 import { WolfMoonlightPairer } from './moonlight/pairer/wolf';
@@ -71,9 +70,9 @@ export abstract class AbstractInstanceRunner<C extends CommonProvisionInputV1, O
     
     protected readonly logger: Logger
     protected readonly args: InstanceRunnerArgs<C, O>
-    private provider: CLOUDYPAD_PROVIDER
+    private provider: string
 
-    constructor(provider: CLOUDYPAD_PROVIDER, args: InstanceRunnerArgs<C, O>) {
+    constructor(provider: string, args: InstanceRunnerArgs<C, O>) {
         this.args = args
         this.provider = provider
         this.logger = getLogger(args.instanceName) 
@@ -0,0 +1,310 @@
+import { getLogger } from "../log/utils"
+import { CoreConfig } from "./config/interface"
+import { InstanceManagerBuilder } from "./manager-builder"
+import { StateManagerBuilder } from "./state/builders"
+import { InstanceSchedule } from "./state/state"
+
+const MS_PER_MINUTE = 60 * 1000
+
+export const SCHEDULE_DEFAULT_TIMEZONE = "UTC"
+
+/**
+ * Maximum number of days to look for next scheduled run
+ */
+const NEXT_RUN_MAX_DAYS = 31
+
+const CRON_MONTH_NAMES = [ "jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec" ]
+const CRON_DAY_NAMES = [ "sun", "mon", "tue", "wed", "thu", "fri", "sat" ]
+
+/**
+ * Parsed cron expression: allowed values for each field
+ */
+export interface CronExpression {
+    minutes: Set<number>
+    hours: Set<number>
+    daysOfMonth: Set<number>
+    months: Set<number>
+    daysOfWeek: Set<number>
+
+    /**
+     * Whether day of month and day of week fields are restricted (not "*").
+     * If both are restricted, a day matches if it matches either field (standard cron behavior).
+     */
+    daysOfMonthRestricted: boolean
+    daysOfWeekRestricted: boolean
+}
+
+function parseCronField(field: string, min: number, max: number, names?: string[]): Set<number> {
+    const parseValue = (value: string): number => {
+        const nameIndex = names?.indexOf(value.toLowerCase()) ?? -1
+        const parsed = nameIndex >= 0 ? nameIndex + (names === CRON_MONTH_NAMES ? 1 : 0) : Number(value)
+        if(!Number.isInteger(parsed) || parsed < min || parsed > max){
+            throw new Error(`Invalid value '${value}', expected ${min}-${max}`)
+        }
+        return parsed
+    }
+
+    const values = new Set<number>()
+    for(const part of field.split(",")){
+        const [ range, stepStr ] = part.split("/")
+        const step = stepStr === undefined ? 1 : Number(stepStr)
+        if(!Number.isInteger(step) || step < 1){
+            throw new Error(`Invalid step '${stepStr}'`)
+        }
+
+        let start = min
+        let end = max
+        if(range !== "*"){
+            const bounds = range.split("-")
+            start = parseValue(bounds[0])
+            end = bounds.length > 1 ? parseValue(bounds[1]) : (stepStr === undefined ? start : max)
+            if(bounds.length > 2 || end < start){
+                throw new Error(`Invalid range '${range}'`)
+            }
+        }
+
+        for(let v = start; v <= end; v += step){
+            values.add(v)
+        }
+    }
+    return values
+}
+
+/**
+ * Parse a 5-field cron expression: minute hour day-of-month month day-of-week.
+ * Supports "*", values, ranges (1-5), lists (1,3), steps (*\/15, 0-30/10) and month/day names (jan, mon).
+ * Day of week 0 and 7 are both Sunday.
+ */
+export function parseCronExpression(expression: string): CronExpression {
+    const fields = expression.trim().split(/\s+/)
+    if(fields.length !== 5){
+        throw new Error(`Invalid cron expression '${expression}': expected 5 fields (minute hour day-of-month month day-of-week)`)
+    }
+
+    try {
+        const daysOfWeek = parseCronField(fields[4], 0, 7, CRON_DAY_NAMES)
+        if(daysOfWeek.has(7)){
+            daysOfWeek.delete(7)
+            daysOfWeek.add(0)
+        }
+
+        return {
+            minutes: parseCronField(fields[0], 0, 59),
+            hours: parseCronField(fields[1], 0, 23),
+            daysOfMonth: parseCronField(fields[2], 1, 31),
+            months: parseCronField(fields[3], 1, 12, CRON_MONTH_NAMES),
+            daysOfWeek: daysOfWeek,
+            daysOfMonthRestricted: fields[2] !== "*",
+            daysOfWeekRestricted: fields[4] !== "*",
+        }
+    } catch (error) {
+        throw new Error(`Invalid cron expression '${expression}': ${error instanceof Error ? error.message : String(error)}`)
+    }
+}
+
+/**
+ * Convert a schedule time to a cron expression. Time may be a cron expression or a daily time "HH:MM" (eg. "19:00").
+ * Throws if time is not valid.
+ */
+export function toCronExpression(time: string): string {
+    const dailyMatch = time.trim().match(/^(\d{1,2}):(\d{2})$/)
+    const expression = dailyMatch ? `${Number(dailyMatch[2])} ${Number(dailyMatch[1])} * * *` : time.trim()
+    parseCronExpression(expression)
+    return expression
+}
+
+/**
+ * Check timezone is a valid IANA timezone. Throws if not.
+ */
+export function validateTimezone(timezone: string): void {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone })
+    } catch (error) {
+        throw new Error(`Invalid timezone '${timezone}', expected an IANA timezone like 'Europe/Paris'`, { cause: error })
+    }
+}
+
+/**
+ * Build a function returning date fields of a timestamp in given timezone
+ */
+function buildZonedDateFields(timezone: string): (timestamp: number) => { minute: number, hour: number, day: number, month: number, weekday: number } {
+    const format = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hourCycle: "h23",
+        minute: "numeric",
+        hour: "numeric",
+        day: "numeric",
+        month: "numeric",
+        weekday: "short",
+    })
+
+    return (timestamp: number) => {
+        const parts = Object.fromEntries(format.formatToParts(timestamp).map(p => [ p.type, p.value ]))
+        return {
+            minute: Number(parts.minute),
+            hour: Number(parts.hour),
+            day: Number(parts.day),
+            month: Number(parts.month),
+            weekday: CRON_DAY_NAMES.indexOf(parts.weekday.toLowerCase()),
+        }
+    }
+}
+
+/**
+ * Return scheduled run dates (Unix timestamps in milliseconds, at minute start) of a cron expression
+ * within period (since, until]. Cron expression is evaluated in given timezone.
+ */
+export function getScheduledRuns(expression: string, timezone: string, since: number, until: number): number[] {
+    const cron = parseCronExpression(expression)
+    const getFields = buildZonedDateFields(timezone)
+
+    const runs: number[] = []
+    for(let t = Math.floor(since / MS_PER_MINUTE + 1) * MS_PER_MINUTE; t <= until; t += MS_PER_MINUTE){
+        const f = getFields(t)
+        if(!cron.minutes.has(f.minute) || !cron.hours.has(f.hour) || !cron.months.has(f.month)){
+            continue
+        }
+
+        const dayOfMonthMatch = cron.daysOfMonth.has(f.day)
+        const dayOfWeekMatch = cron.daysOfWeek.has(f.weekday)
+        const dayMatch = cron.daysOfMonthRestricted && cron.daysOfWeekRestricted ?
+            dayOfMonthMatch || dayOfWeekMatch :
+            dayOfMonthMatch && dayOfWeekMatch
+
+        if(dayMatch){
+            runs.push(t)
+        }
+    }
+    return runs
+}
+
+/**
+ * Return next scheduled run date of a cron expression after given date, or undefined if none within a month.
+ */
+export function getNextScheduledRun(expression: string, timezone: string, after: number): number | undefined {
+    const dayMs = 24 * 60 * MS_PER_MINUTE
+    for(let day = 0; day < NEXT_RUN_MAX_DAYS; day++){
+        const runs = getScheduledRuns(expression, timezone, after + day * dayMs, after + (day + 1) * dayMs)
+        if(runs.length > 0){
+            return runs[0]
+        }
+    }
+    return undefined
+}
+
+export const SCHEDULED_ACTION_START = "start"
+export const SCHEDULED_ACTION_STOP = "stop"
+
+export type SCHEDULED_ACTION = typeof SCHEDULED_ACTION_START | typeof SCHEDULED_ACTION_STOP
+
+/**
+ * Return latest scheduled action of a schedule within period (since, until], if any.
+ * If both start and stop are scheduled at the same time, stop wins.
+ */
+export function getDueScheduledAction(schedule: InstanceSchedule, since: number, until: number): { action: SCHEDULED_ACTION, scheduledAt: number } | undefined {
+    const timezone = schedule.timezone ?? SCHEDULE_DEFAULT_TIMEZONE
+    const lastStart = schedule.start ? getScheduledRuns(schedule.start, timezone, since, until).pop() : undefined
+    const lastStop = schedule.stop ? getScheduledRuns(schedule.stop, timezone, since, until).pop() : undefined
+
+    if(lastStop !== undefined && (lastStart === undefined || lastStop >= lastStart)){
+        return { action: SCHEDULED_ACTION_STOP, scheduledAt: lastStop }
+    }
+    if(lastStart !== undefined){
+        return { action: SCHEDULED_ACTION_START, scheduledAt: lastStart }
+    }
+    return undefined
+}
+
+export interface ScheduledActionResult {
+    instanceName: string
+    action: SCHEDULED_ACTION
+    scheduledAt: number
+
+    /**
+     * Error if action failed after all retries
+     */
+    error?: string
+}
+
+export interface ScheduledActionsOptions {
+
+    /**
+     * Only run schedules of these instances. Default: all instances.
+     */
+    instanceNames?: string[]
+
+    /**
+     * Number of retries of start and stop actions. Default: 0
+     */
+    retries?: number
+
+    /**
+     * Delay between retries in seconds
+     */
+    retryDelaySeconds?: number
+}
+
+export interface InstanceSchedulerArgs {
+    config: CoreConfig
+}
+
+/**
+ * Start and stop instances according to their schedule.
+ */
+export class InstanceScheduler {
+
+    private readonly logger = getLogger(InstanceScheduler.name)
+    private readonly args: InstanceSchedulerArgs
+    private readonly managerBuilder: InstanceManagerBuilder
+
+    constructor(args: InstanceSchedulerArgs) {
+        this.args = args
+        this.managerBuilder = new InstanceManagerBuilder({ config: args.config })
+    }
+
+    /**
+     * Run scheduled actions due within period (since, until]. Only the latest action of each instance is run:
+     * if scheduler missed several runs (eg. scheduler was not running), instance ends up in its latest scheduled state.
+     * Failures on an instance are reported in its result and don't prevent running other instances actions.
+     */
+    async runScheduledActions(since: number, until: number, opts?: ScheduledActionsOptions): Promise<ScheduledActionResult[]> {
+        const loader = new StateManagerBuilder({ stateBackend: this.args.config.stateBackend }).buildStateLoader()
+        const instanceNames = opts?.instanceNames ?? await loader.listInstances()
+
+        const results: ScheduledActionResult[] = []
+        for(const instanceName of instanceNames){
+            let due: ReturnType<typeof getDueScheduledAction>
+            try {
+                const state = await loader.loadInstanceState(instanceName)
+                due = state.schedule ? getDueScheduledAction(state.schedule, since, until) : undefined
+            } catch (error) {
+                this.logger.warn(`Couldn't read schedule of instance ${instanceName}`, error)
+                continue
+            }
+
+            if(!due){
+                continue
+            }
+
+            const result: ScheduledActionResult = { instanceName: instanceName, ...due }
+            this.logger.info(`Running scheduled ${due.action} of instance ${instanceName} (scheduled at ${new Date(due.scheduledAt).toISOString()})`)
+
+            try {
+                const manager = await this.managerBuilder.buildInstanceManager(instanceName)
+                const actionOpts = { retries: opts?.retries, retryDelaySeconds: opts?.retryDelaySeconds, wait: true }
+                if(due.action === SCHEDULED_ACTION_START){
+                    await manager.start(actionOpts)
+                } else {
+                    await manager.stop(actionOpts)
+                }
+            } catch (error) {
+                this.logger.warn(`Scheduled ${due.action} of instance ${instanceName} failed`, error)
+                result.error = error instanceof Error ? error.message : String(error)
+            }
+
+            results.push(result)
+        }
+
+        return results
+    }
+}
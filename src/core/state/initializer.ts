@@ -1,14 +1,15 @@
-import { InstanceInputs, InstanceEventEnum, InstanceStateV1 } from './state';
+import { InstanceInputs, InstanceEventEnum, InstanceLabels, InstanceStateV1 } from './state';
 import { getLogger } from '../../log/utils';
-import { CLOUDYPAD_CONFIGURATOR_ANSIBLE, CLOUDYPAD_PROVIDER } from '../const';
+import { CLOUDYPAD_CONFIGURATOR_ANSIBLE } from '../const';
 import { StateWriter } from './writer';
 import { GenericStateParser } from './parser';
 
 export interface StateInitializerArgs<ST extends InstanceStateV1> {
     stateWriter: StateWriter<ST>,
     stateParser: GenericStateParser<ST>,
-    provider: CLOUDYPAD_PROVIDER,
+    provider: string,
     input: InstanceInputs<ST["provision"]["input"], ST["configuration"]["input"]>,
+    labels?: InstanceLabels,
 }
 
 export class StateInitializer<ST extends InstanceStateV1> {
@@ -49,7 +50,8 @@ export class StateInitializer<ST extends InstanceStateV1> {
             events: [],
             version: "1",
             provision: initialProvision,
-            configuration: initialConfig
+            configuration: initialConfig,
+            ...(this.args.labels && Object.keys(this.args.labels).length > 0 ? { labels: this.args.labels } : {}),
         }
 
         const initialState = this.args.stateParser.parse(initialStateRaw)
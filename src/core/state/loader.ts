@@ -1,6 +1,6 @@
 import { getLogger } from '../../log/utils'
 import { AnonymousStateParser } from './parser'
-import { InstanceStateV1 } from './state'
+import { getInstanceResourceName, InstanceStateV1 } from './state'
 import { StateSideEffect } from './side-effects/abstract'
 
 export interface StateLoaderArgs {
@@ -47,4 +47,36 @@ export class StateLoader {
         const parser = new AnonymousStateParser()
         return parser.parse(rawState)
     }
-}
\ No newline at end of file
+
+    /**
+     * Find an instance using given name as resource name (name of its Pulumi stacks and Cloud resources).
+     * A renamed instance keeps using its original name as resource name.
+     * @param excludedInstanceNames instances to ignore (eg. instance being renamed or overwritten)
+     * @returns name of instance using resource name if any, undefined otherwise
+     */
+    async findInstanceUsingResourceName(resourceName: string, excludedInstanceNames: string[] = []): Promise<string | undefined> {
+        for(const instanceName of await this.listInstances()){
+            if(excludedInstanceNames.includes(instanceName)){
+                continue
+            }
+
+            const state = await this.loadInstanceState(instanceName)
+            if(getInstanceResourceName(state) === resourceName){
+                return instanceName
+            }
+        }
+        return undefined
+    }
+
+    /**
+     * Throw if given name is used as resource name by another instance. Instances using same
+     * resource name would manage the same Pulumi stacks and Cloud resources.
+     * @param excludedInstanceNames instances to ignore (eg. instance being renamed or overwritten)
+     */
+    async checkResourceNameAvailable(name: string, excludedInstanceNames: string[] = []): Promise<void> {
+        const usingInstance = await this.findInstanceUsingResourceName(name, excludedInstanceNames)
+        if(usingInstance){
+            throw new Error(`Name ${name} is already used by Cloud resources of instance ${usingInstance}. Use another name.`)
+        }
+    }
+}
@@ -0,0 +1,112 @@
+import * as os from 'os'
+import { randomUUID } from 'crypto'
+import { z } from 'zod'
+import { getLogger } from '../../log/utils'
+import type { StateSideEffect } from './side-effects/abstract'
+
+/**
+ * Default lock Time To Live. Held locks are renewed periodically so TTL only matters
+ * when lock holder dies without releasing lock.
+ */
+export const DEFAULT_LOCK_TTL_SECONDS = 300
+
+export const InstanceLockInfoSchema = z.object({
+    instanceName: z.string().describe("Locked instance name"),
+    lockId: z.string().describe("Unique lock identifier, used to ensure only lock holder can renew or release lock"),
+    owner: z.string().describe("Lock owner, usually as user@hostname"),
+    host: z.string().describe("Hostname of machine holding lock"),
+    pid: z.number().describe("Process ID holding lock"),
+    acquiredAt: z.number().describe("Lock acquisition date (Unix timestamp in milliseconds)"),
+    expiresAt: z.number().describe("Lock expiration date (Unix timestamp in milliseconds). Expired locks can be taken over."),
+})
+
+export type InstanceLockInfo = z.infer<typeof InstanceLockInfoSchema>
+
+/**
+ * Thrown when trying to lock an instance already locked by someone else.
+ */
+export class InstanceLockedError extends Error {
+    constructor(public readonly lockInfo: InstanceLockInfo) {
+        super(`Instance ${lockInfo.instanceName} is locked by ${describeLockHolder(lockInfo)}. ` +
+            `Another operation is probably running on this instance, wait for it to finish. ` +
+            `If you are sure no other operation is running, remove lock with 'cloudypad unlock ${lockInfo.instanceName}'.`)
+    }
+}
+
+/**
+ * Thrown when instance state was modified by someone else since it was last loaded.
+ */
+export class StateConcurrentModificationError extends Error {
+    constructor(public readonly instanceName: string, options?: ErrorOptions) {
+        super(`State of instance ${instanceName} was modified concurrently since it was last loaded. ` +
+            `Another operation may be running on this instance. Reload state and try again.`, options)
+    }
+}
+
+export function newInstanceLockInfo(instanceName: string, ttlSeconds: number): InstanceLockInfo {
+    const now = Date.now()
+    return {
+        instanceName: instanceName,
+        lockId: randomUUID(),
+        owner: `${currentUsername()}@${os.hostname()}`,
+        host: os.hostname(),
+        pid: process.pid,
+        acquiredAt: now,
+        expiresAt: now + ttlSeconds * 1000,
+    }
+}
+
+export function isLockExpired(lockInfo: InstanceLockInfo, now: number = Date.now()): boolean {
+    return lockInfo.expiresAt <= now
+}
+
+export function describeLockHolder(lockInfo: InstanceLockInfo): string {
+    return `${lockInfo.owner} (host ${lockInfo.host}, PID ${lockInfo.pid}) since ${new Date(lockInfo.acquiredAt).toISOString()}, ` +
+        `expiring ${new Date(lockInfo.expiresAt).toISOString()}`
+}
+
+function currentUsername(): string {
+    try {
+        return os.userInfo().username
+    } catch {
+        // userInfo() throws if user has no entry in passwd (eg. some containers)
+        return process.env.USER ?? "unknown"
+    }
+}
+
+/**
+ * A lock held on an instance. Lock is renewed in background until released
+ * so long-running operations don't lose it.
+ */
+export class InstanceLockHandle {
+
+    private readonly logger = getLogger(InstanceLockHandle.name)
+    private readonly renewTimer: NodeJS.Timeout
+    private currentInfo: InstanceLockInfo
+
+    constructor(private readonly sideEffect: StateSideEffect, info: InstanceLockInfo, ttlSeconds: number) {
+        this.currentInfo = info
+
+        this.renewTimer = setInterval(() => { void this.renew(ttlSeconds) }, ttlSeconds * 1000 / 3)
+
+        // Don't keep process alive only to renew lock
+        this.renewTimer.unref()
+    }
+
+    get info(): InstanceLockInfo {
+        return this.currentInfo
+    }
+
+    async release(): Promise<void> {
+        clearInterval(this.renewTimer)
+        await this.sideEffect.releaseLock(this.currentInfo)
+    }
+
+    private async renew(ttlSeconds: number): Promise<void> {
+        try {
+            this.currentInfo = await this.sideEffect.renewLock(this.currentInfo, ttlSeconds)
+        } catch (error) {
+            this.logger.warn(`Failed to renew lock on instance ${this.currentInfo.instanceName}`, error)
+        }
+    }
+}
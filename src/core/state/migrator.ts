@@ -0,0 +1,144 @@
+import lodash from 'lodash'
+import { getLogger } from '../../log/utils'
+import { StateSideEffect } from './side-effects/abstract'
+import { AnonymousStateParser } from './parser'
+import { DEFAULT_LOCK_TTL_SECONDS } from './lock'
+
+export const STATE_MIGRATION_STATUS_MIGRATED = "migrated"
+export const STATE_MIGRATION_STATUS_SKIPPED = "skipped"
+export const STATE_MIGRATION_STATUS_FAILED = "failed"
+
+export type StateMigrationStatus = typeof STATE_MIGRATION_STATUS_MIGRATED |
+    typeof STATE_MIGRATION_STATUS_SKIPPED |
+    typeof STATE_MIGRATION_STATUS_FAILED
+
+export interface StateMigratorArgs {
+
+    /**
+     * Side effect to read instance states from
+     */
+    source: StateSideEffect
+
+    /**
+     * Side effect to write instance states to
+     */
+    target: StateSideEffect
+}
+
+export interface StateMigrationOptions {
+
+    /**
+     * Instances to migrate. Default: all instances in source backend.
+     */
+    instanceNames?: string[]
+
+    /**
+     * Overwrite instances already existing in target backend. Default: false, existing instances are skipped.
+     */
+    overwrite?: boolean
+}
+
+export interface InstanceMigrationResult {
+    instanceName: string
+    status: StateMigrationStatus
+    message?: string
+
+    /**
+     * Name of Pulumi stacks and Cloud resources of migrated instance. Only set if instance was renamed, instance name is used otherwise.
+     */
+    resourceName?: string
+}
+
+/**
+ * Copy instance states from a state backend to another. Each copied state is read back from target
+ * and verified against source state. Source states are left untouched.
+ *
+ * A failure on an instance doesn't prevent other instances from being migrated.
+ */
+export class StateMigrator {
+
+    private readonly logger = getLogger(StateMigrator.name)
+    private readonly args: StateMigratorArgs
+
+    constructor(args: StateMigratorArgs) {
+        this.args = args
+    }
+
+    async migrate(opts?: StateMigrationOptions): Promise<InstanceMigrationResult[]> {
+        const instanceNames = opts?.instanceNames ?? await this.args.source.listInstances()
+
+        this.logger.debug(`Migrating instances ${JSON.stringify(instanceNames)} from ${this.args.source.name} to ${this.args.target.name} state backend`)
+
+        const results: InstanceMigrationResult[] = []
+        for(const instanceName of instanceNames){
+            try {
+                results.push(await this.migrateInstance(instanceName, opts?.overwrite ?? false))
+            } catch (error) {
+                this.logger.error(`Failed to migrate instance ${instanceName}`, error)
+                results.push({
+                    instanceName: instanceName,
+                    status: STATE_MIGRATION_STATUS_FAILED,
+                    message: error instanceof Error ? error.message : String(error)
+                })
+            }
+        }
+        return results
+    }
+
+    private async migrateInstance(instanceName: string, overwrite: boolean): Promise<InstanceMigrationResult> {
+        const { source, target } = this.args
+
+        if(!(await source.instanceExists(instanceName))){
+            throw new Error(`Instance ${instanceName} not found in ${source.name} state backend`)
+        }
+
+        const existsInTarget = await target.instanceExists(instanceName)
+        if(existsInTarget && !overwrite){
+            return {
+                instanceName: instanceName,
+                status: STATE_MIGRATION_STATUS_SKIPPED,
+                message: `Instance already exists in ${target.name} state backend`
+            }
+        }
+
+        // Lock source instance so it's not modified while being copied
+        const lock = await source.acquireLock(instanceName, DEFAULT_LOCK_TTL_SECONDS)
+        let resourceName: string | undefined
+        try {
+            const parser = new AnonymousStateParser()
+            const state = parser.parse(await source.loadRawInstanceState(instanceName))
+            resourceName = state.resourceName
+
+            if(existsInTarget){
+                // Load existing target state so that it's replaced as-is
+                await target.loadRawInstanceState(instanceName)
+            }
+
+            await target.persistState(state, `migrate from ${source.name} state backend`)
+
+            const copiedState = parser.parse(await target.loadRawInstanceState(instanceName))
+            if(!lodash.isEqual(copiedState, state)){
+                throw new Error(`Instance ${instanceName} state copied to ${target.name} state backend differs from source state`)
+            }
+
+            // Only copy event journal if target has none to avoid duplicated events
+            const sourceJournal = await source.loadEventJournal(instanceName)
+            const targetJournal = await target.loadEventJournal(instanceName)
+            if(sourceJournal && !targetJournal){
+                for(const event of sourceJournal){
+                    await target.appendEventJournal(instanceName, event)
+                }
+            }
+        } finally {
+            await source.releaseLock(lock)
+        }
+
+        this.logger.debug(`Migrated instance ${instanceName} from ${source.name} to ${target.name} state backend`)
+
+        return {
+            instanceName: instanceName,
+            status: STATE_MIGRATION_STATUS_MIGRATED,
+            ...(resourceName ? { resourceName: resourceName } : {})
+        }
+    }
+}
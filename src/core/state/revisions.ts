@@ -0,0 +1,20 @@
+import { z } from "zod"
+
+/**
+ * Number of state revisions kept per instance. Oldest revisions are removed when a new revision is added.
+ */
+export const STATE_MAX_REVISIONS = 20
+
+export const StateRevisionMetadataSchema = z.object({
+    revision: z.number().describe("Revision number, incremented on each state write"),
+    timestamp: z.number().describe("Revision date (Unix timestamp in milliseconds)"),
+    cloudypadVersion: z.string().describe("Cloudy Pad version which wrote this revision"),
+    action: z.string().describe("Action which produced this revision, eg. 'deploy: set-provision-output'"),
+})
+
+export const StateRevisionSchema = StateRevisionMetadataSchema.extend({
+    state: z.unknown().describe("Instance state as persisted for this revision"),
+})
+
+export type StateRevisionMetadata = z.infer<typeof StateRevisionMetadataSchema>
+export type StateRevision = z.infer<typeof StateRevisionSchema>
@@ -1,6 +1,9 @@
-import { InstanceStateV1 } from "../state"
+import { InstanceEvent, InstanceEventSchema, InstanceStateV1 } from "../state"
 import { getLogger, Logger } from "../../../log/utils"
 import { AnonymousStateParser } from "../parser"
+import { InstanceLockInfo, newInstanceLockInfo } from "../lock"
+import { STATE_MAX_REVISIONS, StateRevision, StateRevisionMetadata, StateRevisionMetadataSchema } from "../revisions"
+import { CLOUDYPAD_VERSION } from "../../const"
 
 /**
  * Manages side effects for States (reading, writing, listing, etc.)
@@ -15,9 +18,37 @@ export abstract class StateSideEffect {
         this.logger = getLogger(`StateSideEffect-${name}`)
     }
         
-    public async persistState<ST extends InstanceStateV1>(state: ST): Promise<void> {
+    /**
+     * Persist state and keep it as a new state revision. Only the most recent STATE_MAX_REVISIONS revisions are kept.
+     * 
+     * @param state state to persist
+     * @param action action producing this state, kept with state revision
+     */
+    public async persistState<ST extends InstanceStateV1>(state: ST, action: string = "unknown"): Promise<void> {
         const safeState = this.checkStateBeforePersist(state)
         await this.doPersistState(safeState)
+        await this.addStateRevision(safeState, action)
+    }
+
+    private async addStateRevision<ST extends InstanceStateV1>(state: ST, action: string): Promise<void> {
+        const existingRevisions = await this.listStateRevisionNumbers(state.name)
+        const revisionNumber = existingRevisions.length > 0 ? Math.max(...existingRevisions) + 1 : 1
+
+        await this.writeStateRevision(state.name, {
+            revision: revisionNumber,
+            timestamp: Date.now(),
+            cloudypadVersion: CLOUDYPAD_VERSION,
+            action: action,
+            state: state,
+        })
+
+        const outdatedRevisions = [ ...existingRevisions, revisionNumber ]
+            .sort((a, b) => a - b)
+            .slice(0, -STATE_MAX_REVISIONS)
+
+        for(const outdatedRevision of outdatedRevisions){
+            await this.deleteStateRevision(state.name, outdatedRevision)
+        }
     }
 
     /**
@@ -56,4 +87,124 @@ export abstract class StateSideEffect {
      * Destroy an instance state. This will effectively remove any state data from backend.
      */
     abstract destroyState(instanceName: string): Promise<void>
-}
\ No newline at end of file
+
+    /**
+     * List revision numbers of instance state. Returns an empty list if instance has no revision.
+     */
+    protected abstract listStateRevisionNumbers(instanceName: string): Promise<number[]>
+
+    /**
+     * Write a state revision
+     */
+    protected abstract writeStateRevision(instanceName: string, revision: StateRevision): Promise<void>
+
+    /**
+     * Delete a state revision
+     */
+    protected abstract deleteStateRevision(instanceName: string, revision: number): Promise<void>
+
+    /**
+     * Load a state revision. Throws if revision does not exist. Revision state is NOT parsed or validated.
+     */
+    abstract loadStateRevision(instanceName: string, revision: number): Promise<StateRevision>
+
+    /**
+     * List instance state revisions without their state, oldest first.
+     */
+    async listStateRevisions(instanceName: string): Promise<StateRevisionMetadata[]> {
+        const revisionNumbers = (await this.listStateRevisionNumbers(instanceName)).sort((a, b) => a - b)
+
+        const revisions: StateRevisionMetadata[] = []
+        for(const revisionNumber of revisionNumbers){
+            // parsing with metadata schema strips revision state
+            const revision = await this.loadStateRevision(instanceName, revisionNumber)
+            revisions.push(StateRevisionMetadataSchema.parse(revision))
+        }
+        return revisions
+    }
+
+    /**
+     * Append an event to instance event journal. Journal is kept alongside instance state
+     * and holds full event history whereas state only keeps most recent events.
+     */
+    abstract appendEventJournal(instanceName: string, event: InstanceEvent): Promise<void>
+
+    /**
+     * Load raw instance event journal content. Returns undefined if instance has no journal.
+     */
+    protected abstract loadRawEventJournal(instanceName: string): Promise<string | undefined>
+
+    /**
+     * Load all events from instance event journal, oldest first.
+     * Returns undefined if instance has no journal (eg. instance created before journal existed).
+     * Malformed journal entries are ignored.
+     */
+    async loadEventJournal(instanceName: string): Promise<InstanceEvent[] | undefined> {
+        const rawJournal = await this.loadRawEventJournal(instanceName)
+        if(rawJournal === undefined){
+            return undefined
+        }
+
+        const events: InstanceEvent[] = []
+        for(const line of rawJournal.split("\n")){
+            if(line.trim().length === 0){
+                continue
+            }
+
+            try {
+                events.push(InstanceEventSchema.parse(JSON.parse(line)))
+            } catch (error) {
+                this.logger.warn(`Ignoring malformed event journal entry for instance ${instanceName}: ${line}`, error)
+            }
+        }
+        return events
+    }
+
+    /**
+     * Format an event as a journal entry (a single JSON line)
+     */
+    protected toEventJournalEntry(event: InstanceEvent): string {
+        return JSON.stringify(event) + "\n"
+    }
+
+    /**
+     * Acquire lock on instance for given duration. Throws InstanceLockedError if instance
+     * is already locked by someone else and lock is not expired.
+     * 
+     * Default implementation does not lock anything: backends supporting locks must override lock methods.
+     */
+    async acquireLock(instanceName: string, ttlSeconds: number): Promise<InstanceLockInfo> {
+        this.logger.trace(`State backend ${this.name} does not support locking, instance ${instanceName} won't be locked`)
+        return newInstanceLockInfo(instanceName, ttlSeconds)
+    }
+
+    /**
+     * Extend lock expiration. Throws if lock is not held by given lock holder anymore.
+     */
+    async renewLock(lock: InstanceLockInfo, ttlSeconds: number): Promise<InstanceLockInfo> {
+        return { ...lock, expiresAt: Date.now() + ttlSeconds * 1000 }
+    }
+
+    /**
+     * Release lock. Does nothing if lock is not held by given lock holder anymore.
+     */
+    async releaseLock(lock: InstanceLockInfo): Promise<void> {
+        this.logger.trace(`Releasing lock ${lock.lockId} on instance ${lock.instanceName}: nothing to do`)
+    }
+
+    /**
+     * Get current lock on instance, if any. Expired locks are returned as well.
+     */
+    async getLock(instanceName: string): Promise<InstanceLockInfo | undefined> {
+        this.logger.trace(`State backend ${this.name} does not support locking, instance ${instanceName} is never locked`)
+        return undefined
+    }
+
+    /**
+     * Remove instance lock whoever holds it. Returns removed lock, if any.
+     */
+    async forceUnlock(instanceName: string): Promise<InstanceLockInfo | undefined> {
+        this.logger.trace(`State backend ${this.name} does not support locking, instance ${instanceName} is never locked`)
+        return undefined
+    }
+}
@@ -2,7 +2,10 @@ import path from "path";
 import * as fs from 'fs'
 import * as yaml from 'yaml'
 import { StateSideEffect } from "./abstract";
-import { InstanceStateV1 } from "../state";
+import { InstanceEvent, InstanceStateV1 } from "../state";
+import * as os from 'os'
+import { InstanceLockedError, InstanceLockInfo, InstanceLockInfoSchema, isLockExpired, newInstanceLockInfo } from "../lock";
+import { StateRevision, StateRevisionSchema } from "../revisions";
 
 export interface LocalStateSideEffectArgs {
 
@@ -15,6 +18,17 @@ export const LOCAL_STATE_SIDE_EFFECT_NAME = "local"
  * 
  * State are stored in Cloudy Pad data root directory (also called Cloudy Pad home):
  * ${dataRootDir}/instances/<instance_name>/state.yaml
+ * 
+ * Event journal is stored alongside state as JSON lines:
+ * ${dataRootDir}/instances/<instance_name>/events.jsonl
+ * 
+ * State revisions are stored alongside state, one file per revision:
+ * ${dataRootDir}/instances/<instance_name>/revisions/<revision>.yml
+ * 
+ * Instance lock is stored alongside state as JSON:
+ * ${dataRootDir}/instances/<instance_name>/lock.json
+ * Lock file is created exclusively so only a single process can hold it. A lock is stale (and can be taken over)
+ * if it expired or if it was created on this host by a process which is not running anymore.
  */
 export class LocalStateSideEffect extends StateSideEffect {
 
@@ -41,6 +55,22 @@ export class LocalStateSideEffect extends StateSideEffect {
         return path.join(this.getInstanceDir(instanceName), "state.yml")
     }
 
+    protected getInstanceEventJournalPath(instanceName: string): string {
+        return path.join(this.getInstanceDir(instanceName), "events.jsonl")
+    }
+
+    protected getInstanceRevisionsDir(instanceName: string): string {
+        return path.join(this.getInstanceDir(instanceName), "revisions")
+    }
+
+    protected getInstanceRevisionPath(instanceName: string, revision: number): string {
+        return path.join(this.getInstanceRevisionsDir(instanceName), `${revision}.yml`)
+    }
+
+    protected getInstanceLockPath(instanceName: string): string {
+        return path.join(this.getInstanceDir(instanceName), "lock.json")
+    }
+
     /**
      * Persist state on disk
      * 
@@ -151,4 +181,193 @@ export class LocalStateSideEffect extends StateSideEffect {
         await this.removeInstanceDir(instanceName)
     }
 
-}
\ No newline at end of file
+    async appendEventJournal(instanceName: string, event: InstanceEvent): Promise<void> {
+        await this.ensureInstanceDirExists(instanceName)
+        fs.appendFileSync(this.getInstanceEventJournalPath(instanceName), this.toEventJournalEntry(event), 'utf-8')
+    }
+
+    protected async loadRawEventJournal(instanceName: string): Promise<string | undefined> {
+        const journalPath = this.getInstanceEventJournalPath(instanceName)
+        if(!fs.existsSync(journalPath)){
+            return undefined
+        }
+        return fs.readFileSync(journalPath, 'utf-8')
+    }
+
+    protected async listStateRevisionNumbers(instanceName: string): Promise<number[]> {
+        const revisionsDir = this.getInstanceRevisionsDir(instanceName)
+        if(!fs.existsSync(revisionsDir)){
+            return []
+        }
+
+        return fs.readdirSync(revisionsDir)
+            .map(fileName => fileName.match(/^(\d+)\.yml$/))
+            .filter(match => match !== null)
+            .map(match => Number.parseInt(match[1]))
+    }
+
+    protected async writeStateRevision(instanceName: string, revision: StateRevision): Promise<void> {
+        fs.mkdirSync(this.getInstanceRevisionsDir(instanceName), { recursive: true })
+        fs.writeFileSync(this.getInstanceRevisionPath(instanceName, revision.revision), yaml.stringify(revision), 'utf-8')
+    }
+
+    protected async deleteStateRevision(instanceName: string, revision: number): Promise<void> {
+        fs.rmSync(this.getInstanceRevisionPath(instanceName, revision), { force: true })
+    }
+
+    async loadStateRevision(instanceName: string, revision: number): Promise<StateRevision> {
+        const revisionPath = this.getInstanceRevisionPath(instanceName, revision)
+        if(!fs.existsSync(revisionPath)){
+            throw new Error(`Revision ${revision} of instance '${instanceName}' not found at '${revisionPath}'`)
+        }
+        return StateRevisionSchema.parse(yaml.parse(fs.readFileSync(revisionPath, 'utf-8')))
+    }
+
+    async acquireLock(instanceName: string, ttlSeconds: number): Promise<InstanceLockInfo> {
+        const lock = newInstanceLockInfo(instanceName, ttlSeconds)
+        const lockPath = this.getInstanceLockPath(instanceName)
+
+        this.logger.debug(`Acquiring lock on instance ${instanceName} at ${lockPath}: ${JSON.stringify(lock)}`)
+
+        await this.ensureInstanceDirExists(instanceName)
+
+        // Create lock file only if it does not exist yet
+        if(this.createLockFile(lockPath, lock)){
+            return lock
+        }
+
+        const current = this.readLockFile(lockPath)
+        if(!current){
+            // Lock released in between, retry from scratch
+            return this.acquireLock(instanceName, ttlSeconds)
+        }
+
+        if(!this.isLockStale(current)){
+            throw new InstanceLockedError(current)
+        }
+
+        this.logger.warn(`Taking over stale lock on instance ${instanceName}: ${JSON.stringify(current)}`)
+
+        // Only remove stale lock if nobody took it over in between
+        if(this.readLockFile(lockPath)?.lockId === current.lockId){
+            fs.rmSync(lockPath, { force: true })
+        }
+
+        if(this.createLockFile(lockPath, lock)){
+            return lock
+        }
+
+        throw new InstanceLockedError(this.readLockFile(lockPath) ?? current)
+    }
+
+    async renewLock(lock: InstanceLockInfo, ttlSeconds: number): Promise<InstanceLockInfo> {
+        const lockPath = this.getInstanceLockPath(lock.instanceName)
+        const current = this.readLockFile(lockPath)
+        if(!current || current.lockId !== lock.lockId){
+            throw new Error(`Can't renew lock on instance ${lock.instanceName}: lock ${lock.lockId} is not held anymore.`)
+        }
+
+        const renewed = { ...lock, expiresAt: Date.now() + ttlSeconds * 1000 }
+
+        // write to temporary file and rename so lock file is never seen partially written
+        const tmpLockPath = `${lockPath}.${lock.lockId}.tmp`
+        fs.writeFileSync(tmpLockPath, JSON.stringify(renewed), 'utf-8')
+        fs.renameSync(tmpLockPath, lockPath)
+
+        return renewed
+    }
+
+    async releaseLock(lock: InstanceLockInfo): Promise<void> {
+        const lockPath = this.getInstanceLockPath(lock.instanceName)
+        const current = this.readLockFile(lockPath)
+        if(!current){
+            // Lock file may have been removed along with instance directory on destroy
+            this.logger.debug(`No lock found on instance ${lock.instanceName}, nothing to release`)
+            return
+        }
+
+        if(current.lockId !== lock.lockId){
+            this.logger.warn(`Lock ${lock.lockId} on instance ${lock.instanceName} is not held anymore, not releasing it.`)
+            return
+        }
+
+        this.logger.debug(`Releasing lock ${lock.lockId} on instance ${lock.instanceName}`)
+        fs.rmSync(lockPath, { force: true })
+    }
+
+    async getLock(instanceName: string): Promise<InstanceLockInfo | undefined> {
+        return this.readLockFile(this.getInstanceLockPath(instanceName))
+    }
+
+    async forceUnlock(instanceName: string): Promise<InstanceLockInfo | undefined> {
+        const lockPath = this.getInstanceLockPath(instanceName)
+        const current = this.readLockFile(lockPath)
+
+        this.logger.debug(`Force unlocking instance ${instanceName}, current lock: ${JSON.stringify(current)}`)
+
+        fs.rmSync(lockPath, { force: true })
+        return current
+    }
+
+    /**
+     * Create lock file exclusively. Returns false if lock file already exists.
+     * Lock is written to a temporary file first and then hard-linked to lock path:
+     * linking is atomic and fails if lock file exists, lock file is never seen partially written.
+     */
+    private createLockFile(lockPath: string, lock: InstanceLockInfo): boolean {
+        const tmpLockPath = `${lockPath}.${lock.lockId}.tmp`
+        try {
+            fs.writeFileSync(tmpLockPath, JSON.stringify(lock), 'utf-8')
+            fs.linkSync(tmpLockPath, lockPath)
+            return true
+        } catch (error) {
+            if((error as NodeJS.ErrnoException).code === 'EEXIST'){
+                return false
+            }
+            throw new Error(`Failed to create lock file ${lockPath}`, { cause: error })
+        } finally {
+            fs.rmSync(tmpLockPath, { force: true })
+        }
+    }
+
+    private readLockFile(lockPath: string): InstanceLockInfo | undefined {
+        let rawLock: string
+        try {
+            rawLock = fs.readFileSync(lockPath, 'utf-8')
+        } catch (error) {
+            if((error as NodeJS.ErrnoException).code === 'ENOENT'){
+                return undefined
+            }
+            throw new Error(`Failed to read lock file ${lockPath}`, { cause: error })
+        }
+
+        try {
+            return InstanceLockInfoSchema.parse(JSON.parse(rawLock))
+        } catch (error) {
+            throw new Error(`Failed to read lock file ${lockPath}. Remove it if no other Cloudy Pad process is running on this instance.`, { cause: error })
+        }
+    }
+
+    /**
+     * A lock is stale if expired or if it was created by a process of this host not running anymore.
+     * Locks from other hosts (eg. data root dir on a network share) are only stale once expired.
+     */
+    private isLockStale(lock: InstanceLockInfo): boolean {
+        if(isLockExpired(lock)){
+            return true
+        }
+
+        return lock.host === os.hostname() && !isProcessRunning(lock.pid)
+    }
+}
+
+function isProcessRunning(pid: number): boolean {
+    try {
+        // signal 0 only checks process existence
+        process.kill(pid, 0)
+        return true
+    } catch (error) {
+        // EPERM: process exists but belongs to another user
+        return (error as NodeJS.ErrnoException).code === 'EPERM'
+    }
+}
@@ -1,8 +1,10 @@
 import * as yaml from 'yaml'
 import { S3ClientConfig } from '@aws-sdk/client-s3'
 import { StateSideEffect } from './abstract'
-import { InstanceStateV1 } from '../state'
-import { S3ClientWrapper } from '../../../tools/s3'
+import { InstanceEvent, InstanceStateV1 } from '../state'
+import { S3ClientWrapper, S3PreconditionFailedError } from '../../../tools/s3'
+import { StateRevision, StateRevisionSchema } from '../revisions'
+import { InstanceLockedError, InstanceLockInfo, InstanceLockInfoSchema, isLockExpired, newInstanceLockInfo, StateConcurrentModificationError } from '../lock'
 
 export interface S3StateSideEffectArgs {
     bucketName: string
@@ -11,15 +13,39 @@ export interface S3StateSideEffectArgs {
 
 export const S3_STATE_SIDE_EFFECT_NAME = "s3"
 
+/**
+ * Maximum attempts to append an event to a journal being modified concurrently
+ */
+const EVENT_JOURNAL_APPEND_MAX_ATTEMPTS = 5
+
 /**
  * S3 backed state side effect. States are saved at bucket under
  * instances/<instance-name>/state.yml
+ * 
+ * Event journal is saved alongside state as JSON lines under
+ * instances/<instance-name>/events.jsonl. Journal is written conditionally (If-Match on its ETag)
+ * so that concurrent appends don't lose events.
+ * 
+ * State revisions are saved alongside state, one object per revision under
+ * instances/<instance-name>/revisions/<revision>.yml
+ * 
+ * Instance lock is saved as JSON under instances/<instance-name>/lock.json. Lock is created
+ * with a conditional put (If-None-Match) so only a single client can hold it at a time.
+ * 
+ * State writes are optimistic: the ETag of state last loaded or written is passed as If-Match
+ * condition when writing state, writing fails with StateConcurrentModificationError
+ * if state has been modified by someone else in between.
  */
 export class S3StateSideEffect extends StateSideEffect {
     
     private s3: S3ClientWrapper
     private args: S3StateSideEffectArgs
 
+    /**
+     * ETag of instance states as last loaded or written by this side effect
+     */
+    private stateETags = new Map<string, string>()
+
     constructor(args: S3StateSideEffectArgs) {
         super(S3_STATE_SIDE_EFFECT_NAME)
         this.s3 = new S3ClientWrapper(args.s3ClientConfig)
@@ -30,16 +56,46 @@ export class S3StateSideEffect extends StateSideEffect {
         return `instances/${instanceName}/state.yml`
     }
 
+    private getInstanceEventJournalKey(instanceName: string): string {
+        return `instances/${instanceName}/events.jsonl`
+    }
+
+    private getInstanceRevisionsPrefix(instanceName: string): string {
+        return `instances/${instanceName}/revisions/`
+    }
+
+    private getInstanceRevisionKey(instanceName: string, revision: number): string {
+        return `${this.getInstanceRevisionsPrefix(instanceName)}${revision}.yml`
+    }
+
+    private getInstanceLockKey(instanceName: string): string {
+        return `instances/${instanceName}/lock.json`
+    }
+
     protected async doPersistState<ST extends InstanceStateV1>(state: ST): Promise<void> {
 
         this.logger.debug(`Persisting ${state.name} to S3 bucket ${this.args.bucketName}`)
         
+        // Only overwrite state version we know about
+        // If state was never loaded, state is written as-is
+        const expectedETag = this.stateETags.get(state.name)
+
         const params = {
             Bucket: this.args.bucketName,
             Key: this.getInstanceStateKey(state.name),
             Body: yaml.stringify(state),
+            IfMatch: expectedETag,
+        }
+
+        try {
+            const result = await this.s3.putObject(params)
+            this.setStateETag(state.name, result.ETag)
+        } catch (error) {
+            if(error instanceof S3PreconditionFailedError) {
+                throw new StateConcurrentModificationError(state.name, { cause: error })
+            }
+            throw error
         }
-        await this.s3.putObject(params)
 
         this.logger.debug(`Persisted ${state.name} to S3 bucket ${this.args.bucketName}`)
     }
@@ -78,6 +134,7 @@ export class S3StateSideEffect extends StateSideEffect {
             throw new Error(`No body found for ${instanceName}`)
         }
         const bodyContents = await data.Body.transformToString("utf-8")
+        this.setStateETag(instanceName, data.ETag)
         return yaml.parse(bodyContents)
     }
 
@@ -88,9 +145,223 @@ export class S3StateSideEffect extends StateSideEffect {
             Key: this.getInstanceStateKey(instanceName)
         }
         await this.s3.deleteObject(params)
+        await this.s3.deleteObject({
+            Bucket: this.args.bucketName,
+            Key: this.getInstanceEventJournalKey(instanceName)
+        })
+        for(const revision of await this.listStateRevisionNumbers(instanceName)) {
+            await this.deleteStateRevision(instanceName, revision)
+        }
+        this.stateETags.delete(instanceName)
         this.logger.debug(`S3 State destroyed for ${instanceName}`)
     }
 
+    /**
+     * Append event to journal. S3 objects can't be appended to,
+     * journal is read and written back entirely with new event.
+     * 
+     * Journal is written only if unchanged since read (or only if it still does not exist),
+     * append is retried with latest journal otherwise.
+     */
+    public async appendEventJournal(instanceName: string, event: InstanceEvent): Promise<void> {
+        const params = {
+            Bucket: this.args.bucketName,
+            Key: this.getInstanceEventJournalKey(instanceName)
+        }
+
+        for(let attempt = 1; ; attempt++){
+            const current = await this.s3.getObjectIfExists(params)
+            const currentJournal = current?.Body ? await current.Body.transformToString("utf-8") : ""
+
+            try {
+                await this.s3.putObject({
+                    ...params,
+                    Body: currentJournal + this.toEventJournalEntry(event),
+                    ...(current ? { IfMatch: current.ETag } : { IfNoneMatch: "*" }),
+                })
+                return
+            } catch (error) {
+                if(!(error instanceof S3PreconditionFailedError)) {
+                    throw error
+                }
+                if(attempt >= EVENT_JOURNAL_APPEND_MAX_ATTEMPTS) {
+                    throw new Error(`Failed to append event to journal of instance ${instanceName}: ` +
+                        `journal modified concurrently on each of ${attempt} attempts`, { cause: error })
+                }
+                this.logger.debug(`Event journal of instance ${instanceName} modified concurrently, retrying append (attempt ${attempt})`)
+            }
+        }
+    }
+
+    protected async loadRawEventJournal(instanceName: string): Promise<string | undefined> {
+        const params = {
+            Bucket: this.args.bucketName,
+            Key: this.getInstanceEventJournalKey(instanceName)
+        }
+
+        const exists = await this.s3.exists(params)
+        if(!exists){
+            return undefined
+        }
+
+        const data = await this.s3.getObject(params)
+        return data.Body ? await data.Body.transformToString("utf-8") : ""
+    }
+
+    protected async listStateRevisionNumbers(instanceName: string): Promise<number[]> {
+        const prefix = this.getInstanceRevisionsPrefix(instanceName)
+        const result = await this.s3.listObjectsV2({ Bucket: this.args.bucketName, Prefix: prefix })
+
+        return (result.Contents ?? [])
+            .map(object => object.Key?.substring(prefix.length).match(/^(\d+)\.yml$/))
+            .filter(match => match !== null && match !== undefined)
+            .map(match => Number.parseInt(match[1]))
+    }
+
+    protected async writeStateRevision(instanceName: string, revision: StateRevision): Promise<void> {
+        await this.s3.putObject({
+            Bucket: this.args.bucketName,
+            Key: this.getInstanceRevisionKey(instanceName, revision.revision),
+            Body: yaml.stringify(revision),
+        })
+    }
+
+    protected async deleteStateRevision(instanceName: string, revision: number): Promise<void> {
+        await this.s3.deleteObject({
+            Bucket: this.args.bucketName,
+            Key: this.getInstanceRevisionKey(instanceName, revision)
+        })
+    }
+
+    public async loadStateRevision(instanceName: string, revision: number): Promise<StateRevision> {
+        const data = await this.s3.getObjectIfExists({
+            Bucket: this.args.bucketName,
+            Key: this.getInstanceRevisionKey(instanceName, revision)
+        })
+
+        if(!data?.Body) {
+            throw new Error(`Revision ${revision} of instance ${instanceName} not found in S3 bucket ${this.args.bucketName}`)
+        }
+
+        const bodyContents = await data.Body.transformToString("utf-8")
+        return StateRevisionSchema.parse(yaml.parse(bodyContents))
+    }
+
+    private setStateETag(instanceName: string, etag?: string) {
+        if(etag) {
+            this.stateETags.set(instanceName, etag)
+        } else {
+            this.stateETags.delete(instanceName)
+        }
+    }
+
+    public async acquireLock(instanceName: string, ttlSeconds: number): Promise<InstanceLockInfo> {
+        const lock = newInstanceLockInfo(instanceName, ttlSeconds)
+
+        this.logger.debug(`Acquiring lock on instance ${instanceName} in S3 bucket ${this.args.bucketName}: ${JSON.stringify(lock)}`)
+
+        // Create lock only if it does not exist yet
+        try {
+            await this.putLock(lock, { IfNoneMatch: "*" })
+            return lock
+        } catch (error) {
+            if(!(error instanceof S3PreconditionFailedError)) {
+                throw error
+            }
+        }
+
+        // Lock exists: take it over if it's expired, only if it wasn't modified in between
+        const current = await this.getLockWithETag(instanceName)
+        if(!current) {
+            // Lock released in between, retry from scratch
+            return this.acquireLock(instanceName, ttlSeconds)
+        }
+
+        if(!isLockExpired(current.lock)) {
+            throw new InstanceLockedError(current.lock)
+        }
+
+        this.logger.warn(`Taking over expired lock on instance ${instanceName}: ${JSON.stringify(current.lock)}`)
+
+        try {
+            await this.putLock(lock, { IfMatch: current.etag })
+            return lock
+        } catch (error) {
+            if(error instanceof S3PreconditionFailedError) {
+                const newCurrent = await this.getLock(instanceName)
+                throw new InstanceLockedError(newCurrent ?? current.lock)
+            }
+            throw error
+        }
+    }
+
+    public async renewLock(lock: InstanceLockInfo, ttlSeconds: number): Promise<InstanceLockInfo> {
+        const current = await this.getLockWithETag(lock.instanceName)
+        if(!current || current.lock.lockId !== lock.lockId) {
+            throw new Error(`Can't renew lock on instance ${lock.instanceName}: lock ${lock.lockId} is not held anymore.`)
+        }
+
+        const renewed = { ...lock, expiresAt: Date.now() + ttlSeconds * 1000 }
+        await this.putLock(renewed, { IfMatch: current.etag })
+        return renewed
+    }
+
+    public async releaseLock(lock: InstanceLockInfo): Promise<void> {
+        const current = await this.getLock(lock.instanceName)
+        if(!current || current.lockId !== lock.lockId) {
+            this.logger.warn(`Lock ${lock.lockId} on instance ${lock.instanceName} is not held anymore, not releasing it.`)
+            return
+        }
+
+        this.logger.debug(`Releasing lock ${lock.lockId} on instance ${lock.instanceName}`)
+
+        await this.s3.deleteObject({
+            Bucket: this.args.bucketName,
+            Key: this.getInstanceLockKey(lock.instanceName)
+        })
+    }
+
+    public async getLock(instanceName: string): Promise<InstanceLockInfo | undefined> {
+        const current = await this.getLockWithETag(instanceName)
+        return current?.lock
+    }
+
+    public async forceUnlock(instanceName: string): Promise<InstanceLockInfo | undefined> {
+        const current = await this.getLock(instanceName)
+
+        this.logger.debug(`Force unlocking instance ${instanceName}, current lock: ${JSON.stringify(current)}`)
+
+        await this.s3.deleteObject({
+            Bucket: this.args.bucketName,
+            Key: this.getInstanceLockKey(instanceName)
+        })
+        return current
+    }
+
+    private async putLock(lock: InstanceLockInfo, conditions: { IfMatch?: string, IfNoneMatch?: string }) {
+        await this.s3.putObject({
+            Bucket: this.args.bucketName,
+            Key: this.getInstanceLockKey(lock.instanceName),
+            Body: JSON.stringify(lock),
+            ContentType: "application/json",
+            ...conditions
+        })
+    }
+
+    private async getLockWithETag(instanceName: string): Promise<{ lock: InstanceLockInfo, etag?: string } | undefined> {
+        const data = await this.s3.getObjectIfExists({
+            Bucket: this.args.bucketName,
+            Key: this.getInstanceLockKey(instanceName)
+        })
+
+        if(!data?.Body) {
+            return undefined
+        }
+
+        const rawLock = await data.Body.transformToString("utf-8")
+        return { lock: InstanceLockInfoSchema.parse(JSON.parse(rawLock)), etag: data.ETag }
+    }
+
     public getS3ClientConfig(): S3ClientConfig | undefined {
         return this.args.s3ClientConfig
     }
@@ -3,6 +3,7 @@ import { AwsProviderStateV0 } from '../../providers/aws/state'
 import { AzureProviderStateV0 } from '../../providers/azure/state'
 import { GcpProviderStateV0 } from '../../providers/gcp/state'
 import { z } from "zod"
+import lodash from "lodash"
 import { CLOUDYPAD_CONFIGURATOR_LIST } from "../const"
 
 const CommonProvisionOutputV1Schema = z.object({
@@ -136,6 +137,18 @@ export enum InstanceEventEnum {
     
     DestroyBegin = "destroy-begin",
     DestroyEnd = "destroy-end",
+
+    ProvisionFailed = "provision-failed",
+    ConfigurationFailed = "configuration-failed",
+    StartFailed = "start-failed",
+    StopFailed = "stop-failed",
+    RestartFailed = "restart-failed",
+    DestroyFailed = "destroy-failed",
+
+    BudgetWarning = "budget-warning",
+    BudgetExceeded = "budget-exceeded",
+
+    Renamed = "renamed",
 }
 
 const InstanceEventSchema = z.object({
@@ -153,18 +166,46 @@ const InstanceEventSchema = z.object({
         InstanceEventEnum.DestroyEnd,
         InstanceEventEnum.RestartBegin,
         InstanceEventEnum.RestartEnd,
+        InstanceEventEnum.ProvisionFailed,
+        InstanceEventEnum.ConfigurationFailed,
+        InstanceEventEnum.StartFailed,
+        InstanceEventEnum.StopFailed,
+        InstanceEventEnum.RestartFailed,
+        InstanceEventEnum.DestroyFailed,
+        InstanceEventEnum.BudgetWarning,
+        InstanceEventEnum.BudgetExceeded,
+        InstanceEventEnum.Renamed,
     ]).describe("Event type"),
     timestamp: z.number().describe("Event date (Linux timestamp)"),
+    error: z.string().optional().describe("Error message for failure events"),
+    durationMs: z.number().optional().describe("Duration of related action in milliseconds for end and failure events"),
+    message: z.string().optional().describe("Event details, eg. budget guard decision"),
 })
 
 /**
  * Maximum number of events in instance state. Oldest events are removed when this limit is reached.
+ * Full event history is kept in instance event journal.
  */
 export const STATE_MAX_EVENTS = 10
 
+const InstanceBudgetSchema = z.object({
+    monthlyLimit: z.number().positive().describe("Maximum estimated spend per calendar month (UTC), in instance provider pricing catalog currency"),
+    warnThresholds: z.array(z.number().positive()).optional().describe("Spend thresholds in percent of limit at which a warning is emitted. Default: [ 80 ]"),
+}).describe("Instance budget enforced by budget guard: instance is stopped when estimated monthly spend exceeds limit")
+
+const InstanceScheduleSchema = z.object({
+    start: z.string().optional().describe("Cron expression (minute hour day-of-month month day-of-week) at which instance is started, eg. '0 19 * * *'"),
+    stop: z.string().optional().describe("Cron expression (minute hour day-of-month month day-of-week) at which instance is stopped, eg. '0 1 * * *'"),
+    timezone: z.string().optional().describe("IANA timezone of cron expressions, eg. 'Europe/Paris'. Default: UTC"),
+}).describe("Instance start/stop schedule run by scheduler")
+
+const InstanceLabelsSchema = z.record(z.string(), z.string())
+    .describe("User labels as key/value pairs, eg. { team: 'ops', env: 'lan-party' }. Used to select instances for bulk actions.")
+
 const InstanceStateV1Schema = z.object({
     version: z.literal("1").describe("State schema version, always 1"),
     name: z.string().describe("Unique instance name"),
+    resourceName: z.string().optional().describe("Stable name used for Pulumi stacks and Cloud resources. Set when instance is renamed so that its Cloud resources are kept as-is. Default: instance name"),
     events: z.array(InstanceEventSchema).optional().describe(`List of recent instance events causing a state mutation or infrastructure change (up to ${STATE_MAX_EVENTS} events)`),
     provision: z.object({
         provider: z.string().describe("Provider name"), // Any provider name is supported in schema
@@ -177,6 +218,9 @@ const InstanceStateV1Schema = z.object({
         input: CommonConfigurationInputV1Schema,
     }),
     metadata: StateMetadataSchema.optional(),
+    budget: InstanceBudgetSchema.optional(),
+    schedule: InstanceScheduleSchema.optional(),
+    labels: InstanceLabelsSchema.optional(),
 })
 
 const CostAlertSchema = z.object({
@@ -185,6 +229,10 @@ const CostAlertSchema = z.object({
 }).nullish().describe("Cost alert configuration")
 
 export { InstanceStateV1Schema, 
+    InstanceEventSchema,
+    InstanceBudgetSchema,
+    InstanceScheduleSchema,
+    InstanceLabelsSchema,
     CommonProvisionOutputV1Schema, 
     CommonProvisionInputV1Schema, 
     CostAlertSchema, 
@@ -199,6 +247,20 @@ export { InstanceStateV1Schema,
  */
 export type InstanceStateV1 = z.infer<typeof InstanceStateV1Schema>
 
+/**
+ * Name used for Pulumi stacks and Cloud resources of an instance. It differs from instance name once instance is renamed.
+ */
+export function getInstanceResourceName(state: InstanceStateV1): string {
+    return state.resourceName ?? state.name
+}
+
+/**
+ * Whether given name is a valid instance name. Instance names must be kebab case.
+ */
+export function isValidInstanceName(name: string): boolean {
+    return name.length > 0 && name === lodash.kebabCase(name)
+}
+
 export type CommonProvisionInputV1 = z.infer<typeof CommonProvisionInputV1Schema>
 export type CommonProvisionOutputV1 = z.infer<typeof CommonProvisionOutputV1Schema>
 
@@ -209,6 +271,12 @@ export type StateMetadata = z.infer<typeof StateMetadataSchema>
 
 export type InstanceEvent = z.infer<typeof InstanceEventSchema>
 
+export type InstanceBudget = z.infer<typeof InstanceBudgetSchema>
+
+export type InstanceSchedule = z.infer<typeof InstanceScheduleSchema>
+
+export type InstanceLabels = z.infer<typeof InstanceLabelsSchema>
+
 /**
  * Wrapper around all possible Inputs for an instance
  */
@@ -1,10 +1,12 @@
 import { getLogger } from '../../log/utils'
-import { InstanceEventEnum, InstanceStateV1, STATE_MAX_EVENTS } from './state'
+import { InstanceBudget, InstanceEvent, InstanceEventEnum, InstanceLabels, InstanceSchedule, InstanceStateV1, STATE_MAX_EVENTS } from './state'
 import lodash from 'lodash'
 import { PartialDeep } from 'type-fest'
 import { StateSideEffect } from './side-effects/abstract'
 import { GenericStateParser } from './parser'
 import { CLOUDYPAD_VERSION } from '../const'
+import { DEFAULT_LOCK_TTL_SECONDS, InstanceLockHandle } from './lock'
+import { StateRevisionMetadata } from './revisions'
 
 export interface StateWriterArgs<ST extends InstanceStateV1> {
 
@@ -30,16 +32,43 @@ export class StateWriter<ST extends InstanceStateV1> {
 
     private readonly logger = getLogger(StateWriter.name)
     public readonly args: StateWriterArgs<ST>
+
+    /**
+     * Action currently running, kept with state revisions
+     */
+    private currentAction?: string
     
     constructor(args: StateWriterArgs<ST>) {
         this.args = args
     }
 
+    /**
+     * Run given function, state revisions written meanwhile are attributed to given action (eg. "deploy").
+     * Nested calls keep the outermost action.
+     */
+    async withAction<R>(action: string, fn: () => Promise<R>): Promise<R> {
+        if(this.currentAction !== undefined){
+            return fn()
+        }
+
+        this.currentAction = action
+        try {
+            return await fn()
+        } finally {
+            this.currentAction = undefined
+        }
+    }
+
+    private async persistState(state: ST, operation: string){
+        const action = this.currentAction ? `${this.currentAction}: ${operation}` : operation
+        await this.args.sideEffect.persistState(state, action)
+    }
+
     /**
      * Set the managed State and persist now. Override previous state as-is without any other side effect. 
      */
     async setState(state: ST){
-        await this.args.sideEffect.persistState(state)
+        await this.persistState(state, "set-state")
     }
 
     /**
@@ -53,7 +82,7 @@ export class StateWriter<ST extends InstanceStateV1> {
     async setProvisionInput(instanceName: string, input: ST["provision"]["input"]){
         const newState = await this.getCurrentState(instanceName)
         newState.provision.input = input
-        await this.args.sideEffect.persistState(newState)
+        await this.persistState(newState, "set-provision-input")
     }
 
     async setProvisionOutput(instanceName: string, output?: ST["provision"]["output"]){
@@ -66,13 +95,13 @@ export class StateWriter<ST extends InstanceStateV1> {
             lastProvisionCloudypadVersion: CLOUDYPAD_VERSION
         }
         
-        await this.args.sideEffect.persistState(newState)
+        await this.persistState(newState, "set-provision-output")
     }
 
     async setConfigurationInput(instanceName: string, input: ST["configuration"]["input"]){
         const newState = await this.getCurrentState(instanceName)
         newState.configuration.input = input
-        await this.args.sideEffect.persistState(newState)
+        await this.persistState(newState, "set-configuration-input")
     }
 
     async setConfigurationOutput(instanceName: string, output?: ST["configuration"]["output"]){
@@ -84,27 +113,56 @@ export class StateWriter<ST extends InstanceStateV1> {
             lastConfigurationDate: Date.now(),
             lastConfigurationCloudypadVersion: CLOUDYPAD_VERSION
         }
-        await this.args.sideEffect.persistState(newState)
+        await this.persistState(newState, "set-configuration-output")
     }
 
     async updateProvisionInput(instanceName: string, input: PartialDeep<ST["provision"]["input"]>){
         const newState = await this.getCurrentState(instanceName)
         lodash.merge(newState.provision.input, input)
-        await this.args.sideEffect.persistState(newState)
+        await this.persistState(newState, "update-provision-input")
     }
     
     async updateConfigurationInput(instanceName: string, input: PartialDeep<ST["configuration"]["input"]>){
         const newState = await this.getCurrentState(instanceName)
         lodash.merge(newState.configuration.input, input)
-        await this.args.sideEffect.persistState(newState)
+        await this.persistState(newState, "update-configuration-input")
+    }
+
+    /**
+     * Set instance budget. Budget is removed if undefined.
+     */
+    async setBudget(instanceName: string, budget?: InstanceBudget){
+        const newState = await this.getCurrentState(instanceName)
+        newState.budget = budget
+        await this.persistState(newState, budget ? "set-budget" : "remove-budget")
+    }
+
+    /**
+     * Set instance start/stop schedule. Schedule is removed if undefined.
+     */
+    async setSchedule(instanceName: string, schedule?: InstanceSchedule){
+        const newState = await this.getCurrentState(instanceName)
+        newState.schedule = schedule
+        await this.persistState(newState, schedule ? "set-schedule" : "remove-schedule")
+    }
+
+    /**
+     * Set instance labels. Labels are removed if undefined or empty.
+     */
+    async setLabels(instanceName: string, labels?: InstanceLabels){
+        const newState = await this.getCurrentState(instanceName)
+        newState.labels = labels && Object.keys(labels).length > 0 ? labels : undefined
+        await this.persistState(newState, "set-labels")
     }
 
     /**
-     * Add an event to the state with optional date.
+     * Add an event to the state with optional date. Event is also appended to instance event journal
+     * which keeps full event history.
      * @param event Event to add
      * @param atDate Date of event, defaults to current date
+     * @param details Optional event details such as error message, action duration or decision message
      */
-    async addEvent(instanceName: string, event: InstanceEventEnum, atDate?: Date){
+    async addEvent(instanceName: string, event: InstanceEventEnum, atDate?: Date, details?: { error?: string, durationMs?: number, message?: string }){
         const newState = await this.getCurrentState(instanceName)
         if(!newState.events) newState.events = []
 
@@ -115,11 +173,73 @@ export class StateWriter<ST extends InstanceStateV1> {
             newState.events.shift()
         }
 
-        newState.events.push({
+        const newEvent: InstanceEvent = {
             type: event,
-            timestamp: atDate ? atDate.getTime() : Date.now()
-        })
-        await this.args.sideEffect.persistState(newState)
+            timestamp: atDate ? atDate.getTime() : Date.now(),
+            ...details,
+        }
+
+        newState.events.push(newEvent)
+        await this.persistState(newState, `add-event ${event}`)
+        await this.args.sideEffect.appendEventJournal(instanceName, newEvent)
+    }
+
+    /**
+     * Get full event history from instance event journal, oldest first.
+     * Falls back to events in state if instance has no journal.
+     */
+    async getEventJournal(instanceName: string): Promise<InstanceEvent[]> {
+        const journal = await this.args.sideEffect.loadEventJournal(instanceName)
+        if(journal !== undefined){
+            return journal
+        }
+
+        const state = await this.getCurrentState(instanceName)
+        return (state.events ?? []).sort((a, b) => a.timestamp - b.timestamp)
+    }
+
+    /**
+     * Lock instance until returned lock is released. Lock is renewed in background while held.
+     * Throws InstanceLockedError if instance is already locked.
+     */
+    async lock(instanceName: string, ttlSeconds: number = DEFAULT_LOCK_TTL_SECONDS): Promise<InstanceLockHandle> {
+        const lockInfo = await this.args.sideEffect.acquireLock(instanceName, ttlSeconds)
+        return new InstanceLockHandle(this.args.sideEffect, lockInfo, ttlSeconds)
+    }
+
+    /**
+     * List instance state revisions, oldest first.
+     */
+    async listRevisions(instanceName: string): Promise<StateRevisionMetadata[]> {
+        return this.args.sideEffect.listStateRevisions(instanceName)
+    }
+
+    /**
+     * Restore instance state as it was at given revision. Revision state is validated with
+     * state parser before being restored. Restored state is persisted as a new revision.
+     */
+    async rollbackToRevision(instanceName: string, revision: number): Promise<ST> {
+        const stateRevision = await this.args.sideEffect.loadStateRevision(instanceName, revision)
+
+        let restoredState: ST
+        try {
+            restoredState = this.args.stateParser.parse(stateRevision.state)
+        } catch (error) {
+            throw new Error(`Revision ${revision} of instance ${instanceName} is not a valid state, it can't be restored.`, { cause: error })
+        }
+
+        if(restoredState.name !== instanceName){
+            throw new Error(`Revision ${revision} of instance ${instanceName} holds state of another instance '${restoredState.name}', it can't be restored.`)
+        }
+
+        // Load current state so that restored state replaces latest known state
+        // Current state is not parsed as it may be the broken state we're rolling back from
+        await this.args.sideEffect.loadRawInstanceState(instanceName)
+
+        this.logger.debug(`Restoring state revision ${revision} of instance ${instanceName}`)
+
+        await this.persistState(restoredState, `rollback to revision ${revision}`)
+        return restoredState
     }
 
     async destroyState(instanceName: string){
@@ -1,7 +1,7 @@
 import { CoreConfig } from "./config/interface"
 import { InstanceProvisioner } from "./provisioner"
 import { InstanceRunner } from "./runner"
-import { InstanceStateV1 } from "./state/state"
+import { getInstanceResourceName, InstanceStateV1 } from "./state/state"
 import { InstanceConfigurator } from "./configurator"
 
 /**
@@ -28,7 +28,7 @@ export abstract class AbstractProvisionerFactory<ST extends InstanceStateV1> imp
     }
 
     async buildProvisioner(state: ST): Promise<InstanceProvisioner> {
-        return this.doBuildProvisioner(state.name, state.provision.input, state.provision.output, state.configuration.input)
+        return this.doBuildProvisioner(getInstanceResourceName(state), state.provision.input, state.provision.output, state.configuration.input)
     }
 
     protected abstract doBuildProvisioner(
@@ -52,7 +52,7 @@ export abstract class AbstractRunnerFactory<ST extends InstanceStateV1> implemen
             throw new Error(`Can't build Instance Runner for ${state.name}: no provision output in state. Was instance fully provisioned ?`)
         }
 
-        return this.doBuildRunner(state.name, state.provision.input, state.provision.output, state.configuration.input)
+        return this.doBuildRunner(getInstanceResourceName(state), state.provision.input, state.provision.output, state.configuration.input)
     }
 
     protected abstract doBuildRunner(
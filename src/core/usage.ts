@@ -0,0 +1,259 @@
+import { getLogger } from "../log/utils"
+import { CoreConfig } from "./config/interface"
+import { CostEstimator } from "./cost"
+import { formatPrice } from "./pricing"
+import { ProviderRegistry } from "./provider-registry"
+import { StateManagerBuilder } from "./state/builders"
+import { InstanceEvent, InstanceEventEnum, InstanceStateV1 } from "./state/state"
+
+const MS_PER_HOUR = 60 * 60 * 1000
+
+/**
+ * Events after which instance is considered running. Provision end is only considered for
+ * initial provisioning as re-provisioning a stopped instance does not start it.
+ */
+const RUNNING_EVENT_TYPES: InstanceEventEnum[] = [
+    InstanceEventEnum.StartEnd,
+    InstanceEventEnum.RestartEnd,
+]
+
+/**
+ * Events after which instance is considered not running anymore. Failed stop or destroy
+ * are ignored as instance may still be running.
+ */
+const STOPPED_EVENT_TYPES: InstanceEventEnum[] = [
+    InstanceEventEnum.StopEnd,
+    InstanceEventEnum.DestroyEnd,
+]
+
+export interface RunningInterval {
+
+    /**
+     * Interval start (Unix timestamp in milliseconds)
+     */
+    start: number
+
+    /**
+     * Interval end (Unix timestamp in milliseconds)
+     */
+    end: number
+
+    /**
+     * True if instance was still running at the end of the period
+     */
+    ongoing: boolean
+}
+
+/**
+ * Derive running intervals of an instance from its lifecycle events, clipped to given period.
+ * An instance is running after initial provisioning, start and restart and stopped after stop and destroy.
+ * Instances stopped outside of Cloudy Pad (eg. auto-stop or Cloud provider console) are considered running.
+ */
+export function getRunningIntervals(events: InstanceEvent[], since: number, until: number): RunningInterval[] {
+    const sortedEvents = [ ...events ].sort((a, b) => a.timestamp - b.timestamp)
+    const intervals: RunningInterval[] = []
+
+    const addInterval = (start: number, end: number, ongoing: boolean) => {
+        const clippedStart = Math.max(start, since)
+        const clippedEnd = Math.min(end, until)
+        if(clippedEnd > clippedStart){
+            intervals.push({ start: clippedStart, end: clippedEnd, ongoing: ongoing })
+        }
+    }
+
+    let runningSince: number | undefined = undefined
+    let provisioned = false
+    for(const event of sortedEvents){
+        if(event.timestamp > until){
+            break
+        }
+
+        const isInitialProvision = event.type === InstanceEventEnum.ProvisionEnd && !provisioned
+        if(event.type === InstanceEventEnum.ProvisionEnd){
+            provisioned = true
+        }
+
+        if((RUNNING_EVENT_TYPES.includes(event.type) || isInitialProvision) && runningSince === undefined){
+            runningSince = event.timestamp
+        } else if(STOPPED_EVENT_TYPES.includes(event.type) && runningSince !== undefined){
+            addInterval(runningSince, event.timestamp, false)
+            runningSince = undefined
+        }
+    }
+
+    if(runningSince !== undefined){
+        addInterval(runningSince, until, true)
+    }
+
+    return intervals
+}
+
+/**
+ * Return first day of month of given date at midnight UTC (Unix timestamp in milliseconds)
+ */
+export function getMonthStart(date: Date): number {
+    return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1)
+}
+
+export interface InstanceUsage {
+    instanceName: string
+    provider: string
+    runningHours: number
+    intervals: RunningInterval[]
+
+    /**
+     * Compute cost per running hour from provider pricing catalog. Undefined if price is unknown.
+     */
+    hourlyCost?: number
+
+    /**
+     * Estimated compute cost for running hours. Undefined if price is unknown.
+     */
+    estimatedCost?: number
+    currency?: string
+}
+
+export interface UsageReport {
+
+    /**
+     * Report period (Unix timestamps in milliseconds)
+     */
+    since: number
+    until: number
+
+    instances: InstanceUsage[]
+    failures: { instanceName: string, error: string }[]
+}
+
+export interface UsageReportOptions {
+
+    /**
+     * Report period start (Unix timestamp in milliseconds). Default: first day of current month.
+     */
+    since?: number
+
+    /**
+     * Report period end (Unix timestamp in milliseconds). Default: now.
+     */
+    until?: number
+
+    /**
+     * Only report usage of these instances. Default: all instances.
+     */
+    instanceNames?: string[]
+}
+
+export interface UsageReporterArgs {
+    config: CoreConfig
+    registry?: ProviderRegistry
+}
+
+/**
+ * Report instances running hours and estimated compute cost from their event journal
+ */
+export class UsageReporter {
+
+    private readonly logger = getLogger(UsageReporter.name)
+    private readonly args: UsageReporterArgs
+    private readonly costEstimator: CostEstimator
+
+    constructor(args: UsageReporterArgs) {
+        this.args = args
+        this.costEstimator = new CostEstimator({ config: args.config, registry: args.registry })
+    }
+
+    async report(opts?: UsageReportOptions): Promise<UsageReport> {
+        const until = opts?.until ?? Date.now()
+        const since = opts?.since ?? getMonthStart(new Date(until))
+
+        const loader = new StateManagerBuilder({ stateBackend: this.args.config.stateBackend }).buildStateLoader()
+        const instanceNames = opts?.instanceNames ?? await loader.listInstances()
+
+        const report: UsageReport = { since: since, until: until, instances: [], failures: [] }
+        for(const instanceName of instanceNames){
+            try {
+                const state = await loader.loadInstanceState(instanceName)
+                const events = await loader.sideEffect.loadEventJournal(instanceName) ?? state.events ?? []
+                report.instances.push(this.getInstanceUsage(state, events, since, until))
+            } catch (error) {
+                this.logger.debug(`Failed to compute usage of instance ${instanceName}`, error)
+                report.failures.push({ instanceName: instanceName, error: error instanceof Error ? error.message : String(error) })
+            }
+        }
+
+        return report
+    }
+
+    /**
+     * Compute usage of an instance over given period from its events
+     */
+    getInstanceUsage(state: InstanceStateV1, events: InstanceEvent[], since: number, until: number): InstanceUsage {
+        const intervals = getRunningIntervals(events, since, until)
+        const runningHours = intervals.reduce((total, i) => total + (i.end - i.start), 0) / MS_PER_HOUR
+
+        const estimate = this.costEstimator.estimateInstanceCost(state.provision.provider, state.provision.input)
+        const hourlyCost = estimate?.items.find(i => i.component === "compute")?.hourly
+
+        return {
+            instanceName: state.name,
+            provider: state.provision.provider,
+            runningHours: runningHours,
+            intervals: intervals,
+            hourlyCost: hourlyCost,
+            estimatedCost: hourlyCost === undefined ? undefined : hourlyCost * runningHours,
+            currency: estimate?.currency,
+        }
+    }
+}
+
+/**
+ * Format usage report as human readable text: one line per instance with running hours and estimated compute cost
+ */
+export function formatUsageReport(report: UsageReport): string {
+    const lines: string[] = []
+
+    if(report.instances.length === 0){
+        lines.push("No instances found.")
+    } else {
+        const headers = [ "INSTANCE", "PROVIDER", "RUNNING HOURS", "EST. COMPUTE COST" ]
+        const rows = report.instances.map(i => [
+            i.instanceName,
+            i.provider,
+            i.runningHours.toFixed(1) + (i.intervals.some(interval => interval.ongoing) ? " (running)" : ""),
+            i.estimatedCost !== undefined && i.currency ? formatPrice(i.estimatedCost, i.currency) : "unknown",
+        ])
+
+        const widths = headers.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)))
+        lines.push(...[ headers, ...rows ].map(row => row.map((cell, i) => cell.padEnd(widths[i])).join("  ").trimEnd()))
+    }
+
+    lines.push("")
+    lines.push(`Usage from ${new Date(report.since).toISOString()} to ${new Date(report.until).toISOString()}.`)
+    for(const failure of report.failures){
+        lines.push(`Couldn't compute usage of instance ${failure.instanceName}: ${failure.error}`)
+    }
+
+    return lines.join("\n")
+}
+
+/**
+ * Format usage report as CSV with a header line
+ */
+export function formatUsageReportCsv(report: UsageReport): string {
+    const escape = (value: string) => /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+    const lines = [ "instance,provider,since,until,running_hours,estimated_cost,currency" ]
+    for(const i of report.instances){
+        lines.push([
+            escape(i.instanceName),
+            escape(i.provider),
+            new Date(report.since).toISOString(),
+            new Date(report.until).toISOString(),
+            i.runningHours.toFixed(2),
+            i.estimatedCost !== undefined ? i.estimatedCost.toFixed(2) : "",
+            i.currency ?? "",
+        ].join(","))
+    }
+
+    return lines.join("\n")
+}
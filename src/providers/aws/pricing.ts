@@ -0,0 +1,43 @@
+import { PricingCatalog } from "../../core/pricing"
+import { BilledResources } from "../../core/cost"
+import { PUBLIC_IP_TYPE_STATIC } from "../../core/const"
+import { AwsProvisionInputV1 } from "./state"
+
+/**
+ * Approximate AWS on-demand prices (us-east-1, Linux)
+ */
+export const AWS_PRICING_CATALOG: PricingCatalog = {
+    version: "2025-06-01",
+    currency: "USD",
+    instanceHourly: {
+        "g4dn.xlarge": 0.526,
+        "g4dn.2xlarge": 0.752,
+        "g4dn.4xlarge": 1.204,
+        "g5.xlarge": 1.006,
+        "g5.2xlarge": 1.212,
+        "g5.4xlarge": 1.624,
+        "g5.8xlarge": 2.448,
+    },
+    // gp3 volumes
+    diskGbMonth: 0.08,
+    snapshotGbMonth: 0.05,
+    // AMIs are stored as EBS snapshots
+    imageGbMonth: 0.05,
+    // Spot instances are usually billed a fraction of on-demand price, varying over time
+    spotPriceRatio: 0.35,
+    staticIpHourly: 0.005,
+    egressGb: 0.09,
+}
+
+/**
+ * Resources billed for an instance with given provision input
+ */
+export function getAwsBilledResources(input: AwsProvisionInputV1): BilledResources {
+    return {
+        instanceType: input.instanceType,
+        spot: input.useSpot,
+        rootDiskSizeGb: input.diskSize,
+        dataDiskSizeGb: input.dataDiskSizeGb,
+        staticIp: input.publicIpType === PUBLIC_IP_TYPE_STATIC,
+    }
+}
@@ -3,7 +3,10 @@ import { AwsPulumiClient, PulumiStackConfigAws } from './pulumi/main';
 import { AwsDataDiskSnapshotPulumiClient, PulumiStackConfigAwsDataDiskSnapshot } from './pulumi/data-volume-snapshot';
 import { AwsBaseImagePulumiClient, PulumiStackConfigAwsBaseImage } from './pulumi/base-image-snapshot';
 import { AbstractInstanceProvisioner, InstanceProvisionerArgs, ProvisionerActionOptions } from '../../core/provisioner';
+import { ProvisionStackPlan } from '../../core/plan';
+import { ProvisionedResourceCheck } from '../../core/drift';
 import { AwsClient } from './sdk-client';
+import { InstanceStateName } from '@aws-sdk/client-ec2';
 import { AwsProvisionInputV1, AwsProvisionOutputV1 } from './state';
 import { DATA_DISK_STATE_LIVE, DATA_DISK_STATE_SNAPSHOT } from '../../core/const';
 
@@ -70,12 +73,7 @@ export class AwsProvisioner extends AbstractInstanceProvisioner<AwsProvisionInpu
 
         this.logger.debug(`Creating data disk snapshot for instance ${this.args.instanceName}`)
         
-        await snapshotClient.setConfig({
-            instanceName: this.args.instanceName,
-            region: this.args.provisionInput.region,
-            // Use full volume ID with vol- prefix
-            baseVolumeId: this.args.provisionOutput.dataDiskId,
-        })
+        await snapshotClient.setConfig(this.buildDataDiskSnapshotPulumiConfig(this.args.provisionOutput.dataDiskId))
         const snapshotOutput = await snapshotClient.up()
 
         this.logger.debug(`Data disk snapshot output: ${JSON.stringify(snapshotOutput)}`)
@@ -124,11 +122,7 @@ export class AwsProvisioner extends AbstractInstanceProvisioner<AwsProvisionInpu
         this.logger.debug(`Creating base image snapshot for instance ${this.args.instanceName}`)
 
         const baseImageClient = this.buildBaseImagePulumiClient()
-        await baseImageClient.setConfig({
-            instanceName: this.args.instanceName,
-            region: this.args.provisionInput.region,
-            rootVolumeId: this.args.provisionOutput.rootDiskId,
-        })
+        await baseImageClient.setConfig(this.buildBaseImagePulumiConfig(this.args.provisionOutput.rootDiskId))
         const imageOutput = await baseImageClient.up()
 
         this.logger.debug(`Base image snapshot output: ${JSON.stringify(imageOutput)}`)
@@ -140,6 +134,73 @@ export class AwsProvisioner extends AbstractInstanceProvisioner<AwsProvisionInpu
         }
     }
 
+    async doPlan(opts?: ProvisionerActionOptions): Promise<ProvisionStackPlan[]> {
+        const plans: ProvisionStackPlan[] = []
+
+        const dataDiskId = this.getPlannedDataDiskSnapshotDiskId()
+        if (dataDiskId) {
+            plans.push(await this.previewPulumiStack("data-disk-snapshot", this.buildDataDiskSnapshotPulumiClient(), 
+                this.buildDataDiskSnapshotPulumiConfig(dataDiskId), opts))
+        }
+
+        plans.push(await this.previewPulumiStack("main", this.buildMainPulumiClient(), this.buildMainPulumiConfig(), opts))
+
+        const rootDiskId = this.args.provisionOutput?.rootDiskId
+        if (this.isBaseImageSnapshotPlanned() && rootDiskId) {
+            plans.push(await this.previewPulumiStack("base-image", this.buildBaseImagePulumiClient(), 
+                this.buildBaseImagePulumiConfig(rootDiskId), opts))
+        }
+
+        return plans
+    }
+
+    async doDetectDrift(opts?: ProvisionerActionOptions): Promise<ProvisionedResourceCheck[]> {
+        await this.buildMainPulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        if (this.args.provisionInput.dataDiskSnapshot?.enable) {
+            await this.buildDataDiskSnapshotPulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        }
+        if (this.args.provisionInput.baseImageSnapshot?.enable) {
+            await this.buildBaseImagePulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        }
+
+        const client = new AwsClient(this.args.instanceName, this.args.provisionInput.region)
+        const output = this.args.provisionOutput
+
+        return this.checkProvisionedResources([
+            {
+                resource: "instance-server",
+                id: output?.instanceId,
+                outputKeys: [ "instanceId" ],
+                exists: async (id) => {
+                    const instance = await client.getInstance(id)
+                    const state = instance?.State?.Name
+                    return instance !== null && state !== InstanceStateName.terminated && state !== InstanceStateName.shutting_down
+                },
+            },
+            { resource: "root-disk", id: output?.rootDiskId, outputKeys: [ "rootDiskId" ], exists: async (id) => (await client.getVolume(id)) !== null },
+            { resource: "data-disk", id: output?.dataDiskId, outputKeys: [ "dataDiskId", "machineDataDiskLookupId" ], exists: async (id) => (await client.getVolume(id)) !== null },
+            { resource: "data-disk-snapshot", id: output?.dataDiskSnapshotId, outputKeys: [ "dataDiskSnapshotId" ], exists: (id) => client.checkSnapshotExists(id) },
+            { resource: "base-image", id: output?.baseImageId, outputKeys: [ "baseImageId" ], exists: async (id) => (await client.getImage(id)) !== null },
+        ])
+    }
+
+    private buildDataDiskSnapshotPulumiConfig(dataDiskId: string): PulumiStackConfigAwsDataDiskSnapshot {
+        return {
+            instanceName: this.args.instanceName,
+            region: this.args.provisionInput.region,
+            // Use full volume ID with vol- prefix
+            baseVolumeId: dataDiskId,
+        }
+    }
+
+    private buildBaseImagePulumiConfig(rootDiskId: string): PulumiStackConfigAwsBaseImage {
+        return {
+            instanceName: this.args.instanceName,
+            region: this.args.provisionInput.region,
+            rootVolumeId: rootDiskId,
+        }
+    }
+
     /**
      * Build Pulumi config from provision input, including runtime state.
      */
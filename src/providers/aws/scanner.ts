@@ -0,0 +1,150 @@
+import { Tag } from "@aws-sdk/client-ec2"
+import { getLogger } from "../../log/utils"
+import { CloudResourceScanArgs, CloudResourceScanner, TaggedCloudResource } from "../../core/orphans"
+import { CLOUDYPAD_PROVIDER_AWS } from "../../core/const"
+import { AwsClient } from "./sdk-client"
+import { AwsProvisionInputV1 } from "./state"
+
+/**
+ * Name tag prefix set on instance resources, see Pulumi stack
+ */
+const NAME_TAG_PREFIX = "CloudyPad-"
+
+/**
+ * Tag key set on data disk snapshots and base images, see Pulumi stacks
+ */
+const INSTANCE_TAG_KEY = "instance"
+
+function getTag(tags: Tag[] | undefined, key: string): string | undefined {
+    return tags?.find(t => t.Key === key)?.Value
+}
+
+/**
+ * Scan AWS regions for EC2 instances, EBS volumes, snapshots and AMIs created by Cloudy Pad.
+ * Scanned regions are those of existing instances and additional scopes, or current region if none.
+ */
+export class AwsResourceScanner implements CloudResourceScanner {
+
+    private readonly logger = getLogger(AwsResourceScanner.name)
+
+    async listTaggedResources(args: CloudResourceScanArgs): Promise<TaggedCloudResource[]> {
+        const regions = new Set([
+            ...args.states.map(s => (s.provision.input as AwsProvisionInputV1).region),
+            ...args.scopes
+        ])
+
+        if (regions.size === 0) {
+            const currentRegion = await AwsClient.getCurrentRegion()
+            if (!currentRegion) {
+                throw new Error("No AWS region to scan. Use --scope to specify regions.")
+            }
+            regions.add(currentRegion)
+        }
+
+        const resources: TaggedCloudResource[] = []
+        for (const region of regions) {
+            this.logger.debug(`Scanning AWS region ${region}`)
+            resources.push(...await this.listRegionResources(region))
+        }
+        return resources
+    }
+
+    async deleteResource(resource: TaggedCloudResource): Promise<void> {
+        if (!resource.location) {
+            throw new Error(`Missing region for AWS resource ${resource.id}`)
+        }
+
+        const client = new AwsClient(AwsResourceScanner.name, resource.location)
+        switch (resource.kind) {
+            case "instance-server":
+                return client.terminateInstance(resource.id)
+            case "disk":
+                return client.deleteVolume(resource.id)
+            case "snapshot":
+                return client.deleteSnapshot(resource.id)
+            case "image":
+                return client.deregisterImage(resource.id)
+        }
+    }
+
+    private async listRegionResources(region: string): Promise<TaggedCloudResource[]> {
+        const client = new AwsClient(AwsResourceScanner.name, region)
+        const resources: TaggedCloudResource[] = []
+
+        const ownerFromNameTag = (tags: Tag[] | undefined) => {
+            const name = getTag(tags, "Name")
+            return name?.startsWith(NAME_TAG_PREFIX) ? name.substring(NAME_TAG_PREFIX.length) : undefined
+        }
+
+        for (const instance of await client.listInstances()) {
+            const instanceName = ownerFromNameTag(instance.Tags)
+            if (!instance.InstanceId || !instanceName || instance.State?.Name === "terminated" || instance.State?.Name === "shutting-down") {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_AWS,
+                kind: "instance-server",
+                id: instance.InstanceId,
+                instanceName: instanceName,
+                scope: region,
+                location: region,
+                instanceType: instance.InstanceType,
+                running: instance.State?.Name !== "stopped",
+            })
+        }
+
+        // Root volumes are not tagged and deleted with their instance
+        for (const volume of await client.listVolumesWithTag("Name")) {
+            const instanceName = ownerFromNameTag(volume.Tags)
+            if (!volume.VolumeId || !instanceName) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_AWS,
+                kind: "disk",
+                id: volume.VolumeId,
+                name: getTag(volume.Tags, "Name"),
+                instanceName: instanceName,
+                scope: region,
+                location: region,
+                sizeGb: volume.Size,
+            })
+        }
+
+        for (const snapshot of await client.listSnapshotsWithTag(INSTANCE_TAG_KEY)) {
+            const instanceName = getTag(snapshot.Tags, INSTANCE_TAG_KEY)
+            if (!snapshot.SnapshotId || !instanceName) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_AWS,
+                kind: "snapshot",
+                id: snapshot.SnapshotId,
+                name: getTag(snapshot.Tags, "Name"),
+                instanceName: instanceName,
+                scope: region,
+                location: region,
+                sizeGb: snapshot.VolumeSize,
+            })
+        }
+
+        for (const image of await client.listImagesWithTag(INSTANCE_TAG_KEY)) {
+            const instanceName = getTag(image.Tags, INSTANCE_TAG_KEY)
+            if (!image.ImageId || !instanceName) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_AWS,
+                kind: "image",
+                id: image.ImageId,
+                name: image.Name,
+                instanceName: instanceName,
+                scope: region,
+                location: region,
+                sizeGb: image.BlockDeviceMappings?.reduce((total, m) => total + (m.Ebs?.VolumeSize ?? 0), 0),
+            })
+        }
+
+        return resources
+    }
+}
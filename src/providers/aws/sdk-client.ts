@@ -1,4 +1,4 @@
-import { EC2Client, DescribeInstancesCommand, Instance, StartInstancesCommand, StopInstancesCommand, RebootInstancesCommand, waitUntilInstanceRunning, waitUntilInstanceStopped, DescribeInstanceTypesCommand, _InstanceType, InstanceTypeInfo, InstanceTypeOffering, DescribeInstanceTypeOfferingsCommand, DescribeInstanceStatusCommand, InstanceStateName, paginateDescribeInstances, paginateDescribeInstanceTypes, paginateDescribeInstanceTypeOfferings, DescribeImagesCommand, DescribeSnapshotsCommand, DescribeVolumesCommand, Volume, Image } from '@aws-sdk/client-ec2'
+import { EC2Client, DescribeInstancesCommand, Instance, StartInstancesCommand, StopInstancesCommand, RebootInstancesCommand, waitUntilInstanceRunning, waitUntilInstanceStopped, DescribeInstanceTypesCommand, _InstanceType, InstanceTypeInfo, InstanceTypeOffering, DescribeInstanceTypeOfferingsCommand, DescribeInstanceStatusCommand, InstanceStateName, paginateDescribeInstances, paginateDescribeInstanceTypes, paginateDescribeInstanceTypeOfferings, DescribeImagesCommand, DescribeSnapshotsCommand, DescribeVolumesCommand, Volume, Image, Snapshot, paginateDescribeVolumes, paginateDescribeSnapshots, TerminateInstancesCommand, DeleteVolumeCommand, DeleteSnapshotCommand, DeregisterImageCommand } from '@aws-sdk/client-ec2'
 import { STSClient, GetCallerIdentityCommand } from '@aws-sdk/client-sts'
 import { getLogger, Logger } from '../../log/utils'
 import { loadConfig } from "@smithy/node-config-provider"
@@ -352,6 +352,27 @@ export class AwsClient {
         }
     }
 
+    /**
+     * Get an EC2 instance by instance ID
+     * @param instanceId Instance ID to get
+     * @returns Instance if exists (including terminated instances still visible), null otherwise
+     */
+    async getInstance(instanceId: string): Promise<Instance | null> {
+        this.logger.debug(`Getting instance ${instanceId}`)
+        try {
+            const command = new DescribeInstancesCommand({
+                InstanceIds: [instanceId],
+            })
+            const response = await this.ec2Client.send(command)
+            return response.Reservations?.[0]?.Instances?.[0] ?? null
+        } catch (error) {
+            if (error instanceof Error && error.name === 'InvalidInstanceID.NotFound') {
+                return null
+            }
+            throw new Error(`Failed to get instance ${instanceId}`, { cause: error })
+        }
+    }
+
     /**
      * Get an EBS volume by volume ID
      * @param volumeId Volume ID to get
@@ -368,8 +389,8 @@ export class AwsClient {
                 return response.Volumes[0]
             }
             return null
-        } catch (error: any) {
-            if (error?.name === 'InvalidVolume.NotFound') {
+        } catch (error) {
+            if (error instanceof Error && error.name === 'InvalidVolume.NotFound') {
                 return null
             }
             throw new Error(`Failed to get volume ${volumeId}`, { cause: error })
@@ -392,14 +413,105 @@ export class AwsClient {
                 return response.Images[0]
             }
             return null
-        } catch (error: any) {
-            if (error?.name === 'InvalidAMIID.NotFound') {
+        } catch (error) {
+            if (error instanceof Error && error.name === 'InvalidAMIID.NotFound') {
                 return null
             }
             throw new Error(`Failed to get image ${imageId}`, { cause: error })
         }
     }
 
+    /**
+     * List EBS volumes having a tag with given key
+     */
+    async listVolumesWithTag(tagKey: string): Promise<Volume[]> {
+        this.logger.debug(`Listing volumes with tag ${tagKey}`)
+        try {
+            const paginator = paginateDescribeVolumes({ client: this.ec2Client }, { Filters: [{ Name: "tag-key", Values: [tagKey] }] })
+
+            let volumes: Volume[] = []
+            for await (const page of paginator) {
+                volumes = volumes.concat(page.Volumes ?? [])
+            }
+            return volumes
+        } catch (error) {
+            throw new Error(`Failed to list volumes with tag ${tagKey}`, { cause: error })
+        }
+    }
+
+    /**
+     * List EBS snapshots owned by current account having a tag with given key
+     */
+    async listSnapshotsWithTag(tagKey: string): Promise<Snapshot[]> {
+        this.logger.debug(`Listing snapshots with tag ${tagKey}`)
+        try {
+            const paginator = paginateDescribeSnapshots({ client: this.ec2Client }, { 
+                OwnerIds: ["self"], 
+                Filters: [{ Name: "tag-key", Values: [tagKey] }] 
+            })
+
+            let snapshots: Snapshot[] = []
+            for await (const page of paginator) {
+                snapshots = snapshots.concat(page.Snapshots ?? [])
+            }
+            return snapshots
+        } catch (error) {
+            throw new Error(`Failed to list snapshots with tag ${tagKey}`, { cause: error })
+        }
+    }
+
+    /**
+     * List AMIs owned by current account having a tag with given key
+     */
+    async listImagesWithTag(tagKey: string): Promise<Image[]> {
+        this.logger.debug(`Listing images with tag ${tagKey}`)
+        try {
+            const response = await this.ec2Client.send(new DescribeImagesCommand({ 
+                Owners: ["self"], 
+                Filters: [{ Name: "tag-key", Values: [tagKey] }] 
+            }))
+            return response.Images ?? []
+        } catch (error) {
+            throw new Error(`Failed to list images with tag ${tagKey}`, { cause: error })
+        }
+    }
+
+    async terminateInstance(instanceId: string) {
+        this.logger.debug(`Terminating instance ${instanceId}`)
+        try {
+            await this.ec2Client.send(new TerminateInstancesCommand({ InstanceIds: [instanceId] }))
+        } catch (error) {
+            throw new Error(`Failed to terminate instance ${instanceId}`, { cause: error })
+        }
+    }
+
+    async deleteVolume(volumeId: string) {
+        this.logger.debug(`Deleting volume ${volumeId}`)
+        try {
+            await this.ec2Client.send(new DeleteVolumeCommand({ VolumeId: volumeId }))
+        } catch (error) {
+            throw new Error(`Failed to delete volume ${volumeId}`, { cause: error })
+        }
+    }
+
+    async deleteSnapshot(snapshotId: string) {
+        this.logger.debug(`Deleting snapshot ${snapshotId}`)
+        try {
+            await this.ec2Client.send(new DeleteSnapshotCommand({ SnapshotId: snapshotId }))
+        } catch (error) {
+            throw new Error(`Failed to delete snapshot ${snapshotId}`, { cause: error })
+        }
+    }
+
+    async deregisterImage(imageId: string) {
+        this.logger.debug(`Deregistering image ${imageId}`)
+        try {
+            await this.ec2Client.send(new DeregisterImageCommand({ ImageId: imageId }))
+        } catch (error) {
+            throw new Error(`Failed to deregister image ${imageId}`, { cause: error })
+        }
+    }
+
 }
 
 /**
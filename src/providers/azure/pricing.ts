@@ -0,0 +1,53 @@
+import { PricingCatalog } from "../../core/pricing"
+import { BilledResources } from "../../core/cost"
+import { PUBLIC_IP_TYPE_STATIC } from "../../core/const"
+import { AzureProvisionInputV1 } from "./state"
+
+/**
+ * Approximate Azure pay-as-you-go prices (East US, Linux)
+ */
+export const AZURE_PRICING_CATALOG: PricingCatalog = {
+    version: "2025-06-01",
+    currency: "USD",
+    instanceHourly: {
+        "Standard_NC4as_T4_v3": 0.526,
+        "Standard_NC8as_T4_v3": 0.752,
+        "Standard_NC16as_T4_v3": 1.204,
+        "Standard_NC64as_T4_v3": 4.352,
+        "Standard_NC6s_v3": 3.06,
+        "Standard_NC12s_v3": 6.12,
+        "Standard_NC24rs_v3": 13.46,
+        "Standard_NC24s_v3": 12.24,
+        "Standard_NC24ads_A100_v4": 3.673,
+        "Standard_NC48ads_A100_v4": 7.346,
+        "Standard_NC96ads_A100_v4": 14.692,
+        "Standard_NV6s_v2": 1.14,
+        "Standard_NV12s_v2": 2.28,
+        "Standard_NV24s_v2": 4.56,
+        "Standard_NV12s_v3": 1.14,
+        "Standard_NV24s_v3": 2.28,
+        "Standard_NV48s_v3": 4.56,
+    },
+    // Standard SSD managed disks
+    diskGbMonth: 0.075,
+    snapshotGbMonth: 0.05,
+    // Managed images are billed as their underlying snapshot storage
+    imageGbMonth: 0.05,
+    // Spot instances are usually billed a fraction of on-demand price, varying over time
+    spotPriceRatio: 0.3,
+    staticIpHourly: 0.005,
+    egressGb: 0.087,
+}
+
+/**
+ * Resources billed for an instance with given provision input
+ */
+export function getAzureBilledResources(input: AzureProvisionInputV1): BilledResources {
+    return {
+        instanceType: input.vmSize,
+        spot: input.useSpot,
+        rootDiskSizeGb: input.diskSize,
+        dataDiskSizeGb: input.dataDiskSizeGb,
+        staticIp: input.publicIpType === PUBLIC_IP_TYPE_STATIC,
+    }
+}
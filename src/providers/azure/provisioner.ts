@@ -1,9 +1,11 @@
 import { SshKeyLoader } from '../../tools/ssh'
 import { AzurePulumiClient, PulumiStackConfigAzure } from './pulumi/main'
-import { AzureDataDiskSnapshotPulumiClient } from './pulumi/data-volume-snapshot'
-import { AzureBaseImagePulumiClient } from './pulumi/base-image-snapshot'
+import { AzureDataDiskSnapshotPulumiClient, PulumiStackConfigAzureDataDiskSnapshot } from './pulumi/data-volume-snapshot'
+import { AzureBaseImagePulumiClient, PulumiStackConfigAzureBaseImage } from './pulumi/base-image-snapshot'
 import { AbstractInstanceProvisioner, InstanceProvisionerArgs, ProvisionerActionOptions } from '../../core/provisioner'
-import { AzureClient } from './sdk-client'
+import { ProvisionStackPlan } from '../../core/plan'
+import { ProvisionedResourceCheck } from '../../core/drift'
+import { AzureClient, isAzureNotFoundError } from './sdk-client'
 import { AzureProvisionInputV1, AzureProvisionOutputV1 } from './state'
 import { DATA_DISK_STATE_LIVE, DATA_DISK_STATE_SNAPSHOT } from '../../core/const'
 
@@ -71,13 +73,7 @@ export class AzureProvisioner extends AbstractInstanceProvisioner<AzureProvision
 
         this.logger.debug(`Creating data disk snapshot for instance ${this.args.instanceName}`)
         
-        await snapshotClient.setConfig({
-            instanceName: this.args.instanceName,
-            resourceGroupName: this.args.provisionOutput.resourceGroupName,
-            location: this.args.provisionInput.location,
-            subscriptionId: this.args.provisionInput.subscriptionId,
-            baseDiskId: this.args.provisionOutput.dataDiskId,
-        })
+        await snapshotClient.setConfig(this.buildDataDiskSnapshotPulumiConfig(this.args.provisionOutput, this.args.provisionOutput.dataDiskId))
         const snapshotOutput = await snapshotClient.up()
 
         this.logger.debug(`Data disk snapshot output: ${JSON.stringify(snapshotOutput)}`)
@@ -155,13 +151,7 @@ export class AzureProvisioner extends AbstractInstanceProvisioner<AzureProvision
         this.logger.debug(`Creating base image snapshot for instance ${this.args.instanceName}`)
 
         const baseImageClient = this.buildBaseImagePulumiClient()
-        await baseImageClient.setConfig({
-            instanceName: this.args.instanceName,
-            resourceGroupName: this.args.provisionOutput.resourceGroupName,
-            location: this.args.provisionInput.location,
-            subscriptionId: this.args.provisionInput.subscriptionId,
-            rootDiskId: this.args.provisionOutput.rootDiskId,
-        })
+        await baseImageClient.setConfig(this.buildBaseImagePulumiConfig(this.args.provisionOutput, this.args.provisionOutput.rootDiskId))
         const imageOutput = await baseImageClient.up()
 
         this.logger.debug(`Base image snapshot output: ${JSON.stringify(imageOutput)}`)
@@ -175,6 +165,95 @@ export class AzureProvisioner extends AbstractInstanceProvisioner<AzureProvision
     /**
      * Build Pulumi config from provision input, including runtime state.
      */
+    async doPlan(opts?: ProvisionerActionOptions): Promise<ProvisionStackPlan[]> {
+        const plans: ProvisionStackPlan[] = []
+
+        const dataDiskId = this.getPlannedDataDiskSnapshotDiskId()
+        if (this.args.provisionOutput && dataDiskId) {
+            plans.push(await this.previewPulumiStack("data-disk-snapshot", this.buildDataDiskSnapshotPulumiClient(), 
+                this.buildDataDiskSnapshotPulumiConfig(this.args.provisionOutput, dataDiskId), opts))
+        }
+
+        plans.push(await this.previewPulumiStack("main", this.buildMainPulumiClient(), this.buildMainPulumiConfig(), opts))
+
+        const rootDiskId = this.args.provisionOutput?.rootDiskId
+        if (this.args.provisionOutput && rootDiskId && this.isBaseImageSnapshotPlanned()) {
+            plans.push(await this.previewPulumiStack("base-image", this.buildBaseImagePulumiClient(), 
+                this.buildBaseImagePulumiConfig(this.args.provisionOutput, rootDiskId), opts))
+        }
+
+        return plans
+    }
+
+    async doDetectDrift(opts?: ProvisionerActionOptions): Promise<ProvisionedResourceCheck[]> {
+        await this.buildMainPulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        if (this.args.provisionInput.dataDiskSnapshot?.enable) {
+            await this.buildDataDiskSnapshotPulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        }
+        if (this.args.provisionInput.baseImageSnapshot?.enable) {
+            await this.buildBaseImagePulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        }
+
+        const output = this.args.provisionOutput
+        if (!output) {
+            return []
+        }
+
+        const client = new AzureClient(this.args.instanceName, this.args.provisionInput.subscriptionId)
+        const rg = output.resourceGroupName
+
+        // Outputs are full Azure resource IDs (except VM name), resource name is the last segment
+        const resourceName = (id: string) => id.split("/").pop() ?? id
+
+        return this.checkProvisionedResources([
+            { resource: "instance-server", id: output.vmName, outputKeys: [ "vmName" ],
+                exists: (id) => this.azureResourceExists(() => client.getVirtualMachine(rg, id)) },
+            { resource: "root-disk", id: output.rootDiskId, outputKeys: [ "rootDiskId" ],
+                exists: (id) => this.azureResourceExists(() => client.getDisk(rg, resourceName(id))) },
+            { resource: "data-disk", id: output.dataDiskId, outputKeys: [ "dataDiskId", "machineDataDiskLookupId" ],
+                exists: (id) => this.azureResourceExists(() => client.getDisk(rg, resourceName(id))) },
+            { resource: "data-disk-snapshot", id: output.dataDiskSnapshotId, outputKeys: [ "dataDiskSnapshotId" ],
+                exists: (id) => this.azureResourceExists(() => client.getSnapshot(rg, resourceName(id))) },
+            { resource: "base-image", id: output.baseImageId, outputKeys: [ "baseImageId" ],
+                exists: (id) => this.azureResourceExists(() => client.getImage(rg, resourceName(id))) },
+        ])
+    }
+
+    /**
+     * Azure API throws on missing resources: return false on "not found" errors, rethrow any other error
+     */
+    private async azureResourceExists(get: () => Promise<unknown>): Promise<boolean> {
+        try {
+            await get()
+            return true
+        } catch (error) {
+            if (isAzureNotFoundError(error)) {
+                return false
+            }
+            throw error
+        }
+    }
+
+    private buildDataDiskSnapshotPulumiConfig(output: AzureProvisionOutputV1, dataDiskId: string): PulumiStackConfigAzureDataDiskSnapshot {
+        return {
+            instanceName: this.args.instanceName,
+            resourceGroupName: output.resourceGroupName,
+            location: this.args.provisionInput.location,
+            subscriptionId: this.args.provisionInput.subscriptionId,
+            baseDiskId: dataDiskId,
+        }
+    }
+
+    private buildBaseImagePulumiConfig(output: AzureProvisionOutputV1, rootDiskId: string): PulumiStackConfigAzureBaseImage {
+        return {
+            instanceName: this.args.instanceName,
+            resourceGroupName: output.resourceGroupName,
+            location: this.args.provisionInput.location,
+            subscriptionId: this.args.provisionInput.subscriptionId,
+            rootDiskId: rootDiskId,
+        }
+    }
+
     private buildMainPulumiConfig(): PulumiStackConfigAzure {
         const sshPublicKeyContent = new SshKeyLoader().loadSshPublicKeyContent(this.args.provisionInput.ssh)
 
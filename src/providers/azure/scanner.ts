@@ -0,0 +1,145 @@
+import { getLogger } from "../../log/utils"
+import { CloudResourceKind, CloudResourceScanArgs, CloudResourceScanner, TaggedCloudResource } from "../../core/orphans"
+import { CLOUDYPAD_PROVIDER_AZURE } from "../../core/const"
+import { AzureClient } from "./sdk-client"
+import { AzureProvisionInputV1 } from "./state"
+
+/**
+ * Prefix of resource groups holding instance resources, see Pulumi stack
+ */
+const RESOURCE_GROUP_PREFIX = "CloudyPad-"
+
+/**
+ * Tag key set on data disk snapshots and base images, see Pulumi stacks
+ */
+const INSTANCE_TAG_KEY = "instance"
+
+/**
+ * Parse resource group and resource name from an ARM resource ID
+ * like /subscriptions/<id>/resourceGroups/<group>/providers/<namespace>/<type>/<name>
+ */
+function parseResourceId(id: string): { resourceGroupName: string, name: string } | undefined {
+    const match = id.match(/\/resourceGroups\/([^/]+)\/providers\/.+\/([^/]+)$/i)
+    return match ? { resourceGroupName: match[1], name: match[2] } : undefined
+}
+
+interface AzureResource {
+    id?: string
+    name?: string
+    location?: string
+    tags?: { [key: string]: string }
+}
+
+/**
+ * Scan Azure subscriptions for virtual machines, disks, snapshots and images created by Cloudy Pad.
+ * Scanned subscriptions are those of existing instances and additional scopes.
+ *
+ * Only resources in Cloudy Pad resource groups are considered. Instance name is read from tags,
+ * or from resource group name for untagged resources (eg. OS disks).
+ */
+export class AzureResourceScanner implements CloudResourceScanner {
+
+    private readonly logger = getLogger(AzureResourceScanner.name)
+
+    async listTaggedResources(args: CloudResourceScanArgs): Promise<TaggedCloudResource[]> {
+        const subscriptionIds = new Set([
+            ...args.states.map(s => (s.provision.input as AzureProvisionInputV1).subscriptionId),
+            ...args.scopes
+        ])
+
+        if (subscriptionIds.size === 0) {
+            throw new Error("No Azure subscription to scan. Use --scope to specify subscription IDs.")
+        }
+
+        const resources: TaggedCloudResource[] = []
+        for (const subscriptionId of subscriptionIds) {
+            this.logger.debug(`Scanning Azure subscription ${subscriptionId}`)
+            resources.push(...await this.listSubscriptionResources(subscriptionId, args.knownInstanceNames))
+        }
+        return resources
+    }
+
+    async deleteResource(resource: TaggedCloudResource): Promise<void> {
+        const parsedId = parseResourceId(resource.id)
+        if (!resource.scope || !parsedId) {
+            throw new Error(`Missing subscription or invalid ID for Azure resource ${resource.id}`)
+        }
+
+        const client = new AzureClient(AzureResourceScanner.name, resource.scope)
+        switch (resource.kind) {
+            case "instance-server":
+                return client.deleteVirtualMachine(parsedId.resourceGroupName, parsedId.name)
+            case "disk":
+                return client.deleteDisk(parsedId.resourceGroupName, parsedId.name)
+            case "snapshot":
+                return client.deleteSnapshot(parsedId.resourceGroupName, parsedId.name)
+            case "image":
+                return client.deleteImage(parsedId.resourceGroupName, parsedId.name)
+        }
+    }
+
+    private async listSubscriptionResources(subscriptionId: string, knownInstanceNames: string[]): Promise<TaggedCloudResource[]> {
+        const client = new AzureClient(AzureResourceScanner.name, subscriptionId)
+        const resources: TaggedCloudResource[] = []
+
+        const toTaggedResource = (kind: CloudResourceKind, resource: AzureResource): TaggedCloudResource | undefined => {
+            const parsedId = resource.id ? parseResourceId(resource.id) : undefined
+            if (!resource.id || !parsedId || !parsedId.resourceGroupName.toLowerCase().startsWith(RESOURCE_GROUP_PREFIX.toLowerCase())) {
+                return undefined
+            }
+
+            // Resource group names may be returned with a different case in resource IDs
+            const groupInstanceName = parsedId.resourceGroupName.substring(RESOURCE_GROUP_PREFIX.length)
+            const instanceName = resource.tags?.[INSTANCE_TAG_KEY]
+                ?? (kind === "instance-server" || kind === "disk" ? resource.tags?.Name : undefined)
+                ?? knownInstanceNames.find(n => n.toLowerCase() === groupInstanceName.toLowerCase())
+                ?? groupInstanceName
+
+            return {
+                provider: CLOUDYPAD_PROVIDER_AZURE,
+                kind: kind,
+                id: resource.id,
+                name: resource.name,
+                instanceName: instanceName,
+                scope: subscriptionId,
+                location: resource.location,
+            }
+        }
+
+        for (const vm of await client.listInstancesWithStatus()) {
+            const resource = toTaggedResource("instance-server", vm)
+            if (!resource) {
+                continue
+            }
+            const powerState = vm.instanceView?.statuses?.find(s => s.code?.startsWith("PowerState/"))?.code
+            resources.push({
+                ...resource,
+                instanceType: vm.hardwareProfile?.vmSize,
+                running: powerState !== "PowerState/deallocated",
+            })
+        }
+
+        for (const disk of await client.listDisks()) {
+            const resource = toTaggedResource("disk", disk)
+            if (resource) {
+                resources.push({ ...resource, sizeGb: disk.diskSizeGB })
+            }
+        }
+
+        for (const snapshot of await client.listSnapshots()) {
+            const resource = toTaggedResource("snapshot", snapshot)
+            if (resource) {
+                resources.push({ ...resource, sizeGb: snapshot.diskSizeGB })
+            }
+        }
+
+        for (const image of await client.listImages()) {
+            const resource = toTaggedResource("image", image)
+            if (resource) {
+                resources.push({ ...resource, sizeGb: image.storageProfile?.osDisk?.diskSizeGB })
+            }
+        }
+
+        return resources
+    }
+}
@@ -1,4 +1,4 @@
-import { ComputeManagementClient, VirtualMachine } from '@azure/arm-compute'
+import { ComputeManagementClient, Disk, Image, Snapshot, VirtualMachine } from '@azure/arm-compute'
 import { DefaultAzureCredential } from '@azure/identity'
 import { getLogger, Logger } from '../../log/utils'
 import { Subscription, SubscriptionClient } from '@azure/arm-subscriptions'
@@ -17,6 +17,20 @@ export interface AzureVMDetails {
 }
 
 
+/**
+ * Check whether an error (or one of its causes) is an Azure API "not found" error
+ */
+export function isAzureNotFoundError(error: unknown): boolean {
+    let current: unknown = error
+    while (current instanceof Error) {
+        if ("statusCode" in current && current.statusCode === 404) {
+            return true
+        }
+        current = current.cause
+    }
+    return false
+}
+
 const DEFAULT_START_STOP_OPTION_WAIT=false
 
 // Generous default timeout as G instances are sometime long to stop
@@ -218,6 +232,17 @@ export class AzureClient {
         }
     }
 
+    async getVirtualMachine(resourceGroupName: string, vmName: string): Promise<VirtualMachine> {
+        this.logger.debug(`Getting Azure virtual machine ${vmName} in resource group ${resourceGroupName}`)
+        try {
+            const vm = await this.computeClient.virtualMachines.get(resourceGroupName, vmName)
+            this.logger.trace(`Get virtual machine response: ${JSON.stringify(vm)}`)
+            return vm
+        } catch (error) {
+            throw new Error(`Failed to get Azure virtual machine: ${vmName}`, { cause: error })
+        }
+    }
+
     async getImage(resourceGroupName: string, imageName: string) {
         this.logger.debug(`Getting Azure image ${imageName} in resource group ${resourceGroupName}`)
         try {
@@ -251,6 +276,97 @@ export class AzureClient {
         }
     }
 
+    /**
+     * List virtual machines of all resource groups with their instance view (power state)
+     */
+    async listInstancesWithStatus(): Promise<VirtualMachine[]> {
+        this.logger.debug(`Listing Azure virtual machines with status`)
+        try {
+            const vms = []
+            for await (const vm of this.computeClient.virtualMachines.listAll({ statusOnly: "true" })) {
+                vms.push(vm)
+            }
+            return vms
+        } catch (error) {
+            throw new Error(`Failed to list Azure virtual machines`, { cause: error })
+        }
+    }
+
+    async listDisks(): Promise<Disk[]> {
+        this.logger.debug(`Listing Azure disks`)
+        try {
+            const disks = []
+            for await (const disk of this.computeClient.disks.list()) {
+                disks.push(disk)
+            }
+            return disks
+        } catch (error) {
+            throw new Error(`Failed to list Azure disks`, { cause: error })
+        }
+    }
+
+    async listSnapshots(): Promise<Snapshot[]> {
+        this.logger.debug(`Listing Azure snapshots`)
+        try {
+            const snapshots = []
+            for await (const snapshot of this.computeClient.snapshots.list()) {
+                snapshots.push(snapshot)
+            }
+            return snapshots
+        } catch (error) {
+            throw new Error(`Failed to list Azure snapshots`, { cause: error })
+        }
+    }
+
+    async listImages(): Promise<Image[]> {
+        this.logger.debug(`Listing Azure images`)
+        try {
+            const images = []
+            for await (const image of this.computeClient.images.list()) {
+                images.push(image)
+            }
+            return images
+        } catch (error) {
+            throw new Error(`Failed to list Azure images`, { cause: error })
+        }
+    }
+
+    async deleteVirtualMachine(resourceGroupName: string, vmName: string) {
+        this.logger.debug(`Deleting Azure virtual machine ${vmName} in resource group ${resourceGroupName}`)
+        try {
+            await this.computeClient.virtualMachines.beginDeleteAndWait(resourceGroupName, vmName)
+        } catch (error) {
+            throw new Error(`Failed to delete Azure virtual machine: ${vmName}`, { cause: error })
+        }
+    }
+
+    async deleteDisk(resourceGroupName: string, diskName: string) {
+        this.logger.debug(`Deleting Azure disk ${diskName} in resource group ${resourceGroupName}`)
+        try {
+            await this.computeClient.disks.beginDeleteAndWait(resourceGroupName, diskName)
+        } catch (error) {
+            throw new Error(`Failed to delete Azure disk: ${diskName}`, { cause: error })
+        }
+    }
+
+    async deleteSnapshot(resourceGroupName: string, snapshotName: string) {
+        this.logger.debug(`Deleting Azure snapshot ${snapshotName} in resource group ${resourceGroupName}`)
+        try {
+            await this.computeClient.snapshots.beginDeleteAndWait(resourceGroupName, snapshotName)
+        } catch (error) {
+            throw new Error(`Failed to delete Azure snapshot: ${snapshotName}`, { cause: error })
+        }
+    }
+
+    async deleteImage(resourceGroupName: string, imageName: string) {
+        this.logger.debug(`Deleting Azure image ${imageName} in resource group ${resourceGroupName}`)
+        try {
+            await this.computeClient.images.beginDeleteAndWait(resourceGroupName, imageName)
+        } catch (error) {
+            throw new Error(`Failed to delete Azure image: ${imageName}`, { cause: error })
+        }
+    }
+
     // MAY NOT BE USEFUL
     // async detachDataDisk(resourceGroupName: string, vmName: string, lun: number, opts?: StartStopActionOpts) {
     //     const wait = opts?.wait ?? DEFAULT_START_STOP_OPTION_WAIT
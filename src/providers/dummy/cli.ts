@@ -9,7 +9,7 @@ import { InteractiveInstanceInitializer } from "../../cli/initializer";
 import { PartialDeep } from "type-fest";
 import { InteractiveInstanceUpdater } from "../../cli/updater";
 import { cleanupAndExit, logFullError } from "../../cli/program";
-import { DummyProviderClient } from "./provider";
+import { DummyProviderClient, DUMMY_PROVIDER_CAPABILITIES } from "./provider";
 import { z } from "zod";
 
 /**
@@ -120,7 +120,7 @@ export class DummyInputPrompter extends AbstractInputPrompter<DummyCreateCliArgs
 export class DummyCliCommandGenerator extends CliCommandGenerator {
     
     buildCreateCommand(args: BuildCreateCommandArgs) {
-        return this.getBaseCreateCommand(CLOUDYPAD_PROVIDER_DUMMY)
+        return this.getBaseCreateCommand(CLOUDYPAD_PROVIDER_DUMMY, DUMMY_PROVIDER_CAPABILITIES)
             .addOption(CLI_OPTION_STREAMING_SERVER)
             .addOption(CLI_OPTION_SUNSHINE_USERNAME)
             .addOption(CLI_OPTION_SUNSHINE_PASSWORD)
@@ -15,6 +15,9 @@ import { DummyInstanceInfraManager } from "./infra"
 import { DummyInstanceStateV1, DummyProvisionInputV1, DummyStateParser } from "./state"
 import { GenericStateParser } from "../../core/state/parser"
 import { StateLoader } from "../../core/state/loader"
+import { NO_PROVIDER_CAPABILITIES, ProviderCapabilities } from "../../core/provider-capabilities"
+
+export const DUMMY_PROVIDER_CAPABILITIES: ProviderCapabilities = NO_PROVIDER_CAPABILITIES
 
 export class DummyProviderClient extends AbstractProviderClient<DummyInstanceStateV1> {
 
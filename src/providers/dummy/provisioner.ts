@@ -3,6 +3,7 @@ import { AbstractInstanceProvisioner, InstanceProvisionerArgs, ProvisionerAction
 import { DummyProvisionInputV1, DummyProvisionOutputV1 } from './state';
 import { ServerRunningStatus } from '../../core/runner';
 import { DummyInstanceInfraManager } from './infra';
+import { ProvisionedResourceCheck } from '../../core/drift';
 import { INSTANCE_SERVER_STATE_ABSENT, DATA_DISK_STATE_LIVE, DATA_DISK_STATE_SNAPSHOT } from '../../core/const';
 
 export interface DummyProvisionerArgs extends InstanceProvisionerArgs<DummyProvisionInputV1, DummyProvisionOutputV1> {
@@ -203,6 +204,22 @@ export class DummyProvisioner extends AbstractInstanceProvisioner<DummyProvision
         this.args.provisionOutput = undefined
     }
 
+    /**
+     * Dummy resources exist if they match dummy infrastructure stored in state
+     */
+    async doDetectDrift(): Promise<ProvisionedResourceCheck[]> {
+        const infra = await this.dummyInfraManager.getInstanceInfra()
+        const output = this.args.provisionOutput
+
+        return this.checkProvisionedResources([
+            { resource: "instance-server", id: output?.instanceId, outputKeys: [ "instanceId" ], exists: async (id) => infra?.serverId === id },
+            { resource: "root-disk", id: output?.rootDiskId, outputKeys: [ "rootDiskId" ], exists: async (id) => infra?.rootDiskId === id },
+            { resource: "data-disk", id: output?.dataDiskId, outputKeys: [ "dataDiskId", "machineDataDiskLookupId" ], exists: async (id) => infra?.dataDiskId === id },
+            { resource: "data-disk-snapshot", id: output?.dataDiskSnapshotId, outputKeys: [ "dataDiskSnapshotId" ], exists: async (id) => infra?.dataDiskSnapshotId === id },
+            { resource: "base-image", id: output?.baseImageId, outputKeys: [ "baseImageId" ], exists: async (id) => infra?.baseImageId === id },
+        ])
+    }
+
     async doVerifyConfig() {
         this.logger.info(`Verifying dummy instance configuration for ${this.args.instanceName}`)
     }
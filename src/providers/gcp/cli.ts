@@ -9,10 +9,10 @@ import lodash from 'lodash'
 import { CLOUDYPAD_PROVIDER_GCP } from "../../core/const";
 import { PartialDeep } from "type-fest";
 import { InteractiveInstanceInitializer } from "../../cli/initializer";
-import { CreateCliArgsSchema, CLI_OPTION_AUTO_STOP_TIMEOUT, CLI_OPTION_AUTO_STOP_ENABLE, CLI_OPTION_COST_ALERT, CLI_OPTION_COST_LIMIT, CLI_OPTION_COST_NOTIFICATION_EMAIL, CLI_OPTION_DISK_SIZE, CLI_OPTION_DATA_DISK_SIZE, CLI_OPTION_PUBLIC_IP_TYPE, CLI_OPTION_SPOT, CLI_OPTION_STREAMING_SERVER, CLI_OPTION_SUNSHINE_IMAGE_REGISTRY, CLI_OPTION_SUNSHINE_IMAGE_TAG, CLI_OPTION_SUNSHINE_PASSWORD, CLI_OPTION_SUNSHINE_USERNAME, CliCommandGenerator, UpdateCliArgsSchema, CLI_OPTION_KEYBOARD_OPTIONS, CLI_OPTION_KEYBOARD_MODEL, CLI_OPTION_KEYBOARD_LAYOUT, CLI_OPTION_USE_LOCALE, CLI_OPTION_KEYBOARD_VARIANT, BuildCreateCommandArgs, BuildUpdateCommandArgs, CLI_OPTION_RATE_LIMIT_MAX_MBPS, CLI_OPTION_SUNSHINE_MAX_BITRATE_KBPS, CLI_OPTION_DATA_DISK_SNAPSHOT_ENABLE, CLI_OPTION_BASE_IMAGE_SNAPSHOT_ENABLE, CLI_OPTION_KEEP_BASE_IMAGE_ON_DELETION, CLI_OPTION_DELETE_INSTANCE_SERVER_ON_STOP } from "../../cli/command";
+import { CreateCliArgsSchema, CLI_OPTION_AUTO_STOP_TIMEOUT, CLI_OPTION_AUTO_STOP_ENABLE, CLI_OPTION_COST_ALERT, CLI_OPTION_COST_LIMIT, CLI_OPTION_COST_NOTIFICATION_EMAIL, CLI_OPTION_DISK_SIZE, CLI_OPTION_PUBLIC_IP_TYPE, CLI_OPTION_STREAMING_SERVER, CLI_OPTION_SUNSHINE_IMAGE_REGISTRY, CLI_OPTION_SUNSHINE_IMAGE_TAG, CLI_OPTION_SUNSHINE_PASSWORD, CLI_OPTION_SUNSHINE_USERNAME, CliCommandGenerator, UpdateCliArgsSchema, CLI_OPTION_KEYBOARD_OPTIONS, CLI_OPTION_KEYBOARD_MODEL, CLI_OPTION_KEYBOARD_LAYOUT, CLI_OPTION_USE_LOCALE, CLI_OPTION_KEYBOARD_VARIANT, BuildCreateCommandArgs, BuildUpdateCommandArgs, CLI_OPTION_RATE_LIMIT_MAX_MBPS, CLI_OPTION_SUNSHINE_MAX_BITRATE_KBPS } from "../../cli/command";
 import { RUN_COMMAND_CREATE, RUN_COMMAND_UPDATE } from "../../tools/analytics/events";
 import { InteractiveInstanceUpdater } from "../../cli/updater";
-import { GcpProviderClient } from "./provider";
+import { GcpProviderClient, GCP_PROVIDER_CAPABILITIES } from "./provider";
 import { z } from "zod";
 import { PUBLIC_IP_TYPE_DYNAMIC, PUBLIC_IP_TYPE_STATIC } from "../../core/const";
 
@@ -520,14 +520,8 @@ export function isGamingMachineType(t: { name?: string | null, guestCpus?: numbe
 export class GcpCliCommandGenerator extends CliCommandGenerator {
 
   buildCreateCommand(args: BuildCreateCommandArgs) {
-    return this.getBaseCreateCommand(CLOUDYPAD_PROVIDER_GCP)
-      .addOption(CLI_OPTION_SPOT)
+    return this.getBaseCreateCommand(CLOUDYPAD_PROVIDER_GCP, GCP_PROVIDER_CAPABILITIES)
       .addOption(CLI_OPTION_DISK_SIZE)
-      .addOption(CLI_OPTION_DATA_DISK_SIZE)
-      .addOption(CLI_OPTION_PUBLIC_IP_TYPE)
-      .addOption(CLI_OPTION_COST_ALERT)
-      .addOption(CLI_OPTION_COST_LIMIT)
-      .addOption(CLI_OPTION_COST_NOTIFICATION_EMAIL)
       .addOption(CLI_OPTION_STREAMING_SERVER)
       .addOption(CLI_OPTION_SUNSHINE_USERNAME)
       .addOption(CLI_OPTION_SUNSHINE_PASSWORD)
@@ -542,10 +536,6 @@ export class GcpCliCommandGenerator extends CliCommandGenerator {
       .addOption(CLI_OPTION_KEYBOARD_VARIANT)
       .addOption(CLI_OPTION_KEYBOARD_OPTIONS)
       .addOption(CLI_OPTION_RATE_LIMIT_MAX_MBPS)
-      .addOption(CLI_OPTION_DATA_DISK_SNAPSHOT_ENABLE)
-      .addOption(CLI_OPTION_BASE_IMAGE_SNAPSHOT_ENABLE)
-      .addOption(CLI_OPTION_KEEP_BASE_IMAGE_ON_DELETION)
-      .addOption(CLI_OPTION_DELETE_INSTANCE_SERVER_ON_STOP)
       .option('--machine-type <machinetype>', 'Machine type to use for the instance')
       .option('--region <region>', 'Region in which to deploy instance')
       .option('--zone <zone>', 'Zone within the region to deploy the instance')
@@ -0,0 +1,54 @@
+import { PricingCatalog } from "../../core/pricing"
+import { BilledResources } from "../../core/cost"
+import { PUBLIC_IP_TYPE_STATIC } from "../../core/const"
+import { GcpProvisionInputV1 } from "./state"
+
+/**
+ * Approximate Google Cloud on-demand prices (us-central1)
+ */
+export const GCP_PRICING_CATALOG: PricingCatalog = {
+    version: "2025-06-01",
+    currency: "USD",
+    instanceHourly: {
+        "n1-standard-4": 0.19,
+        "n1-standard-8": 0.38,
+        "n1-standard-16": 0.76,
+        "g2-standard-4": 0.7068,
+        "g2-standard-8": 0.8536,
+        "g2-standard-16": 1.147,
+        "g2-standard-32": 1.7336,
+        "a2-highgpu-1g": 3.6731,
+    },
+    acceleratorHourly: {
+        "nvidia-tesla-t4": 0.35,
+        "nvidia-p4": 0.6,
+        "nvidia-p100": 1.46,
+        "nvidia-v100": 2.48,
+        // GPUs already included in G2 and A2 machine prices
+        "nvidia-l4": 0,
+        "nvidia-a100-40gb": 0,
+        "nvidia-a100-80gb": 0,
+    },
+    // pd-balanced disks
+    diskGbMonth: 0.1,
+    snapshotGbMonth: 0.05,
+    imageGbMonth: 0.05,
+    // Spot instances are usually billed a fraction of on-demand price, varying over time
+    spotPriceRatio: 0.35,
+    staticIpHourly: 0.005,
+    egressGb: 0.12,
+}
+
+/**
+ * Resources billed for an instance with given provision input
+ */
+export function getGcpBilledResources(input: GcpProvisionInputV1): BilledResources {
+    return {
+        instanceType: input.machineType,
+        acceleratorType: input.acceleratorType,
+        spot: input.useSpot,
+        rootDiskSizeGb: input.diskSize,
+        dataDiskSizeGb: input.dataDiskSizeGb,
+        staticIp: input.publicIpType === PUBLIC_IP_TYPE_STATIC,
+    }
+}
@@ -12,6 +12,17 @@ import { GcpProvisionerFactory } from "./factory"
 import { AnsibleConfiguratorFactory } from "../../configurators/ansible"
 import { GenericStateParser } from "../../core/state/parser"
 import { CLOUDYPAD_PROVIDER } from "../../core/const"
+import { ProviderCapabilities } from "../../core/provider-capabilities"
+
+export const GCP_PROVIDER_CAPABILITIES: ProviderCapabilities = {
+    spot: true,
+    staticIp: true,
+    costAlert: true,
+    dataDisk: true,
+    dataDiskSnapshot: true,
+    baseImageSnapshot: true,
+    deleteInstanceServerOnStop: true,
+}
 
 export type GcpProviderClientArgs = {
     config: CoreConfig
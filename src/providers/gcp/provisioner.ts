@@ -1,5 +1,7 @@
 import { SshKeyLoader } from '../../tools/ssh';
 import { AbstractInstanceProvisioner, InstanceProvisionerArgs, ProvisionerActionOptions } from '../../core/provisioner';
+import { ProvisionStackPlan } from '../../core/plan';
+import { ProvisionedResourceCheck } from '../../core/drift';
 import { GcpPulumiClient, PulumiStackConfigGcp } from './pulumi/main';
 import { GcpDataDiskSnapshotPulumiClient, PulumiStackConfigGcpDataDiskSnapshot } from './pulumi/data-volume-snapshot';
 import { GcpBaseImagePulumiClient, GcpBaseImagePulumiStackConfig } from './pulumi/base-image-snapshot';
@@ -72,13 +74,7 @@ export class GcpProvisioner extends AbstractInstanceProvisioner<GcpProvisionInpu
         this.logger.debug(`Creating data disk snapshot for instance ${this.args.instanceName}`)
         
         const snapshotClient = this.buildDataDiskSnapshotPulumiClient()
-        await snapshotClient.setConfig({
-            instanceName: this.args.instanceName,
-            projectId: this.args.provisionInput.projectId,
-            region: this.args.provisionInput.region,
-            zone: this.args.provisionInput.zone,
-            baseVolumeId: this.args.provisionOutput.dataDiskId,
-        })
+        await snapshotClient.setConfig(this.buildDataDiskSnapshotPulumiConfig(this.args.provisionOutput.dataDiskId))
         const snapshotOutput = await snapshotClient.up()
 
         this.logger.debug(`Data disk snapshot output: ${JSON.stringify(snapshotOutput)}`)
@@ -132,13 +128,7 @@ export class GcpProvisioner extends AbstractInstanceProvisioner<GcpProvisionInpu
         this.logger.debug(`Creating base image snapshot for instance ${this.args.instanceName}`)
 
         const baseImageClient = this.buildBaseImagePulumiClient()
-        await baseImageClient.setConfig({
-            instanceName: this.args.instanceName,
-            projectId: this.args.provisionInput.projectId,
-            region: this.args.provisionInput.region,
-            zone: this.args.provisionInput.zone,
-            rootVolumeId: this.args.provisionOutput.rootDiskId,
-        })
+        await baseImageClient.setConfig(this.buildBaseImagePulumiConfig(this.args.provisionOutput.rootDiskId))
         const imageOutput = await baseImageClient.up()
 
         this.logger.debug(`Base image snapshot output: ${JSON.stringify(imageOutput)}`)
@@ -151,6 +141,68 @@ export class GcpProvisioner extends AbstractInstanceProvisioner<GcpProvisionInpu
     /**
      * Build Pulumi config from provision input, including runtime state.
      */
+    async doPlan(opts?: ProvisionerActionOptions): Promise<ProvisionStackPlan[]> {
+        const plans: ProvisionStackPlan[] = []
+
+        const dataDiskId = this.getPlannedDataDiskSnapshotDiskId()
+        if (dataDiskId) {
+            plans.push(await this.previewPulumiStack("data-disk-snapshot", this.buildDataDiskSnapshotPulumiClient(), 
+                this.buildDataDiskSnapshotPulumiConfig(dataDiskId), opts))
+        }
+
+        plans.push(await this.previewPulumiStack("main", this.buildMainPulumiClient(), this.buildMainPulumiConfig(), opts))
+
+        const rootDiskId = this.args.provisionOutput?.rootDiskId
+        if (this.isBaseImageSnapshotPlanned() && rootDiskId) {
+            plans.push(await this.previewPulumiStack("base-image", this.buildBaseImagePulumiClient(), 
+                this.buildBaseImagePulumiConfig(rootDiskId), opts))
+        }
+
+        return plans
+    }
+
+    async doDetectDrift(opts?: ProvisionerActionOptions): Promise<ProvisionedResourceCheck[]> {
+        await this.buildMainPulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        if (this.args.provisionInput.dataDiskSnapshot?.enable) {
+            await this.buildDataDiskSnapshotPulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        }
+        if (this.args.provisionInput.baseImageSnapshot?.enable) {
+            await this.buildBaseImagePulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        }
+
+        const client = new GcpClient(this.args.instanceName, this.args.provisionInput.projectId)
+        const zone = this.args.provisionInput.zone
+        const output = this.args.provisionOutput
+
+        return this.checkProvisionedResources([
+            { resource: "instance-server", id: output?.instanceName, outputKeys: [ "instanceName" ], exists: async (id) => (await client.getInstance(zone, id)) !== null },
+            { resource: "root-disk", id: output?.rootDiskId, outputKeys: [ "rootDiskId" ], exists: async (id) => (await client.getDisk(zone, id)) !== null },
+            { resource: "data-disk", id: output?.dataDiskId, outputKeys: [ "dataDiskId", "machineDataDiskLookupId" ], exists: async (id) => (await client.getDisk(zone, id)) !== null },
+            { resource: "data-disk-snapshot", id: output?.dataDiskSnapshotId, outputKeys: [ "dataDiskSnapshotId" ], exists: async (id) => (await client.getSnapshot(id)) !== null },
+            { resource: "base-image", id: output?.baseImageId, outputKeys: [ "baseImageId" ], exists: async (id) => (await client.getImage(id)) !== null },
+        ])
+    }
+
+    private buildDataDiskSnapshotPulumiConfig(dataDiskId: string): PulumiStackConfigGcpDataDiskSnapshot {
+        return {
+            instanceName: this.args.instanceName,
+            projectId: this.args.provisionInput.projectId,
+            region: this.args.provisionInput.region,
+            zone: this.args.provisionInput.zone,
+            baseVolumeId: dataDiskId,
+        }
+    }
+
+    private buildBaseImagePulumiConfig(rootDiskId: string): GcpBaseImagePulumiStackConfig {
+        return {
+            instanceName: this.args.instanceName,
+            projectId: this.args.provisionInput.projectId,
+            region: this.args.provisionInput.region,
+            zone: this.args.provisionInput.zone,
+            rootVolumeId: rootDiskId,
+        }
+    }
+
     private buildMainPulumiConfig(): PulumiStackConfigGcp {
         const sshPublicKeyContent = new SshKeyLoader().loadSshPublicKeyContent(this.args.provisionInput.ssh)
 
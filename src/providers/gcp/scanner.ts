@@ -0,0 +1,164 @@
+import { getLogger } from "../../log/utils"
+import { CloudResourceScanArgs, CloudResourceScanner, TaggedCloudResource } from "../../core/orphans"
+import { CLOUDYPAD_PROVIDER_GCP } from "../../core/const"
+import { GcpClient, GcpInstanceStatus } from "./sdk-client"
+import { GcpProvisionInputV1 } from "./state"
+
+/**
+ * Name prefix of instance servers and disks, see Pulumi stack
+ */
+const RESOURCE_NAME_PREFIX = "cloudypad-"
+
+/**
+ * Suffix of data disk names, see Pulumi stack
+ */
+const DATA_DISK_NAME_SUFFIX = "-data"
+
+/**
+ * Label key set on data disk snapshots and base images, see Pulumi stacks
+ */
+const INSTANCE_LABEL_KEY = "instance"
+
+/**
+ * Last segment of a GCP resource URL, eg. zone or machine type name
+ */
+function lastUrlSegment(url: string | null | undefined): string | undefined {
+    return url ? url.split("/").pop() : undefined
+}
+
+function toNumber(value: unknown): number | undefined {
+    return value === null || value === undefined ? undefined : Number(value)
+}
+
+/**
+ * Scan GCP projects for instances, disks, snapshots and images created by Cloudy Pad.
+ * Scanned projects are those of existing instances and additional scopes.
+ *
+ * GCP resource names and labels are lower case: instance names are matched case-insensitively
+ * against known instances.
+ */
+export class GcpResourceScanner implements CloudResourceScanner {
+
+    private readonly logger = getLogger(GcpResourceScanner.name)
+
+    async listTaggedResources(args: CloudResourceScanArgs): Promise<TaggedCloudResource[]> {
+        const projectIds = new Set([
+            ...args.states.map(s => (s.provision.input as GcpProvisionInputV1).projectId),
+            ...args.scopes
+        ])
+
+        if (projectIds.size === 0) {
+            throw new Error("No GCP project to scan. Use --scope to specify project IDs.")
+        }
+
+        const resources: TaggedCloudResource[] = []
+        for (const projectId of projectIds) {
+            this.logger.debug(`Scanning GCP project ${projectId}`)
+            resources.push(...await this.listProjectResources(projectId, args.knownInstanceNames))
+        }
+        return resources
+    }
+
+    async deleteResource(resource: TaggedCloudResource): Promise<void> {
+        if (!resource.scope) {
+            throw new Error(`Missing project for GCP resource ${resource.id}`)
+        }
+
+        const client = new GcpClient(GcpResourceScanner.name, resource.scope)
+        switch (resource.kind) {
+            case "instance-server":
+            case "disk":
+                if (!resource.location) {
+                    throw new Error(`Missing zone for GCP resource ${resource.id}`)
+                }
+                return resource.kind === "instance-server" ?
+                    client.deleteInstance(resource.location, resource.id) :
+                    client.deleteDisk(resource.location, resource.id)
+            case "snapshot":
+                return client.deleteSnapshot(resource.id)
+            case "image":
+                return client.deleteImage(resource.id)
+        }
+    }
+
+    private async listProjectResources(projectId: string, knownInstanceNames: string[]): Promise<TaggedCloudResource[]> {
+        const client = new GcpClient(GcpResourceScanner.name, projectId)
+        const resources: TaggedCloudResource[] = []
+
+        // Resolve lower-cased name back to known instance name, if any
+        const resolveInstanceName = (lowerCaseName: string) =>
+            knownInstanceNames.find(n => n.toLowerCase() === lowerCaseName) ?? lowerCaseName
+
+        for (const instance of await client.listAllInstances()) {
+            if (!instance.name?.startsWith(RESOURCE_NAME_PREFIX)) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_GCP,
+                kind: "instance-server",
+                id: instance.name,
+                instanceName: resolveInstanceName(instance.name.substring(RESOURCE_NAME_PREFIX.length)),
+                scope: projectId,
+                location: lastUrlSegment(instance.zone),
+                instanceType: lastUrlSegment(instance.machineType),
+                acceleratorType: lastUrlSegment(instance.guestAccelerators?.[0]?.acceleratorType),
+                running: instance.status !== GcpInstanceStatus.Terminated && instance.status !== GcpInstanceStatus.Suspended,
+            })
+        }
+
+        for (const disk of await client.listAllDisks()) {
+            if (!disk.name?.startsWith(RESOURCE_NAME_PREFIX)) {
+                continue
+            }
+
+            // Boot disks are deleted with their instance
+            const isDataDisk = disk.name.endsWith(DATA_DISK_NAME_SUFFIX)
+            if (!isDataDisk && (disk.users ?? []).length > 0) {
+                continue
+            }
+
+            const baseName = disk.name.substring(RESOURCE_NAME_PREFIX.length)
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_GCP,
+                kind: "disk",
+                id: disk.name,
+                instanceName: resolveInstanceName(isDataDisk ? baseName.substring(0, baseName.length - DATA_DISK_NAME_SUFFIX.length) : baseName),
+                scope: projectId,
+                location: lastUrlSegment(disk.zone),
+                sizeGb: toNumber(disk.sizeGb),
+            })
+        }
+
+        for (const snapshot of await client.listSnapshots()) {
+            const instanceName = snapshot.labels?.[INSTANCE_LABEL_KEY]
+            if (!snapshot.name || !instanceName) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_GCP,
+                kind: "snapshot",
+                id: snapshot.name,
+                instanceName: resolveInstanceName(instanceName.toLowerCase()),
+                scope: projectId,
+                sizeGb: toNumber(snapshot.diskSizeGb),
+            })
+        }
+
+        for (const image of await client.listImages()) {
+            const instanceName = image.labels?.[INSTANCE_LABEL_KEY]
+            if (!image.name || !instanceName) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_GCP,
+                kind: "image",
+                id: image.name,
+                instanceName: resolveInstanceName(instanceName.toLowerCase()),
+                scope: projectId,
+                sizeGb: toNumber(image.diskSizeGb),
+            })
+        }
+
+        return resources
+    }
+}
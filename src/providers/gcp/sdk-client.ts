@@ -267,6 +267,27 @@ export class GcpClient {
         }
     }
 
+    /**
+     * Get an instance by name in a specific zone
+     */
+    async getInstance(zone: string, instanceName: string): Promise<protos.google.cloud.compute.v1.IInstance | null> {
+        this.logger.debug(`Getting instance ${instanceName} in zone ${zone}`)
+        try {
+            const [instance] = await this.instances.get({
+                instance: instanceName,
+                project: this.projectId,
+                zone: zone
+            })
+            this.logger.debug(`Got instance ${instanceName}: ${JSON.stringify(instance)}`)
+            return instance
+        } catch (error) {
+            if (isGcpNotFoundError(error)) {
+                return null
+            }
+            throw new Error(`Failed to get instance ${instanceName} in zone ${zone}`, { cause: error })
+        }
+    }
+
     /**
      * Get a disk by name in a specific zone
      */
@@ -280,8 +301,8 @@ export class GcpClient {
             })
             this.logger.debug(`Got disk ${diskName}: ${JSON.stringify(disk)}`)
             return disk
-        } catch (error: any) {
-            if (error?.code === 404 || error?.code === 5) {
+        } catch (error) {
+            if (isGcpNotFoundError(error)) {
                 return null
             }
             throw new Error(`Failed to get disk ${diskName} in zone ${zone}`, { cause: error })
@@ -306,8 +327,8 @@ export class GcpClient {
             })
             this.logger.debug(`Got snapshot ${actualSnapshotName}: ${JSON.stringify(snapshot)}`)
             return snapshot
-        } catch (error: any) {
-            if (error?.code === 404 || error?.code === 5) {
+        } catch (error) {
+            if (isGcpNotFoundError(error)) {
                 return null
             }
             throw new Error(`Failed to get snapshot ${snapshotName}`, { cause: error })
@@ -332,14 +353,120 @@ export class GcpClient {
             })
             this.logger.debug(`Got image ${actualImageName}: ${JSON.stringify(image)}`)
             return image
-        } catch (error: any) {
-            if (error?.code === 404 || error?.code === 5) {
+        } catch (error) {
+            if (isGcpNotFoundError(error)) {
                 return null
             }
             throw new Error(`Failed to get image ${imageName}`, { cause: error })
         }
     }
 
+    /**
+     * List instances in all zones of project
+     */
+    async listAllInstances(): Promise<protos.google.cloud.compute.v1.IInstance[]> {
+        this.logger.debug(`Listing Google Cloud instances in all zones`)
+        try {
+            const instances: protos.google.cloud.compute.v1.IInstance[] = []
+            for await (const [, scopedList] of this.instances.aggregatedListAsync({ project: this.projectId })) {
+                instances.push(...(scopedList.instances ?? []))
+            }
+            return instances
+        } catch (error) {
+            throw new Error(`Failed to list Google Cloud instances`, { cause: error })
+        }
+    }
+
+    /**
+     * List disks in all zones of project
+     */
+    async listAllDisks(): Promise<protos.google.cloud.compute.v1.IDisk[]> {
+        this.logger.debug(`Listing Google Cloud disks in all zones`)
+        try {
+            const disks: protos.google.cloud.compute.v1.IDisk[] = []
+            for await (const [, scopedList] of this.disks.aggregatedListAsync({ project: this.projectId })) {
+                disks.push(...(scopedList.disks ?? []))
+            }
+            return disks
+        } catch (error) {
+            throw new Error(`Failed to list Google Cloud disks`, { cause: error })
+        }
+    }
+
+    async listSnapshots(): Promise<protos.google.cloud.compute.v1.ISnapshot[]> {
+        this.logger.debug(`Listing Google Cloud snapshots`)
+        try {
+            const [snapshots] = await this.snapshots.list({ project: this.projectId })
+            return snapshots
+        } catch (error) {
+            throw new Error(`Failed to list Google Cloud snapshots`, { cause: error })
+        }
+    }
+
+    async listImages(): Promise<protos.google.cloud.compute.v1.IImage[]> {
+        this.logger.debug(`Listing Google Cloud images`)
+        try {
+            const [images] = await this.images.list({ project: this.projectId })
+            return images
+        } catch (error) {
+            throw new Error(`Failed to list Google Cloud images`, { cause: error })
+        }
+    }
+
+    /**
+     * Delete an instance and wait for deletion to complete so its disks are detached
+     */
+    async deleteInstance(zone: string, instanceName: string) {
+        this.logger.debug(`Deleting Google Cloud instance ${instanceName} in zone ${zone}`)
+        try {
+            const [response] = await this.instances.delete({
+                instance: instanceName,
+                project: this.projectId,
+                zone: zone
+            })
+            await this.waitOperation(response.latestResponse.name, zone)
+        } catch (error) {
+            throw new Error(`Failed to delete Google Cloud instance ${instanceName}`, { cause: error })
+        }
+    }
+
+    async deleteDisk(zone: string, diskName: string) {
+        this.logger.debug(`Deleting Google Cloud disk ${diskName} in zone ${zone}`)
+        try {
+            await this.disks.delete({
+                disk: diskName,
+                project: this.projectId,
+                zone: zone
+            })
+        } catch (error) {
+            throw new Error(`Failed to delete Google Cloud disk ${diskName}`, { cause: error })
+        }
+    }
+
+    async deleteSnapshot(snapshotName: string) {
+        this.logger.debug(`Deleting Google Cloud snapshot ${snapshotName}`)
+        try {
+            await this.snapshots.delete({
+                snapshot: snapshotName,
+                project: this.projectId
+            })
+        } catch (error) {
+            throw new Error(`Failed to delete Google Cloud snapshot ${snapshotName}`, { cause: error })
+        }
+    }
+
+    async deleteImage(imageName: string) {
+        this.logger.debug(`Deleting Google Cloud image ${imageName}`)
+        try {
+            await this.images.delete({
+                image: imageName,
+                project: this.projectId
+            })
+        } catch (error) {
+            throw new Error(`Failed to delete Google Cloud image ${imageName}`, { cause: error })
+        }
+    }
+
     private async waitOperation(operationName: string, zone: string, waitTimeoutSeconds?: number): Promise<void> {
         const operationsClient = new ZoneOperationsClient()
         const startTime = Date.now()
@@ -380,4 +507,11 @@ export class GcpClient {
     }
 
 
-}
\ No newline at end of file
+}
+
+/**
+ * Whether error is a not found error, either from REST API (HTTP 404) or gRPC API (code 5 NOT_FOUND)
+ */
+function isGcpNotFoundError(error: unknown): boolean {
+    return typeof error === "object" && error !== null && "code" in error && (error.code === 404 || error.code === 5)
+}
@@ -0,0 +1,328 @@
+import { LinodeInstanceInput, LinodeInstanceStateV1, LinodeProvisionInputV1 } from "./state"
+import { CommonConfigurationInputV1, CommonInstanceInput } from "../../core/state/state"
+import { input, select } from '@inquirer/prompts';
+import { AbstractInputPrompter, PromptOptions } from "../../cli/prompter";
+import { LinodeClient } from "./sdk-client";
+import { CLOUDYPAD_PROVIDER_LINODE } from "../../core/const";
+import { PartialDeep } from "type-fest";
+import { CreateCliArgsSchema, CLI_OPTION_AUTO_STOP_TIMEOUT, CLI_OPTION_AUTO_STOP_ENABLE, CLI_OPTION_STREAMING_SERVER, CLI_OPTION_SUNSHINE_IMAGE_REGISTRY, CLI_OPTION_SUNSHINE_IMAGE_TAG, CLI_OPTION_SUNSHINE_PASSWORD, CLI_OPTION_SUNSHINE_USERNAME, CliCommandGenerator, UpdateCliArgsSchema, CLI_OPTION_USE_LOCALE, CLI_OPTION_KEYBOARD_LAYOUT, CLI_OPTION_KEYBOARD_MODEL, CLI_OPTION_KEYBOARD_VARIANT, CLI_OPTION_KEYBOARD_OPTIONS, CLI_OPTION_DATA_DISK_SIZE, CLI_OPTION_ROOT_DISK_SIZE, BuildCreateCommandArgs, BuildUpdateCommandArgs, CLI_OPTION_RATE_LIMIT_MAX_MBPS, CLI_OPTION_SUNSHINE_MAX_BITRATE_KBPS, CLI_OPTION_BASE_IMAGE_SNAPSHOT_ENABLE, CLI_OPTION_KEEP_BASE_IMAGE_ON_DELETION } from "../../cli/command";
+import { InteractiveInstanceInitializer } from "../../cli/initializer";
+import { RUN_COMMAND_CREATE, RUN_COMMAND_UPDATE } from "../../tools/analytics/events";
+import { InteractiveInstanceUpdater } from "../../cli/updater";
+import { LinodeProviderClient, LINODE_PROVIDER_CAPABILITIES } from "./provider";
+import { z } from "zod";
+
+/**
+ * SSH user used on Linode instances. Linode only allows setting authorized keys for root user on instance creation.
+ */
+const LINODE_SSH_USER = "root"
+
+/**
+ * Zod schema for Linode-specific CLI arguments.
+ * Extends the generic CreateCliArgsSchema with Linode-specific options.
+ * This schema matches what Commander.js produces from CLI flags.
+ */
+export const LinodeCreateCliArgsSchema = CreateCliArgsSchema.extend({
+    region: z.string().optional(),
+    instanceType: z.string().optional(),
+    rootDiskSize: z.number().optional(),
+    dataDiskSize: z.number().optional(),
+    imageId: z.string().optional(),
+    dnsDomainName: z.string().optional(),
+    dnsRecord: z.string().optional(),
+    baseImageSnapshot: z.boolean().optional(),
+    baseImageKeepOnDeletion: z.boolean().optional(),
+}).passthrough()
+
+/**
+ * Linode-specific CLI arguments for create command.
+ * Type is inferred from Zod schema to ensure consistency.
+ */
+export type LinodeCreateCliArgs = z.infer<typeof LinodeCreateCliArgsSchema>
+
+/**
+ * Zod schema for Linode-specific update CLI arguments.
+ */
+export const LinodeUpdateCliArgsSchema = UpdateCliArgsSchema.extend({
+    instanceType: z.string().optional(),
+    rootDiskSize: z.number().optional(),
+    dataDiskSize: z.number().optional(),
+    imageId: z.string().optional(),
+    dnsDomainName: z.string().optional(),
+    dnsRecord: z.string().optional(),
+})
+
+/**
+ * Linode-specific CLI arguments for update command.
+ * Type is inferred from Zod schema to ensure consistency.
+ */
+export type LinodeUpdateCliArgs = z.infer<typeof LinodeUpdateCliArgsSchema>
+
+export class LinodeInputPrompter extends AbstractInputPrompter<LinodeCreateCliArgs, LinodeProvisionInputV1, CommonConfigurationInputV1> {
+
+    protected buildProvisionerInputFromCliArgs(cliArgs: LinodeCreateCliArgs): PartialDeep<LinodeInstanceInput> {
+
+        return {
+            provision: {
+                region: cliArgs.region,
+                instanceType: cliArgs.instanceType,
+                rootDiskSizeGb: cliArgs.rootDiskSize,
+                dataDiskSizeGb: cliArgs.dataDiskSize,
+                imageId: cliArgs.imageId,
+                dns: cliArgs.dnsDomainName ? {
+                    domainName: cliArgs.dnsDomainName,
+                    record: cliArgs.dnsRecord,
+                } : undefined,
+                baseImageSnapshot: cliArgs.baseImageSnapshot ? {
+                    enable: cliArgs.baseImageSnapshot,
+                    keepOnDeletion: cliArgs.baseImageKeepOnDeletion
+                } : undefined
+            }
+        }
+    }
+
+    protected async promptSpecificInput(commonInput: CommonInstanceInput, partialInput: PartialDeep<LinodeInstanceInput>, createOptions: PromptOptions): Promise<LinodeInstanceInput> {
+
+        if(!createOptions.autoApprove && !createOptions.skipQuotaWarning){
+            await this.informCloudProviderQuotaWarning(CLOUDYPAD_PROVIDER_LINODE, "https://docs.cloudypad.gg/cloud-provider-setup/linode.html")
+        }
+
+        const region = await this.region(partialInput.provision?.region)
+        const instanceType = await this.instanceType(partialInput.provision?.instanceType)
+        const rootDiskSizeGb = await this.rootDiskSize(partialInput.provision?.rootDiskSizeGb)
+        const dataDiskSizeGb = await this.dataDiskSize(partialInput.provision?.dataDiskSizeGb)
+        const dns = await this.dns(partialInput.provision?.dns, createOptions.autoApprove)
+
+        const linodeInput: LinodeInstanceInput = {
+            configuration: commonInput.configuration,
+            instanceName: commonInput.instanceName,
+            provision: {
+                ssh: {
+                    ...commonInput.provision.ssh,
+                    user: LINODE_SSH_USER,
+                },
+                region: region,
+                instanceType: instanceType,
+                rootDiskSizeGb: rootDiskSizeGb,
+                dataDiskSizeGb: dataDiskSizeGb,
+                imageId: partialInput.provision?.imageId,
+                dns: dns,
+                // Watchdog is required during configuration as Ansible may reboot instance
+                // Without watchdog, reboot would effectively shutdown instance
+                watchdogEnabled: partialInput.provision?.watchdogEnabled ?? true,
+                // Linode always deletes instance server on stop
+                deleteInstanceServerOnStop: true,
+                baseImageSnapshot: partialInput.provision?.baseImageSnapshot?.enable ? {
+                    enable: partialInput.provision.baseImageSnapshot.enable,
+                    keepOnDeletion: partialInput.provision.baseImageSnapshot.keepOnDeletion
+                } : undefined
+            }
+        }
+
+        return linodeInput
+    }
+
+    private async region(region?: string): Promise<string> {
+        if (region) {
+            return region
+        }
+
+        const regions = await new LinodeClient().listRegions()
+
+        const choices = regions.sort().map(r => ({ name: r, value: r }))
+
+        return await select({
+            message: 'Region:',
+            choices: choices,
+            loop: false
+        })
+    }
+
+    private async instanceType(instanceType?: string): Promise<string> {
+        if (instanceType) {
+            return instanceType
+        }
+
+        const types = await new LinodeClient().listInstanceTypes()
+
+        // only show GPU instance types
+        const choices = types
+            .filter(t => t.gpus > 0)
+            .sort((a, b) => a.vcpus - b.vcpus)
+            .map(t => ({ name: `${t.id} (${t.label}, ${t.vcpus} CPU, ${t.memory / 1024} GB RAM, ${t.gpus} GPU)`, value: t.id }))
+
+        if(choices.length == 0){
+            console.warn("⚠️ No GPU instance type found. You may need to request GPU access on your Linode account.")
+        }
+
+        choices.push({ name: "Let me type an instance type", value: "_" })
+
+        let selectedType = await select({
+            message: 'Instance type:',
+            choices: choices,
+            loop: false
+        })
+
+        if(selectedType === "_"){
+            selectedType = await input({
+                message: 'Type an instance type:',
+            })
+        }
+
+        return selectedType
+    }
+
+    private async rootDiskSize(diskSize?: number): Promise<number> {
+        if (diskSize) {
+            return diskSize
+        }
+
+        // If not overridden, use a static default value
+        // As OS disk size is managed by Cloudy Pad and should not impact user
+        // except for specific customizations
+        return 50
+    }
+
+    private async dataDiskSize(diskSize?: number): Promise<number> {
+        if (diskSize !== undefined) { // allow 0 meaning explicit no data disk
+            return diskSize
+        }
+
+        let selectedDiskSize: string
+        let parsedDiskSize: number | undefined = undefined
+
+        while (parsedDiskSize === undefined || isNaN(parsedDiskSize)) {
+            selectedDiskSize = await input({
+                message: 'Data disk size in GB (OS will use another independent disk)',
+                default: "100"
+            })
+            parsedDiskSize = Number.parseInt(selectedDiskSize)
+        }
+
+        return parsedDiskSize
+    }
+
+    /**
+     * Prompt for optional DNS configuration. If a domain name is provided, use it without prompting.
+     * Otherwise, prompt for domain name unless auto-approve is set, in which case no DNS is configured.
+     */
+    private async dns(dns?: PartialDeep<LinodeProvisionInputV1["dns"]>, autoApprove?: boolean): Promise<LinodeProvisionInputV1["dns"]> {
+        if (dns?.domainName) {
+            return {
+                domainName: dns.domainName,
+                record: dns.record,
+            }
+        }
+
+        if (autoApprove) {
+            return undefined
+        }
+
+        const domainName = await input({
+            message: 'Linode DNS domain name to create a DNS record for instance (leave empty to use instance public IP as hostname):',
+        })
+
+        if (!domainName) {
+            return undefined
+        }
+
+        const record = await input({
+            message: 'DNS record name (leave empty to use an auto-generated record name):',
+        })
+
+        return {
+            domainName: domainName,
+            record: record ? record : undefined,
+        }
+    }
+}
+
+export class LinodeCliCommandGenerator extends CliCommandGenerator {
+
+    buildCreateCommand(args: BuildCreateCommandArgs) {
+        return this.getBaseCreateCommand(CLOUDYPAD_PROVIDER_LINODE, LINODE_PROVIDER_CAPABILITIES)
+            .addOption(CLI_OPTION_ROOT_DISK_SIZE)
+            .addOption(CLI_OPTION_STREAMING_SERVER)
+            .addOption(CLI_OPTION_SUNSHINE_USERNAME)
+            .addOption(CLI_OPTION_SUNSHINE_PASSWORD)
+            .addOption(CLI_OPTION_SUNSHINE_IMAGE_TAG)
+            .addOption(CLI_OPTION_SUNSHINE_IMAGE_REGISTRY)
+            .addOption(CLI_OPTION_SUNSHINE_MAX_BITRATE_KBPS)
+            .addOption(CLI_OPTION_AUTO_STOP_ENABLE)
+            .addOption(CLI_OPTION_AUTO_STOP_TIMEOUT)
+            .addOption(CLI_OPTION_USE_LOCALE)
+            .addOption(CLI_OPTION_KEYBOARD_LAYOUT)
+            .addOption(CLI_OPTION_KEYBOARD_MODEL)
+            .addOption(CLI_OPTION_KEYBOARD_VARIANT)
+            .addOption(CLI_OPTION_KEYBOARD_OPTIONS)
+            .addOption(CLI_OPTION_RATE_LIMIT_MAX_MBPS)
+            .option('--region <region>', 'Region in which to deploy instance')
+            .option('--instance-type <instance-type>', 'Instance type')
+            .option('--image-id <image-id>', 'Existing image ID for instance server. Disk size must be equal or greater than image size.')
+            .option('--dns-domain-name <domain>', 'Linode DNS domain name. If set, a DNS record pointing to instance public IP will be created and used as instance hostname.')
+            .option('--dns-record <record>', 'DNS record name to create under --dns-domain-name. Auto-generated if not set.')
+            .action(async (rawCliArgs: unknown) => {
+                // Parse raw CLI args using Zod schema early to ensure type safety
+                const cliArgs = LinodeCreateCliArgsSchema.parse(rawCliArgs)
+
+                this.analytics.sendEvent(RUN_COMMAND_CREATE, { provider: CLOUDYPAD_PROVIDER_LINODE })
+
+                try {
+                    const linodeProviderClient = new LinodeProviderClient({ config: args.coreConfig })
+                    const linodeInstanceInitializer = new InteractiveInstanceInitializer<LinodeInstanceStateV1, LinodeCreateCliArgs>({
+                        providerClient: linodeProviderClient,
+                        inputPrompter: new LinodeInputPrompter({ coreConfig: args.coreConfig }),
+                        initArgs: cliArgs
+                    })
+
+                    await linodeInstanceInitializer.initializeInteractive()
+
+                } catch (error) {
+                    throw new Error('Linode instance initilization failed', { cause: error })
+                }
+            })
+    }
+
+    buildUpdateCommand(args: BuildUpdateCommandArgs) {
+        return this.getBaseUpdateCommand(CLOUDYPAD_PROVIDER_LINODE)
+            .addOption(CLI_OPTION_ROOT_DISK_SIZE)
+            .addOption(CLI_OPTION_DATA_DISK_SIZE)
+            .addOption(CLI_OPTION_SUNSHINE_USERNAME)
+            .addOption(CLI_OPTION_SUNSHINE_PASSWORD)
+            .addOption(CLI_OPTION_SUNSHINE_IMAGE_TAG)
+            .addOption(CLI_OPTION_SUNSHINE_IMAGE_REGISTRY)
+            .addOption(CLI_OPTION_SUNSHINE_MAX_BITRATE_KBPS)
+            .addOption(CLI_OPTION_AUTO_STOP_ENABLE)
+            .addOption(CLI_OPTION_AUTO_STOP_TIMEOUT)
+            .addOption(CLI_OPTION_USE_LOCALE)
+            .addOption(CLI_OPTION_KEYBOARD_LAYOUT)
+            .addOption(CLI_OPTION_KEYBOARD_MODEL)
+            .addOption(CLI_OPTION_KEYBOARD_VARIANT)
+            .addOption(CLI_OPTION_KEYBOARD_OPTIONS)
+            .addOption(CLI_OPTION_RATE_LIMIT_MAX_MBPS)
+            .addOption(CLI_OPTION_BASE_IMAGE_SNAPSHOT_ENABLE)
+            .addOption(CLI_OPTION_KEEP_BASE_IMAGE_ON_DELETION)
+            .option('--instance-type <instance-type>', 'Instance type')
+            .option('--image-id <image-id>', 'Existing image ID for instance server. Disk size must be equal or greater than image size.')
+            .option('--dns-domain-name <domain>', 'Linode DNS domain name. If set, a DNS record pointing to instance public IP will be created and used as instance hostname.')
+            .option('--dns-record <record>', 'DNS record name to create under --dns-domain-name. Auto-generated if not set.')
+            .action(async (rawCliArgs: unknown) => {
+                // Parse raw CLI args using Zod schema early to ensure type safety
+                const cliArgs = LinodeUpdateCliArgsSchema.parse(rawCliArgs)
+
+                this.analytics.sendEvent(RUN_COMMAND_UPDATE, { provider: CLOUDYPAD_PROVIDER_LINODE })
+
+                try {
+                    await new InteractiveInstanceUpdater<LinodeInstanceStateV1, LinodeUpdateCliArgs>({
+                        providerClient: new LinodeProviderClient({ config: args.coreConfig }),
+                        inputPrompter: new LinodeInputPrompter({ coreConfig: args.coreConfig }),
+                    }).updateInteractive(cliArgs)
+
+                    console.info(`Updated instance ${cliArgs.name}`)
+
+                } catch (error) {
+                    throw new Error('Linode instance update failed', { cause: error })
+                }
+            })
+    }
+}
@@ -0,0 +1,42 @@
+import { PricingCatalog } from "../../core/pricing"
+import { BilledResources } from "../../core/cost"
+import { LinodeProvisionInputV1 } from "./state"
+
+/**
+ * Approximate Linode (Akamai) prices
+ */
+export const LINODE_PRICING_CATALOG: PricingCatalog = {
+    version: "2025-06-01",
+    currency: "USD",
+    instanceHourly: {
+        "g1-gpu-rtx6000-1": 1.5,
+        "g1-gpu-rtx6000-2": 3,
+        "g1-gpu-rtx6000-3": 4.5,
+        "g1-gpu-rtx6000-4": 6,
+        "g2-gpu-rtx4000a1-s": 0.52,
+        "g2-gpu-rtx4000a1-m": 0.67,
+        "g2-gpu-rtx4000a1-l": 0.96,
+        "g2-gpu-rtx4000a1-xl": 1.23,
+    },
+    // Block Storage volumes
+    diskGbMonth: 0.1,
+    // Linode has no disk snapshots, images are used instead
+    snapshotGbMonth: 0.1,
+    imageGbMonth: 0.1,
+    // Public IPv4 included with instance
+    staticIpHourly: 0,
+    // Transfer beyond pooled instance allowance
+    egressGb: 0.005,
+}
+
+/**
+ * Resources billed for an instance with given provision input
+ */
+export function getLinodeBilledResources(input: LinodeProvisionInputV1): BilledResources {
+    // Root disk is included in instance type price
+    return {
+        instanceType: input.instanceType,
+        rootDiskSizeGb: 0,
+        dataDiskSizeGb: input.dataDiskSizeGb,
+    }
+}
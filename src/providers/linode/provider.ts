@@ -11,6 +11,18 @@ import { LinodeRunnerFactory } from "./factory"
 import { LinodeProvisionerFactory } from "./factory"
 import { AnsibleConfiguratorFactory } from "../../configurators/ansible"
 import { GenericStateParser } from "../../core/state/parser"
+import { ProviderCapabilities } from "../../core/provider-capabilities"
+
+export const LINODE_PROVIDER_CAPABILITIES: ProviderCapabilities = {
+    spot: false,
+    staticIp: false,
+    costAlert: false,
+    dataDisk: true,
+    dataDiskSnapshot: false,
+    baseImageSnapshot: true,
+    // instance server is always deleted on stop, it can't be disabled
+    deleteInstanceServerOnStop: false,
+}
 
 export type LinodeProviderClientArgs = {
     config: CoreConfig
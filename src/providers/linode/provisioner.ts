@@ -1,6 +1,8 @@
 import { AbstractInstanceProvisioner, InstanceProvisionerArgs, ProvisionerActionOptions } from '../../core/provisioner'
+import { ProvisionStackPlan } from '../../core/plan'
+import { ProvisionedResourceCheck } from '../../core/drift'
 import { LinodePulumiClient, PulumiStackConfigLinode, LinodePulumiOutput } from './pulumi/main'
-import { LinodeBaseImagePulumiClient } from './pulumi/base-image-snapshot'
+import { LinodeBaseImagePulumiClient, LinodeBaseImagePulumiStackConfig } from './pulumi/base-image-snapshot'
 import { LinodeProvisionInputV1, LinodeProvisionOutputV1 } from './state'
 import { SshKeyLoader } from '../../tools/ssh'
 import { LinodeClient } from './sdk-client'
@@ -68,19 +70,9 @@ export class LinodeProvisioner extends AbstractInstanceProvisioner<LinodeProvisi
 
         this.logger.debug(`Creating base image for instance ${this.args.instanceName}`)
 
-        const apiToken = this.args.provisionInput.apiToken ?? process.env.LINODE_TOKEN
-        if(!apiToken) {
-            throw new Error('Linode API token is required. Linode API token must be set either in state or as LINODE_TOKEN environment variable.')
-        }
-
         const baseImageClient = this.buildBaseImageSnapshotPulumiClient()
         
-        await baseImageClient.setConfig({
-            instanceName: this.args.instanceName,
-            apiToken: apiToken,
-            diskId: parseInt(this.args.provisionOutput.rootDiskId),
-            linodeId: parseInt(this.args.provisionOutput.instanceServerId),
-        })
+        await baseImageClient.setConfig(this.buildBaseImagePulumiConfig(this.args.provisionOutput.rootDiskId, this.args.provisionOutput.instanceServerId))
         const imageOutput = await baseImageClient.up()
 
         this.logger.debug(`Base image output: ${JSON.stringify(imageOutput)}`)
@@ -113,6 +105,54 @@ export class LinodeProvisioner extends AbstractInstanceProvisioner<LinodeProvisi
         await baseImageClient.destroy({ cancel: opts?.pulumiCancel })
     }
 
+    async doPlan(opts?: ProvisionerActionOptions): Promise<ProvisionStackPlan[]> {
+        const plans: ProvisionStackPlan[] = []
+
+        plans.push(await this.previewPulumiStack("main", this.buildPulumiClient(), this.buildPulumiConfig(), opts))
+
+        const rootDiskId = this.args.provisionOutput?.rootDiskId
+        const instanceServerId = this.args.provisionOutput?.instanceServerId
+        if (this.isBaseImageSnapshotPlanned() && rootDiskId && instanceServerId) {
+            plans.push(await this.previewPulumiStack("base-image", this.buildBaseImageSnapshotPulumiClient(), 
+                this.buildBaseImagePulumiConfig(rootDiskId, instanceServerId), opts))
+        }
+
+        return plans
+    }
+
+    async doDetectDrift(opts?: ProvisionerActionOptions): Promise<ProvisionedResourceCheck[]> {
+        await this.buildPulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        if (this.args.provisionInput.baseImageSnapshot?.enable) {
+            await this.buildBaseImageSnapshotPulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        }
+
+        const client = new LinodeClient({ region: this.args.provisionInput.region })
+        const output = this.args.provisionOutput
+
+        // Data disk is always kept on Linode (volume survives instance server deletion)
+        // and its ID is required in output, only check instance server and base image
+        return this.checkProvisionedResources([
+            { resource: "instance-server", id: output?.instanceServerId, outputKeys: [ "instanceServerId", "instanceServerName", "rootDiskId" ],
+                exists: async (id) => (await client.getInstance(id)) !== null },
+            { resource: "base-image", id: output?.baseImageId, outputKeys: [ "baseImageId" ],
+                exists: async (id) => (await client.getImage(id)) !== null },
+        ])
+    }
+
+    private buildBaseImagePulumiConfig(rootDiskId: string, instanceServerId: string): LinodeBaseImagePulumiStackConfig {
+        const apiToken = this.args.provisionInput.apiToken ?? process.env.LINODE_TOKEN
+        if(!apiToken) {
+            throw new Error('Linode API token is required. Linode API token must be set either in state or as LINODE_TOKEN environment variable.')
+        }
+
+        return {
+            instanceName: this.args.instanceName,
+            apiToken: apiToken,
+            diskId: parseInt(rootDiskId),
+            linodeId: parseInt(instanceServerId),
+        }
+    }
+
     private buildPulumiConfig(): PulumiStackConfigLinode {
         const sshPublicKeyContent = new SshKeyLoader().loadSshPublicKeyContent(this.args.provisionInput.ssh)
 
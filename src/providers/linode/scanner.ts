@@ -0,0 +1,105 @@
+import { getLogger } from "../../log/utils"
+import { CloudResourceScanArgs, CloudResourceScanner, TaggedCloudResource } from "../../core/orphans"
+import { CLOUDYPAD_PROVIDER_LINODE } from "../../core/const"
+import { LinodeClient } from "./sdk-client"
+import { linodeLabel } from "./pulumi/utils"
+
+/**
+ * Prefix of tag set on all instance resources once made a valid Linode label ("instance:<name>" becomes "instance-<name>"), see Pulumi stacks
+ */
+const INSTANCE_TAG_PREFIX = "instance-"
+
+const MB_PER_GB = 1000
+
+/**
+ * Scan Linode account for Linodes, volumes and private images created by Cloudy Pad.
+ * Linode resources are listed account-wide: scopes are ignored.
+ *
+ * Linode tags are slugified (and hashed if too long), instance name is found by matching tags
+ * against known instances tags, or by removing tag prefix for unknown instances.
+ */
+export class LinodeResourceScanner implements CloudResourceScanner {
+
+    private readonly logger = getLogger(LinodeResourceScanner.name)
+
+    async listTaggedResources(args: CloudResourceScanArgs): Promise<TaggedCloudResource[]> {
+        const client = new LinodeClient()
+        const resources: TaggedCloudResource[] = []
+
+        const knownInstanceTags = new Map(args.knownInstanceNames.map(n => [ linodeLabel(`instance:${n}`), n ]))
+        const getInstanceName = (tags: string[] | undefined) => {
+            for (const tag of tags ?? []) {
+                const knownName = knownInstanceTags.get(tag)
+                if (knownName) {
+                    return knownName
+                }
+            }
+            return tags?.find(t => t.startsWith(INSTANCE_TAG_PREFIX))?.substring(INSTANCE_TAG_PREFIX.length)
+        }
+
+        this.logger.debug(`Scanning Linode account`)
+
+        for (const linode of await client.listInstances()) {
+            const instanceName = getInstanceName(linode.tags)
+            if (!instanceName) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_LINODE,
+                kind: "instance-server",
+                id: String(linode.id),
+                name: linode.label,
+                instanceName: instanceName,
+                instanceType: linode.type,
+                running: linode.status !== "offline",
+            })
+        }
+
+        for (const volume of await client.listVolumes()) {
+            const instanceName = getInstanceName(volume.tags)
+            if (!instanceName) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_LINODE,
+                kind: "disk",
+                id: String(volume.id),
+                name: volume.label,
+                instanceName: instanceName,
+                location: volume.region,
+                sizeGb: volume.size,
+            })
+        }
+
+        for (const image of await client.listPrivateImages()) {
+            const instanceName = getInstanceName(image.tags)
+            if (!instanceName) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_LINODE,
+                kind: "image",
+                id: image.id,
+                name: image.label,
+                instanceName: instanceName,
+                sizeGb: image.size / MB_PER_GB,
+            })
+        }
+
+        return resources
+    }
+
+    async deleteResource(resource: TaggedCloudResource): Promise<void> {
+        const client = new LinodeClient()
+        switch (resource.kind) {
+            case "instance-server":
+                return client.deleteInstance(resource.id)
+            case "disk":
+                return client.deleteVolume(resource.id)
+            case "image":
+                return client.deleteImage(resource.id)
+            case "snapshot":
+                throw new Error(`Linode has no snapshot resources, can't delete ${resource.id}`)
+        }
+    }
+}
@@ -12,6 +12,9 @@ import {
     getImage,
     getVolume,
     getVolumes,
+    getImages,
+    deleteVolume,
+    deleteImage,
 } from '@linode/api-v4'
 import type { Linode, LinodeStatus, Image, Volume } from '@linode/api-v4'
 import { getAccountInfo } from '@linode/api-v4/lib/account'
@@ -293,6 +296,24 @@ export class LinodeClient {
         }
     }
 
+    /**
+     * Get a Linode instance by ID
+     * @param instanceId Linode instance ID
+     * @returns Linode instance if exists, null otherwise
+     */
+    async getInstance(instanceId: string | number): Promise<Linode | null> {
+        this.logger.debug(`Getting Linode instance ${instanceId}`)
+        try {
+            const safeId = await this.instanceIdStringNumberToNumber(instanceId)
+            return await getLinode(safeId)
+        } catch (error) {
+            if (isLinodeNotFoundError(error)) {
+                return null
+            }
+            throw new Error(`Failed to get Linode instance ${instanceId}`, { cause: error })
+        }
+    }
+
     /**
      * Get an image by image ID
      * @param imageId Image ID to get (e.g., "private/12345678" or "linode/ubuntu22.04")
@@ -303,8 +324,8 @@ export class LinodeClient {
         try {
             const image = await getImage(imageId)
             return image
-        } catch (error: any) {
-            if (error?.statusCode === 404 || error?.message?.includes('Not found')) {
+        } catch (error) {
+            if (isLinodeNotFoundError(error)) {
                 return null
             }
             throw new Error(`Failed to get image ${imageId}`, { cause: error })
@@ -325,8 +346,8 @@ export class LinodeClient {
             }
             const volume = await getVolume(volumeIdNumber)
             return volume
-        } catch (error: any) {
-            if (error?.statusCode === 404 || error?.message?.includes('Not found')) {
+        } catch (error) {
+            if (isLinodeNotFoundError(error)) {
                 return null
             }
             throw new Error(`Failed to get volume ${volumeId}`, { cause: error })
@@ -344,14 +365,58 @@ export class LinodeClient {
             const volumesResponse = await getVolumes()
             const volume = volumesResponse.data.find(v => v.label === label)
             return volume || null
-        } catch (error: any) {
-            if (error?.statusCode === 404 || error?.message?.includes('Not found')) {
+        } catch (error) {
+            if (isLinodeNotFoundError(error)) {
                 return null
             }
             throw new Error(`Failed to get volume by label ${label}`, { cause: error })
         }
     }
 
+    /**
+     * List all volumes
+     */
+    async listVolumes(): Promise<Volume[]> {
+        this.logger.debug("Listing all Linode volumes")
+        try {
+            const volumes = await getVolumes({ page_size: 500 })
+            return volumes.data
+        } catch (error) {
+            throw new Error(`Failed to list Linode volumes`, { cause: error })
+        }
+    }
+
+    /**
+     * List private images
+     */
+    async listPrivateImages(): Promise<Image[]> {
+        this.logger.debug("Listing Linode private images")
+        try {
+            const images = await getImages({ page_size: 500 }, { is_public: false })
+            return images.data
+        } catch (error) {
+            throw new Error(`Failed to list Linode private images`, { cause: error })
+        }
+    }
+
+    async deleteVolume(volumeId: string | number): Promise<void> {
+        this.logger.debug(`Deleting volume ${volumeId}`)
+        try {
+            await deleteVolume(Number(volumeId))
+        } catch (error) {
+            throw new Error(`Failed to delete Linode volume ${volumeId}`, { cause: error })
+        }
+    }
+
+    async deleteImage(imageId: string): Promise<void> {
+        this.logger.debug(`Deleting image ${imageId}`)
+        try {
+            await deleteImage(imageId)
+        } catch (error) {
+            throw new Error(`Failed to delete Linode image ${imageId}`, { cause: error })
+        }
+    }
+
     /**
      * Wait for Linode instance to reach oone of the given statuses.
      */
@@ -403,4 +468,15 @@ export class LinodeClient {
                 })
         })
     }
-} 
\ No newline at end of file
+} 
+
+/**
+ * Whether error is a not found error from Linode API
+ */
+function isLinodeNotFoundError(error: unknown): boolean {
+    if (typeof error !== "object" || error === null) {
+        return false
+    }
+    return ("statusCode" in error && error.statusCode === 404) ||
+        ("message" in error && typeof error.message === "string" && error.message.includes('Not found'))
+}
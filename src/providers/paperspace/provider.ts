@@ -12,6 +12,17 @@ import { PaperspaceProvisionerFactory } from "./factory"
 import { AnsibleConfiguratorFactory } from "../../configurators/ansible"
 import { GenericStateParser } from "../../core/state/parser"
 import { CLOUDYPAD_PROVIDER } from "../../core/const"
+import { ProviderCapabilities } from "../../core/provider-capabilities"
+
+export const PAPERSPACE_PROVIDER_CAPABILITIES: ProviderCapabilities = {
+    spot: false,
+    staticIp: true,
+    costAlert: false,
+    dataDisk: false,
+    dataDiskSnapshot: false,
+    baseImageSnapshot: false,
+    deleteInstanceServerOnStop: false,
+}
 
 export type PaperspaceProviderClientArgs = {
     config: CoreConfig
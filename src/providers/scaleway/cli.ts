@@ -9,7 +9,7 @@ import { CreateCliArgsSchema, CLI_OPTION_AUTO_STOP_TIMEOUT, CLI_OPTION_AUTO_STOP
 import { InteractiveInstanceInitializer } from "../../cli/initializer";
 import { RUN_COMMAND_CREATE, RUN_COMMAND_UPDATE } from "../../tools/analytics/events";
 import { InteractiveInstanceUpdater } from "../../cli/updater";
-import { ScalewayProviderClient } from "./provider";
+import { ScalewayProviderClient, SCALEWAY_PROVIDER_CAPABILITIES } from "./provider";
 import { z } from "zod";
 
 /**
@@ -252,9 +252,8 @@ export class ScalewayInputPrompter extends AbstractInputPrompter<ScalewayCreateC
 export class ScalewayCliCommandGenerator extends CliCommandGenerator {
     
     buildCreateCommand(args: BuildCreateCommandArgs) {
-        return this.getBaseCreateCommand(CLOUDYPAD_PROVIDER_SCALEWAY)
+        return this.getBaseCreateCommand(CLOUDYPAD_PROVIDER_SCALEWAY, SCALEWAY_PROVIDER_CAPABILITIES)
             .addOption(CLI_OPTION_ROOT_DISK_SIZE)
-            .addOption(CLI_OPTION_DATA_DISK_SIZE)
             .addOption(CLI_OPTION_STREAMING_SERVER)
             .addOption(CLI_OPTION_SUNSHINE_USERNAME)
             .addOption(CLI_OPTION_SUNSHINE_PASSWORD)
@@ -269,10 +268,6 @@ export class ScalewayCliCommandGenerator extends CliCommandGenerator {
             .addOption(CLI_OPTION_KEYBOARD_VARIANT)
             .addOption(CLI_OPTION_KEYBOARD_OPTIONS)
             .addOption(CLI_OPTION_RATE_LIMIT_MAX_MBPS)
-            .addOption(CLI_OPTION_DELETE_INSTANCE_SERVER_ON_STOP)
-            .addOption(CLI_OPTION_DATA_DISK_SNAPSHOT_ENABLE)
-            .addOption(CLI_OPTION_BASE_IMAGE_SNAPSHOT_ENABLE)
-            .addOption(CLI_OPTION_KEEP_BASE_IMAGE_ON_DELETION)
             .option('--region <region>', 'Region in which to deploy instance')
             .option('--zone <zone>', 'Zone in which to deploy instance')
             .option('--project-id <projectid>', 'Project ID in which to deploy resources')
@@ -0,0 +1,39 @@
+import { PricingCatalog } from "../../core/pricing"
+import { BilledResources } from "../../core/cost"
+import { ScalewayProvisionInputV1 } from "./state"
+
+/**
+ * Approximate Scaleway prices (fr-par)
+ */
+export const SCALEWAY_PRICING_CATALOG: PricingCatalog = {
+    version: "2025-06-01",
+    currency: "EUR",
+    instanceHourly: {
+        "GPU-3070-S": 0.98,
+        "RENDER-S": 1.24,
+        "L4-1-24G": 0.75,
+        "L4-2-48G": 1.5,
+        "L4-4-96G": 3,
+        "L40S-1-48G": 1.4,
+        "H100-1-80G": 2.73,
+    },
+    // Block Storage 5K IOPS
+    diskGbMonth: 0.086,
+    snapshotGbMonth: 0.036,
+    // Images are backed by block snapshots
+    imageGbMonth: 0.036,
+    staticIpHourly: 0.004,
+    // Egress is included
+    egressGb: 0,
+}
+
+/**
+ * Resources billed for an instance with given provision input
+ */
+export function getScalewayBilledResources(input: ScalewayProvisionInputV1): BilledResources {
+    return {
+        instanceType: input.instanceType,
+        rootDiskSizeGb: input.diskSizeGb,
+        dataDiskSizeGb: input.dataDiskSizeGb,
+    }
+}
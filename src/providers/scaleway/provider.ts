@@ -16,6 +16,17 @@ import { ScalewayProvisionerFactory } from "./factory"
 import { AnsibleConfiguratorFactory } from "../../configurators/ansible"
 import { GenericStateParser } from "../../core/state/parser"
 import { CLOUDYPAD_PROVIDER } from "../../core/const"
+import { ProviderCapabilities } from "../../core/provider-capabilities"
+
+export const SCALEWAY_PROVIDER_CAPABILITIES: ProviderCapabilities = {
+    spot: false,
+    staticIp: false,
+    costAlert: false,
+    dataDisk: true,
+    dataDiskSnapshot: true,
+    baseImageSnapshot: true,
+    deleteInstanceServerOnStop: true,
+}
 
 export type ScalewayProviderClientArgs = {
     config: CoreConfig
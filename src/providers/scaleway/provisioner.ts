@@ -1,8 +1,10 @@
 import { SshKeyLoader } from '../../tools/ssh'
 import { ScalewayPulumiClient, PulumiStackConfigScaleway } from './pulumi/main'
-import { ScalewayDataDiskSnapshotPulumiClient} from './pulumi/data-volume-snapshot'
-import { ScalewayBaseImagePulumiClient } from './pulumi/base-image-snapshot'
+import { ScalewayDataDiskSnapshotPulumiClient, PulumiStackConfigScalewayDataDiskSnapshot } from './pulumi/data-volume-snapshot'
+import { ScalewayBaseImagePulumiClient, ScalewayBaseImagePulumiStackConfig } from './pulumi/base-image-snapshot'
 import { AbstractInstanceProvisioner, InstanceProvisionerArgs, ProvisionerActionOptions } from '../../core/provisioner'
+import { ProvisionStackPlan } from '../../core/plan'
+import { ProvisionedResourceCheck } from '../../core/drift'
 import { ScalewayProvisionInputV1, ScalewayProvisionOutputV1 } from './state'
 import { ScalewayClient } from './sdk-client'
 import { DATA_DISK_STATE_LIVE, DATA_DISK_STATE_SNAPSHOT } from '../../core/const'
@@ -72,14 +74,8 @@ export class ScalewayProvisioner extends AbstractInstanceProvisioner<ScalewayPro
 
         this.logger.debug(`Creating data disk snapshot for instance ${this.args.instanceName}`)
         
-        await snapshotClient.setConfig({
-            instanceName: this.args.instanceName,
-            projectId: this.args.provisionInput.projectId,
-            region: this.args.provisionInput.region,
-            zone: this.args.provisionInput.zone,
-            // may be undefined, in which case simply no-op and will have undefined snapshot ID in output
-            baseVolumeId: this.args.provisionOutput?.dataDiskId,
-        })
+        // data disk ID may be undefined, in which case simply no-op and will have undefined snapshot ID in output
+        await snapshotClient.setConfig(this.buildDataDiskSnapshotPulumiConfig(this.args.provisionOutput?.dataDiskId))
         const snapshotOutput = await snapshotClient.up()
 
         this.logger.debug(`Data disk snapshot output: ${JSON.stringify(snapshotOutput)}`)
@@ -132,13 +128,7 @@ export class ScalewayProvisioner extends AbstractInstanceProvisioner<ScalewayPro
         this.logger.debug(`Creating base image snapshot for instance ${this.args.instanceName}`)
 
         const baseImageClient = this.buildBaseImagePulumiClient()
-        await baseImageClient.setConfig({
-            instanceName: this.args.instanceName,
-            projectId: this.args.provisionInput.projectId,
-            region: this.args.provisionInput.region,
-            zone: this.args.provisionInput.zone,
-            rootVolumeId: this.args.provisionOutput.rootDiskId,
-        })
+        await baseImageClient.setConfig(this.buildBaseImagePulumiConfig(this.args.provisionOutput.rootDiskId))
         const imageOutput = await baseImageClient.up()
 
         this.logger.debug(`Base image snapshot output: ${JSON.stringify(imageOutput)}`)
@@ -152,6 +142,80 @@ export class ScalewayProvisioner extends AbstractInstanceProvisioner<ScalewayPro
     /**
      * Build Pulumi config from provision input, including runtime state.
      */
+    async doPlan(opts?: ProvisionerActionOptions): Promise<ProvisionStackPlan[]> {
+        const plans: ProvisionStackPlan[] = []
+
+        const dataDiskId = this.getPlannedDataDiskSnapshotDiskId()
+        if (dataDiskId) {
+            plans.push(await this.previewPulumiStack("data-disk-snapshot", this.buildDataDiskSnapshotPulumiClient(), 
+                this.buildDataDiskSnapshotPulumiConfig(dataDiskId), opts))
+        }
+
+        plans.push(await this.previewPulumiStack("main", this.buildMainPulumiClient(), this.buildMainPulumiConfig(), opts))
+
+        const rootDiskId = this.args.provisionOutput?.rootDiskId
+        if (this.isBaseImageSnapshotPlanned() && rootDiskId) {
+            plans.push(await this.previewPulumiStack("base-image", this.buildBaseImagePulumiClient(), 
+                this.buildBaseImagePulumiConfig(rootDiskId), opts))
+        }
+
+        return plans
+    }
+
+    async doDetectDrift(opts?: ProvisionerActionOptions): Promise<ProvisionedResourceCheck[]> {
+        await this.buildMainPulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        if (this.args.provisionInput.dataDiskSnapshot?.enable) {
+            await this.buildDataDiskSnapshotPulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        }
+        if (this.args.provisionInput.baseImageSnapshot?.enable) {
+            await this.buildBaseImagePulumiClient().refresh({ cancel: opts?.pulumiCancel })
+        }
+
+        const client = new ScalewayClient(this.args.instanceName, {
+            projectId: this.args.provisionInput.projectId,
+            zone: this.args.provisionInput.zone,
+            region: this.args.provisionInput.region,
+        })
+        const zone = this.args.provisionInput.zone
+        const output = this.args.provisionOutput
+
+        // Pulumi outputs may be prefixed by zone, eg. "fr-par-2/<uuid>"
+        const withoutZone = (id: string) => id.split("/").pop() ?? id
+
+        return this.checkProvisionedResources([
+            { resource: "instance-server", id: output?.instanceServerId, outputKeys: [ "instanceServerId", "instanceServerName" ],
+                exists: async (id) => (await client.getServer(withoutZone(id))) !== null },
+            { resource: "root-disk", id: output?.rootDiskId, outputKeys: [ "rootDiskId" ],
+                exists: async (id) => (await client.getVolume({ zone: zone, volumeId: withoutZone(id) })) !== null },
+            { resource: "data-disk", id: output?.dataDiskId, outputKeys: [ "dataDiskId", "machineDataDiskLookupId" ],
+                exists: async (id) => (await client.getVolume({ zone: zone, volumeId: withoutZone(id) })) !== null },
+            { resource: "data-disk-snapshot", id: output?.dataDiskSnapshotId, outputKeys: [ "dataDiskSnapshotId" ],
+                exists: async (id) => (await client.getSnapshot({ zone: zone, snapshotId: withoutZone(id) })) !== null },
+            { resource: "base-image", id: output?.baseImageId, outputKeys: [ "baseImageId" ],
+                exists: async (id) => (await client.getImage({ zone: zone, imageId: withoutZone(id) })) !== null },
+        ])
+    }
+
+    private buildDataDiskSnapshotPulumiConfig(dataDiskId?: string): PulumiStackConfigScalewayDataDiskSnapshot {
+        return {
+            instanceName: this.args.instanceName,
+            projectId: this.args.provisionInput.projectId,
+            region: this.args.provisionInput.region,
+            zone: this.args.provisionInput.zone,
+            baseVolumeId: dataDiskId,
+        }
+    }
+
+    private buildBaseImagePulumiConfig(rootDiskId: string): ScalewayBaseImagePulumiStackConfig {
+        return {
+            instanceName: this.args.instanceName,
+            projectId: this.args.provisionInput.projectId,
+            region: this.args.provisionInput.region,
+            zone: this.args.provisionInput.zone,
+            rootVolumeId: rootDiskId,
+        }
+    }
+
     private buildMainPulumiConfig(): PulumiStackConfigScaleway {
         const sshPublicKeyContent = new SshKeyLoader().loadSshPublicKeyContent(this.args.provisionInput.ssh)
 
@@ -0,0 +1,139 @@
+import { getLogger } from "../../log/utils"
+import { CloudResourceScanArgs, CloudResourceScanner, TaggedCloudResource } from "../../core/orphans"
+import { CLOUDYPAD_PROVIDER_SCALEWAY } from "../../core/const"
+import { ScalewayClient, ScalewayServerState } from "./sdk-client"
+import { ScalewayProvisionInputV1 } from "./state"
+
+/**
+ * Prefix of tag set on all instance resources, see Pulumi stacks
+ */
+const INSTANCE_TAG_PREFIX = "instance:"
+
+const BYTES_PER_GB = 1000 * 1000 * 1000
+
+function getInstanceNameFromTags(tags: string[] | undefined): string | undefined {
+    return tags?.find(t => t.startsWith(INSTANCE_TAG_PREFIX))?.substring(INSTANCE_TAG_PREFIX.length)
+}
+
+/**
+ * Scan Scaleway zones for servers, block volumes, snapshots and images created by Cloudy Pad.
+ * Scanned zones are those of existing instances and additional scopes.
+ */
+export class ScalewayResourceScanner implements CloudResourceScanner {
+
+    private readonly logger = getLogger(ScalewayResourceScanner.name)
+
+    async listTaggedResources(args: CloudResourceScanArgs): Promise<TaggedCloudResource[]> {
+        const zones = new Set([
+            ...args.states.map(s => (s.provision.input as ScalewayProvisionInputV1).zone),
+            ...args.scopes
+        ])
+
+        if (zones.size === 0) {
+            throw new Error("No Scaleway zone to scan. Use --scope to specify zones.")
+        }
+
+        const resources: TaggedCloudResource[] = []
+        for (const zone of zones) {
+            this.logger.debug(`Scanning Scaleway zone ${zone}`)
+            resources.push(...await this.listZoneResources(zone))
+        }
+        return resources
+    }
+
+    async deleteResource(resource: TaggedCloudResource): Promise<void> {
+        if (!resource.location) {
+            throw new Error(`Missing zone for Scaleway resource ${resource.id}`)
+        }
+
+        const client = new ScalewayClient(ScalewayResourceScanner.name, { zone: resource.location })
+        switch (resource.kind) {
+            case "instance-server":
+                return client.terminateServer(resource.id)
+            case "disk":
+                return client.deleteBlockVolume(resource.id)
+            case "snapshot":
+                return client.deleteBlockSnapshot(resource.id)
+            case "image":
+                return client.deleteImage(resource.id)
+        }
+    }
+
+    private async listZoneResources(zone: string): Promise<TaggedCloudResource[]> {
+        const client = new ScalewayClient(ScalewayResourceScanner.name, { zone: zone })
+        const resources: TaggedCloudResource[] = []
+
+        for (const server of await client.listInstances()) {
+            const instanceName = getInstanceNameFromTags(server.tags)
+            if (!instanceName) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_SCALEWAY,
+                kind: "instance-server",
+                id: server.id,
+                name: server.name,
+                instanceName: instanceName,
+                scope: zone,
+                location: zone,
+                instanceType: server.commercialType,
+                running: server.state !== ScalewayServerState.Stopped,
+            })
+        }
+
+        // Root volumes are not tagged and deleted with their server
+        for (const volume of await client.listBlockVolumes()) {
+            const instanceName = getInstanceNameFromTags(volume.tags)
+            if (!instanceName) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_SCALEWAY,
+                kind: "disk",
+                id: volume.id,
+                name: volume.name,
+                instanceName: instanceName,
+                scope: zone,
+                location: zone,
+                sizeGb: volume.size / BYTES_PER_GB,
+            })
+        }
+
+        for (const snapshot of await client.listBlockSnapshots()) {
+            const instanceName = getInstanceNameFromTags(snapshot.tags)
+            if (!instanceName) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_SCALEWAY,
+                kind: "snapshot",
+                id: snapshot.id,
+                name: snapshot.name,
+                instanceName: instanceName,
+                scope: zone,
+                location: zone,
+                sizeGb: snapshot.size / BYTES_PER_GB,
+            })
+        }
+
+        // Image storage is billed through its snapshots, not reported here
+        for (const image of await client.listPrivateImages()) {
+            const instanceName = getInstanceNameFromTags(image.tags)
+            if (!instanceName) {
+                continue
+            }
+            resources.push({
+                provider: CLOUDYPAD_PROVIDER_SCALEWAY,
+                kind: "image",
+                id: image.id,
+                name: image.name,
+                instanceName: instanceName,
+                scope: zone,
+                location: zone,
+                sizeGb: 0,
+            })
+        }
+
+        return resources
+    }
+}
@@ -1,5 +1,5 @@
 import { getLogger, Logger } from '../../log/utils'
-import { createClient, Instance, Vpc, Account, Marketplace, Profile, Block } from '@scaleway/sdk'
+import { createClient, Instance, Vpc, Account, Marketplace, Profile, Block, Errors, Zone } from '@scaleway/sdk'
 import { loadProfileFromConfigurationFile } from '@scaleway/configuration-loader'
 
 interface StartStopActionOpts {
@@ -304,37 +304,152 @@ export class ScalewayClient {
      * @param args Object with zone and volumeId
      * @returns Volume if exists, null otherwise
      */
-    async getVolume(args: { zone: string, volumeId: string }): Promise<Block.v1alpha1.Volume | null> {
+    async getVolume(args: { zone: Zone, volumeId: string }): Promise<Block.v1alpha1.Volume | null> {
         this.logger.debug(`Getting volume ${args.volumeId} in zone ${args.zone}`)
         try {
-            const response = await this.blockClient.getVolume({ volumeId: args.volumeId, zone: args.zone as any })
-            return (response as any).volume ?? response ?? null
-        } catch (error: any) {
-            if (error?.statusCode === 404) {
+            return await this.blockClient.getVolume({ volumeId: args.volumeId, zone: args.zone })
+        } catch (error) {
+            if (isScalewayNotFoundError(error)) {
                 return null
             }
             throw new Error(`Failed to get volume ${args.volumeId}`, { cause: error })
         }
     }
 
+    /**
+     * Get a block snapshot by snapshot ID
+     * @param args Object with zone and snapshotId
+     * @returns Snapshot if exists, null otherwise
+     */
+    async getSnapshot(args: { zone: Zone, snapshotId: string }): Promise<Block.v1alpha1.Snapshot | null> {
+        this.logger.debug(`Getting snapshot ${args.snapshotId} in zone ${args.zone}`)
+        try {
+            return await this.blockClient.getSnapshot({ snapshotId: args.snapshotId, zone: args.zone })
+        } catch (error) {
+            if (isScalewayNotFoundError(error)) {
+                return null
+            }
+            throw new Error(`Failed to get snapshot ${args.snapshotId}`, { cause: error })
+        }
+    }
+
+    /**
+     * Get an instance server by server ID
+     * @param serverId Server ID to get
+     * @returns Server if exists, null otherwise
+     */
+    async getServer(serverId: string): Promise<Instance.v1.Server | null> {
+        this.logger.debug(`Getting server ${serverId}`)
+        try {
+            const response = await this.instanceClient.getServer({ serverId })
+            return response.server ?? null
+        } catch (error) {
+            if (isScalewayNotFoundError(error)) {
+                return null
+            }
+            throw new Error(`Failed to get server ${serverId}`, { cause: error })
+        }
+    }
+
     /**
      * Get an instance image by image ID
      * @param args Object with zone and imageId
      * @returns Image if exists, null otherwise
      */
-    async getImage(args: { zone: string, imageId: string }): Promise<Instance.v1.Image | null> {
+    async getImage(args: { zone: Zone, imageId: string }): Promise<Instance.v1.Image | null> {
         this.logger.debug(`Getting image ${args.imageId} in zone ${args.zone}`)
         try {
-            const response = await this.instanceClient.getImage({ imageId: args.imageId, zone: args.zone as any })
+            const response = await this.instanceClient.getImage({ imageId: args.imageId, zone: args.zone })
             return response.image || null
-        } catch (error: any) {
-            if (error?.statusCode === 404) {
+        } catch (error) {
+            if (isScalewayNotFoundError(error)) {
                 return null
             }
             throw new Error(`Failed to get image ${args.imageId}`, { cause: error })
         }
     }
 
+    /**
+     * List block volumes in client's zone and project
+     */
+    async listBlockVolumes(): Promise<Block.v1alpha1.Volume[]> {
+        this.logger.debug(`Listing Scaleway block volumes`)
+        try {
+            return await this.blockClient.listVolumes().all()
+        } catch (error) {
+            throw new Error(`Failed to list Scaleway block volumes`, { cause: error })
+        }
+    }
+
+    /**
+     * List block snapshots in client's zone and project
+     */
+    async listBlockSnapshots(): Promise<Block.v1alpha1.Snapshot[]> {
+        this.logger.debug(`Listing Scaleway block snapshots`)
+        try {
+            return await this.blockClient.listSnapshots().all()
+        } catch (error) {
+            throw new Error(`Failed to list Scaleway block snapshots`, { cause: error })
+        }
+    }
+
+    /**
+     * List private images in client's zone and project
+     */
+    async listPrivateImages(): Promise<Instance.v1.Image[]> {
+        this.logger.debug(`Listing Scaleway private images`)
+        try {
+            return await this.instanceClient.listImages({ public: false }).all()
+        } catch (error) {
+            throw new Error(`Failed to list Scaleway private images`, { cause: error })
+        }
+    }
+
+    /**
+     * Terminate server, deleting it along with its attached volumes
+     */
+    async terminateServer(serverId: string) {
+        this.logger.debug(`Terminating server ${serverId}`)
+        try {
+            await this.instanceClient.serverAction({ serverId: serverId, action: ServerActionEnum.Terminate })
+        } catch (error) {
+            throw new Error(`Failed to terminate server ${serverId}`, { cause: error })
+        }
+    }
+
+    /**
+     * Delete a block volume. Volume already deleted (eg. with its server) is ignored.
+     */
+    async deleteBlockVolume(volumeId: string) {
+        this.logger.debug(`Deleting volume ${volumeId}`)
+        try {
+            await this.blockClient.deleteVolume({ volumeId: volumeId })
+        } catch (error) {
+            if (isScalewayNotFoundError(error)) {
+                return
+            }
+            throw new Error(`Failed to delete volume ${volumeId}`, { cause: error })
+        }
+    }
+
+    async deleteBlockSnapshot(snapshotId: string) {
+        this.logger.debug(`Deleting snapshot ${snapshotId}`)
+        try {
+            await this.blockClient.deleteSnapshot({ snapshotId: snapshotId })
+        } catch (error) {
+            throw new Error(`Failed to delete snapshot ${snapshotId}`, { cause: error })
+        }
+    }
+
+    async deleteImage(imageId: string) {
+        this.logger.debug(`Deleting image ${imageId}`)
+        try {
+            await this.instanceClient.deleteImage({ imageId: imageId })
+        } catch (error) {
+            throw new Error(`Failed to delete image ${imageId}`, { cause: error })
+        }
+    }
+
     private async withTimeout<T>(promise: Promise<T>, timeoutMs: number): Promise<T> {
         if (!timeoutMs) {
             return promise
@@ -358,3 +473,10 @@ export class ScalewayClient {
     }
     
 }
+
+/**
+ * Whether error is a not found error from Scaleway API. Scaleway SDK errors hold HTTP status in 'status'.
+ */
+function isScalewayNotFoundError(error: unknown): boolean {
+    return error instanceof Errors.ScalewayError && error.status === 404
+}
@@ -9,7 +9,7 @@ import { InteractiveInstanceInitializer } from "../../cli/initializer";
 import { PartialDeep } from "type-fest";
 import { InteractiveInstanceUpdater } from "../../cli/updater";
 import { cleanupAndExit, logFullError } from "../../cli/program";
-import { SshProviderClient as SshProviderClient } from "./provider";
+import { SshProviderClient as SshProviderClient, SSH_PROVIDER_CAPABILITIES } from "./provider";
 import { z } from "zod";
 
 /**
@@ -196,7 +196,7 @@ export class SshInputPrompter extends AbstractInputPrompter<SshCreateCliArgs, Ss
 export class SshCliCommandGenerator extends CliCommandGenerator {
     
     buildCreateCommand(args: BuildCreateCommandArgs) {
-        return this.getBaseCreateCommand(CLOUDYPAD_PROVIDER_SSH)
+        return this.getBaseCreateCommand(CLOUDYPAD_PROVIDER_SSH, SSH_PROVIDER_CAPABILITIES)
             .addOption(CLI_OPTION_STREAMING_SERVER)
             .addOption(CLI_OPTION_SUNSHINE_USERNAME)
             .addOption(CLI_OPTION_SUNSHINE_PASSWORD)
@@ -11,6 +11,9 @@ import { SshProvisionerFactory, SshRunnerFactory } from "./factory"
 import { AnsibleConfiguratorFactory } from "../../configurators/ansible"
 import { GenericStateParser } from "../../core/state/parser"
 import { CLOUDYPAD_PROVIDER } from "../../core/const"
+import { NO_PROVIDER_CAPABILITIES, ProviderCapabilities } from "../../core/provider-capabilities"
+
+export const SSH_PROVIDER_CAPABILITIES: ProviderCapabilities = NO_PROVIDER_CAPABILITIES
 
 export type SshProviderClientArgs = {
     config: CoreConfig
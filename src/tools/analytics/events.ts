@@ -12,4 +12,28 @@ export const RUN_COMMAND_DESTROY = "run_command_destroy"
 export const RUN_COMMAND_PAIR = "run_command_pair"
 export const RUN_COMMAND_CONFIGURE = "run_command_configure"
 export const RUN_COMMAND_PROVISION = "run_command_provision"
-export const RUN_COMMAND_DEPLOY = "run_command_deploy"
\ No newline at end of file
+export const RUN_COMMAND_DEPLOY = "run_command_deploy"
+export const RUN_COMMAND_APPLY = "run_command_apply"
+export const RUN_COMMAND_SERVE = "run_command_serve"
+export const RUN_COMMAND_EVENTS = "run_command_events"
+export const RUN_COMMAND_UNLOCK = "run_command_unlock"
+export const RUN_COMMAND_STATE_HISTORY = "run_command_state_history"
+export const RUN_COMMAND_STATE_ROLLBACK = "run_command_state_rollback"
+export const RUN_COMMAND_STATE_MIGRATE = "run_command_state_migrate"
+export const RUN_COMMAND_PROVIDERS = "run_command_providers"
+export const RUN_COMMAND_PLAN = "run_command_plan"
+export const RUN_COMMAND_DRIFT = "run_command_drift"
+export const RUN_COMMAND_ORPHANS = "run_command_orphans"
+export const RUN_COMMAND_COST_ESTIMATE = "run_command_cost_estimate"
+export const RUN_COMMAND_USAGE = "run_command_usage"
+export const RUN_COMMAND_BUDGET_SET = "run_command_budget_set"
+export const RUN_COMMAND_BUDGET_REMOVE = "run_command_budget_remove"
+export const RUN_COMMAND_WATCH = "run_command_watch"
+export const RUN_COMMAND_SCHEDULE_SET = "run_command_schedule_set"
+export const RUN_COMMAND_SCHEDULE_LIST = "run_command_schedule_list"
+export const RUN_COMMAND_SCHEDULE_REMOVE = "run_command_schedule_remove"
+export const RUN_COMMAND_SCHEDULER_RUN = "run_command_scheduler_run"
+export const RUN_COMMAND_CLONE = "run_command_clone"
+export const RUN_COMMAND_RENAME = "run_command_rename"
+export const RUN_COMMAND_EXPORT = "run_command_export"
+export const RUN_COMMAND_IMPORT = "run_command_import"
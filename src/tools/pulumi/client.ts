@@ -1,5 +1,5 @@
 import * as fs from 'fs'
-import { ConcurrentUpdateError, InlineProgramArgs, LocalWorkspace, LocalWorkspaceOptions, OutputMap, PulumiFn, Stack } from "@pulumi/pulumi/automation";
+import { ConcurrentUpdateError, EngineEvent, InlineProgramArgs, LocalWorkspace, LocalWorkspaceOptions, OutputMap, PulumiFn, Stack } from "@pulumi/pulumi/automation";
 import { getLogger, Logger } from '../../log/utils';
 
 export interface PulumiActionOptions {
@@ -9,6 +9,40 @@ export interface PulumiActionOptions {
     cancel?: boolean
 }
 
+/**
+ * Operation Pulumi would run on a resource
+ */
+export type PulumiResourceOperation = "create" | "update" | "delete" | "replace"
+
+/**
+ * A resource change Pulumi would perform on next up, as reported by preview
+ */
+export interface PulumiResourceChange {
+    urn: string
+
+    /**
+     * Resource logical name (last part of URN)
+     */
+    name: string
+
+    /**
+     * Resource type, eg. "aws:ec2/instance:Instance"
+     */
+    type: string
+
+    operation: PulumiResourceOperation
+
+    /**
+     * Properties changed by this operation
+     */
+    diffs: string[]
+
+    /**
+     * Properties causing resource replacement. Only set for replace operation.
+     */
+    replaceKeys: string[]
+}
+
 export const DEFAULT_RETRY_DELAY = 10000
 export const DEFAULT_RETRY_MAX_RETRIES = 12
 export const DEFAULT_RETRY_LOG_BEHAVIOR = "warn"
@@ -191,6 +225,39 @@ export abstract class InstancePulumiClient<ConfigType extends Object, OutputType
         return prevRes
     }
 
+    /**
+     * Preview stack changes without streaming Pulumi output, returning resources Pulumi would create, update, delete or replace
+     */
+    async previewChanges(options?: PulumiActionOptions): Promise<PulumiResourceChange[]> {
+        return this._doStackActionRetryOnLocked({ action: () => this._doPreviewChanges(options) })
+    }
+
+    async _doPreviewChanges(options?: PulumiActionOptions): Promise<PulumiResourceChange[]> {
+        const stack = await this.getStack()
+
+        if (options?.cancel) {
+            await this.doCancel(stack)
+        }
+
+        this.logger.debug(`Running Pulumi preview for changes: ${stack.name}`)
+
+        const changes: PulumiResourceChange[] = []
+        const prevRes = await stack.preview({
+            refresh: true,
+            onEvent: (event) => {
+                const change = engineEventToResourceChange(event)
+                if (change) {
+                    changes.push(change)
+                }
+            }
+        })
+
+        this.logger.trace(`Preview result: ${JSON.stringify(prevRes)}`)
+        this.logger.debug(`Preview changes: ${JSON.stringify(changes)}`)
+
+        return changes
+    }
+
     async destroy(options?: PulumiActionOptions) {
         return this._doStackActionRetryOnLocked({ action: () => this._doDestroy(options) })
     }
@@ -280,3 +347,43 @@ export abstract class InstancePulumiClient<ConfigType extends Object, OutputType
         }
     }
 }
+
+/**
+ * Transform a Pulumi preview engine event into a resource change. Returns undefined if event is not a resource change:
+ * unchanged resources, stack resource, or intermediate replacement steps (a replacement is reported
+ * as create-replacement, replace and delete-replaced steps, only replace step is kept).
+ */
+export function engineEventToResourceChange(event: EngineEvent): PulumiResourceChange | undefined {
+    const metadata = event.resourcePreEvent?.metadata
+    if (!metadata || metadata.type === "pulumi:pulumi:Stack") {
+        return undefined
+    }
+
+    let operation: PulumiResourceOperation
+    switch (metadata.op) {
+        case "create":
+        case "import":
+            operation = "create"
+            break
+        case "update":
+            operation = "update"
+            break
+        case "delete":
+            operation = "delete"
+            break
+        case "replace":
+            operation = "replace"
+            break
+        default:
+            return undefined
+    }
+
+    return {
+        urn: metadata.urn,
+        name: metadata.urn.split("::").pop() ?? metadata.urn,
+        type: metadata.type,
+        operation: operation,
+        diffs: metadata.diffs ?? [],
+        replaceKeys: operation === "replace" ? (metadata.keys ?? []) : [],
+    }
+}
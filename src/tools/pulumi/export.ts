@@ -0,0 +1,112 @@
+import * as fs from 'fs'
+import { Deployment, LocalWorkspace, LocalWorkspaceOptions } from "@pulumi/pulumi/automation";
+import { getLogger } from '../../log/utils';
+
+export interface PulumiStackRef {
+    projectName: string
+    stackName: string
+}
+
+/**
+ * Exported Pulumi stack, ie. its checkpoint as given by `pulumi stack export`
+ */
+export interface PulumiStackExport extends PulumiStackRef {
+    deployment: Deployment
+}
+
+export interface PulumiStackExporterArgs {
+
+    /**
+     * Workspace options (backend URL, passphrase, etc.) to read and write stacks
+     */
+    workspaceOptions?: LocalWorkspaceOptions
+}
+
+/**
+ * Export and import Pulumi stack checkpoints of a Pulumi backend.
+ */
+export class PulumiStackExporter {
+
+    private readonly logger = getLogger(PulumiStackExporter.name)
+    private readonly args: PulumiStackExporterArgs
+
+    constructor(args: PulumiStackExporterArgs) {
+        this.args = args
+    }
+
+    /**
+     * List stacks named after given instance, whatever their project.
+     * Cloudy Pad stacks are named after their instance, a single instance may have multiple stacks
+     * in different projects (eg. main infrastructure, data disk snapshot, base image).
+     */
+    async listInstanceStacks(instanceName: string): Promise<PulumiStackRef[]> {
+        return (await this.listStacks()).filter(s => s.stackName === instanceName)
+    }
+
+    /**
+     * Export all stacks named after given instance
+     */
+    async exportInstanceStacks(instanceName: string): Promise<PulumiStackExport[]> {
+        const stacks = await this.listInstanceStacks(instanceName)
+
+        this.logger.debug(`Found stacks to export for instance ${instanceName}: ${JSON.stringify(stacks)}`)
+
+        const exports: PulumiStackExport[] = []
+        for(const stack of stacks){
+            exports.push(await this.exportStack(stack))
+        }
+        return exports
+    }
+
+    async exportStack(stack: PulumiStackRef): Promise<PulumiStackExport> {
+        this.logger.debug(`Exporting Pulumi stack ${stack.projectName}/${stack.stackName}`)
+
+        const workspace = await this.createWorkspace(stack.projectName)
+        const deployment = await workspace.exportStack(stack.stackName)
+        return { projectName: stack.projectName, stackName: stack.stackName, deployment: deployment }
+    }
+
+    /**
+     * Import a stack checkpoint into a new stack. Fails if stack already exists as its checkpoint
+     * would be replaced, losing track of its Cloud resources.
+     */
+    async importStack(stackExport: PulumiStackExport): Promise<void> {
+        this.logger.debug(`Importing Pulumi stack ${stackExport.projectName}/${stackExport.stackName}`)
+
+        const workspace = await this.createWorkspace(stackExport.projectName)
+        const stacks = await workspace.listStacks()
+        if(stacks.some(s => s.name === stackExport.stackName)){
+            throw new Error(`Pulumi stack ${stackExport.projectName}/${stackExport.stackName} already exists`)
+        }
+
+        await workspace.createStack(stackExport.stackName)
+        await workspace.importStack(stackExport.stackName, stackExport.deployment)
+    }
+
+    /**
+     * List stacks of all projects in backend. Stack names are listed
+     * as "organization/project/stack" with project-scoped backends.
+     */
+    async listStacks(): Promise<PulumiStackRef[]> {
+        const workspace = await this.createWorkspace("CloudyPad-Stacks")
+        const summaries = await workspace.listStacks({ all: true })
+
+        return summaries
+            .map(s => s.name.split("/"))
+            .filter(parts => parts.length === 3)
+            .map(parts => ({ projectName: parts[1], stackName: parts[2] }))
+    }
+
+    private async createWorkspace(projectName: string): Promise<LocalWorkspace> {
+        // ensure local backend exists for file backend
+        const backendUrl = this.args.workspaceOptions?.envVars?.PULUMI_BACKEND_URL
+        if (backendUrl?.startsWith("file://")) {
+            fs.mkdirSync(backendUrl.replace("file://", ""), { recursive: true })
+        }
+
+        return LocalWorkspace.create({
+            ...this.args.workspaceOptions,
+            projectSettings: { name: projectName, runtime: "nodejs" },
+        })
+    }
+}
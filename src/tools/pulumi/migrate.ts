@@ -0,0 +1,56 @@
+import { LocalWorkspaceOptions } from "@pulumi/pulumi/automation";
+import { getLogger } from '../../log/utils';
+import { PulumiStackExporter, PulumiStackRef } from './export';
+
+export interface PulumiStackMigratorArgs {
+
+    /**
+     * Workspace options (backend URL, passphrase, etc.) to read stacks from
+     */
+    sourceWorkspaceOptions?: LocalWorkspaceOptions
+
+    /**
+     * Workspace options (backend URL, passphrase, etc.) to write stacks to
+     */
+    targetWorkspaceOptions: LocalWorkspaceOptions
+}
+
+/**
+ * Move Pulumi stacks from a Pulumi backend to another by exporting stack deployment from source backend
+ * and importing it in target backend. Source stacks are left untouched.
+ */
+export class PulumiStackMigrator {
+
+    private readonly logger = getLogger(PulumiStackMigrator.name)
+    private readonly source: PulumiStackExporter
+    private readonly target: PulumiStackExporter
+
+    constructor(args: PulumiStackMigratorArgs) {
+        this.source = new PulumiStackExporter({ workspaceOptions: args.sourceWorkspaceOptions })
+        this.target = new PulumiStackExporter({ workspaceOptions: args.targetWorkspaceOptions })
+    }
+
+    /**
+     * Migrate all stacks named after given instance, whatever their project.
+     *
+     * @returns migrated stacks
+     */
+    async migrateInstanceStacks(instanceName: string): Promise<PulumiStackRef[]> {
+        const stacks = await this.source.listInstanceStacks(instanceName)
+
+        this.logger.debug(`Found stacks to migrate for instance ${instanceName}: ${JSON.stringify(stacks)}`)
+
+        for(const stack of stacks){
+            await this.migrateStack(stack)
+        }
+        return stacks
+    }
+
+    async migrateStack(stack: PulumiStackRef): Promise<void> {
+        this.logger.debug(`Migrating Pulumi stack ${stack.projectName}/${stack.stackName}`)
+
+        await this.target.importStack(await this.source.exportStack(stack))
+
+        this.logger.debug(`Migrated Pulumi stack ${stack.projectName}/${stack.stackName}`)
+    }
+}
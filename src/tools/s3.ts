@@ -1,6 +1,12 @@
-import { S3Client, PutObjectCommand, ListObjectsV2Command, HeadObjectCommand, GetObjectCommand, DeleteObjectCommand, S3ClientConfig, NotFound } from '@aws-sdk/client-s3'
+import { S3Client, PutObjectCommand, ListObjectsV2Command, HeadObjectCommand, GetObjectCommand, DeleteObjectCommand, S3ClientConfig, NotFound, NoSuchKey, S3ServiceException } from '@aws-sdk/client-s3'
 import { getLogger, Logger } from '../log/utils'
 
+/**
+ * Thrown when a conditional request (If-Match, If-None-Match) precondition is not met,
+ * typically because object was created or modified concurrently.
+ */
+export class S3PreconditionFailedError extends Error {}
+
 /**
  * Wrapper around the S3Client to provide a more consistent interface and exception handling
  */
@@ -16,6 +22,10 @@ export class S3ClientWrapper {
         this.logger.trace(`S3ClientWrapper initialized with config: ${JSON.stringify(config)}`)
     }
 
+    /**
+     * Put an object to S3. Conditional writes (IfMatch, IfNoneMatch) not matching
+     * throw an S3PreconditionFailedError.
+     */
     async putObject(params: PutObjectCommand['input']) {
         try {
             this.logger.trace(`Putting object to S3 ${params.Bucket} at ${params.Key}`)
@@ -24,7 +34,11 @@ export class S3ClientWrapper {
             
             this.logger.trace(`Object put to S3 ${params.Bucket} at ${params.Key}`)
 
+            return result
         } catch (error) {
+            if(isPreconditionFailure(error)) {
+                throw new S3PreconditionFailedError(`Precondition failed putting object to S3. Bucket: ${params.Bucket}, Key: ${params.Key}`, { cause: error })
+            }
             throw new Error(`Error putting object to S3. Bucket: ${params.Bucket}, Key: ${params.Key}`, { cause: error })
         }
     }
@@ -119,6 +133,23 @@ export class S3ClientWrapper {
         }
     }
 
+    /**
+     * Get an object from S3. Returns undefined if object does not exist.
+     */
+    async getObjectIfExists(params: GetObjectCommand['input']) {
+        try {
+            this.logger.trace(`Getting object (if exists) from S3 with params: ${JSON.stringify(params)}`)
+
+            return await this.s3.send(new GetObjectCommand(params))
+        } catch (error) {
+            if(error instanceof NoSuchKey) {
+                this.logger.trace(`Object not found in S3 with params: ${JSON.stringify(params)}`)
+                return undefined
+            }
+            throw new Error(`Error getting object from S3. Params: ${JSON.stringify(params)}`, { cause: error })
+        }
+    }
+
     async deleteObject(params: DeleteObjectCommand['input']) {
         try {
             this.logger.trace(`Deleting object from S3 with params: ${JSON.stringify(params)}`)
@@ -132,3 +163,15 @@ export class S3ClientWrapper {
         }
     }
 }
+
+/**
+ * S3 returns 412 Precondition Failed when condition is not met
+ * and 409 Conflict when a concurrent conditional write is in progress on the same key
+ */
+function isPreconditionFailure(error: unknown): boolean {
+    if(!(error instanceof S3ServiceException)) {
+        return false
+    }
+    const statusCode = error.$metadata.httpStatusCode
+    return statusCode === 412 || statusCode === 409 && error.name === "ConditionalRequestConflict"
+}
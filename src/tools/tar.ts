@@ -0,0 +1,94 @@
+import * as zlib from 'zlib'
+
+const TAR_BLOCK_SIZE = 512
+
+export interface TarEntry {
+    name: string
+    content: Buffer
+}
+
+/**
+ * Create a gzipped tar archive (ustar format) holding regular files only.
+ */
+export function createTarGz(entries: TarEntry[]): Buffer {
+    const blocks: Buffer[] = []
+    for(const entry of entries){
+        blocks.push(createTarHeader(entry.name, entry.content.length))
+        blocks.push(entry.content)
+
+        const padding = (TAR_BLOCK_SIZE - entry.content.length % TAR_BLOCK_SIZE) % TAR_BLOCK_SIZE
+        blocks.push(Buffer.alloc(padding))
+    }
+
+    // archive ends with two empty blocks
+    blocks.push(Buffer.alloc(TAR_BLOCK_SIZE * 2))
+
+    return zlib.gzipSync(Buffer.concat(blocks))
+}
+
+/**
+ * Extract regular files of a gzipped tar archive. Other entries (directories, links...) are ignored.
+ */
+export function extractTarGz(archive: Buffer): TarEntry[] {
+    let data: Buffer
+    try {
+        data = zlib.gunzipSync(archive)
+    } catch (error) {
+        throw new Error(`Not a gzipped archive`, { cause: error })
+    }
+
+    const entries: TarEntry[] = []
+    let offset = 0
+    while(offset + TAR_BLOCK_SIZE <= data.length){
+        const header = data.subarray(offset, offset + TAR_BLOCK_SIZE)
+        if(header.every(b => b === 0)){
+            break
+        }
+
+        const name = readString(header, 0, 100)
+        const prefix = readString(header, 345, 155)
+        const size = parseInt(readString(header, 124, 12).trim() || "0", 8)
+        const type = String.fromCharCode(header[156])
+
+        if(isNaN(size) || offset + TAR_BLOCK_SIZE + size > data.length){
+            throw new Error(`Malformed tar archive: invalid entry '${name}'`)
+        }
+
+        offset += TAR_BLOCK_SIZE
+        if(type === "0" || type === "\0"){
+            entries.push({ name: prefix ? `${prefix}/${name}` : name, content: Buffer.from(data.subarray(offset, offset + size)) })
+        }
+        offset += Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE
+    }
+    return entries
+}
+
+function createTarHeader(name: string, size: number): Buffer {
+    if(Buffer.byteLength(name) > 100){
+        throw new Error(`Tar entry name too long: ${name}`)
+    }
+
+    const header = Buffer.alloc(TAR_BLOCK_SIZE)
+    header.write(name, 0, 100, "utf-8")
+    header.write("0000600\0", 100, 8, "ascii") // mode
+    header.write("0000000\0", 108, 8, "ascii") // uid
+    header.write("0000000\0", 116, 8, "ascii") // gid
+    header.write(size.toString(8).padStart(11, "0") + "\0", 124, 12, "ascii")
+    header.write(Math.floor(Date.now() / 1000).toString(8).padStart(11, "0") + "\0", 136, 12, "ascii")
+    header.write("0", 156, 1, "ascii") // regular file
+    header.write("ustar\0", 257, 6, "ascii")
+    header.write("00", 263, 2, "ascii")
+
+    // checksum is computed with checksum field filled with spaces
+    header.fill(" ", 148, 156)
+    const checksum = header.reduce((sum, b) => sum + b, 0)
+    header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8, "ascii")
+
+    return header
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+    const field = block.subarray(offset, offset + length)
+    const end = field.indexOf(0)
+    return field.subarray(0, end < 0 ? length : end).toString("utf-8")
+}
@@ -2,9 +2,10 @@ import * as assert from 'assert'
 import * as yaml from 'yaml'
 import { S3Client, GetObjectCommand, PutObjectCommand, S3ClientConfig } from '@aws-sdk/client-s3'
 import { S3StateSideEffect } from '../../../../../../src/core/state/side-effects/s3'
-import { InstanceStateV1 } from '../../../../../../src/core/state/state'
+import { InstanceEventEnum, InstanceStateV1 } from '../../../../../../src/core/state/state'
 import Docker from 'dockerode'
 import { getLogger } from '../../../../../../src/log/utils'
+import { InstanceLockedError, StateConcurrentModificationError } from '../../../../../../src/core/state/lock'
 
 describe('S3StateSideEffect', () => {
     
@@ -110,6 +111,61 @@ describe('S3StateSideEffect', () => {
         assert.strictEqual(exists, true)
     })
 
+    it('should lock instance and prevent concurrent lock', async () => {
+        const otherSideEffect = new S3StateSideEffect({ bucketName: testBucketName, s3ClientConfig: s3ClientConfig })
+
+        const lock = await s3StateSideEffect.acquireLock(dummyInstance2, 60)
+        await assert.rejects(otherSideEffect.acquireLock(dummyInstance2, 60), InstanceLockedError)
+
+        const currentLock = await otherSideEffect.getLock(dummyInstance2)
+        assert.deepStrictEqual(currentLock, lock)
+
+        const renewed = await s3StateSideEffect.renewLock(lock, 120)
+        assert.ok(renewed.expiresAt > lock.expiresAt)
+
+        await s3StateSideEffect.releaseLock(renewed)
+        assert.strictEqual(await s3StateSideEffect.getLock(dummyInstance2), undefined)
+
+        // lock can be acquired again once released
+        const otherLock = await otherSideEffect.acquireLock(dummyInstance2, 60)
+        const forceUnlocked = await s3StateSideEffect.forceUnlock(dummyInstance2)
+        assert.strictEqual(forceUnlocked?.lockId, otherLock.lockId)
+        assert.strictEqual(await s3StateSideEffect.getLock(dummyInstance2), undefined)
+    })
+
+    it('should take over expired lock', async () => {
+        await s3StateSideEffect.acquireLock(dummyInstance2, 0)
+        const lock = await s3StateSideEffect.acquireLock(dummyInstance2, 60)
+        assert.deepStrictEqual(await s3StateSideEffect.getLock(dummyInstance2), lock)
+        await s3StateSideEffect.releaseLock(lock)
+    })
+
+    it('should fail to write state modified concurrently', async () => {
+        const otherSideEffect = new S3StateSideEffect({ bucketName: testBucketName, s3ClientConfig: s3ClientConfig })
+
+        await s3StateSideEffect.loadRawInstanceState(dummyInstance2)
+        await otherSideEffect.loadRawInstanceState(dummyInstance2)
+
+        // write different content so that ETag changes
+        await otherSideEffect.persistState({ ...dummyState2, events: [{ type: InstanceEventEnum.Init, timestamp: Date.now() }] })
+        await assert.rejects(s3StateSideEffect.persistState(dummyState2), StateConcurrentModificationError)
+
+        // writing again after reloading state succeeds
+        await s3StateSideEffect.loadRawInstanceState(dummyInstance2)
+        await s3StateSideEffect.persistState(dummyState2)
+    })
+
+    it('should keep state revisions', async () => {
+        await s3StateSideEffect.persistState(dummyState1, "dummy-action")
+
+        const revisions = await s3StateSideEffect.listStateRevisions(dummyInstance1)
+        const latest = revisions[revisions.length - 1]
+        assert.strictEqual(latest.action, "dummy-action")
+
+        const revision = await s3StateSideEffect.loadStateRevision(dummyInstance1, latest.revision)
+        assert.deepStrictEqual(revision.state, dummyState1)
+    })
+
     it('should destroy state', async () => {
         await s3StateSideEffect.destroyState(dummyInstance1)
         const exists = await s3StateSideEffect.instanceExists(dummyInstance1)
@@ -0,0 +1,23 @@
+import * as assert from 'assert';
+import { redactInstanceState } from '../../../src/api/redact';
+import { createDummyState } from '../utils';
+
+describe('Instance state redaction', () => {
+
+    it('should remove secrets and keep other inputs', () => {
+        const state = createDummyState()
+        state.provision.input.ssh = { user: "ubuntu", privateKeyContentBase64: "a2V5" }
+        const stateWithToken = { ...state, provision: { ...state.provision, input: { ...state.provision.input, apiToken: "s3cret" } } }
+
+        const redacted = redactInstanceState(stateWithToken) as typeof stateWithToken
+
+        assert.deepStrictEqual(redacted.provision.input.ssh, { user: "ubuntu" })
+        assert.strictEqual(redacted.provision.input.apiToken, undefined)
+        assert.strictEqual(redacted.configuration.input.sunshine?.passwordBase64, undefined)
+        assert.strictEqual(redacted.provision.input.instanceType, state.provision.input.instanceType)
+
+        // original state is left untouched
+        assert.strictEqual(stateWithToken.provision.input.ssh.privateKeyContentBase64, "a2V5")
+        assert.strictEqual(stateWithToken.provision.input.apiToken, "s3cret")
+    })
+})
@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import { CloudypadApiServer } from '../../../src/api/server';
+import { Job, JOB_STATUS_SUCCEEDED } from '../../../src/api/schemas';
+import { getUnitTestCoreConfig, initializeDummyInstanceState } from '../utils';
+
+describe('CloudypadApiServer', () => {
+
+    const token = "unit-test-token"
+    const instanceName = "api-server-test-instance"
+
+    let server: CloudypadApiServer
+    let baseUrl: string
+
+    async function request(method: string, urlPath: string, body?: unknown, authToken: string = token): Promise<{ status: number, body: any }> { // eslint-disable-line @typescript-eslint/no-explicit-any
+        const res = await fetch(`${baseUrl}${urlPath}`, {
+            method: method,
+            headers: { "Authorization": `Bearer ${authToken}`, "Content-Type": "application/json" },
+            body: body === undefined ? undefined : JSON.stringify(body),
+        })
+        return { status: res.status, body: await res.json() }
+    }
+
+    async function waitForJob(jobId: string): Promise<Job> {
+        for(let i = 0; i < 50; i++){
+            const res = await request("GET", `/jobs/${jobId}`)
+            if(res.body.status === "succeeded" || res.body.status === "failed"){
+                return res.body
+            }
+            await new Promise(resolve => setTimeout(resolve, 50))
+        }
+        throw new Error(`Job ${jobId} did not finish in time`)
+    }
+
+    before(async () => {
+        await initializeDummyInstanceState(instanceName)
+
+        server = new CloudypadApiServer({ config: getUnitTestCoreConfig(), token: token, port: 0 })
+        const address = await server.listen()
+        baseUrl = `http://127.0.0.1:${address.port}`
+    })
+
+    after(async () => {
+        await server.close()
+    })
+
+    it('should reject requests without valid token', async () => {
+        const res = await request("GET", "/instances", undefined, "wrong-token")
+        assert.strictEqual(res.status, 401)
+    })
+
+    it('should serve OpenAPI document without authentication', async () => {
+        const res = await request("GET", "/openapi.json", undefined, "")
+        assert.strictEqual(res.status, 200)
+        assert.strictEqual(res.body.openapi, "3.0.3")
+        assert.ok(res.body.paths["/instances/{name}/start"])
+        assert.deepStrictEqual(res.body.components.schemas.InstanceState.properties.version.enum, ["1"])
+
+        const sshSchema = res.body.components.schemas.InstanceState.properties.provision.properties.input.properties.ssh
+        assert.ok(sshSchema.properties.user)
+        assert.strictEqual(sshSchema.properties.privateKeyContentBase64, undefined)
+        assert.strictEqual(sshSchema.properties.passwordBase64, undefined)
+    })
+
+    it('should list instances and get instance state', async () => {
+        const list = await request("GET", "/instances")
+        assert.strictEqual(list.status, 200)
+        assert.ok(list.body.instances.includes(instanceName))
+
+        const state = await request("GET", `/instances/${instanceName}`)
+        assert.strictEqual(state.status, 200)
+        assert.strictEqual(state.body.name, instanceName)
+        assert.ok(state.body.configuration.input.sunshine.username)
+        assert.strictEqual(state.body.configuration.input.sunshine.passwordBase64, undefined)
+
+        const missing = await request("GET", `/instances/does-not-exist`)
+        assert.strictEqual(missing.status, 404)
+    })
+
+    it('should run instance action as job and expose its status', async () => {
+        const deploy = await request("POST", `/instances/${instanceName}/deploy`, {})
+        assert.strictEqual(deploy.status, 202)
+        assert.strictEqual((await waitForJob(deploy.body.id)).status, JOB_STATUS_SUCCEEDED)
+
+        const stop = await request("POST", `/instances/${instanceName}/stop`, { wait: true })
+        assert.strictEqual(stop.status, 202)
+        assert.strictEqual(stop.body.action, "stop")
+
+        const stopJob = await waitForJob(stop.body.id)
+        assert.strictEqual(stopJob.status, JOB_STATUS_SUCCEEDED, `Job failed: ${stopJob.error}`)
+
+        const status = await request("GET", `/instances/${instanceName}/status`)
+        assert.strictEqual(status.status, 200)
+        assert.strictEqual(status.body.serverStatus, "stopped")
+
+        const jobs = await request("GET", `/jobs`)
+        assert.ok(jobs.body.jobs.some((j: Job) => j.id === stop.body.id))
+    })
+
+    it('should reject invalid instance names', async () => {
+        const traversal = await request("GET", `/instances/${encodeURIComponent("../secrets")}`)
+        assert.strictEqual(traversal.status, 400)
+
+        const notKebabCase = await request("POST", `/instances/My_Instance/start`, {})
+        assert.strictEqual(notKebabCase.status, 400)
+    })
+
+    it('should reject invalid action request body', async () => {
+        const res = await request("POST", `/instances/${instanceName}/pair-send-pin`, { pin: "not-a-pin" })
+        assert.strictEqual(res.status, 400)
+    })
+})
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { Command } from '@commander-js/extra-typings';
+import { CLI_OPTION_CONCURRENCY, CLI_OPTION_COST_ALERT, CLI_OPTION_PUBLIC_IP_TYPE, CLI_OPTION_SPOT, getCapabilityCliOptions, parsePositiveInt, validateCliArgsCombinations } from '../../../src/cli/command';
+import { DEFAULT_BULK_CONCURRENCY } from '../../../src/core/bulk';
+import { NO_PROVIDER_CAPABILITIES } from '../../../src/core/provider-capabilities';
+import { AwsCliCommandGenerator } from '../../../src/providers/aws/cli';
+import { PaperspaceCliCommandGenerator } from '../../../src/providers/paperspace/cli';
+import { getUnitTestCoreConfig } from '../utils';
+
+describe('CLI capability options', () => {
+
+    const explicit = () => true
+
+    it('should only return options of supported capabilities', () => {
+        assert.deepStrictEqual(getCapabilityCliOptions(NO_PROVIDER_CAPABILITIES), [])
+
+        const options = getCapabilityCliOptions({ ...NO_PROVIDER_CAPABILITIES, spot: true, staticIp: true })
+        assert.deepStrictEqual(options, [ CLI_OPTION_SPOT, CLI_OPTION_PUBLIC_IP_TYPE ])
+        assert.ok(!options.includes(CLI_OPTION_COST_ALERT))
+    })
+
+    it('should show create options according to provider capabilities', () => {
+        const coreConfig = getUnitTestCoreConfig()
+        const awsFlags = new AwsCliCommandGenerator().buildCreateCommand({ coreConfig: coreConfig }).options.map(o => o.long)
+        const paperspaceFlags = new PaperspaceCliCommandGenerator().buildCreateCommand({ coreConfig: coreConfig }).options.map(o => o.long)
+
+        assert.ok(awsFlags.includes("--spot"))
+        assert.ok(awsFlags.includes("--data-disk-snapshot"))
+        assert.ok(paperspaceFlags.includes("--public-ip-type"))
+        assert.ok(!paperspaceFlags.includes("--spot"))
+        assert.ok(!paperspaceFlags.includes("--data-disk-snapshot"))
+        assert.ok(!paperspaceFlags.includes("--cost-alert"))
+    })
+
+    it('should reject unsupported option combinations', () => {
+        assert.throws(() => validateCliArgsCombinations({ costAlert: false, costLimit: 10 }, explicit), /--cost-alert disable/)
+        assert.throws(() => validateCliArgsCombinations({ baseImageSnapshot: false, baseImageKeepOnDeletion: true }, explicit), /--base-image-snapshot disable/)
+        assert.throws(() => validateCliArgsCombinations({ dataDiskSize: 0, dataDiskSnapshot: true }, explicit), /--data-disk-size 0/)
+
+        // valid combinations
+        validateCliArgsCombinations({ costAlert: true, costLimit: 10 }, explicit)
+        validateCliArgsCombinations({ baseImageSnapshot: true, baseImageKeepOnDeletion: true }, explicit)
+        validateCliArgsCombinations({ dataDiskSize: 100, dataDiskSnapshot: true }, explicit)
+    })
+
+    it('should not reject combinations involving default option values', () => {
+        validateCliArgsCombinations({ dataDiskSize: 0, dataDiskSnapshot: true }, (key) => key !== "dataDiskSnapshot")
+    })
+
+    it('should reject unsupported option combinations before running create command', async () => {
+        const command = new AwsCliCommandGenerator().buildCreateCommand({ coreConfig: getUnitTestCoreConfig() })
+
+        await assert.rejects(
+            command.parseAsync(["--data-disk-size", "0", "--data-disk-snapshot"], { from: "user" }),
+            /--data-disk-snapshot requires a data disk/
+        )
+    })
+})
+
+describe('CLI option parsers', () => {
+
+    it('should parse positive integers and reject other values', () => {
+        assert.strictEqual(parsePositiveInt("10"), 10)
+        assert.strictEqual(parsePositiveInt("60"), 60)
+        assert.throws(() => parsePositiveInt("0"), /expected a positive integer/)
+        assert.throws(() => parsePositiveInt("-5"), /expected a positive integer/)
+        assert.throws(() => parsePositiveInt("abc"), /expected a positive integer/)
+        assert.throws(() => parsePositiveInt("0x10"), /expected a positive integer/)
+        assert.throws(() => parsePositiveInt("10abc"), /expected a positive integer/)
+    })
+
+    it('should parse concurrency option without using its default as radix', () => {
+        const parseConcurrency = (args: string[]) => new Command().addOption(CLI_OPTION_CONCURRENCY).parse(args, { from: "user" }).opts().concurrency
+
+        assert.strictEqual(parseConcurrency([ "--concurrency", "10" ]), 10)
+        assert.strictEqual(parseConcurrency([ "--concurrency", "5" ]), 5)
+        assert.strictEqual(parseConcurrency([]), DEFAULT_BULK_CONCURRENCY)
+    })
+})
@@ -5,6 +5,8 @@ import * as lodash from 'lodash'
 import { DummyStateParser, DummyInstanceStateV1 } from '../../../src/providers/dummy/state';
 import { DummyInputPrompter, DummyUpdateCliArgs } from '../../../src/providers/dummy/cli';
 import { DummyProvisionInputV1 } from '../../../src/providers/dummy/state';
+import * as sinon from 'sinon';
+import { GenericInstanceManager } from '../../../src/core/manager';
 
 describe('InteractiveInstanceUpdater', () => {
 
@@ -121,6 +123,30 @@ describe('InteractiveInstanceUpdater', () => {
         assert.deepEqual(newState.configuration.input.sunshine, originalState.configuration.input.sunshine)
         assert.deepEqual(newState.configuration.input.wolf, originalState.configuration.input.wolf)
     })
-})
 
+    it('should restore previous inputs if plan fails during update', async () => {
+        const dummyState = await initializeDummyInstanceState("cli-updater-plan-failure-test")
+        const planStub = sinon.stub(GenericInstanceManager.prototype, 'plan').rejects(new Error("plan failure"))
+
+        try {
+            const updater = new InteractiveInstanceUpdater<DummyInstanceStateV1, DummyUpdateCliArgs>({
+                inputPrompter: new DummyInputPrompter({ coreConfig: coreConfig }),
+                providerClient: dummyProviderClient
+            })
+
+            await assert.rejects(updater.updateInteractive({
+                name: dummyState.name,
+                yes: true,
+                plan: true,
+                ansibleAdditionalArgs: "--updated-args"
+            }), /plan failure/)
+        } finally {
+            planStub.restore()
+        }
 
+        // compare serialized states as undefined values are missing from loaded state
+        const state = await dummyProviderClient.getStateLoader().loadInstanceState(dummyState.name)
+        assert.deepStrictEqual(state.configuration.input, JSON.parse(JSON.stringify(dummyState.configuration.input)))
+        assert.deepStrictEqual(state.provision.input, JSON.parse(JSON.stringify(dummyState.provision.input)))
+    })
+})
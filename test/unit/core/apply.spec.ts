@@ -0,0 +1,111 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as yaml from 'yaml';
+import { APPLY_ACTION_CREATE, APPLY_ACTION_PRUNE, APPLY_ACTION_UNCHANGED, APPLY_ACTION_UPDATE, InstanceApplier, InstanceSpecFile, loadInstanceSpecFile } from '../../../src/core/apply';
+import { CoreConfig } from '../../../src/core/config/interface';
+import { DummyProviderClient } from '../../../src/providers/dummy/provider';
+import { createDummyState, createTempTestDir } from '../utils';
+
+describe('InstanceApplier', () => {
+
+    // Use a dedicated data root dir as prune would destroy instances from other tests
+    const coreConfig: CoreConfig = {
+        stateBackend: {
+            local: { dataRootDir: createTempTestDir("apply-data-root") }
+        }
+    }
+
+    const dummyState = createDummyState()
+
+    function buildSpec(instanceNames: string[], instanceType: string): InstanceSpecFile {
+        return {
+            instances: instanceNames.map(name => ({
+                name: name,
+                provider: "dummy",
+                provision: { ...dummyState.provision.input, instanceType: instanceType },
+                configuration: { ...dummyState.configuration.input },
+            }))
+        }
+    }
+
+    it('should create, update, leave unchanged and prune instances to match spec', async () => {
+        const applier = new InstanceApplier({ config: coreConfig })
+        const dummyClient = new DummyProviderClient({ config: coreConfig })
+
+        // Create all instances from scratch
+        const createPlan = await applier.plan(buildSpec(["apply-test-a", "apply-test-b", "apply-test-c"], "initial-type"))
+        assert.deepEqual(createPlan.items.map(i => i.action), [APPLY_ACTION_CREATE, APPLY_ACTION_CREATE, APPLY_ACTION_CREATE])
+
+        await applier.apply(createPlan)
+
+        const createdState = await dummyClient.getInstanceState("apply-test-a")
+        assert.equal(createdState.provision.input.instanceType, "initial-type")
+        assert.ok(createdState.provision.output, "Instance should have been deployed")
+        assert.ok(createdState.configuration.output, "Instance should have been deployed")
+
+        // Update one instance, remove another from spec
+        const updateSpec = buildSpec(["apply-test-a", "apply-test-b"], "initial-type")
+        updateSpec.instances[1].provision.instanceType = "updated-type"
+
+        const updatePlan = await applier.plan(updateSpec, { prune: true })
+        const actions = Object.fromEntries(updatePlan.items.map(i => [i.instanceName, i.action]))
+        assert.deepEqual(actions, {
+            "apply-test-a": APPLY_ACTION_UNCHANGED,
+            "apply-test-b": APPLY_ACTION_UPDATE,
+            "apply-test-c": APPLY_ACTION_PRUNE,
+        })
+
+        await applier.apply(updatePlan)
+
+        const updatedState = await dummyClient.getInstanceState("apply-test-b")
+        assert.equal(updatedState.provision.input.instanceType, "updated-type")
+
+        const remaining = await dummyClient.getStateLoader().listInstances()
+        assert.deepEqual(remaining.sort(), ["apply-test-a", "apply-test-b"])
+    })
+
+    it('should remove inputs removed from spec on update', async () => {
+        const applier = new InstanceApplier({ config: coreConfig })
+        const dummyClient = new DummyProviderClient({ config: coreConfig })
+
+        const spec = buildSpec(["apply-test-remove-field"], "some-type")
+        spec.instances[0].configuration.ratelimit = { maxMbps: 50 }
+
+        await applier.apply(await applier.plan(spec))
+        const createdState = await dummyClient.getInstanceState("apply-test-remove-field")
+        assert.deepEqual(createdState.configuration.input.ratelimit, { maxMbps: 50 })
+
+        delete spec.instances[0].configuration.ratelimit
+        const updatePlan = await applier.plan(spec)
+        assert.deepEqual(updatePlan.items.map(i => i.action), [APPLY_ACTION_UPDATE])
+
+        await applier.apply(updatePlan)
+
+        const updatedState = await dummyClient.getInstanceState("apply-test-remove-field")
+        assert.strictEqual(updatedState.configuration.input.ratelimit, undefined)
+        assert.equal(updatedState.provision.output?.instanceId, createdState.provision.output?.instanceId)
+
+        // Applying same spec again is a no-op
+        assert.deepEqual((await applier.plan(spec)).items.map(i => i.action), [APPLY_ACTION_UNCHANGED])
+    })
+
+    it('should reject whole spec without side effect if any instance is invalid', async () => {
+        const applier = new InstanceApplier({ config: coreConfig })
+
+        const spec = buildSpec(["apply-test-valid", "apply-test-invalid"], "some-type")
+        spec.instances[1].provision.instanceType = 42
+
+        await assert.rejects(applier.plan(spec), /apply-test-invalid/)
+
+        const exists = await new DummyProviderClient({ config: coreConfig }).getStateLoader().instanceExists("apply-test-valid")
+        assert.strictEqual(exists, false)
+    })
+
+    it('should reject spec file with duplicate instance names', () => {
+        const specPath = path.join(createTempTestDir("apply-spec"), "spec.yml")
+        fs.writeFileSync(specPath, yaml.stringify(buildSpec(["apply-test-dup", "apply-test-dup"], "some-type")))
+
+        assert.throws(() => loadInstanceSpecFile(specPath), /unique/)
+    })
+})
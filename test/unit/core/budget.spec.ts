@@ -0,0 +1,98 @@
+import * as assert from 'assert'
+import { BUDGET_ACTION_NONE, BUDGET_ACTION_STOP, BUDGET_ACTION_WARN, BudgetGuard, evaluateBudget } from '../../../src/core/budget'
+import { InstanceUsage } from '../../../src/core/usage'
+import { InstanceEventEnum } from '../../../src/core/state/state'
+import { StateManagerBuilder } from '../../../src/core/state/builders'
+import { getProviderRegistry, ProviderRegistry } from '../../../src/core/provider-registry'
+import { CLOUDYPAD_PROVIDER_DUMMY } from '../../../src/core/const'
+import { getUnitTestCoreConfig, getUnitTestDummyProviderClient, initializeDummyInstanceState } from '../utils'
+
+describe('Budget guard', () => {
+
+    const usage: InstanceUsage = {
+        instanceName: "budget-test",
+        provider: CLOUDYPAD_PROVIDER_DUMMY,
+        runningHours: 10,
+        intervals: [ { start: 0, end: 10, ongoing: true } ],
+        hourlyCost: 1,
+        estimatedCost: 8.5,
+        currency: "USD",
+    }
+
+    const warningEvent = { type: InstanceEventEnum.BudgetWarning, timestamp: 1 }
+
+    it('should evaluate budget', () => {
+        const budget = { monthlyLimit: 10, warnThresholds: [ 80, 50 ] }
+
+        // thresholds reached but not warned yet
+        const warn = evaluateBudget(budget, usage, [ warningEvent ])
+        assert.strictEqual(warn.action, BUDGET_ACTION_WARN)
+        assert.strictEqual(warn.spendPercent, 85)
+        assert.strictEqual(warn.message, "Estimated spend 8.50 USD reached 80% of monthly budget 10.00 USD")
+
+        // all reached thresholds already warned
+        assert.strictEqual(evaluateBudget(budget, usage, [ warningEvent, warningEvent ]).action, BUDGET_ACTION_NONE)
+        assert.strictEqual(evaluateBudget({ monthlyLimit: 100 }, usage, []).action, BUDGET_ACTION_NONE)
+
+        // budget exceeded: stop only if running
+        const stop = evaluateBudget(budget, { ...usage, estimatedCost: 12 }, [ warningEvent, warningEvent ])
+        assert.strictEqual(stop.action, BUDGET_ACTION_STOP)
+        assert.strictEqual(stop.message, "Estimated spend 12.00 USD exceeded monthly budget 10.00 USD, stopping instance")
+        assert.strictEqual(evaluateBudget(budget, { ...usage, estimatedCost: 12, intervals: [] }, [ warningEvent, warningEvent ]).action, BUDGET_ACTION_NONE)
+
+        // no more warning once budget exceeded
+        assert.strictEqual(evaluateBudget(budget, { ...usage, estimatedCost: 12, intervals: [] }, [ { type: InstanceEventEnum.BudgetExceeded, timestamp: 1 } ]).action, BUDGET_ACTION_NONE)
+
+        // unknown price
+        assert.strictEqual(evaluateBudget(budget, { ...usage, estimatedCost: undefined }, []).action, BUDGET_ACTION_NONE)
+    })
+
+    it('should stop instance exceeding budget and record decision', async () => {
+        const instanceName = "budget-test-exceeded"
+        await initializeDummyInstanceState(instanceName)
+        await initializeDummyInstanceState("budget-test-no-budget")
+
+        const manager = await getUnitTestDummyProviderClient().getInstanceManager(instanceName)
+        await manager.provision()
+        await manager.setBudget({ monthlyLimit: 10 })
+        assert.deepStrictEqual((await manager.getState()).budget, { monthlyLimit: 10 })
+
+        // instance running for a minute at 1000 USD per hour
+        const now = Date.now()
+        const sideEffect = new StateManagerBuilder({ stateBackend: getUnitTestCoreConfig().stateBackend }).buildSideEffect()
+        await sideEffect.appendEventJournal(instanceName, { type: InstanceEventEnum.StartEnd, timestamp: now - 60 * 1000 })
+
+        const registry = new ProviderRegistry()
+        registry.registerProvider({
+            ...getProviderRegistry().getProvider(CLOUDYPAD_PROVIDER_DUMMY),
+            pricingCatalog: {
+                version: "2025-01-01",
+                currency: "USD",
+                instanceHourly: { "t2.micro": 1000 },
+                diskGbMonth: 0,
+                snapshotGbMonth: 0,
+                imageGbMonth: 0,
+                staticIpHourly: 0,
+                egressGb: 0,
+            },
+            getBilledResources: () => ({ instanceType: "t2.micro", rootDiskSizeGb: 0 }),
+        })
+
+        const guard = new BudgetGuard({ config: getUnitTestCoreConfig(), registry: registry })
+        const results = await guard.check({ instanceNames: [ instanceName, "budget-test-no-budget" ], now: now })
+
+        assert.strictEqual(results.length, 1)
+        assert.strictEqual(results[0].action, BUDGET_ACTION_STOP)
+        assert.strictEqual(results[0].error, undefined)
+
+        const eventTypes = (await manager.getEventJournal()).map(e => e.type)
+        assert.deepStrictEqual(eventTypes.slice(-3), [ InstanceEventEnum.BudgetExceeded, InstanceEventEnum.StopBegin, InstanceEventEnum.StopEnd ])
+
+        // instance stopped: no further action
+        const nextResults = await guard.check({ instanceNames: [ instanceName ] })
+        assert.strictEqual(nextResults[0].action, BUDGET_ACTION_NONE)
+
+        await manager.setBudget(undefined)
+        assert.strictEqual((await manager.getState()).budget, undefined)
+    })
+})
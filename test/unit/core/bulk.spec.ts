@@ -0,0 +1,32 @@
+import * as assert from 'assert'
+import { formatBulkActionResults, runBulkAction } from '../../../src/core/bulk'
+
+describe('Bulk actions', () => {
+
+    it('should run action with bounded concurrency and aggregate results', async () => {
+        let running = 0
+        let maxRunning = 0
+
+        const results = await runBulkAction([ "a", "b", "c", "d", "e" ], 2, async (name) => {
+            running++
+            maxRunning = Math.max(maxRunning, running)
+            await new Promise(resolve => setTimeout(resolve, 10))
+            running--
+            if(name === "c"){
+                throw new Error("boom")
+            }
+        })
+
+        assert.strictEqual(maxRunning, 2)
+        assert.deepStrictEqual(results.map(r => [ r.instanceName, r.success, r.error ]), [
+            [ "a", true, undefined ],
+            [ "b", true, undefined ],
+            [ "c", false, "boom" ],
+            [ "d", true, undefined ],
+            [ "e", true, undefined ],
+        ])
+
+        assert.ok(formatBulkActionResults("Stop", results).endsWith("Stop: 4 succeeded, 1 failed."))
+        await assert.rejects(runBulkAction([ "a" ], 0, async () => {}), /Invalid concurrency/)
+    })
+})
@@ -0,0 +1,110 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as sinon from 'sinon'
+import { BUNDLE_FORMAT_VERSION, BundleManifest, checkBundleCompatibility, InstanceBundler } from '../../../src/core/bundle'
+import { StateManagerBuilder } from '../../../src/core/state/builders'
+import { PulumiStackExport, PulumiStackExporter } from '../../../src/tools/pulumi/export'
+import { toBase64 } from '../../../src/tools/base64'
+import { extractTarGz } from '../../../src/tools/tar'
+import { getUnitTestCoreConfig, getUnitTestDummyProviderClient, initializeDummyInstanceState } from '../utils'
+
+describe('Instance bundler', () => {
+
+    const dummyStack: PulumiStackExport = {
+        projectName: "CloudyPad-AWS",
+        stackName: "bundle-test-instance",
+        deployment: { version: 3, deployment: { resources: [] } },
+    }
+
+    let sandbox: sinon.SinonSandbox
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox()
+    })
+
+    afterEach(() => {
+        sandbox.restore()
+    })
+
+    it('should export and import an encrypted instance bundle', async () => {
+        const instanceName = "bundle-test-instance"
+        await initializeDummyInstanceState(instanceName)
+
+        const manager = await getUnitTestDummyProviderClient().getInstanceManager(instanceName)
+        await manager.provision()
+        const state = await manager.getState()
+        const events = await manager.getEventJournal()
+
+        sandbox.stub(PulumiStackExporter.prototype, 'exportInstanceStacks').resolves([ dummyStack ])
+        const listStacksStub = sandbox.stub(PulumiStackExporter.prototype, 'listStacks').resolves([])
+        const importStackStub = sandbox.stub(PulumiStackExporter.prototype, 'importStack').resolves()
+
+        const bundler = new InstanceBundler({ config: getUnitTestCoreConfig() })
+        const bundle = await bundler.exportInstance(instanceName, { passphrase: "s3cret" })
+
+        // content is not readable without passphrase
+        const files = extractTarGz(bundle).map(e => e.name)
+        assert.deepStrictEqual(files, [ "manifest.json", "content.json.enc" ])
+        const manifest = bundler.readManifest(bundle)
+        assert.strictEqual(manifest.instanceName, instanceName)
+        assert.strictEqual(manifest.bundleVersion, BUNDLE_FORMAT_VERSION)
+        assert.ok(manifest.encryption)
+
+        // import on "another machine"
+        const sideEffect = new StateManagerBuilder({ stateBackend: getUnitTestCoreConfig().stateBackend }).buildSideEffect()
+        await sideEffect.destroyState(instanceName)
+
+        await assert.rejects(bundler.importInstance(bundle), /a passphrase is required/)
+        await assert.rejects(bundler.importInstance(bundle, { passphrase: "wrong" }), /wrong passphrase/)
+
+        const imported = await bundler.importInstance(bundle, { passphrase: "s3cret" })
+
+        // SSH key file is embedded in state
+        const keyPath = state.provision.input.ssh.privateKeyPath
+        assert.ok(keyPath)
+        assert.strictEqual(imported.provision.input.ssh.privateKeyPath, undefined)
+        assert.strictEqual(imported.provision.input.ssh.privateKeyContentBase64, toBase64(fs.readFileSync(keyPath, "utf-8")))
+        assert.deepStrictEqual(imported.provision.output, state.provision.output)
+
+        assert.ok(importStackStub.calledOnceWith(dummyStack))
+        assert.deepStrictEqual(await (await getUnitTestDummyProviderClient().getInstanceManager(instanceName)).getEventJournal(), events)
+
+        await assert.rejects(bundler.importInstance(bundle, { passphrase: "s3cret" }), /already exists/)
+
+        // Existing stack is not replaced and nothing is written
+        await sideEffect.destroyState(instanceName)
+        listStacksStub.resolves([ { projectName: dummyStack.projectName, stackName: dummyStack.stackName } ])
+        importStackStub.resetHistory()
+
+        await assert.rejects(bundler.importInstance(bundle, { passphrase: "s3cret" }), /Pulumi stack CloudyPad-AWS\/bundle-test-instance already exists/)
+        assert.ok(importStackStub.notCalled)
+        assert.strictEqual(await sideEffect.instanceExists(instanceName), false)
+    })
+
+    it('should export a plain bundle without Pulumi stacks', async () => {
+        const instanceName = "bundle-test-no-stacks"
+        await initializeDummyInstanceState(instanceName)
+
+        const exportStub = sandbox.stub(PulumiStackExporter.prototype, 'exportInstanceStacks').resolves([])
+
+        const bundle = await new InstanceBundler({ config: getUnitTestCoreConfig() }).exportInstance(instanceName, { pulumiStacks: false })
+
+        assert.ok(exportStub.notCalled)
+        assert.deepStrictEqual(extractTarGz(bundle).map(e => e.name), [ "manifest.json", "content.json" ])
+    })
+
+    it('should check bundle compatibility', () => {
+        const manifest: BundleManifest = {
+            bundleVersion: BUNDLE_FORMAT_VERSION,
+            cloudypadVersion: "0.20.1",
+            instanceName: "dummy",
+            provider: "dummy",
+            createdAt: Date.now(),
+        }
+
+        checkBundleCompatibility(manifest, "0.20.0")
+        checkBundleCompatibility(manifest, "1.0.0")
+        assert.throws(() => checkBundleCompatibility(manifest, "0.19.5"), /Upgrade Cloudy Pad/)
+        assert.throws(() => checkBundleCompatibility({ ...manifest, bundleVersion: BUNDLE_FORMAT_VERSION + 1 }, "0.20.1"), /Unsupported bundle format version/)
+    })
+})
@@ -0,0 +1,67 @@
+import * as assert from 'assert'
+import { InstanceCloner, parseCloneOverrides } from '../../../src/core/clone'
+import { createDummyState, getUnitTestCoreConfig, getUnitTestDummyProviderClient, initializeDummyInstanceState } from '../utils'
+
+describe('Instance cloner', () => {
+
+    it('should parse overrides', () => {
+        assert.deepStrictEqual(parseCloneOverrides([ "provision.instanceType=g5.xlarge", "provision.dataDiskSizeGb=200", "configuration.autostop.enable=false" ]), [
+            { path: "provision.instanceType", value: "g5.xlarge" },
+            { path: "provision.dataDiskSizeGb", value: 200 },
+            { path: "configuration.autostop.enable", value: false },
+        ])
+
+        assert.throws(() => parseCloneOverrides([ "instanceType=g5.xlarge" ]), /Invalid override/)
+        assert.throws(() => parseCloneOverrides([ "provision=1" ]), /Invalid override/)
+    })
+
+    it('should clone instance inputs with a new SSH key and without outputs', async () => {
+        const sourceName = "clone-test-source"
+
+        // source without SSH key file: an SSH key is generated on initialization
+        const sourceState = createDummyState({ name: sourceName })
+        sourceState.provision.input.ssh.privateKeyPath = undefined
+        await getUnitTestDummyProviderClient().getInstanceInitializer().initializeStateOnly(sourceName, sourceState.provision.input, sourceState.configuration.input)
+
+        const sourceManager = await getUnitTestDummyProviderClient().getInstanceManager(sourceName)
+        await sourceManager.provision()
+        await sourceManager.setLabels({ team: "ops", env: "prod" })
+        const source = await sourceManager.getState()
+
+        const cloner = new InstanceCloner({ config: getUnitTestCoreConfig() })
+        const clone = await cloner.clone(sourceName, "clone-test-clone", {
+            overrides: parseCloneOverrides([ "provision.instanceType=t3.large" ]),
+            labelChanges: { set: { env: "lan-party" }, remove: [] },
+        })
+
+        assert.strictEqual(clone.name, "clone-test-clone")
+        assert.strictEqual(clone.provision.provider, source.provision.provider)
+        assert.strictEqual(clone.provision.input.instanceType, "t3.large")
+        assert.strictEqual(clone.provision.output, undefined)
+        assert.strictEqual(clone.provision.input.runtime, undefined)
+        assert.deepStrictEqual(clone.configuration.input, source.configuration.input)
+        assert.deepStrictEqual(clone.labels, { team: "ops", env: "lan-party" })
+
+        assert.ok(clone.provision.input.ssh.privateKeyContentBase64)
+        assert.notStrictEqual(clone.provision.input.ssh.privateKeyContentBase64, source.provision.input.ssh.privateKeyContentBase64)
+
+        await assert.rejects(cloner.clone(sourceName, "clone-test-clone"), /already exists/)
+        await assert.rejects(cloner.clone(sourceName, "clone-test-base-image", { fromBaseImage: true }), /has no base image/)
+    })
+
+    it('should generate a new SSH key when source uses an SSH key file', async () => {
+        await initializeDummyInstanceState("clone-test-key-file")
+        const cloner = new InstanceCloner({ config: getUnitTestCoreConfig() })
+
+        const clone = await cloner.clone("clone-test-key-file", "clone-test-key-file-clone")
+        assert.strictEqual(clone.provision.input.ssh.privateKeyPath, undefined)
+        assert.ok(clone.provision.input.ssh.privateKeyContentBase64)
+
+        // SSH key file can still be set explicitly
+        const overridden = await cloner.clone("clone-test-key-file", "clone-test-key-file-override", {
+            overrides: parseCloneOverrides([ "provision.ssh.privateKeyPath=./test/resources/ssh-key" ]),
+        })
+        assert.strictEqual(overridden.provision.input.ssh.privateKeyPath, "./test/resources/ssh-key")
+        assert.strictEqual(overridden.provision.input.ssh.privateKeyContentBase64, undefined)
+    })
+})
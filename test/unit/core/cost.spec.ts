@@ -0,0 +1,94 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as path from 'path'
+import { CostEstimator, estimateCost, formatCostEstimate } from '../../../src/core/cost'
+import { PricingCatalog } from '../../../src/core/pricing'
+import { AWS_PRICING_CATALOG } from '../../../src/providers/aws/pricing'
+import { createDummyAwsState, createTempTestDir, getUnitTestCoreConfig } from '../utils'
+
+describe('Cost estimation', () => {
+
+    const catalog: PricingCatalog = {
+        version: "2025-01-01",
+        currency: "USD",
+        instanceHourly: { "type-a": 1 },
+        diskGbMonth: 0.1,
+        snapshotGbMonth: 0.05,
+        imageGbMonth: 0.05,
+        spotPriceRatio: 0.5,
+        staticIpHourly: 0.01,
+        egressGb: 0.1,
+    }
+
+    const roundCosts = (costs: (number | undefined)[]) => costs.map(c => c === undefined ? undefined : Math.round(c * 100) / 100)
+
+    it('should estimate cost split by component', () => {
+        const input = {
+            ssh: { user: "ubuntu", privateKeyPath: "./key" },
+            dataDiskSnapshot: { enable: true },
+            baseImageSnapshot: { enable: true },
+            deleteInstanceServerOnStop: true,
+        }
+        const resources = { instanceType: "type-a", spot: true, rootDiskSizeGb: 100, dataDiskSizeGb: 200, staticIp: true }
+
+        // running 10% of the month: disks exist 10% of the time, data disk snapshot the remaining 90%
+        const estimate = estimateCost("aws", catalog, input, resources, { usageHoursPerMonth: 73, egressGbPerMonth: 50 })
+
+        assert.deepStrictEqual(estimate.items.map(i => i.component), [ "compute", "disks", "snapshots", "images", "static-ip", "egress" ])
+        assert.deepStrictEqual(roundCosts(estimate.items.map(i => i.monthly)), [ 36.5, 3, 9, 5, 7.3, 5 ])
+        assert.deepStrictEqual(roundCosts(estimate.items.map(i => i.hourly)), [ 0.5, 0.04, 0, 0.01, 0.01, undefined ])
+        assert.strictEqual(Math.round(estimate.totalMonthly * 100) / 100, 65.8)
+        assert.strictEqual(estimate.complete, true)
+
+        // always running without snapshot: full disk cost, no snapshot cost, on-demand price
+        const alwaysOn = estimateCost("aws", catalog, { ssh: input.ssh }, { ...resources, spot: false, staticIp: false })
+        assert.deepStrictEqual(roundCosts(alwaysOn.items.map(i => i.monthly)), [ 730, 30, 0, 0, 0, 0 ])
+
+        const unknownType = estimateCost("aws", catalog, { ssh: input.ssh }, { ...resources, instanceType: "unknown" })
+        assert.strictEqual(unknownType.items[0].monthly, undefined)
+        assert.strictEqual(unknownType.complete, false)
+    })
+
+    it('should format cost estimate', () => {
+        const estimate = estimateCost("aws", catalog, { ssh: { user: "ubuntu", privateKeyPath: "./key" } }, { instanceType: "type-a", rootDiskSizeGb: 73 })
+
+        const expected = [
+            "COMPONENT  HOURLY    MONTHLY",
+            "Compute    1.00 USD  730.00 USD",
+            "Disks      0.01 USD  7.30 USD",
+            "Snapshots  0.00 USD  0.00 USD",
+            "Images     0.00 USD  0.00 USD",
+            "Static IP  0.00 USD  0.00 USD",
+            "Egress     -         0.00 USD",
+            "Total      1.01 USD  737.30 USD",
+            "",
+            "Estimated for 730 running hours and 0 GB egress per month (aws pricing version 2025-01-01). " +
+                "Actual cost may vary with region, discounts and taxes.",
+        ].join("\n")
+
+        assert.strictEqual(formatCostEstimate(estimate), expected)
+    })
+
+    it('should estimate instance cost from provider catalog, using cached catalog if more recent', () => {
+        const state = createDummyAwsState({})
+        const cacheDir = createTempTestDir("pricing-cache")
+        const estimator = new CostEstimator({ config: { ...getUnitTestCoreConfig(), pricing: { cacheDir: cacheDir } } })
+
+        const bundledEstimate = estimator.estimateInstanceCost(state.provision.provider, state.provision.input)
+        assert.strictEqual(bundledEstimate?.pricingVersion, AWS_PRICING_CATALOG.version)
+        assert.strictEqual(bundledEstimate?.complete, true)
+
+        // older and invalid cached catalogs are ignored
+        fs.writeFileSync(path.join(cacheDir, "aws.json"), JSON.stringify({ ...AWS_PRICING_CATALOG, version: "2000-01-01" }))
+        assert.strictEqual(estimator.estimateInstanceCost(state.provision.provider, state.provision.input)?.pricingVersion, AWS_PRICING_CATALOG.version)
+
+        fs.writeFileSync(path.join(cacheDir, "aws.json"), JSON.stringify({ version: "2999-01-01" }))
+        assert.strictEqual(estimator.estimateInstanceCost(state.provision.provider, state.provision.input)?.pricingVersion, AWS_PRICING_CATALOG.version)
+
+        fs.writeFileSync(path.join(cacheDir, "aws.json"), JSON.stringify({ ...AWS_PRICING_CATALOG, version: "2999-01-01" }))
+        assert.strictEqual(estimator.estimateInstanceCost(state.provision.provider, state.provision.input)?.pricingVersion, "2999-01-01")
+
+        // providers without pricing catalog
+        assert.strictEqual(estimator.estimateInstanceCost("dummy", state.provision.input), undefined)
+    })
+})
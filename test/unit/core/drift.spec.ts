@@ -0,0 +1,97 @@
+import * as assert from 'assert'
+import { computeDriftFix, DriftReport, formatDriftReport, getMissingResources } from '../../../src/core/drift'
+import { DummyInstanceInfraManager } from '../../../src/providers/dummy/infra'
+import { getUnitTestCoreConfig, getUnitTestDummyProviderClient, initializeDummyInstanceState } from '../utils'
+
+describe('Drift detection', () => {
+
+    const report: DriftReport = {
+        instanceName: "my-instance",
+        supported: true,
+        checks: [
+            { resource: "instance-server", id: "i-0123456789", outputKeys: [ "instanceId" ], exists: true },
+            { resource: "data-disk", id: "vol-data", outputKeys: [ "dataDiskId", "machineDataDiskLookupId" ], exists: false },
+            { resource: "data-disk-snapshot", id: "snap-data", outputKeys: [ "dataDiskSnapshotId" ], exists: true },
+        ]
+    }
+
+    it('should format drift report', () => {
+        const expected = [
+            "Resources of instance my-instance:",
+            "  ✔ Instance server i-0123456789",
+            "  ✘ Data disk vol-data is missing",
+            "  ✔ Data disk snapshot snap-data",
+            "",
+            "Drift detected: 1 resource(s) referenced in state do not exist anymore (dataDiskId, machineDataDiskLookupId).",
+        ].join("\n")
+
+        assert.strictEqual(formatDriftReport(report), expected)
+        assert.match(formatDriftReport({ instanceName: "my-instance", supported: false, checks: [] }), /Drift detection is not available/)
+    })
+
+    it('should compute fix removing missing resources from output and updating runtime', () => {
+        const input = {
+            ssh: { user: "ubuntu" },
+            runtime: { instanceServerState: "present" as const, dataDiskState: "live" as const },
+        }
+        const output = {
+            host: "127.0.0.1",
+            instanceId: "i-0123456789",
+            dataDiskId: "vol-data",
+            machineDataDiskLookupId: "data",
+            dataDiskSnapshotId: "snap-data",
+        }
+
+        // data disk can be restored from remaining snapshot
+        const fix = computeDriftFix(input, output, report)
+        assert.deepStrictEqual(fix.provisionOutput, { host: "127.0.0.1", instanceId: "i-0123456789", dataDiskSnapshotId: "snap-data" })
+        assert.deepStrictEqual(fix.runtime, { instanceServerState: "present", dataDiskState: "snapshot" })
+        assert.strictEqual(fix.resetConfigurationOutput, false)
+
+        // server and snapshot missing: server flagged absent, data disk re-created empty
+        const serverMissingFix = computeDriftFix(input, output, {
+            ...report,
+            checks: report.checks.map(c => ({ ...c, exists: false }))
+        })
+        assert.deepStrictEqual(serverMissingFix.provisionOutput, { host: "127.0.0.1" })
+        assert.deepStrictEqual(serverMissingFix.runtime, { instanceServerState: "absent", dataDiskState: "live" })
+        assert.strictEqual(serverMissingFix.resetConfigurationOutput, true)
+    })
+
+    it('should detect and fix drift on dummy instance', async () => {
+        const instanceName = "dummy-drift-test"
+        await initializeDummyInstanceState(instanceName)
+
+        const manager = await getUnitTestDummyProviderClient().getInstanceManager(instanceName)
+        await manager.deploy()
+
+        const noDrift = await manager.detectDrift()
+        assert.strictEqual(noDrift.supported, true)
+        assert.deepStrictEqual(getMissingResources(noDrift), [])
+
+        // Simulate data disk and server deleted outside of Cloudy Pad
+        const infraManager = new DummyInstanceInfraManager({ instanceName: instanceName, coreConfig: getUnitTestCoreConfig() })
+        await infraManager.setDataDiskId(undefined)
+        await infraManager.setServerId(undefined)
+
+        const drift = await manager.detectDrift()
+        assert.deepStrictEqual(getMissingResources(drift).map(c => c.resource), [ "instance-server", "data-disk" ])
+
+        // state is unchanged unless fixing
+        const stateBeforeFix = await getUnitTestDummyProviderClient().getInstanceState(instanceName)
+        assert.strictEqual(stateBeforeFix.provision.output?.dataDiskId, `dummy-data-disk-${instanceName}`)
+
+        await manager.detectDrift({ fix: true })
+
+        const fixedState = await getUnitTestDummyProviderClient().getInstanceState(instanceName)
+        assert.strictEqual(fixedState.provision.output?.instanceId, undefined)
+        assert.strictEqual(fixedState.provision.output?.dataDiskId, undefined)
+        assert.strictEqual(fixedState.provision.output?.rootDiskId, `dummy-root-disk-${instanceName}`)
+        assert.strictEqual(fixedState.provision.input.runtime?.instanceServerState, "absent")
+        assert.strictEqual(fixedState.provision.input.runtime?.dataDiskState, "live")
+        assert.strictEqual(fixedState.configuration.output, undefined)
+
+        const afterFix = await manager.detectDrift()
+        assert.deepStrictEqual(getMissingResources(afterFix), [])
+    })
+})
@@ -0,0 +1,29 @@
+import * as assert from 'assert';
+import { filterInstanceEvents } from '../../../src/core/events';
+import { InstanceEvent, InstanceEventEnum } from '../../../src/core/state/state';
+
+describe('Instance events filter', () => {
+
+    const events: InstanceEvent[] = [
+        { type: InstanceEventEnum.StopFailed, timestamp: 3, error: "failure", durationMs: 1 },
+        { type: InstanceEventEnum.Init, timestamp: 1 },
+        { type: InstanceEventEnum.StopBegin, timestamp: 2 },
+        { type: InstanceEventEnum.StartBegin, timestamp: 4 },
+        { type: InstanceEventEnum.StartEnd, timestamp: 5, durationMs: 1 },
+    ]
+
+    it('should sort events oldest first without filter', () => {
+        const result = filterInstanceEvents(events, {})
+        assert.deepStrictEqual(result.map(e => e.timestamp), [1, 2, 3, 4, 5])
+    })
+
+    it('should filter events by type, failure, date and limit', () => {
+        assert.deepStrictEqual(
+            filterInstanceEvents(events, { types: [InstanceEventEnum.StartBegin, InstanceEventEnum.StopBegin] }).map(e => e.type),
+            [InstanceEventEnum.StopBegin, InstanceEventEnum.StartBegin]
+        )
+        assert.deepStrictEqual(filterInstanceEvents(events, { failedOnly: true }).map(e => e.type), [InstanceEventEnum.StopFailed])
+        assert.deepStrictEqual(filterInstanceEvents(events, { since: 4 }).map(e => e.timestamp), [4, 5])
+        assert.deepStrictEqual(filterInstanceEvents(events, { limit: 2 }).map(e => e.timestamp), [4, 5])
+    })
+})
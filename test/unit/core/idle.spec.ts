@@ -0,0 +1,39 @@
+import * as assert from 'assert'
+import { IdleWatcher } from '../../../src/core/idle'
+import { ServerRunningStatus } from '../../../src/core/runner'
+import { InstanceEventEnum } from '../../../src/core/state/state'
+import { DummyInstanceInfraManager } from '../../../src/providers/dummy/infra'
+import { getUnitTestCoreConfig, getUnitTestDummyProviderClient, initializeDummyInstanceState } from '../utils'
+
+describe('Idle watcher', () => {
+
+    it('should run full stop on instances stopped outside of Cloudy Pad', async () => {
+        const instanceName = "idle-test-autostopped"
+        await initializeDummyInstanceState(instanceName, {
+            provision: { input: { deleteInstanceServerOnStop: true } }
+        })
+
+        const manager = await getUnitTestDummyProviderClient().getInstanceManager(instanceName)
+        await manager.provision()
+
+        const watcher = new IdleWatcher({ config: getUnitTestCoreConfig() })
+
+        // running instance is left as-is
+        const runningResults = await watcher.check({ instanceNames: [ instanceName ] })
+        assert.deepStrictEqual(runningResults, [ { instanceName: instanceName, serverStatus: ServerRunningStatus.Running, stopped: false } ])
+
+        // auto-stop shuts down instance OS
+        const infraManager = new DummyInstanceInfraManager({ instanceName: instanceName, coreConfig: getUnitTestCoreConfig() })
+        await infraManager.setServerRunningStatus(ServerRunningStatus.Stopped)
+
+        const stoppedResults = await watcher.check({ instanceNames: [ instanceName ] })
+        assert.deepStrictEqual(stoppedResults, [ { instanceName: instanceName, serverStatus: ServerRunningStatus.Stopped, stopped: true } ])
+
+        const eventTypes = (await manager.getEventJournal()).map(e => e.type)
+        assert.deepStrictEqual(eventTypes.slice(-2), [ InstanceEventEnum.StopBegin, InstanceEventEnum.StopEnd ])
+        assert.strictEqual((await manager.getState()).provision.input.runtime?.instanceServerState, "absent")
+
+        // instance stopped in event history: not checked anymore
+        assert.deepStrictEqual(await watcher.check({ instanceNames: [ instanceName ] }), [])
+    })
+})
@@ -100,5 +100,19 @@ describe('Instance initializer', () => {
         const parsedKey = sshpk.parseKey(privateKeyContent, "ssh-private").toString("ssh-private")
         assert.ok(parsedKey.startsWith("-----BEGIN OPENSSH PUBLIC KEY-----"))
     })
+
+    it('should initialize instance with labels', async () => {
+
+        const dummyProviderClient = getUnitTestDummyProviderClient()
+
+        await new InstanceInitializer({ 
+            provider: CLOUDYPAD_PROVIDER_DUMMY,
+            stateWriter: dummyProviderClient.getStateWriter(),
+            stateParser: dummyProviderClient.getStateParser()
+        }).initializeStateOnly("test-initialize-labels", lodash.cloneDeep(TEST_INPUT.provision), TEST_INPUT.configuration, { team: "ops" })
+
+        const state = await dummyProviderClient.getStateLoader().loadInstanceState("test-initialize-labels")
+        assert.deepStrictEqual(state.labels, { team: "ops" })
+    })
 })
         
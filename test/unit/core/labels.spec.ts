@@ -0,0 +1,52 @@
+import * as assert from 'assert'
+import { applyLabelChanges, matchesLabelSelector, parseLabelArgs, parseLabelSelector, selectInstances } from '../../../src/core/labels'
+import { getUnitTestCoreConfig, getUnitTestDummyProviderClient, initializeDummyInstanceState } from '../utils'
+
+describe('Instance labels', () => {
+
+    it('should parse label arguments', () => {
+        assert.deepStrictEqual(parseLabelArgs([ "team=ops", "env=lan-party", "empty=" ]), { set: { team: "ops", env: "lan-party", empty: "" }, remove: [] })
+        assert.deepStrictEqual(parseLabelArgs([ "team=dev", "env-" ], true), { set: { team: "dev" }, remove: [ "env" ] })
+
+        assert.throws(() => parseLabelArgs([ "env-" ]), /expected key=value/)
+        assert.throws(() => parseLabelArgs([ "=ops" ]), /Invalid label '=ops'/)
+        assert.throws(() => parseLabelArgs([ "team=o,ps" ]), /value must contain only/)
+
+        assert.deepStrictEqual(applyLabelChanges({ team: "ops", env: "prod" }, { set: { team: "dev" }, remove: [ "env" ] }), { team: "dev" })
+    })
+
+    it('should match label selectors', () => {
+        const labels = { team: "ops", env: "lan-party" }
+        const matches = (selector: string) => matchesLabelSelector(labels, parseLabelSelector(selector))
+
+        assert.strictEqual(matches("team=ops"), true)
+        assert.strictEqual(matches("team=ops,env=lan-party"), true)
+        assert.strictEqual(matches("team=ops,env=prod"), false)
+        assert.strictEqual(matches("env!=prod"), true)
+        assert.strictEqual(matches("team, !owner"), true)
+        assert.strictEqual(matches("owner"), false)
+        assert.strictEqual(matchesLabelSelector(undefined, parseLabelSelector("team!=ops")), true)
+
+        assert.throws(() => parseLabelSelector(" , "), /expected at least one requirement/)
+    })
+
+    it('should set labels and select instances', async () => {
+        await initializeDummyInstanceState("labels-test-ops-1")
+        await initializeDummyInstanceState("labels-test-ops-2")
+        await initializeDummyInstanceState("labels-test-dev")
+
+        const client = getUnitTestDummyProviderClient()
+        await (await client.getInstanceManager("labels-test-ops-1")).setLabels({ "labels-test-team": "ops", env: "lan-party" })
+        await (await client.getInstanceManager("labels-test-ops-2")).setLabels({ "labels-test-team": "ops" })
+        await (await client.getInstanceManager("labels-test-dev")).setLabels({ "labels-test-team": "dev" })
+
+        const config = getUnitTestCoreConfig()
+        assert.deepStrictEqual((await selectInstances(config, "labels-test-team=ops")).sort(), [ "labels-test-ops-1", "labels-test-ops-2" ])
+        assert.deepStrictEqual(await selectInstances(config, "labels-test-team=ops,env=lan-party"), [ "labels-test-ops-1" ])
+        assert.ok((await selectInstances(config)).includes("labels-test-dev"))
+
+        const manager = await client.getInstanceManager("labels-test-dev")
+        await manager.setLabels({})
+        assert.strictEqual((await manager.getState()).labels, undefined)
+    })
+})
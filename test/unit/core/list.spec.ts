@@ -0,0 +1,47 @@
+import * as assert from 'assert'
+import { formatInstanceList, InstanceLister } from '../../../src/core/list'
+import { ServerRunningStatus } from '../../../src/core/runner'
+import { InstanceEventEnum } from '../../../src/core/state/state'
+import { CLOUDYPAD_PROVIDER_DUMMY } from '../../../src/core/const'
+import { getUnitTestCoreConfig, getUnitTestDummyProviderClient, initializeDummyInstanceState } from '../utils'
+
+describe('Instance lister', () => {
+
+    const selector = "list-test=true"
+
+    before(async () => {
+        await initializeDummyInstanceState("list-test-provisioned")
+        await initializeDummyInstanceState("list-test-initialized")
+
+        const client = getUnitTestDummyProviderClient()
+        const provisioned = await client.getInstanceManager("list-test-provisioned")
+        await provisioned.provision()
+        await provisioned.setLabels({ "list-test": "true" })
+        await (await client.getInstanceManager("list-test-initialized")).setLabels({ "list-test": "true" })
+    })
+
+    it('should list instances with status', async () => {
+        const entries = await new InstanceLister({ config: getUnitTestCoreConfig() }).list({ selector: selector })
+        const provisioned = entries.find(e => e.name === "list-test-provisioned")
+
+        assert.strictEqual(entries.length, 2)
+        assert.ok(provisioned)
+        assert.strictEqual(provisioned.provider, CLOUDYPAD_PROVIDER_DUMMY)
+        assert.strictEqual(provisioned.instanceType, "t2.micro")
+        assert.deepStrictEqual(provisioned.labels, { "list-test": "true" })
+        assert.strictEqual(provisioned.serverStatus, ServerRunningStatus.Running)
+        assert.strictEqual(provisioned.lastEvent?.type, InstanceEventEnum.ProvisionEnd)
+        assert.strictEqual(provisioned.statusError, undefined)
+    })
+
+    it('should list instances without status', async () => {
+        const entries = await new InstanceLister({ config: getUnitTestCoreConfig() }).list({ selector: selector, status: false })
+
+        assert.strictEqual(entries.length, 2)
+        assert.ok(entries.every(e => e.serverStatus === undefined && e.ready === undefined))
+
+        const table = formatInstanceList(entries, { wide: true }).split("\n")
+        assert.match(table[0], /^NAME\s+PROVIDER\s+LOCATION\s+TYPE\s+STATUS\s+READY\s+LAST EVENT\s+VERSION\s+COST\s+LAST EVENT DATE\s+LABELS\s+ERROR$/)
+        assert.match(table.find(l => l.startsWith("list-test-initialized")) ?? "", /^list-test-initialized\s+dummy\s+-\s+t2\.micro\s+-\s+-\s+init\s+.*list-test=true$/)
+    })
+})
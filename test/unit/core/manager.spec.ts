@@ -7,6 +7,9 @@ import { getLogger } from '../../../src/log/utils';
 import { CloudypadClient } from '../../../src/core/client';
 import * as sinon from 'sinon';
 import { DummyInstanceInfraManager } from '../../../src/providers/dummy/infra';
+import { ProgressEvent, ProgressPhase } from '../../../src/core/progress';
+import { StateWriter } from '../../../src/core/state/writer';
+import { InstanceLockedError, InstanceLockHandle, newInstanceLockInfo } from '../../../src/core/state/lock';
 
 describe('Instance manager', () => {
 
@@ -377,4 +380,178 @@ describe('Instance manager', () => {
         // deploy directly calls to configure with same effect
         // not adding another test here since deploy() on dummy instance also start instance
     })
-})
\ No newline at end of file
+
+    it('should emit progress events for phases, sub-phases and server status transitions', async () => {
+        const instanceName = `dummy-test-core-manager-progress-events`
+        await initializeDummyInstanceState(instanceName)
+        const dummyProviderClient = getUnitTestDummyProviderClient()
+        const manager = await dummyProviderClient.getInstanceManager(instanceName)
+
+        const events: ProgressEvent[] = []
+        const unsubscribe = manager.onProgress(e => events.push(e))
+
+        await manager.deploy()
+        await manager.stop()
+
+        const phaseEvents = events.filter(e => e.type !== "server-status").map(e => `${e.type}:${"phase" in e ? e.phase : ""}`)
+        assert.deepStrictEqual(phaseEvents, [
+            `phase-begin:${ProgressPhase.Deploy}`,
+            `phase-begin:${ProgressPhase.Provision}`,
+            `phase-begin:${ProgressPhase.MainProvision}`,
+            `phase-end:${ProgressPhase.MainProvision}`,
+            `phase-end:${ProgressPhase.Provision}`,
+            `phase-begin:${ProgressPhase.Configure}`,
+            `phase-begin:${ProgressPhase.RunConfiguration}`,
+            `phase-end:${ProgressPhase.RunConfiguration}`,
+            `phase-end:${ProgressPhase.Configure}`,
+            `phase-end:${ProgressPhase.Deploy}`,
+            `phase-begin:${ProgressPhase.Stop}`,
+            `phase-end:${ProgressPhase.Stop}`,
+        ])
+
+        const statusEvents = events.filter(e => e.type === "server-status")
+        assert.strictEqual(statusEvents[statusEvents.length - 1].status, ServerRunningStatus.Stopped)
+
+        // no more events after unsubscribing
+        unsubscribe()
+        const eventCount = events.length
+        await manager.start()
+        assert.strictEqual(events.length, eventCount)
+    })
+
+    it('should emit failure progress event with error message when action fails', async () => {
+        const instanceName = `dummy-test-core-manager-progress-failure`
+        await initializeDummyInstanceState(instanceName)
+        const dummyProviderClient = getUnitTestDummyProviderClient()
+        const manager = await dummyProviderClient.getInstanceManager(instanceName)
+
+        const events: ProgressEvent[] = []
+        manager.onProgress(e => events.push(e))
+
+        sinon.stub(manager, 'doStop').rejects(new Error('Dummy stop failure'))
+
+        await assert.rejects(manager.stop({ retries: 0 }))
+
+        const failure = events.find(e => e.type === "phase-failure")
+        assert.ok(failure && failure.type === "phase-failure")
+        assert.strictEqual(failure.phase, ProgressPhase.Stop)
+        assert.strictEqual(failure.error, 'Dummy stop failure')
+
+        // failure event is recorded in state with error message and duration
+        const latestEvent = await manager.getLatestEvent()
+        assert.strictEqual(latestEvent?.type, InstanceEventEnum.StopFailed)
+        assert.strictEqual(latestEvent?.error, 'Dummy stop failure')
+        assert.ok(latestEvent?.durationMs !== undefined)
+
+        const journal = await manager.getEventJournal()
+        assert.deepStrictEqual(journal.map(e => e.type), [InstanceEventEnum.Init, InstanceEventEnum.StopBegin, InstanceEventEnum.StopFailed])
+    })
+
+    it('should hold a single instance lock while running actions and release it afterwards', async () => {
+        const instanceName = `dummy-test-core-manager-lock`
+        await initializeDummyInstanceState(instanceName)
+        const dummyProviderClient = getUnitTestDummyProviderClient()
+        const manager = await dummyProviderClient.getInstanceManager(instanceName)
+
+        const sandbox = sinon.createSandbox()
+        try {
+            const lockSpy = sandbox.spy(StateWriter.prototype, 'lock')
+            const releaseSpy = sandbox.spy(InstanceLockHandle.prototype, 'release')
+
+            // deploy runs provision and configure but lock is only taken once
+            await manager.deploy()
+            assert.strictEqual(lockSpy.callCount, 1)
+            assert.strictEqual(releaseSpy.callCount, 1)
+
+            // lock is released on failure too
+            sinon.stub(manager, 'doStop').rejects(new Error('Dummy stop failure'))
+            await assert.rejects(manager.stop({ retries: 0 }))
+            assert.strictEqual(lockSpy.callCount, 2)
+            assert.strictEqual(releaseSpy.callCount, 2)
+        } finally {
+            sandbox.restore()
+        }
+    })
+
+    it('should not run action when instance is locked by someone else', async () => {
+        const instanceName = `dummy-test-core-manager-locked`
+        await initializeDummyInstanceState(instanceName)
+        const dummyProviderClient = getUnitTestDummyProviderClient()
+        const manager = await dummyProviderClient.getInstanceManager(instanceName)
+
+        const sandbox = sinon.createSandbox()
+        try {
+            sandbox.stub(StateWriter.prototype, 'lock').rejects(new InstanceLockedError(newInstanceLockInfo(instanceName, 60)))
+            const doStopStub = sinon.stub(manager, 'doStop').resolves()
+
+            await assert.rejects(manager.stop(), InstanceLockedError)
+            assert.strictEqual(doStopStub.callCount, 0)
+
+            // plan writes Pulumi stack config, it's not run on locked instance either
+            await assert.rejects(manager.plan(), InstanceLockedError)
+        } finally {
+            sandbox.restore()
+        }
+    })
+
+    it('should not run concurrent actions on the same instance', async () => {
+        const instanceName = `dummy-test-core-manager-concurrent`
+        await initializeDummyInstanceState(instanceName)
+        const dummyProviderClient = getUnitTestDummyProviderClient()
+        const manager1 = await dummyProviderClient.getInstanceManager(instanceName)
+        const manager2 = await dummyProviderClient.getInstanceManager(instanceName)
+
+        // block first manager action until second manager action fails
+        let unblockStop: () => void = () => {}
+        const stopBlocked = new Promise<void>(resolve => { unblockStop = resolve })
+        let stopStartedResolve: () => void = () => {}
+        const stopStarted = new Promise<void>(resolve => { stopStartedResolve = resolve })
+        sinon.stub(manager1, 'doStop').callsFake(async () => {
+            stopStartedResolve()
+            await stopBlocked
+        })
+
+        const stop1 = manager1.stop()
+        await stopStarted
+
+        const manager2DoStop = sinon.stub(manager2, 'doStop').resolves()
+        await assert.rejects(manager2.stop(), (error: unknown) => {
+            assert.ok(error instanceof InstanceLockedError)
+            assert.ok(error.message.includes(`PID ${process.pid}`))
+            return true
+        })
+
+        unblockStop()
+        await stop1
+
+        // lock released, second manager can run actions
+        assert.strictEqual(manager2DoStop.callCount, 0)
+        await manager2.stop()
+        assert.strictEqual(manager2DoStop.callCount, 1)
+    })
+
+    it('should not run concurrent actions on the same manager', async () => {
+        const instanceName = `dummy-test-core-manager-concurrent-same`
+        await initializeDummyInstanceState(instanceName)
+        const manager = await getUnitTestDummyProviderClient().getInstanceManager(instanceName)
+
+        let unblockStop: () => void = () => {}
+        const stopBlocked = new Promise<void>(resolve => { unblockStop = resolve })
+        let stopStartedResolve: () => void = () => {}
+        const stopStarted = new Promise<void>(resolve => { stopStartedResolve = resolve })
+        const doStop = sinon.stub(manager, 'doStop').callsFake(async () => {
+            stopStartedResolve()
+            await stopBlocked
+        })
+
+        const stop1 = manager.stop()
+        await stopStarted
+
+        // lock held by first action is not reused by a concurrent action
+        await assert.rejects(manager.stop(), InstanceLockedError)
+
+        unblockStop()
+        await stop1
+        assert.strictEqual(doStop.callCount, 1)
+    })
+})
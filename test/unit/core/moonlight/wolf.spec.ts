@@ -0,0 +1,74 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import { WolfMoonlightPairer } from '../../../../src/core/moonlight/pairer/wolf'
+
+/**
+ * Private methods of Wolf pairer stubbed to avoid calling Docker and Wolf API
+ */
+interface WolfMoonlightPairerInternals {
+    buildDockerClient(): unknown
+    getLatestPinURL(docker: unknown, host: string): Promise<string | undefined>
+    sendPinData(publicPinUrl: string, pin: string): Promise<void>
+    checkPairingSuccess(docker: unknown, notBefore: Date): Promise<boolean>
+}
+
+describe('Wolf Moonlight pairer', () => {
+
+    const pinUrl = "http://1.2.3.4:47989/pin/#ABCDEF"
+
+    let sandbox: sinon.SinonSandbox
+    let getLatestPinURL: sinon.SinonStub
+    let sendPinData: sinon.SinonStub
+    let checkPairingSuccess: sinon.SinonStub
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox()
+        const prototype = WolfMoonlightPairer.prototype as unknown as WolfMoonlightPairerInternals
+        sandbox.stub(prototype, 'buildDockerClient').returns({})
+        getLatestPinURL = sandbox.stub(prototype, 'getLatestPinURL')
+        sendPinData = sandbox.stub(prototype, 'sendPinData').resolves()
+        checkPairingSuccess = sandbox.stub(prototype, 'checkPairingSuccess')
+    })
+
+    afterEach(() => {
+        sandbox.restore()
+    })
+
+    const buildPairer = () => new WolfMoonlightPairer({
+        instanceName: "wolf-test",
+        host: "1.2.3.4",
+        ssh: { clientName: "wolf-test", host: "1.2.3.4", user: "ubuntu" },
+    })
+
+    it('should pair on first attempt', async () => {
+        getLatestPinURL.resolves(pinUrl)
+        checkPairingSuccess.resolves(true)
+
+        assert.strictEqual(await buildPairer().pairSendPin("1234", 3, 0), true)
+        assert.ok(sendPinData.calledOnceWith(pinUrl, "1234"))
+        assert.strictEqual(getLatestPinURL.callCount, 1)
+    })
+
+    it('should retry until pairing succeeds', async () => {
+        // no PIN URL until pairing is initiated, then pairing not yet successful, then an error
+        getLatestPinURL.onCall(0).resolves(undefined)
+        getLatestPinURL.resolves(pinUrl)
+        checkPairingSuccess.onCall(0).resolves(false)
+        checkPairingSuccess.onCall(1).rejects(new Error("Wolf logs not available"))
+        checkPairingSuccess.onCall(2).resolves(true)
+
+        assert.strictEqual(await buildPairer().pairSendPin("1234", 5, 0), true)
+        assert.strictEqual(getLatestPinURL.callCount, 4)
+        assert.strictEqual(sendPinData.callCount, 3)
+    })
+
+    it('should fail after all attempts', async () => {
+        getLatestPinURL.resolves(pinUrl)
+        checkPairingSuccess.onCall(0).rejects(new Error("Wolf logs not available"))
+        checkPairingSuccess.resolves(false)
+
+        await assert.rejects(buildPairer().pairSendPin("1234", 3, 0), /after 3 attempts/)
+        assert.strictEqual(getLatestPinURL.callCount, 3)
+        assert.strictEqual(sendPinData.callCount, 3)
+    })
+})
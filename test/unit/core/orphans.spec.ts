@@ -0,0 +1,178 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import { CloudResourceScanner, estimateResourceMonthlyCost, formatOrphanScanResult, OrphanScanner, TaggedCloudResource } from '../../../src/core/orphans'
+import { PricingCatalog } from '../../../src/core/pricing'
+import { getProviderRegistry, ProviderRegistry } from '../../../src/core/provider-registry'
+import { CLOUDYPAD_PROVIDER_DUMMY } from '../../../src/core/const'
+import { StateLoader } from '../../../src/core/state/loader'
+import { getUnitTestCoreConfig, initializeDummyInstanceState } from '../utils'
+
+describe('Orphaned resources', () => {
+
+    const catalog: PricingCatalog = {
+        version: "2025-01-01",
+        currency: "USD",
+        instanceHourly: { "dummy-type": 1 },
+        diskGbMonth: 0.1,
+        snapshotGbMonth: 0.05,
+        imageGbMonth: 0.05,
+        staticIpHourly: 0.005,
+        egressGb: 0.09,
+    }
+
+    const orphanServer: TaggedCloudResource = {
+        provider: CLOUDYPAD_PROVIDER_DUMMY,
+        kind: "instance-server",
+        id: "server-orphan",
+        instanceName: "orphans-test-deleted",
+        location: "dummy-region",
+        instanceType: "dummy-type",
+        running: true,
+    }
+
+    const orphanSnapshot: TaggedCloudResource = {
+        provider: CLOUDYPAD_PROVIDER_DUMMY,
+        kind: "snapshot",
+        id: "snapshot-orphan",
+        instanceName: "orphans-test-deleted",
+        sizeGb: 100,
+    }
+
+    const orphanImage: TaggedCloudResource = {
+        provider: CLOUDYPAD_PROVIDER_DUMMY,
+        kind: "image",
+        id: "image-orphan",
+        instanceName: "orphans-test-deleted",
+        sizeGb: 50,
+    }
+
+    it('should estimate resource monthly cost', () => {
+        assert.strictEqual(estimateResourceMonthlyCost(catalog, orphanServer), 730)
+        assert.strictEqual(estimateResourceMonthlyCost(catalog, { ...orphanServer, running: false }), 0)
+        assert.strictEqual(estimateResourceMonthlyCost(catalog, { ...orphanServer, instanceType: "unknown-type" }), undefined)
+        assert.strictEqual(estimateResourceMonthlyCost(catalog, orphanSnapshot), 5)
+        assert.strictEqual(estimateResourceMonthlyCost(catalog, { ...orphanSnapshot, sizeGb: undefined }), undefined)
+    })
+
+    it('should format scan result', () => {
+        const expected = [
+            "PROVIDER  KIND             ID               INSTANCE              LOCATION      EST. MONTHLY COST",
+            "dummy     instance-server  server-orphan    orphans-test-deleted  dummy-region  730.00 USD",
+            "dummy     snapshot         snapshot-orphan  orphans-test-deleted  -             unknown",
+            "",
+            "Found 2 orphaned resource(s). Estimated monthly cost: 730.00 USD",
+            "Couldn't scan provider aws: missing credentials",
+        ].join("\n")
+
+        assert.strictEqual(formatOrphanScanResult({
+            orphans: [
+                { ...orphanServer, estimatedMonthlyCost: 730, currency: "USD" },
+                { ...orphanSnapshot },
+            ],
+            scannedProviders: [ CLOUDYPAD_PROVIDER_DUMMY ],
+            failures: [ { provider: "aws", error: "missing credentials" } ],
+            unreadableInstances: [],
+        }), expected)
+
+        assert.match(formatOrphanScanResult({ orphans: [], scannedProviders: [ CLOUDYPAD_PROVIDER_DUMMY ], failures: [], unreadableInstances: [] }), /No orphaned resources found/)
+        assert.match(formatOrphanScanResult({
+            orphans: [],
+            scannedProviders: [ CLOUDYPAD_PROVIDER_DUMMY ],
+            failures: [],
+            unreadableInstances: [ { instanceName: "broken", error: "invalid state" } ],
+        }), /Couldn't load state of instance broken, its resources may be reported as orphans: invalid state/)
+    })
+
+    let sandbox: sinon.SinonSandbox
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox()
+    })
+
+    afterEach(() => {
+        sandbox.restore()
+    })
+
+    function buildDummyRegistry(fakeScanner: CloudResourceScanner): ProviderRegistry {
+        const registry = new ProviderRegistry()
+        registry.registerProvider({
+            ...getProviderRegistry().getProvider(CLOUDYPAD_PROVIDER_DUMMY),
+            pricingCatalog: catalog,
+            buildResourceScanner: () => fakeScanner,
+        })
+        return registry
+    }
+
+    it('should find and delete orphaned resources', async () => {
+        const knownInstance = await initializeDummyInstanceState("orphans-test-known")
+
+        const deletedIds: string[] = []
+        const fakeScanner: CloudResourceScanner = {
+            listTaggedResources: async () => [
+                orphanSnapshot,
+                orphanImage,
+                orphanServer,
+                { ...orphanServer, id: "server-known", instanceName: knownInstance.name },
+            ],
+            deleteResource: async (resource) => {
+                if (resource.id === orphanImage.id) {
+                    throw new Error("image in use")
+                }
+                deletedIds.push(resource.id)
+            },
+        }
+
+        const scanner = new OrphanScanner({ config: getUnitTestCoreConfig(), registry: buildDummyRegistry(fakeScanner) })
+        const result = await scanner.scan()
+
+        assert.deepStrictEqual(result.scannedProviders, [ CLOUDYPAD_PROVIDER_DUMMY ])
+        assert.deepStrictEqual(result.failures, [])
+        assert.deepStrictEqual(result.unreadableInstances, [])
+        assert.deepStrictEqual(result.orphans.map(o => [ o.id, o.estimatedMonthlyCost ]), [
+            [ "snapshot-orphan", 5 ],
+            [ "image-orphan", 2.5 ],
+            [ "server-orphan", 730 ],
+        ])
+
+        // servers deleted first, images before snapshots, failures don't stop deletion
+        const deletions = await scanner.deleteOrphans(result)
+        assert.deepStrictEqual(deletions.map(d => [ d.resource.id, d.deleted ]), [
+            [ "server-orphan", true ],
+            [ "image-orphan", false ],
+            [ "snapshot-orphan", true ],
+        ])
+        assert.match(deletions[1].error ?? "", /image in use/)
+        assert.deepStrictEqual(deletedIds, [ "server-orphan", "snapshot-orphan" ])
+
+        await assert.rejects(scanner.scan({ providers: [ "unknown" ] }), /not supported/)
+    })
+
+    it('should refuse to delete orphaned resources when an instance state could not be loaded', async () => {
+        // resources of a renamed instance are named after its previous name, which is unknown if its state can't be loaded
+        const renamedInstance = await initializeDummyInstanceState("orphans-test-renamed")
+        const originalLoad = StateLoader.prototype.loadInstanceState
+        sandbox.stub(StateLoader.prototype, 'loadInstanceState').callsFake(async function (this: StateLoader, instanceName: string) {
+            if (instanceName === renamedInstance.name) {
+                throw new Error("invalid state")
+            }
+            return originalLoad.call(this, instanceName)
+        })
+
+        const deletedIds: string[] = []
+        const fakeScanner: CloudResourceScanner = {
+            listTaggedResources: async () => [ { ...orphanServer, id: "server-renamed", instanceName: "orphans-test-previous-name" } ],
+            deleteResource: async (resource) => {
+                deletedIds.push(resource.id)
+            },
+        }
+
+        const scanner = new OrphanScanner({ config: getUnitTestCoreConfig(), registry: buildDummyRegistry(fakeScanner) })
+        const result = await scanner.scan({ providers: [ CLOUDYPAD_PROVIDER_DUMMY ] })
+
+        assert.deepStrictEqual(result.unreadableInstances, [ { instanceName: renamedInstance.name, error: "invalid state" } ])
+        assert.deepStrictEqual(result.orphans.map(o => o.id), [ "server-renamed" ])
+
+        await assert.rejects(scanner.deleteOrphans(result), /state of instance\(s\) orphans-test-renamed could not be loaded/)
+        assert.deepStrictEqual(deletedIds, [])
+    })
+})
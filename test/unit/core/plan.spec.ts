@@ -0,0 +1,136 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import { formatProvisionPlan, getPlanReplacements, hasPlanChanges, ProvisionPlan } from '../../../src/core/plan'
+import { InstancePulumiClient, PulumiResourceChange } from '../../../src/tools/pulumi/client'
+import { AwsProvisioner } from '../../../src/providers/aws/provisioner'
+import { AwsInstanceStateV1 } from '../../../src/providers/aws/state'
+import { createDummyAwsState, getUnitTestCoreConfig, getUnitTestDummyProviderClient, initializeDummyInstanceState } from '../utils'
+
+describe('Provision plan', () => {
+
+    const instanceReplace: PulumiResourceChange = {
+        urn: "urn:pulumi:my-instance::CloudyPad-AWS::aws:ec2/instance:Instance::my-instance-ec2-instance",
+        name: "my-instance-ec2-instance",
+        type: "aws:ec2/instance:Instance",
+        operation: "replace",
+        diffs: ["ami", "instanceType"],
+        replaceKeys: ["ami"],
+    }
+
+    const securityGroupUpdate: PulumiResourceChange = {
+        urn: "urn:pulumi:my-instance::CloudyPad-AWS::aws:ec2/securityGroup:SecurityGroup::my-instance-sg",
+        name: "my-instance-sg",
+        type: "aws:ec2/securityGroup:SecurityGroup",
+        operation: "update",
+        diffs: ["ingress"],
+        replaceKeys: [],
+    }
+
+    const plan: ProvisionPlan = {
+        instanceName: "my-instance",
+        supported: true,
+        stacks: [
+            { stack: "main", projectName: "CloudyPad-AWS", stackName: "my-instance", changes: [ securityGroupUpdate, instanceReplace ] },
+            { stack: "base-image", projectName: "CloudyPad-AWS-BaseImage", stackName: "my-instance", changes: [] },
+        ]
+    }
+
+    it('should format plan with changes and replacement warnings', () => {
+        assert.deepStrictEqual(getPlanReplacements(plan), [ instanceReplace ])
+        assert.strictEqual(hasPlanChanges(plan), true)
+
+        const expected = [
+            "Planned changes for instance my-instance:",
+            "",
+            "  Main infrastructure (stack CloudyPad-AWS/my-instance):",
+            "    ~  update  aws:ec2/securityGroup:SecurityGroup my-instance-sg [ingress]",
+            "    +- replace aws:ec2/instance:Instance my-instance-ec2-instance [ami, instanceType]",
+            "",
+            "  Base image (stack CloudyPad-AWS-BaseImage/my-instance):",
+            "    No changes",
+            "",
+            "  Warnings:",
+            "    ⚠ aws:ec2/instance:Instance my-instance-ec2-instance will be replaced (replaced because of changes on: ami): " +
+                "instance server and its root disk will be re-created, data on root disk will be lost",
+        ].join("\n")
+
+        assert.strictEqual(formatProvisionPlan(plan), expected)
+    })
+
+    it('should format unsupported plan', () => {
+        const unsupported: ProvisionPlan = { instanceName: "my-instance", supported: false, stacks: [] }
+        assert.strictEqual(hasPlanChanges(unsupported), false)
+        assert.match(formatProvisionPlan(unsupported), /Plan is not available for instance my-instance/)
+    })
+
+    describe('Provisioner plan', () => {
+
+        let sandbox: sinon.SinonSandbox
+
+        beforeEach(() => {
+            sandbox = sinon.createSandbox()
+        })
+
+        afterEach(() => {
+            sandbox.restore()
+        })
+
+        function buildAwsProvisioner(state: AwsInstanceStateV1): AwsProvisioner {
+            return new AwsProvisioner({
+                coreConfig: getUnitTestCoreConfig(),
+                instanceName: state.name,
+                provisionInput: state.provision.input,
+                provisionOutput: state.provision.output,
+                configurationInput: state.configuration.input,
+            })
+        }
+
+        it('should only preview main stack when no snapshot or image would be created', async () => {
+            const setConfigStub = sandbox.stub(InstancePulumiClient.prototype, 'setConfig').resolves()
+            sandbox.stub(InstancePulumiClient.prototype, 'previewChanges').resolves([ instanceReplace ])
+
+            const state = createDummyAwsState({})
+            const result = await buildAwsProvisioner(state).plan()
+
+            assert.strictEqual(result.supported, true)
+            assert.deepStrictEqual(result.stacks.map(s => s.stack), [ "main" ])
+            assert.deepStrictEqual(result.stacks[0].changes, [ instanceReplace ])
+            assert.strictEqual(setConfigStub.callCount, 1)
+        })
+
+        it('should preview data disk snapshot and base image stacks when they would be provisioned', async () => {
+            const setConfigStub = sandbox.stub(InstancePulumiClient.prototype, 'setConfig').resolves()
+            sandbox.stub(InstancePulumiClient.prototype, 'previewChanges').resolves([])
+
+            const state = createDummyAwsState({
+                provision: {
+                    input: {
+                        dataDiskSizeGb: 100,
+                        dataDiskSnapshot: { enable: true },
+                        baseImageSnapshot: { enable: true },
+                        runtime: { dataDiskState: "snapshot" },
+                    },
+                    output: {
+                        host: "127.0.0.1",
+                        instanceId: "i-0123456789",
+                        dataDiskId: "vol-data",
+                        rootDiskId: "vol-root",
+                    }
+                }
+            })
+            const result = await buildAwsProvisioner(state).plan()
+
+            assert.deepStrictEqual(result.stacks.map(s => s.stack), [ "data-disk-snapshot", "main", "base-image" ])
+            assert.deepStrictEqual(setConfigStub.getCall(0).args[0], { instanceName: state.name, region: "eu-west-1", baseVolumeId: "vol-data" })
+            assert.deepStrictEqual(setConfigStub.getCall(2).args[0], { instanceName: state.name, region: "eu-west-1", rootVolumeId: "vol-root" })
+        })
+
+        it('should return unsupported plan for providers without plan support', async () => {
+            const state = await initializeDummyInstanceState("plan-unsupported-test")
+            const manager = await getUnitTestDummyProviderClient().getInstanceManager(state.name)
+
+            const result = await manager.plan({ deploy: true })
+            assert.deepStrictEqual(result, { instanceName: state.name, supported: false, stacks: [] })
+        })
+    })
+})
@@ -0,0 +1,84 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as path from 'path'
+import { getProviderRegistry, ProviderRegistry } from '../../../src/core/provider-registry'
+import { InstanceManagerBuilder } from '../../../src/core/manager-builder'
+import { CLOUDYPAD_PROVIDER_AWS, CLOUDYPAD_PROVIDER_DUMMY, CLOUDYPAD_PROVIDER_LIST } from '../../../src/core/const'
+import { NO_PROVIDER_CAPABILITIES } from '../../../src/core/provider-capabilities'
+import { DummyProviderClient } from '../../../src/providers/dummy/provider'
+import { createTempTestDir, getUnitTestCoreConfig } from '../utils'
+
+describe('ProviderRegistry', () => {
+
+    /**
+     * Write a provider module registering a copy of Dummy provider under given name
+     */
+    function writeProviderModule(providerName: string): string {
+        const modulePath = path.join(createTempTestDir("provider-module"), "provider.js")
+        fs.writeFileSync(modulePath, `
+            exports.register = function (registry) {
+                const dummy = registry.getProvider("dummy")
+                registry.registerProvider({ ...dummy, name: "${providerName}", hidden: false })
+            }
+        `)
+        return modulePath
+    }
+
+    it('should have Core providers registered', () => {
+        const registry = getProviderRegistry()
+
+        for(const provider of CLOUDYPAD_PROVIDER_LIST){
+            assert.ok(registry.hasProvider(provider), `Provider ${provider} should be registered`)
+        }
+        assert.strictEqual(registry.getProvider(CLOUDYPAD_PROVIDER_DUMMY).hidden, true)
+        assert.strictEqual(registry.getProvider(CLOUDYPAD_PROVIDER_AWS).buildClient({ config: getUnitTestCoreConfig() }).getProviderName(), CLOUDYPAD_PROVIDER_AWS)
+    })
+
+    it('should register provider and refuse duplicated provider', () => {
+        const registry = new ProviderRegistry()
+        registry.registerProvider({
+            name: "custom",
+            buildClient: (args) => new DummyProviderClient(args),
+            buildStateParser: () => getProviderRegistry().getProvider(CLOUDYPAD_PROVIDER_DUMMY).buildStateParser(),
+            capabilities: NO_PROVIDER_CAPABILITIES,
+        })
+
+        assert.deepStrictEqual(registry.getProviderNames(), ["custom"])
+        assert.throws(() => registry.registerProvider(registry.getProvider("custom")), /already registered/)
+        assert.throws(() => registry.getProvider("unknown"), /Provider unknown not supported. Registered providers: custom/)
+    })
+
+    it('should load provider module only once', () => {
+        const registry = new ProviderRegistry()
+        registry.registerProvider(getProviderRegistry().getProvider(CLOUDYPAD_PROVIDER_DUMMY))
+
+        const modulePath = writeProviderModule("custom-module")
+        registry.loadProviderModules([modulePath])
+        registry.loadProviderModules([modulePath])
+
+        assert.deepStrictEqual(registry.getProviderNames(), [CLOUDYPAD_PROVIDER_DUMMY, "custom-module"])
+    })
+
+    it('should fail to load invalid provider modules', () => {
+        const registry = new ProviderRegistry()
+
+        assert.throws(() => registry.loadProviderModules(["/does/not/exist.js"]), /Failed to load provider module/)
+
+        const modulePath = path.join(createTempTestDir("provider-module-invalid"), "invalid.js")
+        fs.writeFileSync(modulePath, "exports.foo = 'bar'")
+        assert.throws(() => registry.loadProviderModules([modulePath]), /must export a register\(registry\) function/)
+    })
+
+    it('should build provider client for provider registered from config module', () => {
+        const modulePath = writeProviderModule("custom-from-config")
+        const builder = new InstanceManagerBuilder({
+            config: {
+                ...getUnitTestCoreConfig(),
+                providers: { modules: [modulePath] }
+            }
+        })
+
+        const client = builder.buildProviderClient("custom-from-config")
+        assert.ok(client instanceof DummyProviderClient)
+    })
+})
@@ -0,0 +1,78 @@
+import * as assert from 'assert'
+import { InstanceCloner } from '../../../src/core/clone'
+import { InstanceRenamer } from '../../../src/core/rename'
+import { ServerRunningStatus } from '../../../src/core/runner'
+import { InstanceEventEnum } from '../../../src/core/state/state'
+import { getUnitTestCoreConfig, getUnitTestDummyProviderClient, initializeDummyInstanceState } from '../utils'
+
+describe('Instance renamer', () => {
+
+    it('should rename instance keeping its Cloud resources', async () => {
+        const oldName = "rename-test-old"
+        const newName = "rename-test-new"
+        await initializeDummyInstanceState(oldName)
+
+        const oldManager = await getUnitTestDummyProviderClient().getInstanceManager(oldName)
+        await oldManager.provision()
+        await oldManager.start({ wait: true })
+        const oldState = await oldManager.getState()
+        const oldEvents = await oldManager.getEventJournal()
+
+        const renamer = new InstanceRenamer({ config: getUnitTestCoreConfig() })
+        const renamed = await renamer.rename(oldName, newName)
+
+        assert.strictEqual(renamed.name, newName)
+        assert.strictEqual(renamed.resourceName, oldName)
+        assert.deepStrictEqual(renamed.provision, oldState.provision)
+
+        const loader = getUnitTestDummyProviderClient().getStateLoader()
+        assert.strictEqual(await loader.instanceExists(oldName), false)
+
+        // Cloud resources are still found using original name
+        const newManager = await getUnitTestDummyProviderClient().getInstanceManager(newName)
+        const status = await newManager.getInstanceStatus()
+        assert.strictEqual(status.serverStatus, ServerRunningStatus.Running)
+
+        const newEvents = await newManager.getEventJournal()
+        assert.deepStrictEqual(newEvents.slice(0, -1), oldEvents)
+        assert.strictEqual(newEvents[newEvents.length - 1].type, InstanceEventEnum.Renamed)
+
+        // Renaming back to original name removes resource name
+        const renamedBack = await renamer.rename(newName, oldName)
+        assert.strictEqual(renamedBack.name, oldName)
+        assert.strictEqual(renamedBack.resourceName, undefined)
+    })
+
+    it('should not rename to an existing instance', async () => {
+        await initializeDummyInstanceState("rename-test-existing-1")
+        await initializeDummyInstanceState("rename-test-existing-2")
+
+        const renamer = new InstanceRenamer({ config: getUnitTestCoreConfig() })
+        await assert.rejects(renamer.rename("rename-test-existing-1", "rename-test-existing-2"), /already exists/)
+        await assert.rejects(renamer.rename("rename-test-missing", "rename-test-other"), /not found/)
+
+        const loader = getUnitTestDummyProviderClient().getStateLoader()
+        assert.strictEqual(await loader.instanceExists("rename-test-existing-1"), true)
+    })
+
+    it('should not reuse original name of a renamed instance', async () => {
+        await initializeDummyInstanceState("rename-test-original")
+        await initializeDummyInstanceState("rename-test-another")
+
+        const renamer = new InstanceRenamer({ config: getUnitTestCoreConfig() })
+        await renamer.rename("rename-test-original", "rename-test-renamed")
+
+        // Cloud resources of renamed instance still use original name
+        await assert.rejects(renamer.rename("rename-test-another", "rename-test-original"), /already used by Cloud resources of instance rename-test-renamed/)
+        await assert.rejects(
+            new InstanceCloner({ config: getUnitTestCoreConfig() }).clone("rename-test-another", "rename-test-original"),
+            /already used by Cloud resources of instance rename-test-renamed/
+        )
+
+        const loader = getUnitTestDummyProviderClient().getStateLoader()
+        assert.strictEqual(await loader.instanceExists("rename-test-original"), false)
+        assert.strictEqual(await loader.instanceExists("rename-test-another"), true)
+
+        await assert.rejects(renamer.rename("rename-test-another", "Not_Kebab_Case"), /Invalid instance name/)
+    })
+})
@@ -0,0 +1,88 @@
+import * as assert from 'assert'
+import { getDueScheduledAction, getNextScheduledRun, getScheduledRuns, InstanceScheduler, parseCronExpression, SCHEDULED_ACTION_START, SCHEDULED_ACTION_STOP, toCronExpression, validateTimezone } from '../../../src/core/schedule'
+import { InstanceEventEnum } from '../../../src/core/state/state'
+import { getUnitTestCoreConfig, getUnitTestDummyProviderClient, initializeDummyInstanceState } from '../utils'
+
+describe('Instance schedules', () => {
+
+    it('should parse cron expressions', () => {
+        const cron = parseCronExpression("*/20 19-21 * jan,dec mon-fri,7")
+        assert.deepStrictEqual([ ...cron.minutes ], [ 0, 20, 40 ])
+        assert.deepStrictEqual([ ...cron.hours ], [ 19, 20, 21 ])
+        assert.deepStrictEqual([ ...cron.months ], [ 1, 12 ])
+        assert.deepStrictEqual([ ...cron.daysOfWeek ].sort(), [ 0, 1, 2, 3, 4, 5 ])
+        assert.strictEqual(cron.daysOfMonthRestricted, false)
+        assert.strictEqual(cron.daysOfWeekRestricted, true)
+
+        assert.throws(() => parseCronExpression("0 19 * *"), /expected 5 fields/)
+        assert.throws(() => parseCronExpression("0 24 * * *"), /Invalid value '24'/)
+        assert.throws(() => parseCronExpression("0 19 * * 5-1"), /Invalid range/)
+
+        assert.strictEqual(toCronExpression("19:00"), "0 19 * * *")
+        assert.strictEqual(toCronExpression("01:30"), "30 1 * * *")
+        assert.strictEqual(toCronExpression("0 1 * * sat"), "0 1 * * sat")
+        assert.throws(() => toCronExpression("25:00"), /Invalid value '25'/)
+
+        validateTimezone("Europe/Paris")
+        assert.throws(() => validateTimezone("Mars/Olympus"), /Invalid timezone/)
+    })
+
+    it('should compute scheduled runs in timezone', () => {
+        const since = Date.parse("2025-06-13T00:00:00Z") // Friday
+
+        // 19:00 in Paris is 17:00 UTC in summer
+        assert.deepStrictEqual(getScheduledRuns("0 19 * * *", "Europe/Paris", since, since + 2 * 24 * 3600 * 1000).map(t => new Date(t).toISOString()), [
+            "2025-06-13T17:00:00.000Z",
+            "2025-06-14T17:00:00.000Z",
+        ])
+
+        // day of month or day of week when both are restricted
+        assert.deepStrictEqual(getScheduledRuns("0 12 15 * mon", "UTC", since, since + 4 * 24 * 3600 * 1000).map(t => new Date(t).toISOString()), [
+            "2025-06-15T12:00:00.000Z",
+            "2025-06-16T12:00:00.000Z",
+        ])
+
+        assert.strictEqual(getNextScheduledRun("0 1 * * mon", "UTC", since), Date.parse("2025-06-16T01:00:00Z"))
+        assert.strictEqual(getNextScheduledRun("0 1 30 2 *", "UTC", since), undefined)
+    })
+
+    it('should get latest due scheduled action', () => {
+        const schedule = { start: "0 19 * * *", stop: "0 1 * * *" }
+        const at = (date: string) => Date.parse(date)
+
+        assert.deepStrictEqual(getDueScheduledAction(schedule, at("2025-06-13T18:00:00Z"), at("2025-06-13T19:00:00Z")),
+            { action: SCHEDULED_ACTION_START, scheduledAt: at("2025-06-13T19:00:00Z") })
+
+        // missed runs: only latest action is due
+        assert.deepStrictEqual(getDueScheduledAction(schedule, at("2025-06-13T18:00:00Z"), at("2025-06-14T02:00:00Z")),
+            { action: SCHEDULED_ACTION_STOP, scheduledAt: at("2025-06-14T01:00:00Z") })
+
+        assert.strictEqual(getDueScheduledAction(schedule, at("2025-06-13T19:00:00Z"), at("2025-06-13T20:00:00Z")), undefined)
+        assert.strictEqual(getDueScheduledAction({ stop: "0 1 * * *" }, at("2025-06-13T18:00:00Z"), at("2025-06-13T20:00:00Z")), undefined)
+    })
+
+    it('should start and stop instances on schedule', async () => {
+        const instanceName = "schedule-test-instance"
+        await initializeDummyInstanceState(instanceName)
+        await initializeDummyInstanceState("schedule-test-no-schedule")
+
+        const manager = await getUnitTestDummyProviderClient().getInstanceManager(instanceName)
+        await manager.provision()
+        await manager.setSchedule({ start: "0 19 * * *", stop: "0 1 * * *", timezone: "Europe/Paris" })
+
+        const scheduler = new InstanceScheduler({ config: getUnitTestCoreConfig() })
+        const instanceNames = [ instanceName, "schedule-test-no-schedule" ]
+
+        const stopResults = await scheduler.runScheduledActions(Date.parse("2025-06-13T22:00:00Z"), Date.parse("2025-06-13T23:00:00Z"), { instanceNames: instanceNames })
+        assert.deepStrictEqual(stopResults, [ { instanceName: instanceName, action: SCHEDULED_ACTION_STOP, scheduledAt: Date.parse("2025-06-13T23:00:00Z") } ])
+
+        const startResults = await scheduler.runScheduledActions(Date.parse("2025-06-14T16:00:00Z"), Date.parse("2025-06-14T17:00:00Z"), { instanceNames: instanceNames })
+        assert.deepStrictEqual(startResults, [ { instanceName: instanceName, action: SCHEDULED_ACTION_START, scheduledAt: Date.parse("2025-06-14T17:00:00Z") } ])
+
+        const eventTypes = (await manager.getEventJournal()).map(e => e.type)
+        assert.deepStrictEqual(eventTypes.slice(-4), [ InstanceEventEnum.StopBegin, InstanceEventEnum.StopEnd, InstanceEventEnum.StartBegin, InstanceEventEnum.StartEnd ])
+
+        await manager.setSchedule(undefined)
+        assert.deepStrictEqual(await scheduler.runScheduledActions(Date.parse("2025-06-13T22:00:00Z"), Date.parse("2025-06-13T23:00:00Z"), { instanceNames: instanceNames }), [])
+    })
+})
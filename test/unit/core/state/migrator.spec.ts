@@ -0,0 +1,70 @@
+import * as assert from 'assert'
+import * as fs from 'fs'
+import * as path from 'path'
+import { LocalStateSideEffect } from '../../../../src/core/state/side-effects/local'
+import { StateMigrator, STATE_MIGRATION_STATUS_FAILED, STATE_MIGRATION_STATUS_MIGRATED, STATE_MIGRATION_STATUS_SKIPPED } from '../../../../src/core/state/migrator'
+import { InstanceEventEnum } from '../../../../src/core/state/state'
+import { createTempTestDir, loadDumyAnonymousStateV1 } from '../../utils'
+
+describe('StateMigrator', function () {
+
+    const sourceDir = createTempTestDir('state-migrator-source')
+    const targetDir = createTempTestDir('state-migrator-target')
+
+    const source = new LocalStateSideEffect({ dataRootDir: sourceDir })
+    const target = new LocalStateSideEffect({ dataRootDir: targetDir })
+
+    const awsState = loadDumyAnonymousStateV1('aws-dummy')
+    const azureState = loadDumyAnonymousStateV1('azure-dummy')
+
+    before(async function () {
+        await source.persistState(awsState)
+        await source.persistState(azureState)
+        await source.appendEventJournal('aws-dummy', { type: InstanceEventEnum.StopBegin, timestamp: 1 })
+    })
+
+    it('should copy states and event journal to target backend', async function () {
+        const migrator = new StateMigrator({ source: source, target: target })
+        const results = await migrator.migrate()
+
+        assert.deepStrictEqual(results, [
+            { instanceName: 'aws-dummy', status: STATE_MIGRATION_STATUS_MIGRATED },
+            { instanceName: 'azure-dummy', status: STATE_MIGRATION_STATUS_MIGRATED },
+        ])
+
+        assert.deepStrictEqual(await target.loadRawInstanceState('aws-dummy'), awsState)
+        assert.deepStrictEqual(await target.loadRawInstanceState('azure-dummy'), azureState)
+        assert.deepStrictEqual(await target.loadEventJournal('aws-dummy'), [{ type: InstanceEventEnum.StopBegin, timestamp: 1 }])
+
+        // source is left untouched and unlocked
+        assert.deepStrictEqual(await source.loadRawInstanceState('aws-dummy'), awsState)
+        assert.strictEqual(await source.getLock('aws-dummy'), undefined)
+    })
+
+    it('should skip instances existing in target unless overwrite is enabled', async function () {
+        const migrator = new StateMigrator({ source: source, target: target })
+
+        const skipped = await migrator.migrate({ instanceNames: ['aws-dummy'] })
+        assert.strictEqual(skipped[0].status, STATE_MIGRATION_STATUS_SKIPPED)
+
+        const overwritten = await migrator.migrate({ instanceNames: ['aws-dummy'], overwrite: true })
+        assert.strictEqual(overwritten[0].status, STATE_MIGRATION_STATUS_MIGRATED)
+    })
+
+    it('should report invalid and missing instances as failed without stopping migration', async function () {
+        const brokenDir = path.join(sourceDir, 'instances', 'broken-dummy')
+        fs.mkdirSync(brokenDir, { recursive: true })
+        fs.writeFileSync(path.join(brokenDir, 'state.yml'), 'name: broken-dummy\nversion: "1"\n')
+
+        const migrator = new StateMigrator({ source: source, target: target })
+        const results = await migrator.migrate({ instanceNames: ['broken-dummy', 'not-existing', 'azure-dummy'], overwrite: true })
+
+        assert.deepStrictEqual(results.map(r => r.status), [
+            STATE_MIGRATION_STATUS_FAILED,
+            STATE_MIGRATION_STATUS_FAILED,
+            STATE_MIGRATION_STATUS_MIGRATED
+        ])
+        assert.strictEqual(await target.instanceExists('broken-dummy'), false)
+        assert.strictEqual(await source.getLock('broken-dummy'), undefined)
+    })
+})
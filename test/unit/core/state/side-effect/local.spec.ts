@@ -5,6 +5,7 @@ import * as path from 'path'
 import * as yaml from 'yaml'
 import { LocalStateSideEffect } from '../../../../../src/core/state/side-effects/local'
 import { createTempTestDir, loadDumyAnonymousStateV1 } from '../../../utils'
+import { InstanceLockedError, newInstanceLockInfo } from '../../../../../src/core/state/lock'
 
 describe('LocalStateSideEffect', function () {
 
@@ -70,6 +71,57 @@ describe('LocalStateSideEffect', function () {
         }, /does not exist/)
     })
 
+    it('should lock instance and tell who holds lock', async function () {
+        const lockPath = path.join(expectStateFileDir, 'lock.json')
+
+        const lock = await sideEffect.acquireLock('aws-dummy', 60)
+        assert.ok(fs.existsSync(lockPath))
+        assert.deepStrictEqual(await sideEffect.getLock('aws-dummy'), lock)
+
+        await assert.rejects(sideEffect.acquireLock('aws-dummy', 60), (error: unknown) => {
+            assert.ok(error instanceof InstanceLockedError)
+            assert.strictEqual(error.lockInfo.lockId, lock.lockId)
+            assert.ok(error.message.includes(`PID ${process.pid}`))
+            return true
+        })
+
+        const renewed = await sideEffect.renewLock(lock, 120)
+        assert.ok(renewed.expiresAt > lock.expiresAt)
+        assert.deepStrictEqual(await sideEffect.getLock('aws-dummy'), renewed)
+
+        // releasing a lock not held does nothing
+        await sideEffect.releaseLock(newInstanceLockInfo('aws-dummy', 60))
+        assert.ok(fs.existsSync(lockPath))
+
+        await sideEffect.releaseLock(renewed)
+        assert.ok(!fs.existsSync(lockPath))
+    })
+
+    it('should take over stale locks', async function () {
+        const lockPath = path.join(expectStateFileDir, 'lock.json')
+
+        // lock from a process no longer running on this host
+        const deadProcessLock = { ...newInstanceLockInfo('aws-dummy', 60), pid: 2 ** 30 }
+        fs.writeFileSync(lockPath, JSON.stringify(deadProcessLock))
+        const lock = await sideEffect.acquireLock('aws-dummy', 60)
+        assert.notStrictEqual(lock.lockId, deadProcessLock.lockId)
+
+        // expired lock from another host
+        const expiredLock = { ...newInstanceLockInfo('aws-dummy', 60), host: 'other-host', expiresAt: Date.now() - 1000 }
+        fs.writeFileSync(lockPath, JSON.stringify(expiredLock))
+        const lock2 = await sideEffect.acquireLock('aws-dummy', 60)
+        assert.notStrictEqual(lock2.lockId, expiredLock.lockId)
+
+        // non-expired lock from another host can't be checked and is not taken over
+        const otherHostLock = { ...newInstanceLockInfo('aws-dummy', 60), host: 'other-host', pid: 2 ** 30 }
+        fs.writeFileSync(lockPath, JSON.stringify(otherHostLock))
+        await assert.rejects(sideEffect.acquireLock('aws-dummy', 60), InstanceLockedError)
+
+        const removed = await sideEffect.forceUnlock('aws-dummy')
+        assert.strictEqual(removed?.lockId, otherHostLock.lockId)
+        assert.ok(!fs.existsSync(lockPath))
+    })
+
     it('should destroy instance state', async function () {
         await sideEffect.destroyState('aws-dummy')
         
@@ -0,0 +1,162 @@
+import * as assert from 'assert'
+import * as sinon from 'sinon'
+import * as yaml from 'yaml'
+import { GetObjectCommandOutput } from '@aws-sdk/client-s3'
+import { S3StateSideEffect } from '../../../../../src/core/state/side-effects/s3'
+import { S3ClientWrapper, S3PreconditionFailedError } from '../../../../../src/tools/s3'
+import { InstanceLockedError, InstanceLockInfo, newInstanceLockInfo, StateConcurrentModificationError } from '../../../../../src/core/state/lock'
+import { STATE_MAX_REVISIONS } from '../../../../../src/core/state/revisions'
+import { InstanceEventEnum } from '../../../../../src/core/state/state'
+import { loadDumyAnonymousStateV1 } from '../../../utils'
+
+describe('S3StateSideEffect', function () {
+
+    const instanceName = 'aws-dummy'
+
+    let sandbox: sinon.SinonSandbox
+    let sideEffect: S3StateSideEffect
+
+    function s3Object(content: string, etag: string): GetObjectCommandOutput {
+        return { $metadata: {}, Body: { transformToString: async () => content } as GetObjectCommandOutput["Body"], ETag: etag }
+    }
+
+    function lockObject(lock: InstanceLockInfo, etag: string): GetObjectCommandOutput {
+        return s3Object(JSON.stringify(lock), etag)
+    }
+
+    beforeEach(() => {
+        sandbox = sinon.createSandbox()
+        sideEffect = new S3StateSideEffect({ bucketName: 'dummy-bucket', s3ClientConfig: { region: 'eu-west-1' } })
+    })
+
+    afterEach(() => {
+        sandbox.restore()
+    })
+
+    it('should create lock only if it does not exist', async function () {
+        const putStub = sandbox.stub(S3ClientWrapper.prototype, 'putObject').resolves({ ETag: '"lock-etag"', $metadata: {} })
+
+        const lock = await sideEffect.acquireLock(instanceName, 60)
+
+        assert.strictEqual(lock.instanceName, instanceName)
+        assert.strictEqual(lock.pid, process.pid)
+        assert.strictEqual(putStub.callCount, 1)
+        assert.strictEqual(putStub.firstCall.args[0].Key, `instances/${instanceName}/lock.json`)
+        assert.strictEqual(putStub.firstCall.args[0].IfNoneMatch, '*')
+    })
+
+    it('should fail to acquire lock held by someone else', async function () {
+        const otherLock = newInstanceLockInfo(instanceName, 60)
+        sandbox.stub(S3ClientWrapper.prototype, 'putObject').rejects(new S3PreconditionFailedError("dummy precondition failed"))
+        sandbox.stub(S3ClientWrapper.prototype, 'getObjectIfExists').resolves(lockObject(otherLock, '"other-etag"'))
+
+        await assert.rejects(sideEffect.acquireLock(instanceName, 60), (error: unknown) => {
+            assert.ok(error instanceof InstanceLockedError)
+            assert.deepStrictEqual(error.lockInfo, otherLock)
+            assert.ok(error.message.includes(otherLock.owner))
+            return true
+        })
+    })
+
+    it('should take over expired lock', async function () {
+        const expiredLock = { ...newInstanceLockInfo(instanceName, 60), expiresAt: Date.now() - 1000 }
+        const putStub = sandbox.stub(S3ClientWrapper.prototype, 'putObject')
+        putStub.onFirstCall().rejects(new S3PreconditionFailedError("dummy precondition failed"))
+        putStub.onSecondCall().resolves({ ETag: '"new-etag"', $metadata: {} })
+        sandbox.stub(S3ClientWrapper.prototype, 'getObjectIfExists').resolves(lockObject(expiredLock, '"expired-etag"'))
+
+        const lock = await sideEffect.acquireLock(instanceName, 60)
+
+        assert.notStrictEqual(lock.lockId, expiredLock.lockId)
+        assert.strictEqual(putStub.secondCall.args[0].IfMatch, '"expired-etag"')
+    })
+
+    it('should only release lock held by caller', async function () {
+        const lock = newInstanceLockInfo(instanceName, 60)
+        const otherLock = newInstanceLockInfo(instanceName, 60)
+        const getStub = sandbox.stub(S3ClientWrapper.prototype, 'getObjectIfExists').resolves(lockObject(otherLock, '"other-etag"'))
+        const deleteStub = sandbox.stub(S3ClientWrapper.prototype, 'deleteObject').resolves({ $metadata: {} })
+
+        await sideEffect.releaseLock(lock)
+        assert.strictEqual(deleteStub.callCount, 0)
+
+        getStub.resolves(lockObject(lock, '"etag"'))
+        await sideEffect.releaseLock(lock)
+        assert.strictEqual(deleteStub.callCount, 1)
+    })
+
+    it('should write state conditionally on last loaded ETag and fail on concurrent modification', async function () {
+        const state = loadDumyAnonymousStateV1(instanceName)
+        sandbox.stub(S3ClientWrapper.prototype, 'getObject').resolves(s3Object(yaml.stringify(state), '"loaded-etag"'))
+        const putStub = sandbox.stub(S3ClientWrapper.prototype, 'putObject').resolves({ ETag: '"written-etag"', $metadata: {} })
+        sandbox.stub(S3ClientWrapper.prototype, 'listObjectsV2').resolves({ Contents: [], $metadata: {} })
+
+        const stateKey = `instances/${instanceName}/state.yml`
+        const statePuts = () => putStub.getCalls().filter(c => c.args[0].Key === stateKey)
+
+        await sideEffect.loadRawInstanceState(instanceName)
+        await sideEffect.persistState(state)
+        assert.strictEqual(statePuts()[0].args[0].IfMatch, '"loaded-etag"')
+
+        // next write expects ETag of previous write
+        await sideEffect.persistState(state)
+        assert.strictEqual(statePuts()[1].args[0].IfMatch, '"written-etag"')
+
+        putStub.rejects(new S3PreconditionFailedError("dummy precondition failed"))
+        await assert.rejects(sideEffect.persistState(state), StateConcurrentModificationError)
+    })
+
+    it('should keep state revisions and remove oldest ones', async function () {
+        const state = loadDumyAnonymousStateV1(instanceName)
+        const putStub = sandbox.stub(S3ClientWrapper.prototype, 'putObject').resolves({ ETag: '"etag"', $metadata: {} })
+        const deleteStub = sandbox.stub(S3ClientWrapper.prototype, 'deleteObject').resolves({ $metadata: {} })
+        const existingRevisions = Array.from({ length: STATE_MAX_REVISIONS }, (_, i) => ({ Key: `instances/${instanceName}/revisions/${i + 1}.yml` }))
+        sandbox.stub(S3ClientWrapper.prototype, 'listObjectsV2').resolves({ Contents: existingRevisions, $metadata: {} })
+
+        await sideEffect.persistState(state, "dummy-action")
+
+        const revisionPut = putStub.getCalls().find(c => c.args[0].Key === `instances/${instanceName}/revisions/${STATE_MAX_REVISIONS + 1}.yml`)
+        assert.ok(revisionPut)
+        const revision = yaml.parse(revisionPut.args[0].Body as string)
+        assert.strictEqual(revision.action, "dummy-action")
+        assert.deepStrictEqual(revision.state, state)
+
+        assert.strictEqual(deleteStub.callCount, 1)
+        assert.strictEqual(deleteStub.firstCall.args[0].Key, `instances/${instanceName}/revisions/1.yml`)
+    })
+
+    it('should append event to journal conditionally and retry on concurrent modification', async function () {
+        const journalKey = `instances/${instanceName}/events.jsonl`
+        const existingEntry = '{"type":"init","timestamp":1}\n'
+        const concurrentEntry = '{"type":"provision-begin","timestamp":2}\n'
+
+        const getStub = sandbox.stub(S3ClientWrapper.prototype, 'getObjectIfExists')
+        getStub.onFirstCall().resolves(undefined)
+        getStub.onSecondCall().resolves(s3Object(existingEntry, '"journal-etag-1"'))
+        getStub.onThirdCall().resolves(s3Object(existingEntry + concurrentEntry, '"journal-etag-2"'))
+
+        const putStub = sandbox.stub(S3ClientWrapper.prototype, 'putObject')
+        putStub.onSecondCall().rejects(new S3PreconditionFailedError("dummy precondition failed"))
+        putStub.resolves({ ETag: '"written-etag"', $metadata: {} })
+
+        // journal does not exist yet
+        await sideEffect.appendEventJournal(instanceName, { type: InstanceEventEnum.Init, timestamp: 1 })
+        assert.strictEqual(putStub.firstCall.args[0].Key, journalKey)
+        assert.strictEqual(putStub.firstCall.args[0].IfNoneMatch, '*')
+
+        // journal modified between read and write: append is retried on latest journal
+        await sideEffect.appendEventJournal(instanceName, { type: InstanceEventEnum.StartBegin, timestamp: 3 })
+        assert.strictEqual(putStub.callCount, 3)
+        assert.strictEqual(putStub.secondCall.args[0].IfMatch, '"journal-etag-1"')
+        assert.strictEqual(putStub.thirdCall.args[0].IfMatch, '"journal-etag-2"')
+        assert.strictEqual(putStub.thirdCall.args[0].Body, existingEntry + concurrentEntry + '{"type":"start-begin","timestamp":3}\n')
+    })
+
+    it('should fail to append event to journal after too many concurrent modifications', async function () {
+        sandbox.stub(S3ClientWrapper.prototype, 'getObjectIfExists').resolves(s3Object("", '"journal-etag"'))
+        const putStub = sandbox.stub(S3ClientWrapper.prototype, 'putObject').rejects(new S3PreconditionFailedError("dummy precondition failed"))
+
+        await assert.rejects(sideEffect.appendEventJournal(instanceName, { type: InstanceEventEnum.Init, timestamp: 1 }), /modified concurrently/)
+        assert.strictEqual(putStub.callCount, 5)
+    })
+})
@@ -319,6 +319,35 @@ describe('StateWriter', function () {
         assert.strictEqual(twelveEvents[9].timestamp, eventDate.getTime() + 11)
     })
 
+    it('should keep full event history in event journal with failure details', async function () {
+        const { writer } = await getTestWriter()
+        const eventDate = new Date("2025-01-01T01:00:00Z")
+
+        // no journal yet, fallback to state events
+        assert.deepStrictEqual(await writer.getEventJournal(testInstanceName), [])
+
+        for (let i = 0; i < 15; i++) {
+            await writer.addEvent(testInstanceName, InstanceEventEnum.StopBegin, new Date(eventDate.getTime() + i))
+        }
+        await writer.addEvent(testInstanceName, InstanceEventEnum.StopFailed, new Date(eventDate.getTime() + 15), {
+            error: "Dummy stop failure",
+            durationMs: 42
+        })
+
+        const state = await writer.getCurrentState(testInstanceName)
+        assert.strictEqual(state.events?.length, 10)
+
+        const journal = await writer.getEventJournal(testInstanceName)
+        assert.strictEqual(journal.length, 16)
+        assert.strictEqual(journal[0].timestamp, eventDate.getTime())
+        assert.deepStrictEqual(journal[15], {
+            type: InstanceEventEnum.StopFailed,
+            timestamp: eventDate.getTime() + 15,
+            error: "Dummy stop failure",
+            durationMs: 42
+        })
+    })
+
     it('should update metadata when setting provision and configuration outputs', async function () {
         const { dataDir, writer } = await getTestWriter()
 
@@ -367,5 +396,42 @@ describe('StateWriter', function () {
         assert.strictEqual(stateAfterSecondProvision.metadata?.lastConfigurationCloudypadVersion, CLOUDYPAD_VERSION)
     })
 
-    
-})
\ No newline at end of file
+    it('should keep state revisions with action and rollback to a previous revision', async function () {
+        const { dataDir, writer } = await getTestWriter()
+
+        await writer.withAction("dummy-action", async () => {
+            await writer.updateProvisionInput(testInstanceName, { instanceType: "dummy-revision-2" })
+        })
+        await writer.updateProvisionInput(testInstanceName, { instanceType: "dummy-revision-3" })
+
+        const revisions = await writer.listRevisions(testInstanceName)
+        assert.deepStrictEqual(revisions.map(r => r.revision), [1, 2, 3])
+        assert.deepStrictEqual(revisions.map(r => r.action), ["set-state", "dummy-action: update-provision-input", "update-provision-input"])
+        assert.ok(revisions.every(r => r.cloudypadVersion === CLOUDYPAD_VERSION))
+
+        const restored = await writer.rollbackToRevision(testInstanceName, 2)
+        assert.strictEqual(restored.provision.input.instanceType, "dummy-revision-2")
+        assert.strictEqual(loadResultPersistedState(dataDir).provision.input.instanceType, "dummy-revision-2")
+
+        // rollback is kept as a new revision
+        const revisionsAfterRollback = await writer.listRevisions(testInstanceName)
+        assert.strictEqual(revisionsAfterRollback[3].action, "rollback to revision 2")
+
+        await assert.rejects(writer.rollbackToRevision(testInstanceName, 42), /not found/)
+    })
+
+    it('should not rollback to an invalid state revision', async function () {
+        const { dataDir, writer } = await getTestWriter()
+
+        // corrupt revision on disk
+        const revisionPath = path.join(dataDir, "instances", testInstanceName, "revisions", "1.yml")
+        const revision = yaml.parse(fs.readFileSync(revisionPath, 'utf-8'))
+        revision.state.provision.input.ssh = "not-an-object"
+        fs.writeFileSync(revisionPath, yaml.stringify(revision))
+
+        await writer.updateProvisionInput(testInstanceName, { instanceType: "dummy-current" })
+
+        await assert.rejects(writer.rollbackToRevision(testInstanceName, 1), /not a valid state/)
+        assert.strictEqual(loadResultPersistedState(dataDir).provision.input.instanceType, "dummy-current")
+    })
+})
@@ -0,0 +1,90 @@
+import * as assert from 'assert'
+import { formatUsageReport, formatUsageReportCsv, getMonthStart, getRunningIntervals, UsageReport, UsageReporter } from '../../../src/core/usage'
+import { InstanceEventEnum } from '../../../src/core/state/state'
+import { StateManagerBuilder } from '../../../src/core/state/builders'
+import { getUnitTestCoreConfig, initializeDummyInstanceState } from '../utils'
+
+describe('Usage report', () => {
+
+    const hour = 60 * 60 * 1000
+    const t0 = Date.parse("2025-06-01T00:00:00Z")
+
+    const events = [
+        { type: InstanceEventEnum.ProvisionBegin, timestamp: t0 - 2 * hour },
+        { type: InstanceEventEnum.ProvisionEnd, timestamp: t0 - hour },
+        { type: InstanceEventEnum.StopBegin, timestamp: t0 + hour },
+        { type: InstanceEventEnum.StopEnd, timestamp: t0 + 2 * hour },
+        // re-provisioning a stopped instance does not start it
+        { type: InstanceEventEnum.ProvisionEnd, timestamp: t0 + 3 * hour },
+        { type: InstanceEventEnum.StartEnd, timestamp: t0 + 10 * hour },
+        // failed stop: instance still running
+        { type: InstanceEventEnum.StopFailed, timestamp: t0 + 11 * hour },
+        { type: InstanceEventEnum.RestartEnd, timestamp: t0 + 12 * hour },
+        { type: InstanceEventEnum.StopEnd, timestamp: t0 + 14 * hour },
+        { type: InstanceEventEnum.StartEnd, timestamp: t0 + 20 * hour },
+    ]
+
+    it('should derive running intervals from events', () => {
+        assert.deepStrictEqual(getRunningIntervals(events, t0, t0 + 24 * hour), [
+            { start: t0, end: t0 + 2 * hour, ongoing: false },
+            { start: t0 + 10 * hour, end: t0 + 14 * hour, ongoing: false },
+            { start: t0 + 20 * hour, end: t0 + 24 * hour, ongoing: true },
+        ])
+
+        // events after period are ignored
+        assert.deepStrictEqual(getRunningIntervals(events, t0 + 5 * hour, t0 + 12 * hour), [
+            { start: t0 + 10 * hour, end: t0 + 12 * hour, ongoing: true },
+        ])
+
+        assert.deepStrictEqual(getRunningIntervals([], t0, t0 + hour), [])
+        assert.strictEqual(getMonthStart(new Date("2025-06-17T09:12:44Z")), t0)
+    })
+
+    it('should format usage report', () => {
+        const report: UsageReport = {
+            since: t0,
+            until: t0 + 24 * hour,
+            instances: [
+                { instanceName: "my-instance", provider: "aws", runningHours: 6, intervals: [], hourlyCost: 0.5, estimatedCost: 3, currency: "USD" },
+                { instanceName: "other", provider: "dummy", runningHours: 4, intervals: [ { start: t0 + 20 * hour, end: t0 + 24 * hour, ongoing: true } ] },
+            ],
+            failures: [ { instanceName: "broken", error: "invalid state" } ],
+        }
+
+        const expected = [
+            "INSTANCE     PROVIDER  RUNNING HOURS  EST. COMPUTE COST",
+            "my-instance  aws       6.0            3.00 USD",
+            "other        dummy     4.0 (running)  unknown",
+            "",
+            "Usage from 2025-06-01T00:00:00.000Z to 2025-06-02T00:00:00.000Z.",
+            "Couldn't compute usage of instance broken: invalid state",
+        ].join("\n")
+        assert.strictEqual(formatUsageReport(report), expected)
+
+        const expectedCsv = [
+            "instance,provider,since,until,running_hours,estimated_cost,currency",
+            "my-instance,aws,2025-06-01T00:00:00.000Z,2025-06-02T00:00:00.000Z,6.00,3.00,USD",
+            "other,dummy,2025-06-01T00:00:00.000Z,2025-06-02T00:00:00.000Z,4.00,,",
+        ].join("\n")
+        assert.strictEqual(formatUsageReportCsv(report), expectedCsv)
+    })
+
+    it('should report instance usage from event journal', async () => {
+        const instanceName = "usage-test-instance"
+        await initializeDummyInstanceState(instanceName)
+
+        const sideEffect = new StateManagerBuilder({ stateBackend: getUnitTestCoreConfig().stateBackend }).buildSideEffect()
+        for(const event of events){
+            await sideEffect.appendEventJournal(instanceName, event)
+        }
+
+        const reporter = new UsageReporter({ config: getUnitTestCoreConfig() })
+        const report = await reporter.report({ since: t0, until: t0 + 24 * hour, instanceNames: [ instanceName, "usage-test-unknown" ] })
+
+        assert.strictEqual(report.instances.length, 1)
+        assert.strictEqual(report.instances[0].instanceName, instanceName)
+        assert.strictEqual(report.instances[0].runningHours, 10)
+        assert.strictEqual(report.instances[0].estimatedCost, undefined)
+        assert.deepStrictEqual(report.failures.map(f => f.instanceName), [ "usage-test-unknown" ])
+    })
+})
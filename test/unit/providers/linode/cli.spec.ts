@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import { LinodeCreateCliArgs, LinodeInputPrompter } from '../../../../src/providers/linode/cli';
+import { DEFAULT_COMMON_CLI_ARGS, DEFAULT_COMMON_INPUT, getUnitTestCoreConfig } from '../../utils';
+import { PartialDeep } from 'type-fest';
+import lodash from 'lodash';
+import { LinodeInstanceInput } from '../../../../src/providers/linode/state';
+
+describe('Linode input prompter', () => {
+
+    const instanceName = "linode-dummy"
+    const coreConfig = getUnitTestCoreConfig()
+
+    const TEST_INPUT: LinodeInstanceInput = {
+        instanceName: instanceName,
+        provision: {
+            ...DEFAULT_COMMON_INPUT.provision,
+            ssh: {
+                ...DEFAULT_COMMON_INPUT.provision.ssh,
+                user: "root"
+            },
+            region: "fr-par",
+            instanceType: "g2-gpu-rtx4000a1-s",
+            rootDiskSizeGb: 50,
+            dataDiskSizeGb: 100,
+            imageId: "private/12345678",
+            dns: {
+                domainName: "instances.example.com",
+                record: "linode-dummy",
+            },
+            watchdogEnabled: true,
+            deleteInstanceServerOnStop: true,
+            baseImageSnapshot: { enable: true, keepOnDeletion: true }
+        },
+        configuration: {
+            ...DEFAULT_COMMON_INPUT.configuration
+        }
+    }
+
+    const TEST_CLI_ARGS: LinodeCreateCliArgs = {
+        ...DEFAULT_COMMON_CLI_ARGS,
+        name: instanceName,
+        rootDiskSize: TEST_INPUT.provision.rootDiskSizeGb,
+        dataDiskSize: TEST_INPUT.provision.dataDiskSizeGb,
+        instanceType: TEST_INPUT.provision.instanceType,
+        region: TEST_INPUT.provision.region,
+        imageId: TEST_INPUT.provision.imageId,
+        dnsDomainName: TEST_INPUT.provision.dns?.domainName,
+        dnsRecord: TEST_INPUT.provision.dns?.record,
+        baseImageSnapshot: true,
+        baseImageKeepOnDeletion: true
+    }
+
+    it('should return provided inputs without prompting when full input provider', async () => {
+        const result = await new LinodeInputPrompter({ coreConfig: coreConfig }).promptInput(TEST_INPUT, { autoApprove: true })
+        assert.deepEqual(result, TEST_INPUT)
+    })
+
+    it('should not set DNS when no domain name is provided and auto-approve is set', async () => {
+        const input = lodash.omit(TEST_INPUT, "provision.dns")
+        const result = await new LinodeInputPrompter({ coreConfig: coreConfig }).promptInput(input, { autoApprove: true })
+        assert.strictEqual(result.provision.dns, undefined)
+    })
+
+    it('should convert CLI args into partial input', () => {
+        const prompter = new LinodeInputPrompter({ coreConfig: coreConfig })
+        const result = prompter.cliArgsIntoPartialInput(TEST_CLI_ARGS)
+
+        const expected: PartialDeep<LinodeInstanceInput> = {
+            ...TEST_INPUT,
+            provision: {
+                ...lodash.omit(TEST_INPUT.provision, "watchdogEnabled", "deleteInstanceServerOnStop"),
+                ssh: lodash.omit(TEST_INPUT.provision.ssh, "user"),
+            },
+            configuration: {
+                ...TEST_INPUT.configuration,
+                wolf: null
+            }
+        }
+
+        assert.deepEqual(result, expected)
+    })
+})
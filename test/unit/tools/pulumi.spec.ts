@@ -1,7 +1,7 @@
 import * as assert from 'assert'
 import * as sinon from 'sinon'
-import { InstancePulumiClient, InstancePulumiClientArgs } from '../../../src/tools/pulumi/client'
-import { ConcurrentUpdateError, OutputMap } from '@pulumi/pulumi/automation'
+import { engineEventToResourceChange, InstancePulumiClient, InstancePulumiClientArgs } from '../../../src/tools/pulumi/client'
+import { ConcurrentUpdateError, EngineEvent, OpType, OutputMap } from '@pulumi/pulumi/automation'
 import { error } from 'console'
 
 // Mock implementation for testing
@@ -123,3 +123,43 @@ describe('InstancePulumiClient', () => {
         })
     })
 })
+
+describe('Pulumi preview changes', () => {
+
+    function resourcePreEvent(op: string, type: string, name: string, extra?: object): EngineEvent {
+        return {
+            sequence: 1,
+            timestamp: 0,
+            resourcePreEvent: {
+                metadata: {
+                    op: op as OpType,
+                    urn: `urn:pulumi:stack::project::${type}::${name}`,
+                    type: type,
+                    provider: "",
+                    ...extra
+                }
+            }
+        }
+    }
+
+    it('should only keep resource changes from preview events', () => {
+        assert.strictEqual(engineEventToResourceChange(resourcePreEvent("same", "aws:ec2/eip:Eip", "ip")), undefined)
+        assert.strictEqual(engineEventToResourceChange(resourcePreEvent("create", "pulumi:pulumi:Stack", "stack")), undefined)
+        assert.strictEqual(engineEventToResourceChange(resourcePreEvent("create-replacement", "aws:ec2/instance:Instance", "vm")), undefined)
+        assert.strictEqual(engineEventToResourceChange({ sequence: 1, timestamp: 0, diagnosticEvent: { message: "foo", color: "never", severity: "info" } }), undefined)
+
+        assert.deepStrictEqual(engineEventToResourceChange(resourcePreEvent("create", "aws:ec2/eip:Eip", "ip")), {
+            urn: "urn:pulumi:stack::project::aws:ec2/eip:Eip::ip",
+            name: "ip",
+            type: "aws:ec2/eip:Eip",
+            operation: "create",
+            diffs: [],
+            replaceKeys: [],
+        })
+
+        const replaced = engineEventToResourceChange(resourcePreEvent("replace", "aws:ec2/instance:Instance", "vm", { diffs: ["ami", "tags"], keys: ["ami"] }))
+        assert.strictEqual(replaced?.operation, "replace")
+        assert.deepStrictEqual(replaced?.diffs, ["ami", "tags"])
+        assert.deepStrictEqual(replaced?.replaceKeys, ["ami"])
+    })
+})
@@ -0,0 +1,20 @@
+import * as assert from 'assert'
+import { createTarGz, extractTarGz } from '../../../src/tools/tar'
+
+describe('Tar utils', () => {
+
+    it('should create and extract a gzipped tar archive', () => {
+        const entries = [
+            { name: "manifest.json", content: Buffer.from('{"version":1}') },
+            { name: "data/content.bin", content: Buffer.alloc(1500, 7) },
+            { name: "empty", content: Buffer.alloc(0) },
+        ]
+
+        const archive = createTarGz(entries)
+        assert.deepStrictEqual(extractTarGz(archive), entries)
+    })
+
+    it('should fail on invalid archive', () => {
+        assert.throws(() => extractTarGz(Buffer.from("not an archive")), /Not a gzipped archive/)
+    })
+})